@@ -6,18 +6,32 @@ import { TypeOrmConfigService } from './modules/typeorm-config/services/typeorm-
 
 import { AddressModule } from './modules/address/address.module'
 import { AuthModule } from './modules/auth/auth.module'
+import { AuthorModule } from './modules/author/author.module'
+import { CatalogModule } from './modules/catalog/catalog.module'
 import { CategoryModule } from './modules/category/category.module'
+import { CouponModule } from './modules/coupon/coupon.module'
 import { FirebaseModule } from './modules/firebase/firebase.module'
 import { MediaModule } from './modules/media/media.module'
+import { NotificationModule } from './modules/notification/notification.module'
 import { OrderModule } from './modules/order/order.module'
 import { PasswordModule } from './modules/password/password.module'
+import { PaymentModule } from './modules/payment/payment.module'
 import { ProductGroupModule } from './modules/product-group/product-group.module'
+import { ProductImageModule } from './modules/product-image/product-image.module'
+import { ProductSubscriptionModule } from './modules/product-subscription/product-subscription.module'
 import { ProductModule } from './modules/product/product.module'
 import { RatingModule } from './modules/rating/rating.module'
+import { ReportModule } from './modules/report/report.module'
+import { ReturnRequestModule } from './modules/return-request/return-request.module'
 import { SearchModule } from './modules/search/search.module'
+import { ShipmentModule } from './modules/shipment/shipment.module'
+import { ShippingModule } from './modules/shipping/shipping.module'
 import { ShoppingCartModule } from './modules/shopping-cart/shopping-cart.module'
+import { StockReservationModule } from './modules/stock-reservation/stock-reservation.module'
 import { TypeOrmConfigModule } from './modules/typeorm-config/typeorm-config.module'
 import { UserModule } from './modules/user/user.module'
+import { WishlistModule } from './modules/wishlist/wishlist.module'
+import { WorkModule } from './modules/work/work.module'
 
 @Module({
   imports: [
@@ -34,6 +48,20 @@ import { UserModule } from './modules/user/user.module'
     SearchModule,
     FirebaseModule,
     ProductGroupModule,
+    PaymentModule,
+    ShippingModule,
+    CouponModule,
+    StockReservationModule,
+    WishlistModule,
+    ReturnRequestModule,
+    ShipmentModule,
+    ReportModule,
+    NotificationModule,
+    ProductSubscriptionModule,
+    AuthorModule,
+    CatalogModule,
+    WorkModule,
+    ProductImageModule,
     ConfigModule.forRoot({
       envFilePath: ['.env'],
     }),
@@ -0,0 +1,48 @@
+/* eslint-disable @typescript-eslint/ban-types */
+
+import { applyDecorators } from '@nestjs/common'
+import { ApiQuery } from '@nestjs/swagger'
+
+import { ReportPeriod } from 'src/models/enums/report-period.enum'
+
+/**
+ * Decorator that sets the date range and period swagger properties of the
+ * report routes
+ *
+ * @param hasPeriod stores if the route groups its data by period
+ */
+export function ApiQueryReport(
+  hasPeriod = true,
+): <TFunction extends Function, Y>(
+  target: object | TFunction,
+  propertyKey?: string | symbol,
+  descriptor?: TypedPropertyDescriptor<Y>,
+) => void {
+  const decorators = [
+    ApiQuery({
+      required: false,
+      name: 'from',
+      type: 'string',
+      description: 'The start date of the range, 30 days ago by default',
+    }),
+    ApiQuery({
+      required: false,
+      name: 'to',
+      type: 'string',
+      description: 'The end date of the range, now by default',
+    }),
+  ]
+
+  if (hasPeriod) {
+    decorators.push(
+      ApiQuery({
+        required: false,
+        name: 'period',
+        enum: ReportPeriod,
+        description: 'The period used to group the timeline, day by default',
+      }),
+    )
+  }
+
+  return applyDecorators(...decorators)
+}
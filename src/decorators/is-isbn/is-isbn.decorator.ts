@@ -0,0 +1,57 @@
+import { isValidIsbn } from 'src/utils/isbn'
+
+import {
+  registerDecorator,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator'
+
+/**
+ * Decorator that validates the isbn-10 or isbn-13 value passed in the
+ * request body
+ *
+ * @returns a function with the data needed to validated the isbn
+ */
+export function IsIsbn(
+  validationOptions?: ValidationOptions,
+): (object: unknown, propertyName: string) => void {
+  return function(object: unknown, propertyName: string): void {
+    registerDecorator({
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      constraints: [],
+      validator: IsIsbnValidatorConstraint,
+    })
+  }
+}
+
+/**
+ * The app's main "is isbn" validator class
+ *
+ * Class that is used to validate some isbn value passed
+ * in some dto using the "class-validator" logic
+ */
+@ValidatorConstraint()
+class IsIsbnValidatorConstraint implements ValidatorConstraintInterface {
+  /**
+   * Method that validates if the isbn passed is valid or not
+   *
+   * @param value stores the isbn value
+   * @returns true if the isbn is valid, otherwise false
+   */
+  public validate(value: unknown): boolean {
+    return typeof value === 'string' && isValidIsbn(value)
+  }
+
+  /**
+   * Method that returns a default message informing which
+   * error has thrown
+   *
+   * @returns the error message
+   */
+  public defaultMessage(): string {
+    return 'The isbn is not valid!'
+  }
+}
@@ -0,0 +1,45 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+
+/**
+ * Interface that represents some product that has not enough stock
+ */
+export interface StockShortage {
+  productId: number
+  productName: string
+  requested: number
+  available: number
+}
+
+/**
+ * Instantiate a InsufficientStockException Exception.
+ *
+ * @example
+ * ```typescript
+ * throw new InsufficientStockException([
+ *   { productId: 1, productName: 'Book', requested: 3, available: 1 },
+ * ])
+ * ```
+ *
+ * @param shortages stores the products that have not enough stock
+ */
+export class InsufficientStockException extends HttpException {
+  public constructor(shortages: StockShortage[]) {
+    super(
+      {
+        statusCode: HttpStatus.BAD_REQUEST,
+        message: `There is not enough stock of ${shortages
+          .map(
+            ({ productName, requested, available }) =>
+              `"${productName}" (${requested - available} missing)`,
+          )
+          .join(', ')}`,
+        error: 'Bad Request',
+        products: shortages.map(shortage => ({
+          ...shortage,
+          missing: shortage.requested - shortage.available,
+        })),
+      },
+      HttpStatus.BAD_REQUEST,
+    )
+  }
+}
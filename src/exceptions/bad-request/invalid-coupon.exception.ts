@@ -0,0 +1,21 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+
+/**
+ * Instantiate a InvalidCouponException Exception.
+ *
+ * @example
+ * ```typescript
+ * throw new InvalidCouponException('PAPER10', 'The coupon has expired')
+ * ```
+ *
+ * @param code stores the coupon code
+ * @param reason stores why the coupon can not be used
+ */
+export class InvalidCouponException extends HttpException {
+  public constructor(code: string, reason: string) {
+    super(
+      `The coupon "${code}" can not be used: ${reason}`,
+      HttpStatus.BAD_REQUEST,
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+
+/**
+ * Instantiate a InvalidOrderStatusTransitionException Exception.
+ *
+ * @example
+ * ```typescript
+ * throw new InvalidOrderStatusTransitionException(OrderStatus.Pendent, OrderStatus.Delivered)
+ * ```
+ *
+ * @param from stores the current order status
+ * @param to stores the requested order status
+ */
+export class InvalidOrderStatusTransitionException extends HttpException {
+  public constructor(from: OrderStatus, to: OrderStatus) {
+    super(
+      `The order status can not be changed from "${OrderStatus[from]}" to "${OrderStatus[to]}"`,
+      HttpStatus.CONFLICT,
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+
+import { PaymentStatus } from 'src/models/enums/payment-status.enum'
+
+/**
+ * Instantiate a InvalidPaymentStatusTransitionException Exception.
+ *
+ * @example
+ * ```typescript
+ * throw new InvalidPaymentStatusTransitionException(PaymentStatus.Refunded, PaymentStatus.Captured)
+ * ```
+ *
+ * @param from stores the current payment status
+ * @param to stores the requested payment status
+ */
+export class InvalidPaymentStatusTransitionException extends HttpException {
+  public constructor(from: PaymentStatus, to: PaymentStatus) {
+    super(
+      `The payment status can not be changed from "${from}" to "${to}"`,
+      HttpStatus.CONFLICT,
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+
+/**
+ * Instantiate a OrderNotPayableException Exception.
+ *
+ * @example
+ * ```typescript
+ * throw new OrderNotPayableException(1, OrderStatus.Canceled)
+ * ```
+ *
+ * @param orderId stores the order id
+ * @param status stores the current order status
+ */
+export class OrderNotPayableException extends HttpException {
+  public constructor(orderId: number, status: OrderStatus) {
+    super(
+      `The order "${orderId}" is "${status}", so its payments can not be captured`,
+      HttpStatus.CONFLICT,
+    )
+  }
+}
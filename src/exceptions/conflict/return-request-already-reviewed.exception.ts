@@ -0,0 +1,22 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+
+import { ReturnRequestStatus } from 'src/models/enums/return-request-status.enum'
+
+/**
+ * Instantiate a ReturnRequestAlreadyReviewedException Exception.
+ *
+ * @example
+ * ```typescript
+ * throw new ReturnRequestAlreadyReviewedException(ReturnRequestStatus.Approved)
+ * ```
+ *
+ * @param status stores the current return request status
+ */
+export class ReturnRequestAlreadyReviewedException extends HttpException {
+  public constructor(status: ReturnRequestStatus) {
+    super(
+      `The return request was already reviewed and is "${status}"`,
+      HttpStatus.CONFLICT,
+    )
+  }
+}
@@ -0,0 +1,15 @@
+import { HttpException, HttpStatus } from '@nestjs/common'
+
+/**
+ * Instantiate a InvalidWebhookSignatureException Exception.
+ *
+ * @example
+ * ```typescript
+ * throw new InvalidWebhookSignatureException()
+ * ```
+ */
+export class InvalidWebhookSignatureException extends HttpException {
+  public constructor() {
+    super('The webhook signature is invalid', HttpStatus.UNAUTHORIZED)
+  }
+}
@@ -0,0 +1,51 @@
+import { IsNull, MigrationInterface, QueryRunner } from 'typeorm'
+
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { WorkEntity } from 'src/modules/work/entities/work.entity'
+
+import { WorkService } from 'src/modules/work/services/work.service'
+
+import { isValidIsbn, toIsbn13 } from 'src/utils/isbn'
+
+/**
+ * Migration that links the products created before the works existed to
+ * their works. The products with the same isbn become offers of the same
+ * work, and the variants follow their products
+ */
+export class BackfillProductWorks1760900000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const { manager } = queryRunner
+
+    const products = await manager.find(ProductEntity, {
+      where: { workId: IsNull(), parentId: IsNull() },
+      relations: ['authors'],
+      order: { id: 'ASC' },
+    })
+
+    for (const product of products) {
+      const isbn =
+        product.isbn && isValidIsbn(product.isbn) ? product.isbn : undefined
+
+      const work =
+        (isbn &&
+          (await manager.findOne(WorkEntity, { isbn: toIsbn13(isbn) }))) ||
+        (await WorkService.createFromOffer(manager, { ...product, isbn }))
+
+      await manager.update(
+        ProductEntity,
+        { id: product.id },
+        { workId: work.id },
+      )
+      await manager.update(
+        ProductEntity,
+        { parentId: product.id },
+        { workId: work.id },
+      )
+    }
+  }
+
+  public async down(): Promise<void> {
+    // the works are kept, since new offers may already be linked to them
+    return
+  }
+}
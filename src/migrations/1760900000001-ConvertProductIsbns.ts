@@ -0,0 +1,32 @@
+import { IsNull, MigrationInterface, Not, QueryRunner } from 'typeorm'
+
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+
+import { isValidIsbn, toIsbn13 } from 'src/utils/isbn'
+
+/**
+ * Migration that converts the isbn-10 of the products created before the
+ * isbns were stored in their isbn-13 version, so both the isbn-10 and the
+ * isbn-13 searches find them
+ */
+export class ConvertProductIsbns1760900000001 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const { manager } = queryRunner
+
+    const products = await manager.find(ProductEntity, {
+      select: ['id', 'isbn'],
+      where: { isbn: Not(IsNull()) },
+    })
+
+    for (const { id, isbn } of products) {
+      if (!isValidIsbn(isbn) || toIsbn13(isbn) === isbn) continue
+
+      await manager.update(ProductEntity, { id }, { isbn: toIsbn13(isbn) })
+    }
+  }
+
+  public async down(): Promise<void> {
+    // the isbn-13 values are valid for every book, so they are kept
+    return
+  }
+}
@@ -0,0 +1,48 @@
+import { IsNull, MigrationInterface, Not, QueryRunner } from 'typeorm'
+
+import { AddressEntity } from 'src/modules/address/entities/address.entity'
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+
+/**
+ * Migration that copies to the orders created before the address snapshot
+ * existed the address of the buyer address book with the same cep and
+ * house number, when it still exists
+ */
+export class BackfillOrderAddresses1760900000002 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const { manager } = queryRunner
+
+    const orders = await manager.find(OrderEntity, {
+      select: ['id', 'userId', 'cep', 'houseNumber'],
+      where: { cep: Not(IsNull()), street: IsNull() },
+    })
+
+    for (const { id, userId, cep, houseNumber } of orders) {
+      const address = await manager.findOne(AddressEntity, {
+        userId,
+        cep,
+        houseNumber,
+      })
+
+      if (!address) continue
+
+      await manager.update(
+        OrderEntity,
+        { id },
+        {
+          street: address.street,
+          complement: address.complement,
+          district: address.district,
+          city: address.city,
+          state: address.state,
+        },
+      )
+    }
+  }
+
+  public async down(): Promise<void> {
+    // the copied addresses are kept, since they can not be told apart from
+    // the ones saved in the checkout
+    return
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Enum that represents the formats that some book can be sold
+ */
+export enum BookFormat {
+  Paperback = 'paperback',
+  Hardcover = 'hardcover',
+  Ebook = 'ebook',
+}
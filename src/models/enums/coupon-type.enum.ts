@@ -0,0 +1,8 @@
+/**
+ * Enum that has all the kinds of discount that a coupon can give
+ */
+export enum CouponType {
+  Percentage = 'percentage',
+  FixedAmount = 'fixed-amount',
+  FreeShipping = 'free-shipping',
+}
@@ -0,0 +1,9 @@
+/**
+ * Enum that represents the events that the users are notified about
+ */
+export enum NotificationType {
+  LowStock = 'low-stock',
+  OutOfStock = 'out-of-stock',
+  BackInStock = 'back-in-stock',
+  PriceDrop = 'price-drop',
+}
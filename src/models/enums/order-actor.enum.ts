@@ -0,0 +1,9 @@
+/**
+ * Enum that has all the actors that can change the status of some order
+ */
+export enum OrderActor {
+  Buyer = 'buyer',
+  Seller = 'seller',
+  Admin = 'admin',
+  System = 'system',
+}
@@ -4,5 +4,12 @@
 export enum OrderStatus {
   Pendent = 0,
   Confirmed = 1,
-  Canceled = 2
+  Canceled = 2,
+  Paid = 3,
+  Preparing = 4,
+  Shipped = 5,
+  InTransit = 6,
+  Delivered = 7,
+  Returned = 8,
+  Refunded = 9
 }
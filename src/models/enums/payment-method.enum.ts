@@ -0,0 +1,8 @@
+/**
+ * Enum that has all the payment methods accepted in the checkout
+ */
+export enum PaymentMethod {
+  Pix = 'pix',
+  Boleto = 'boleto',
+  CreditCard = 'credit-card',
+}
@@ -0,0 +1,10 @@
+/**
+ * Enum that has all the status that a payment can assume
+ */
+export enum PaymentStatus {
+  Authorized = 'authorized',
+  Captured = 'captured',
+  Refunded = 'refunded',
+  Failed = 'failed',
+  Canceled = 'canceled',
+}
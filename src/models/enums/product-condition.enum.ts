@@ -0,0 +1,8 @@
+/**
+ * Enum that represents the conditions of the items sold in some offer
+ */
+export enum ProductCondition {
+  New = 'new',
+  LikeNew = 'like-new',
+  Used = 'used',
+}
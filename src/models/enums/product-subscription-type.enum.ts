@@ -0,0 +1,8 @@
+/**
+ * Enum that represents the events that the buyers can subscribe to in some
+ * product
+ */
+export enum ProductSubscriptionType {
+  Restock = 'restock',
+  PriceBelow = 'price-below',
+}
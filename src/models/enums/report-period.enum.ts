@@ -0,0 +1,8 @@
+/**
+ * Enum that has all the periods used to group the reports data
+ */
+export enum ReportPeriod {
+  Day = 'day',
+  Week = 'week',
+  Month = 'month',
+}
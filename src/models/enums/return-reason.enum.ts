@@ -0,0 +1,11 @@
+/**
+ * Enum that has all the reasons that a buyer can give to return some items
+ */
+export enum ReturnReason {
+  Damaged = 'damaged',
+  Defective = 'defective',
+  WrongItem = 'wrong-item',
+  NotAsDescribed = 'not-as-described',
+  NoLongerNeeded = 'no-longer-needed',
+  Other = 'other',
+}
@@ -0,0 +1,8 @@
+/**
+ * Enum that has all the status that a return request can assume
+ */
+export enum ReturnRequestStatus {
+  Requested = 'requested',
+  Approved = 'approved',
+  Rejected = 'rejected',
+}
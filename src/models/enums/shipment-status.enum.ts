@@ -0,0 +1,13 @@
+/**
+ * Enum that has all the status that a shipment can assume, based on the
+ * events sent by the carriers
+ */
+export enum ShipmentStatus {
+  LabelCreated = 'label-created',
+  PickedUp = 'picked-up',
+  InTransit = 'in-transit',
+  OutForDelivery = 'out-for-delivery',
+  Delivered = 'delivered',
+  DeliveryFailed = 'delivery-failed',
+  ReturnedToSender = 'returned-to-sender',
+}
@@ -0,0 +1,8 @@
+/**
+ * Enum that has all the problems that prevent some shopping cart line
+ * from being bought
+ */
+export enum ShoppingCartLineIssue {
+  ProductDisabled = 'product-disabled',
+  InsufficientStock = 'insufficient-stock',
+}
@@ -9,10 +9,12 @@ import { LocalStrategyService } from './services/local.strategy.service'
 import { AuthController } from './controllers/auth.controller'
 
 import { PasswordModule } from '../password/password.module'
+import { ShoppingCartModule } from '../shopping-cart/shopping-cart.module'
 
 @Module({
   imports: [
     PasswordModule,
+    ShoppingCartModule,
     ConfigModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
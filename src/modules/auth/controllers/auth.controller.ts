@@ -1,4 +1,4 @@
-import { Controller, Post, UseGuards } from '@nestjs/common'
+import { Body, Controller, Post, UseGuards } from '@nestjs/common'
 import {
   ApiBody,
   ApiOkResponse,
@@ -18,6 +18,7 @@ import { LoginDto } from '../models/login.dto'
 import { TokenDto } from '../models/token.dto'
 
 import { AuthService } from '../services/auth.service'
+import { GuestShoppingCartService } from 'src/modules/shopping-cart/services/guest-shopping-cart.service'
 
 /**
  * The app's main auth controller class
@@ -27,12 +28,18 @@ import { AuthService } from '../services/auth.service'
 @ApiTags('auth')
 @Controller('auth')
 export class AuthController {
-  public constructor(private readonly authService: AuthService) {}
+  public constructor(
+    private readonly authService: AuthService,
+    private readonly guestShoppingCartService: GuestShoppingCartService,
+  ) {}
 
   /**
-   * Method that is called when the user access the "/auth/local" route
+   * Method that is called when the user access the "/auth/local" route.
+   * When some guest shopping cart token is sent, its products are moved to
+   * the user shopping cart
    *
    * @param requestUser stores the user data who is accessing the route
+   * @param loginPayload stores the login data
    * @returns the token data
    */
   @ApiOperation({ summary: 'Authenticates the user' })
@@ -46,7 +53,15 @@ export class AuthController {
   @Post('local')
   public async login(
     @RequestUser() requestUser: UserEntity,
+    @Body() loginPayload: LoginDto,
   ): Promise<TokenDto> {
+    if (loginPayload.cartToken) {
+      await this.guestShoppingCartService.mergeIntoUserCart(
+        loginPayload.cartToken,
+        requestUser,
+      )
+    }
+
     return await this.authService.login(requestUser)
   }
 
@@ -1,8 +1,14 @@
-import { ApiProperty } from '@nestjs/swagger'
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
 
 import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
 
-import { IsDefined, IsEmail, IsString, MinLength } from 'class-validator'
+import {
+  IsDefined,
+  IsEmail,
+  IsOptional,
+  IsString,
+  MinLength,
+} from 'class-validator'
 
 /**
  * The app's main login dto class
@@ -21,4 +27,13 @@ export class LoginDto {
   @IsString({ message: DefaultValidationMessages.IsString })
   @MinLength(6, { message: 'The password mut have, at least, 6 characters.' })
   public password: string
+
+  /**
+   * The token of the guest shopping cart that will be merged into the user
+   * shopping cart
+   */
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  public cartToken?: string
 }
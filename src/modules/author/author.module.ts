@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { AuthorEntity } from './entities/author.entity'
+
+import { AuthorService } from './services/author.service'
+
+import { AuthorController } from './controllers/author.controller'
+
+@Module({
+  imports: [TypeOrmModule.forFeature([AuthorEntity])],
+  controllers: [AuthorController],
+  providers: [AuthorService],
+  exports: [AuthorService],
+})
+export class AuthorModule {}
@@ -0,0 +1,183 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseInterceptors,
+} from '@nestjs/common'
+import {
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+import {
+  Crud,
+  CrudRequest,
+  CrudRequestInterceptor,
+  GetManyDefaultResponse,
+  ParsedRequest,
+} from '@nestjsx/crud'
+
+import { ApiQueryGetMany } from 'src/decorators/api-query-get-many/api-query-get-many.decorator'
+import { ApiQueryGet } from 'src/decorators/api-query-get/api-query-get.decorator'
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+
+import { AuthorDto, GetManyAuthorDtoResponse } from '../models/author.dto'
+import { CreateAuthorDto } from '../models/create-author.dto'
+import { UpdateAuthorDto } from '../models/update-author.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { AuthorService } from '../services/author.service'
+
+import { map } from 'src/utils/crud'
+
+/**
+ * The app's main author controller class
+ *
+ * Class that deals with the author routes
+ */
+@Crud({
+  model: {
+    type: AuthorDto,
+  },
+  query: {
+    persist: ['id', 'isActive'],
+    filter: [{ field: 'isActive', operator: '$eq', value: true }],
+    join: {
+      products: {},
+    },
+  },
+  routes: {
+    exclude: [
+      'createManyBase',
+      'createOneBase',
+      'updateOneBase',
+      'replaceOneBase',
+      'recoverOneBase',
+      'getOneBase',
+      'deleteOneBase',
+    ],
+  },
+})
+@UseInterceptors(CrudRequestInterceptor)
+@ApiTags('authors')
+@Controller('authors')
+export class AuthorController {
+  public constructor(private readonly authorService: AuthorService) {}
+
+  /**
+   * Method that is called when the user access the "/authors"
+   * route with "POST" method
+   *
+   * @param createAuthorPayload stores the new author data
+   * @returns the created author data
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({
+    summary: 'Creates a new author, or gets the author that has the same name',
+  })
+  @ApiCreatedResponse({
+    description: 'Gets the created author data',
+    type: AuthorDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Post()
+  public async create(
+    @Body() createAuthorPayload: CreateAuthorDto,
+  ): Promise<AuthorDto> {
+    const entity = await this.authorService.create(createAuthorPayload)
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "/authors" route
+   * with "GET" method
+   *
+   * @param crudRequest stores the joins, filters, etc
+   * @returns the found author entity dtos
+   */
+  @ApiQueryGetMany()
+  @ApiOperation({ summary: 'Retrieves multiple AuthorDto' })
+  @ApiOkResponse({
+    description: 'Get many base response',
+    type: GetManyAuthorDtoResponse,
+  })
+  @Get()
+  public async listMany(
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<AuthorDto> | AuthorDto[]> {
+    const entities = await this.authorService.listMany(crudRequest)
+    return map(entities, entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the "/authors/:id"
+   * route with "GET" method
+   *
+   * @param authorId stores the target author id
+   * @param crudRequest stores the joins, filters, etc
+   * @returns the found author entity dto
+   */
+  @ApiQueryGet()
+  @ApiOperation({ summary: 'Retrieve a single AuthorDto' })
+  @ApiOkResponse({
+    description: 'Retrieve a single AuthorDto',
+    type: AuthorDto,
+  })
+  @ApiNotFoundResponse({ description: 'Author not found' })
+  @Get(':id')
+  public async listOne(
+    @Param('id') authorId: number,
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<AuthorDto> {
+    const entity = await this.authorService.listOne(authorId, crudRequest)
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "/authors/:id"
+   * route with "PATCH"
+   *
+   * @param authorId stores the target author id
+   * @param updateAuthorPayload stores the new author data
+   * @throws {EntityNotFoundException} if the author was not found
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiOperation({ summary: 'Updates a single author' })
+  @ApiOkResponse({ description: 'Updates author' })
+  @ApiNotFoundResponse({ description: 'Author not found' })
+  @Patch(':id')
+  public async update(
+    @Param('id') authorId: number,
+    @Body() updateAuthorPayload: UpdateAuthorDto,
+  ): Promise<void> {
+    await this.authorService.update(authorId, updateAuthorPayload)
+  }
+
+  /**
+   * Method that is called when the user access the "/authors/:id"
+   * route with "DELETE" method
+   *
+   * @param authorId stores the target author id
+   * @throws {EntityNotFoundException} if the author was not found
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiOperation({ summary: 'Delete a single author' })
+  @ApiOkResponse({ description: 'Delete one base response' })
+  @ApiNotFoundResponse({ description: 'Author not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Delete(':id')
+  public async delete(@Param('id') authorId: number): Promise<void> {
+    await this.authorService.delete(authorId)
+  }
+}
@@ -0,0 +1,55 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, JoinTable, ManyToMany } from 'typeorm'
+
+import { BaseEntity } from 'src/common/base.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+
+import { AuthorDto } from '../models/author.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+
+/**
+ * The app's main author entity class
+ *
+ * Class that represents the entity that deals with the book authors
+ */
+@Entity('author')
+export class AuthorEntity extends BaseEntity implements ToDto<AuthorDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: false,
+    unique: true,
+  })
+  public name: string
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => ProductEntity, isArray: true })
+  @JoinTable()
+  @ManyToMany(
+    () => ProductEntity,
+    product => product.authors,
+  )
+  public products?: ProductEntity[]
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<AuthorEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): AuthorDto {
+    return new AuthorDto(this)
+  }
+}
@@ -0,0 +1,39 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { AuthorEntity } from '../entities/author.entity'
+
+import { BaseGetManyDefaultResponseDto } from 'src/common/base-get-many-default-response.dto'
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { ProductDto } from 'src/modules/product/models/product.dto'
+
+/**
+ * The app's main author dto class
+ *
+ * Class that deals with the author return data
+ */
+export class AuthorDto extends BaseResponseDto {
+  @ApiProperty()
+  public name: string
+
+  @ApiPropertyOptional({ type: () => ProductDto, isArray: true })
+  public products?: ProductDto[]
+
+  public constructor(entity: AuthorEntity) {
+    super(entity)
+
+    this.name = entity.name
+
+    // relations
+    this.products = entity.products?.map(product => product.toDto())
+  }
+}
+
+/**
+ * The app's main get many author dto response
+ *
+ * Class that deals with the author return data with pagination
+ */
+export class GetManyAuthorDtoResponse extends BaseGetManyDefaultResponseDto {
+  @ApiProperty({ type: AuthorDto, isArray: true })
+  public data: AuthorDto[]
+}
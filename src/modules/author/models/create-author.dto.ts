@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsDefined, IsNotEmpty, IsString, MaxLength } from 'class-validator'
+
+/**
+ * The app's main create author dto class
+ *
+ * Class that handles the dto sent by the user to perform the creation
+ */
+export class CreateAuthorDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the name' })
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(100)
+  public name: string
+}
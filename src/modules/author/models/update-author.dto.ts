@@ -0,0 +1,19 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator'
+
+/**
+ * The app's main update author dto class
+ *
+ * Class that handles the dto sent by the user to perform the update
+ */
+export class UpdateAuthorDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(100)
+  public name?: string
+}
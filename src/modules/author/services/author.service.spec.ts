@@ -0,0 +1,60 @@
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { AuthorEntity } from '../entities/author.entity'
+
+import { AuthorService } from './author.service'
+
+describe('AuthorService', () => {
+  let service: AuthorService
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        AuthorService,
+        {
+          provide: getRepositoryToken(AuthorEntity),
+          useValue: getRepository(AuthorEntity),
+        },
+      ],
+    }).compile()
+
+    service = await module.resolve(AuthorService)
+  })
+
+  describe('create', () => {
+    // tests if the sellers do not duplicate the authors
+    it('should return the author with the same name', async () => {
+      const first = await service.create({ name: 'Machado de Assis' })
+      const second = await service.create({ name: ' Machado de Assis ' })
+
+      expect(second.id).toBe(first.id)
+      expect(await AuthorEntity.count({ name: 'Machado de Assis' })).toBe(1)
+    })
+  })
+
+  describe('listOne', () => {
+    // tests if the "listOne" method is throwing an exception when it does not find an entity
+    it('should throw an "EntityNotFoundException" when it does not find an author', async () => {
+      await expect(service.listOne(0)).rejects.toThrow(EntityNotFoundException)
+    })
+  })
+})
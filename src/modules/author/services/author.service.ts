@@ -0,0 +1,118 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { CrudRequest, GetManyDefaultResponse } from '@nestjsx/crud'
+import { TypeOrmCrudService } from '@nestjsx/crud-typeorm'
+import { Repository } from 'typeorm'
+
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { AuthorEntity } from '../entities/author.entity'
+
+import { CreateAuthorDto } from '../models/create-author.dto'
+import { UpdateAuthorDto } from '../models/update-author.dto'
+
+/**
+ * The app's main author service class
+ *
+ * Class that deals with the book authors data
+ */
+@Injectable()
+export class AuthorService extends TypeOrmCrudService<AuthorEntity> {
+  public constructor(
+    @InjectRepository(AuthorEntity)
+    repository: Repository<AuthorEntity>,
+  ) {
+    super(repository)
+  }
+
+  /**
+   * Method that can save some entity in the database. When an author with
+   * the same name already exists, it is returned instead, so the sellers
+   * do not duplicate the authors of the books they sell
+   *
+   * @param createAuthorPayload stores the new author data
+   * @returns the created or found author
+   */
+  public async create(
+    createAuthorPayload: CreateAuthorDto,
+  ): Promise<AuthorEntity> {
+    const name = createAuthorPayload.name.trim()
+
+    const entity = await AuthorEntity.findOne({ name })
+
+    if (entity) return entity
+
+    return await new AuthorEntity({ name }).save()
+  }
+
+  /**
+   * Method that can get some author entities
+   *
+   * @param crudRequest stores the joins, filters, etc
+   * @returns the found author entities
+   */
+  public async listMany(
+    crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<AuthorEntity> | AuthorEntity[]> {
+    return await super.getMany(crudRequest)
+  }
+
+  /**
+   * Method that can get one author entity
+   *
+   * @param authorId stores the author id
+   * @param crudRequest stores the joins, filters, etc
+   * @throws {EntityNotFoundException} if the author entity was not found
+   * @returns the found author entity
+   */
+  public async listOne(
+    authorId: number,
+    crudRequest?: CrudRequest,
+  ): Promise<AuthorEntity> {
+    const entity: AuthorEntity = crudRequest
+      ? await super.getOne(crudRequest).catch(() => undefined)
+      : await AuthorEntity.findOne({ id: authorId })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(authorId, AuthorEntity)
+    }
+
+    return entity
+  }
+
+  /**
+   * Method that can update some author
+   *
+   * @param authorId stores the author id
+   * @param updateAuthorPayload stores the new author data
+   * @throws {EntityNotFoundException} if the author entity was not found
+   */
+  public async update(
+    authorId: number,
+    updateAuthorPayload: UpdateAuthorDto,
+  ): Promise<void> {
+    const entity = await AuthorEntity.findOne({ id: authorId })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(authorId, AuthorEntity)
+    }
+
+    await AuthorEntity.update({ id: authorId }, updateAuthorPayload)
+  }
+
+  /**
+   * Method that can delete some author
+   *
+   * @param authorId stores the author id
+   * @throws {EntityNotFoundException} if the author entity was not found
+   */
+  public async delete(authorId: number): Promise<void> {
+    const entity = await AuthorEntity.findOne({ id: authorId })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(authorId, AuthorEntity)
+    }
+
+    await AuthorEntity.delete({ id: authorId })
+  }
+}
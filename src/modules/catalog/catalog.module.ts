@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { CatalogRecordEntity } from './entities/catalog-record.entity'
+
+import { CatalogService } from './services/catalog.service'
+
+import { CatalogController } from './controllers/catalog.controller'
+
+import { BIBLIOGRAPHIC_SOURCE } from './sources/bibliographic-source.interface'
+import { LocalBibliographicSource } from './sources/local-bibliographic.source'
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CatalogRecordEntity])],
+  controllers: [CatalogController],
+  providers: [
+    CatalogService,
+    { provide: BIBLIOGRAPHIC_SOURCE, useClass: LocalBibliographicSource },
+  ],
+  exports: [CatalogService],
+})
+export class CatalogModule {}
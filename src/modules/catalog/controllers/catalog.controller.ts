@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Post,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common'
+import { FileInterceptor } from '@nestjs/platform-express'
+import {
+  ApiBadRequestResponse,
+  ApiConsumes,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+
+import { ApiFile } from 'src/decorators/api-file/api-file.decorator'
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+
+import { CatalogBookDto } from '../models/catalog-book.dto'
+import { CatalogImportDto } from '../models/catalog-import.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { CatalogService } from '../services/catalog.service'
+
+/**
+ * The app's main catalog controller class
+ *
+ * Class that deals with the bibliographic data routes
+ */
+@ApiTags('catalog')
+@Controller('catalog')
+export class CatalogController {
+  public constructor(private readonly catalogService: CatalogService) {}
+
+  /**
+   * Method that is called when the user access the "catalog/isbn/:isbn"
+   * route with "GET" method
+   *
+   * @param isbn stores the isbn-10 or isbn-13 of the book
+   * @throws {BadRequestException} if the isbn is not valid
+   * @throws {EntityNotFoundException} if the book was not found
+   * @returns the book data
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({
+    summary: 'Retrieves the bibliographic data of some book by its isbn',
+  })
+  @ApiOkResponse({
+    description: 'Gets the book data',
+    type: CatalogBookDto,
+  })
+  @ApiBadRequestResponse({ description: 'The isbn is not valid' })
+  @ApiNotFoundResponse({ description: 'Book not found' })
+  @Get('isbn/:isbn')
+  public async lookup(@Param('isbn') isbn: string): Promise<CatalogBookDto> {
+    return await this.catalogService.lookup(isbn)
+  }
+
+  /**
+   * Method that is called when the user access the "catalog/import"
+   * route with "POST" method
+   *
+   * @param file stores the csv or ONIX xml dataset
+   * @throws {BadRequestException} if the file is not a csv or xml file
+   * @returns the amount of imported and skipped books
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiOperation({
+    summary: 'Imports a csv or ONIX 3.0 dataset to the local catalog',
+  })
+  @ApiCreatedResponse({
+    description: 'Gets the amount of imported books',
+    type: CatalogImportDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'The file is not a csv or an ONIX xml file',
+  })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiFile('file')
+  @UseInterceptors(FileInterceptor('file'))
+  @Post('import')
+  public async import(
+    @UploadedFile() file: Express.Multer.File,
+  ): Promise<CatalogImportDto> {
+    return await this.catalogService.import(file)
+  }
+}
@@ -0,0 +1,110 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity } from 'typeorm'
+
+import { BaseEntity } from 'src/common/base.entity'
+
+import { BookFormat } from 'src/models/enums/book-format.enum'
+
+/**
+ * The app's main catalog record entity class
+ *
+ * Class that represents some book of the local bibliographic dataset
+ */
+@Entity('catalog-record')
+export class CatalogRecordEntity extends BaseEntity {
+  //#region Columns
+
+  /**
+   * The isbn-13 of the book, the isbn-10 values are converted before
+   * being stored
+   */
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 13,
+    nullable: false,
+    unique: true,
+  })
+  public isbn: string
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: false,
+  })
+  public title: string
+
+  @ApiProperty({ type: 'string', isArray: true })
+  @Column({
+    type: 'simple-json',
+    nullable: false,
+  })
+  public authors: string[]
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  public publisher?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'text',
+    nullable: true,
+  })
+  public coverUrl?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'text',
+    nullable: true,
+  })
+  public description?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public edition?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public publicationYear?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public pageCount?: number
+
+  @ApiPropertyOptional({ description: 'The ISO 639-1 language code' })
+  @Column({
+    type: 'varchar',
+    length: 2,
+    nullable: true,
+  })
+  public language?: string
+
+  @ApiPropertyOptional({ enum: BookFormat })
+  @Column({
+    type: 'varchar',
+    length: 16,
+    nullable: true,
+  })
+  public format?: BookFormat
+
+  //#endregion
+
+  public constructor(partial: Partial<CatalogRecordEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+}
@@ -0,0 +1,46 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { BookFormat } from 'src/models/enums/book-format.enum'
+
+/**
+ * The app's main catalog book dto class
+ *
+ * Class that deals with the data of some book found by its isbn
+ */
+export class CatalogBookDto {
+  @ApiProperty({ description: 'The name of the source that knows the book' })
+  public source: string
+
+  @ApiProperty({ description: 'The isbn-13 of the book' })
+  public isbn: string
+
+  @ApiProperty()
+  public title: string
+
+  @ApiProperty({ type: 'string', isArray: true })
+  public authors: string[]
+
+  @ApiPropertyOptional()
+  public publisher?: string
+
+  @ApiPropertyOptional()
+  public coverUrl?: string
+
+  @ApiPropertyOptional()
+  public description?: string
+
+  @ApiPropertyOptional()
+  public edition?: number
+
+  @ApiPropertyOptional()
+  public publicationYear?: number
+
+  @ApiPropertyOptional()
+  public pageCount?: number
+
+  @ApiPropertyOptional({ description: 'The ISO 639-1 language code' })
+  public language?: string
+
+  @ApiPropertyOptional({ enum: BookFormat })
+  public format?: BookFormat
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * The app's main catalog import dto class
+ *
+ * Class that deals with the result of some dataset import
+ */
+export class CatalogImportDto {
+  @ApiProperty({ description: 'The amount of books created or updated' })
+  public importedAmount: number
+
+  @ApiProperty({
+    description: 'The amount of books ignored due to invalid isbn or title',
+  })
+  public skippedAmount: number
+}
@@ -0,0 +1,152 @@
+import { BadRequestException } from '@nestjs/common'
+import { Test } from '@nestjs/testing'
+import { createConnection, getConnection } from 'typeorm'
+
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { BookFormat } from 'src/models/enums/book-format.enum'
+
+import { CatalogService } from './catalog.service'
+
+import { BIBLIOGRAPHIC_SOURCE } from '../sources/bibliographic-source.interface'
+import { LocalBibliographicSource } from '../sources/local-bibliographic.source'
+
+describe('CatalogService', () => {
+  let service: CatalogService
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        CatalogService,
+        { provide: BIBLIOGRAPHIC_SOURCE, useClass: LocalBibliographicSource },
+      ],
+    }).compile()
+
+    service = await module.resolve(CatalogService)
+  })
+
+  /**
+   * Function that creates a file like the ones sent through multipart
+   * forms
+   *
+   * @param originalname stores the file name
+   * @param content stores the file content
+   * @returns the file data
+   */
+  function createFile(
+    originalname: string,
+    content: string,
+  ): Express.Multer.File {
+    return {
+      originalname,
+      buffer: Buffer.from(content, 'utf-8'),
+    } as Express.Multer.File
+  }
+
+  describe('import', () => {
+    // tests if the csv books can be found by both isbn versions
+    it('should import a csv dataset', async () => {
+      const result = await service.import(
+        createFile(
+          'books.csv',
+          [
+            'isbn,title,authors,publisher,edition,publicationYear,pageCount,language,format',
+            '0306406152,"Dom Casmurro","Machado de Assis",Garnier,2,1899,256,pt,paperback',
+            '1234,Invalid,,,,,,,',
+          ].join('\n'),
+        ),
+      )
+
+      expect(result).toEqual({ importedAmount: 1, skippedAmount: 1 })
+      expect(await service.lookup('978-0-306-40615-7')).toMatchObject({
+        source: 'local',
+        isbn: '9780306406157',
+        title: 'Dom Casmurro',
+        authors: ['Machado de Assis'],
+        publicationYear: 1899,
+        language: 'pt',
+        format: BookFormat.Paperback,
+      })
+    })
+
+    // tests if the ONIX reference tags are read
+    it('should import an ONIX dataset', async () => {
+      await service.import(
+        createFile(
+          'books.xml',
+          `<ONIXMessage release="3.0">
+            <Product>
+              <ProductIdentifier>
+                <ProductIDType>15</ProductIDType>
+                <IDValue>9780804429573</IDValue>
+              </ProductIdentifier>
+              <DescriptiveDetail>
+                <ProductForm>BB</ProductForm>
+                <TitleDetail>
+                  <TitleElement>
+                    <TitleText>Memórias P&amp;óstumas</TitleText>
+                  </TitleElement>
+                </TitleDetail>
+                <Contributor>
+                  <ContributorRole>A01</ContributorRole>
+                  <NamesBeforeKey>Machado de</NamesBeforeKey>
+                  <KeyNames>Assis</KeyNames>
+                </Contributor>
+                <Language>
+                  <LanguageRole>01</LanguageRole>
+                  <LanguageCode>por</LanguageCode>
+                </Language>
+                <Extent>
+                  <ExtentType>00</ExtentType>
+                  <ExtentValue>320</ExtentValue>
+                </Extent>
+              </DescriptiveDetail>
+            </Product>
+          </ONIXMessage>`,
+        ),
+      )
+
+      expect(await service.lookup('0-8044-2957-X')).toMatchObject({
+        title: 'Memórias P&óstumas',
+        authors: ['Machado de Assis'],
+        pageCount: 320,
+        language: 'pt',
+        format: BookFormat.Hardcover,
+      })
+    })
+
+    // tests if only the supported formats are imported
+    it('should throw when the file is not a dataset', async () => {
+      await expect(service.import(createFile('books.pdf', ''))).rejects.toThrow(
+        BadRequestException,
+      )
+    })
+  })
+
+  describe('lookup', () => {
+    // tests if the isbn is validated before being searched
+    it('should validate the isbn', async () => {
+      await expect(service.lookup('9780306406158')).rejects.toThrow(
+        BadRequestException,
+      )
+      await expect(service.lookup('9788535902778')).rejects.toThrow(
+        EntityNotFoundException,
+      )
+    })
+  })
+})
@@ -0,0 +1,205 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common'
+
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { CatalogRecordEntity } from '../entities/catalog-record.entity'
+
+import { CatalogBookDto } from '../models/catalog-book.dto'
+import { CatalogImportDto } from '../models/catalog-import.dto'
+import { BookFormat } from 'src/models/enums/book-format.enum'
+
+import { parseCsv } from 'src/utils/csv'
+import { isValidIsbn, toIsbn13 } from 'src/utils/isbn'
+import { parseOnix } from 'src/utils/onix'
+
+import {
+  BIBLIOGRAPHIC_SOURCE,
+  BibliographicRecord,
+  BibliographicSource,
+} from '../sources/bibliographic-source.interface'
+
+/**
+ * The app's main catalog service class
+ *
+ * Class that deals with the bibliographic data used to fill the books
+ * sold in the marketplace
+ */
+@Injectable()
+export class CatalogService {
+  /**
+   * The ISO 639-1 codes of the ISO 639-2 languages used by the ONIX
+   * messages
+   */
+  private static readonly languages: Record<string, string> = {
+    por: 'pt',
+    eng: 'en',
+    spa: 'es',
+    fre: 'fr',
+    fra: 'fr',
+    ger: 'de',
+    deu: 'de',
+    ita: 'it',
+    jpn: 'ja',
+    chi: 'zh',
+    zho: 'zh',
+    rus: 'ru',
+    lat: 'la',
+  }
+
+  /**
+   * The book formats of the ONIX product form codes
+   */
+  private static readonly formats: Record<string, BookFormat> = {
+    BB: BookFormat.Hardcover,
+    BC: BookFormat.Paperback,
+    EA: BookFormat.Ebook,
+    EB: BookFormat.Ebook,
+    ED: BookFormat.Ebook,
+  }
+
+  public constructor(
+    @Inject(BIBLIOGRAPHIC_SOURCE)
+    private readonly source: BibliographicSource,
+  ) {}
+
+  /**
+   * Method that finds the data of some book in the bibliographic source
+   *
+   * @param isbn stores the isbn-10 or isbn-13 of the book
+   * @throws {BadRequestException} if the isbn is not valid
+   * @throws {EntityNotFoundException} if the source does not know the book
+   * @returns the book data
+   */
+  public async lookup(isbn: string): Promise<CatalogBookDto> {
+    if (!isValidIsbn(isbn)) {
+      throw new BadRequestException('The isbn is not valid')
+    }
+
+    const record = await this.find(isbn)
+
+    if (!record) {
+      throw new EntityNotFoundException(isbn)
+    }
+
+    return { source: this.source.name, ...record }
+  }
+
+  /**
+   * Method that finds the data of some book in the bibliographic source,
+   * without failing when it is not found
+   *
+   * @param isbn stores the valid isbn-10 or isbn-13 of the book
+   * @returns the book data or undefined if the source does not know it
+   */
+  public async find(isbn: string): Promise<BibliographicRecord | undefined> {
+    return await this.source.findByIsbn(toIsbn13(isbn))
+  }
+
+  /**
+   * Method that imports some csv or ONIX 3.0 dataset to the local
+   * bibliographic source. The books that were already imported are
+   * updated
+   *
+   * The csv files must have the "isbn", "title", "authors", "publisher",
+   * "coverUrl", "description", "edition", "publicationYear", "pageCount",
+   * "language" and "format" columns, with the authors separated by ";"
+   *
+   * @param file stores the dataset file
+   * @throws {BadRequestException} if the file is not a csv or xml file
+   * @returns the amount of imported and skipped books
+   */
+  public async import(file: Express.Multer.File): Promise<CatalogImportDto> {
+    const content = file?.buffer?.toString('utf-8') ?? ''
+
+    let records: Partial<BibliographicRecord>[]
+    if (/\.csv$/i.test(file?.originalname ?? '')) {
+      records = CatalogService.fromCsv(content)
+    } else if (/\.(xml|onix)$/i.test(file?.originalname ?? '')) {
+      records = CatalogService.fromOnix(content)
+    } else {
+      throw new BadRequestException(
+        'It is required to send a csv or an ONIX xml file',
+      )
+    }
+
+    let importedAmount = 0
+    let skippedAmount = 0
+
+    for (const record of records) {
+      if (!record.isbn || !isValidIsbn(record.isbn) || !record.title) {
+        skippedAmount++
+        continue
+      }
+
+      const isbn = toIsbn13(record.isbn)
+      const entity = await CatalogRecordEntity.findOne({ isbn })
+
+      await new CatalogRecordEntity({
+        ...entity,
+        ...record,
+        isbn,
+        title: record.title.slice(0, 100),
+        publisher: record.publisher?.slice(0, 100),
+        isActive: true,
+      }).save()
+
+      importedAmount++
+    }
+
+    return { importedAmount, skippedAmount }
+  }
+
+  /**
+   * Method that reads the books of some csv dataset
+   *
+   * @param content stores the csv file content
+   * @returns the data of each book
+   */
+  private static fromCsv(content: string): Partial<BibliographicRecord>[] {
+    return parseCsv(content).map(row => ({
+      isbn: row.isbn,
+      title: row.title?.trim(),
+      authors: (row.authors ?? '')
+        .split(';')
+        .map(author => author.trim())
+        .filter(author => author),
+      publisher: row.publisher?.trim() || undefined,
+      coverUrl: row.coverUrl?.trim() || undefined,
+      description: row.description?.trim() || undefined,
+      edition: CatalogService.toNumber(row.edition),
+      publicationYear: CatalogService.toNumber(row.publicationYear),
+      pageCount: CatalogService.toNumber(row.pageCount),
+      language: /^[a-z]{2}$/.test(row.language?.trim())
+        ? row.language.trim()
+        : undefined,
+      format: Object.values(BookFormat).find(format => format === row.format),
+    }))
+  }
+
+  /**
+   * Method that reads the books of some ONIX 3.0 dataset
+   *
+   * @param content stores the xml file content
+   * @returns the data of each book
+   */
+  private static fromOnix(content: string): Partial<BibliographicRecord>[] {
+    return parseOnix(content).map(
+      ({ languageCode, productForm, ...product }) => ({
+        ...product,
+        language: CatalogService.languages[languageCode?.toLowerCase()],
+        format: CatalogService.formats[productForm?.toUpperCase()],
+      }),
+    )
+  }
+
+  /**
+   * Method that converts some csv value to an integer
+   *
+   * @param value stores the csv value
+   * @returns the integer or undefined if the value is empty or invalid
+   */
+  private static toNumber(value?: string): number | undefined {
+    const number = parseInt(value, 10)
+    return isNaN(number) ? undefined : number
+  }
+}
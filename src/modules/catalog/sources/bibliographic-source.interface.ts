@@ -0,0 +1,59 @@
+import { BookFormat } from 'src/models/enums/book-format.enum'
+
+/**
+ * The token used to inject the bibliographic source that is currently in
+ * use
+ */
+export const BIBLIOGRAPHIC_SOURCE = 'BIBLIOGRAPHIC_SOURCE'
+
+/**
+ * Interface that represents the data of some book found in a
+ * bibliographic source
+ */
+export interface BibliographicRecord {
+  /**
+   * The isbn-13 of the book
+   */
+  isbn: string
+
+  title: string
+
+  authors: string[]
+
+  publisher?: string
+
+  coverUrl?: string
+
+  description?: string
+
+  edition?: number
+
+  publicationYear?: number
+
+  pageCount?: number
+
+  /**
+   * The ISO 639-1 language code
+   */
+  language?: string
+
+  format?: BookFormat
+}
+
+/**
+ * Interface that must be implemented by all the bibliographic sources
+ */
+export interface BibliographicSource {
+  /**
+   * The source name, returned with each lookup
+   */
+  readonly name: string
+
+  /**
+   * Method that finds the data of some book
+   *
+   * @param isbn stores the isbn-13 of the book
+   * @returns the book data or undefined if the source does not know it
+   */
+  findByIsbn(isbn: string): Promise<BibliographicRecord | undefined>
+}
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common'
+
+import { CatalogRecordEntity } from '../entities/catalog-record.entity'
+
+import {
+  BibliographicRecord,
+  BibliographicSource,
+} from './bibliographic-source.interface'
+
+/**
+ * The app's local bibliographic source class
+ *
+ * Class that finds the books in the dataset imported to the database, so
+ * the lookups work without any external service
+ */
+@Injectable()
+export class LocalBibliographicSource implements BibliographicSource {
+  public readonly name = 'local'
+
+  /**
+   * Method that finds the data of some imported book
+   *
+   * @param isbn stores the isbn-13 of the book
+   * @returns the book data or undefined if it was not imported
+   */
+  public async findByIsbn(
+    isbn: string,
+  ): Promise<BibliographicRecord | undefined> {
+    const entity = await CatalogRecordEntity.findOne({ isbn, isActive: true })
+
+    if (!entity) return undefined
+
+    const {
+      title,
+      authors,
+      publisher,
+      coverUrl,
+      description,
+      edition,
+      publicationYear,
+      pageCount,
+      language,
+      format,
+    } = entity
+
+    return {
+      isbn,
+      title,
+      authors,
+      publisher,
+      coverUrl,
+      description,
+      edition,
+      publicationYear,
+      pageCount,
+      language,
+      format,
+    }
+  }
+}
@@ -42,6 +42,11 @@ import { map } from 'src/utils/crud'
     join: {
       products: {},
       categories: {},
+      authors: {},
+      work: {},
+      parent: {},
+      variants: {},
+      images: {},
     },
   },
   routes: {
@@ -0,0 +1,239 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseInterceptors,
+} from '@nestjs/common'
+import {
+  ApiBadRequestResponse,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+import {
+  Crud,
+  CrudRequest,
+  CrudRequestInterceptor,
+  GetManyDefaultResponse,
+  ParsedRequest,
+} from '@nestjsx/crud'
+
+import { ApiQueryGetMany } from 'src/decorators/api-query-get-many/api-query-get-many.decorator'
+import { ApiQueryGet } from 'src/decorators/api-query-get/api-query-get.decorator'
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CouponDto, GetManyCouponDtoResponse } from '../models/coupon.dto'
+import { CreateCouponDto } from '../models/create-coupon.dto'
+import { UpdateCouponDto } from '../models/update-coupon.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { CouponService } from '../services/coupon.service'
+
+import { map } from 'src/utils/crud'
+
+/**
+ * The app's main coupon controller class
+ *
+ * Class that deals with the coupon routes
+ */
+@Crud({
+  model: {
+    type: CouponDto,
+  },
+  query: {
+    persist: ['id', 'isActive'],
+    join: {
+      category: {},
+      seller: {},
+      user: {},
+      redemptions: {},
+    },
+  },
+  routes: {
+    exclude: [
+      'createManyBase',
+      'createOneBase',
+      'updateOneBase',
+      'replaceOneBase',
+      'recoverOneBase',
+      'getOneBase',
+      'getManyBase',
+      'deleteOneBase',
+    ],
+  },
+})
+@UseInterceptors(CrudRequestInterceptor)
+@ApiTags('coupons')
+@Controller('coupons')
+export class CouponController {
+  public constructor(private readonly couponService: CouponService) {}
+
+  /**
+   * Method that is called when the user access the "/coupons"
+   * route with "POST" method
+   *
+   * @param requestUser stores the logged user data
+   * @param createCouponPayload stores the new coupon data
+   * @throws {ConflictException} if there is already a coupon with the
+   * same code
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {EntityNotFoundException} if the category was not found
+   * @throws {BadRequestException} if the value does not match with the
+   * coupon type
+   * @returns the created coupon data
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Creates a new coupon' })
+  @ApiCreatedResponse({
+    description: 'Gets the created coupon data',
+    type: CouponDto,
+  })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @ApiConflictResponse({ description: 'The code is already in use' })
+  @ApiBadRequestResponse({
+    description: 'The value does not match with the coupon type',
+  })
+  @Post()
+  public async create(
+    @RequestUser() requestUser: UserEntity,
+    @Body() createCouponPayload: CreateCouponDto,
+  ): Promise<CouponDto> {
+    const entity = await this.couponService.create(
+      requestUser,
+      createCouponPayload,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "/coupons" route
+   * with "GET" method
+   *
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @returns the found coupon entity dtos
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiQueryGetMany()
+  @ApiOperation({ summary: 'Retrieves multiple CouponDto' })
+  @ApiOkResponse({
+    description: 'Get many base response',
+    type: GetManyCouponDtoResponse,
+  })
+  @Get()
+  public async listMany(
+    @RequestUser() requestUser: UserEntity,
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<CouponDto> | CouponDto[]> {
+    const entities = await this.couponService.listMany(requestUser, crudRequest)
+    return map(entities, entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the "/coupons/:id"
+   * route with "GET" method
+   *
+   * @param couponId stores the target coupon id
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @throws {EntityNotFoundException} if the coupon was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @returns the found coupon entity dto
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiQueryGet()
+  @ApiOperation({ summary: 'Retrieve a single CouponDto' })
+  @ApiOkResponse({
+    description: 'Retrieve a single CouponDto',
+    type: CouponDto,
+  })
+  @ApiNotFoundResponse({ description: 'Coupon not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Get(':id')
+  public async listOne(
+    @Param('id') couponId: number,
+    @RequestUser() requestUser: UserEntity,
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<CouponDto> {
+    const entity = await this.couponService.listOne(
+      couponId,
+      requestUser,
+      crudRequest,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "/coupons/:id"
+   * route with "PATCH" method
+   *
+   * @param couponId stores the target coupon id
+   * @param requestUser stores the logged user data
+   * @param updateCouponPayload stores the new coupon data
+   * @throws {EntityNotFoundException} if the coupon was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {BadRequestException} if the value does not match with the
+   * coupon type
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Updates a single coupon' })
+  @ApiOkResponse({ description: 'Updates the coupon' })
+  @ApiNotFoundResponse({ description: 'Coupon not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @ApiBadRequestResponse({
+    description: 'The value does not match with the coupon type',
+  })
+  @Patch(':id')
+  public async update(
+    @Param('id') couponId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() updateCouponPayload: UpdateCouponDto,
+  ): Promise<void> {
+    await this.couponService.update(couponId, requestUser, updateCouponPayload)
+  }
+
+  /**
+   * Method that is called when the user access the "/coupons/:id"
+   * route with "DELETE" method
+   *
+   * @param couponId stores the target coupon id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the coupon was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Delete a single coupon' })
+  @ApiOkResponse({ description: 'Delete one base response' })
+  @ApiNotFoundResponse({ description: 'Coupon not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Delete(':id')
+  public async delete(
+    @Param('id') couponId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<void> {
+    await this.couponService.delete(couponId, requestUser)
+  }
+}
@@ -0,0 +1,22 @@
+import { forwardRef, Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { CouponRedemptionEntity } from './entities/coupon-redemption.entity'
+import { CouponEntity } from './entities/coupon.entity'
+
+import { CouponService } from './services/coupon.service'
+
+import { CouponController } from './controllers/coupon.controller'
+
+import { CategoryModule } from '../category/category.module'
+
+@Module({
+  imports: [
+    forwardRef(() => CategoryModule),
+    TypeOrmModule.forFeature([CouponEntity, CouponRedemptionEntity]),
+  ],
+  controllers: [CouponController],
+  providers: [CouponService],
+  exports: [CouponService],
+})
+export class CouponModule {}
@@ -0,0 +1,86 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne } from 'typeorm'
+
+import { CouponEntity } from './coupon.entity'
+import { BaseEntity } from 'src/common/base.entity'
+import { PurchaseEntity } from 'src/modules/order/entities/purchase.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CouponRedemptionDto } from '../models/coupon-redemption.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+
+/**
+ * The app's main coupon redemption entity class
+ *
+ * Class that represents each time that some user used a coupon
+ */
+@Entity('coupon-redemption')
+export class CouponRedemptionEntity extends BaseEntity
+  implements ToDto<CouponRedemptionDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0,
+  })
+  public discount: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public couponId: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public userId: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public purchaseId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => CouponEntity })
+  @ManyToOne(
+    () => CouponEntity,
+    coupon => coupon.redemptions,
+    { onDelete: 'CASCADE' },
+  )
+  public coupon?: CouponEntity
+
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  public user?: UserEntity
+
+  @ApiPropertyOptional({ type: () => PurchaseEntity })
+  @ManyToOne(() => PurchaseEntity, { onDelete: 'CASCADE' })
+  public purchase?: PurchaseEntity
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<CouponRedemptionEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): CouponRedemptionDto {
+    return new CouponRedemptionDto(this)
+  }
+}
@@ -0,0 +1,156 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne, OneToMany } from 'typeorm'
+
+import { CouponRedemptionEntity } from './coupon-redemption.entity'
+import { BaseEntity } from 'src/common/base.entity'
+import { CategoryEntity } from 'src/modules/category/entities/category.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CouponDto } from '../models/coupon.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+import { CouponType } from 'src/models/enums/coupon-type.enum'
+
+/**
+ * The app's main coupon entity class
+ *
+ * Class that represents the entity that deals with the discount coupons
+ */
+@Entity('coupon')
+export class CouponEntity extends BaseEntity implements ToDto<CouponDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 50,
+    nullable: false,
+    unique: true,
+  })
+  public code: string
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 20,
+    nullable: false,
+  })
+  public type: CouponType
+
+  @ApiProperty({
+    description:
+      'The percentage (from 0 to 1) or the amount of money that will be discounted',
+  })
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0,
+  })
+  public value: number
+
+  @ApiPropertyOptional({
+    description:
+      'The minimum value that the products covered by the coupon must reach',
+  })
+  @Column({
+    type: 'float',
+    nullable: true,
+  })
+  public minimumValue?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public maxUses?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public maxUsesPerUser?: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+    default: 0,
+  })
+  public usesAmount: number
+
+  @ApiPropertyOptional()
+  @Column({
+    nullable: true,
+  })
+  public startsAt?: Date
+
+  @ApiPropertyOptional()
+  @Column({
+    nullable: true,
+  })
+  public expiresAt?: Date
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public categoryId?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public sellerId?: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public userId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => CategoryEntity })
+  @ManyToOne(() => CategoryEntity, { onDelete: 'CASCADE' })
+  public category?: CategoryEntity
+
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  public seller?: UserEntity
+
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  public user?: UserEntity
+
+  @ApiPropertyOptional({
+    type: () => CouponRedemptionEntity,
+    isArray: true,
+  })
+  @OneToMany(
+    () => CouponRedemptionEntity,
+    redemption => redemption.coupon,
+  )
+  public redemptions?: CouponRedemptionEntity[]
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<CouponEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): CouponDto {
+    return new CouponDto(this)
+  }
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsDefined, IsNotEmpty, IsString } from 'class-validator'
+
+/**
+ * The app's main apply coupon dto class
+ *
+ * Class that handles the dto sent by the user to apply some coupon in the
+ * shopping cart
+ */
+export class ApplyCouponDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the code' })
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  public code: string
+}
@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { CouponRedemptionEntity } from '../entities/coupon-redemption.entity'
+
+import { CouponDto } from './coupon.dto'
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { PurchaseDto } from 'src/modules/order/models/purchase.dto'
+import { UserDto } from 'src/modules/user/models/user.dto'
+
+/**
+ * The app's main coupon redemption dto class
+ *
+ * Class that deals with the coupon redemption return data
+ */
+export class CouponRedemptionDto extends BaseResponseDto {
+  @ApiProperty()
+  public discount: number
+
+  @ApiProperty()
+  public couponId: number
+
+  @ApiProperty()
+  public userId: number
+
+  @ApiProperty()
+  public purchaseId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => CouponDto })
+  public coupon?: CouponDto
+
+  @ApiPropertyOptional({ type: () => UserDto })
+  public user?: UserDto
+
+  @ApiPropertyOptional({ type: () => PurchaseDto })
+  public purchase?: PurchaseDto
+
+  //#endregion
+
+  public constructor(entity: CouponRedemptionEntity) {
+    super(entity)
+
+    this.discount = entity.discount ?? 0
+    this.couponId = entity.couponId
+    this.userId = entity.userId
+    this.purchaseId = entity.purchaseId
+
+    // relations
+    this.coupon = entity.coupon?.toDto()
+    this.user = entity.user?.toDto()
+    this.purchase = entity.purchase?.toDto()
+  }
+}
@@ -0,0 +1,105 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { CouponEntity } from '../entities/coupon.entity'
+
+import { CouponRedemptionDto } from './coupon-redemption.dto'
+import { BaseGetManyDefaultResponseDto } from 'src/common/base-get-many-default-response.dto'
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { CouponType } from 'src/models/enums/coupon-type.enum'
+import { CategoryDto } from 'src/modules/category/models/category.dto'
+import { UserDto } from 'src/modules/user/models/user.dto'
+
+/**
+ * The app's main coupon dto class
+ *
+ * Class that deals with the coupon return data
+ */
+export class CouponDto extends BaseResponseDto {
+  @ApiProperty()
+  public code: string
+
+  @ApiProperty({ enum: CouponType })
+  public type: CouponType
+
+  @ApiProperty()
+  public value: number
+
+  @ApiPropertyOptional()
+  public minimumValue?: number
+
+  @ApiPropertyOptional()
+  public maxUses?: number
+
+  @ApiPropertyOptional()
+  public maxUsesPerUser?: number
+
+  @ApiProperty()
+  public usesAmount: number
+
+  @ApiPropertyOptional()
+  public startsAt?: Date
+
+  @ApiPropertyOptional()
+  public expiresAt?: Date
+
+  @ApiPropertyOptional()
+  public categoryId?: number
+
+  @ApiPropertyOptional()
+  public sellerId?: number
+
+  @ApiProperty()
+  public userId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => CategoryDto })
+  public category?: CategoryDto
+
+  @ApiPropertyOptional({ type: () => UserDto })
+  public seller?: UserDto
+
+  @ApiPropertyOptional({ type: () => UserDto })
+  public user?: UserDto
+
+  @ApiPropertyOptional({
+    type: () => CouponRedemptionDto,
+    isArray: true,
+  })
+  public redemptions?: CouponRedemptionDto[]
+
+  //#endregion
+
+  public constructor(entity: CouponEntity) {
+    super(entity)
+
+    this.code = entity.code
+    this.type = entity.type
+    this.value = entity.value
+    this.minimumValue = entity.minimumValue
+    this.maxUses = entity.maxUses
+    this.maxUsesPerUser = entity.maxUsesPerUser
+    this.usesAmount = entity.usesAmount ?? 0
+    this.startsAt = entity.startsAt
+    this.expiresAt = entity.expiresAt
+    this.categoryId = entity.categoryId
+    this.sellerId = entity.sellerId
+    this.userId = entity.userId
+
+    // relations
+    this.category = entity.category?.toDto()
+    this.seller = entity.seller?.toDto()
+    this.user = entity.user?.toDto()
+    this.redemptions = entity.redemptions?.map(redemption => redemption.toDto())
+  }
+}
+
+/**
+ * The app's main get many coupon dto response
+ *
+ * Class that deals with the coupon return data with pagination
+ */
+export class GetManyCouponDtoResponse extends BaseGetManyDefaultResponseDto {
+  @ApiProperty({ type: CouponDto, isArray: true })
+  data: CouponDto[]
+}
@@ -0,0 +1,91 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { CouponType } from 'src/models/enums/coupon-type.enum'
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import {
+  IsDateString,
+  IsDefined,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator'
+
+/**
+ * The app's main create coupon dto class
+ *
+ * Class that handles the dto sent by the user to perform the create
+ */
+export class CreateCouponDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the code' })
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(50)
+  public code: string
+
+  @ApiProperty({ enum: CouponType })
+  @IsDefined({ message: 'It is required to send the type' })
+  @IsEnum(CouponType, { message: 'It is required to send a valid type' })
+  public type: CouponType
+
+  @ApiPropertyOptional({
+    description:
+      'The percentage (from 0 to 1) or the amount of money that will be discounted',
+  })
+  @IsOptional()
+  @IsNumber({}, { message: DefaultValidationMessages.IsNumber })
+  @Min(0)
+  public value?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber({}, { message: DefaultValidationMessages.IsNumber })
+  @Min(0)
+  public minimumValue?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public maxUses?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public maxUsesPerUser?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString({}, { message: 'It is required to send a valid date' })
+  public startsAt?: string
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString({}, { message: 'It is required to send a valid date' })
+  public expiresAt?: string
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber({}, { message: DefaultValidationMessages.IsNumber })
+  public categoryId?: number
+
+  @ApiPropertyOptional({
+    description:
+      'The seller whose products are covered by the coupon. Sellers can only create coupons for their own products',
+  })
+  @IsOptional()
+  @IsNumber({}, { message: DefaultValidationMessages.IsNumber })
+  public sellerId?: number
+}
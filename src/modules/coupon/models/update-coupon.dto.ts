@@ -0,0 +1,63 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import {
+  IsBoolean,
+  IsDateString,
+  IsNumber,
+  IsOptional,
+  Min,
+} from 'class-validator'
+
+/**
+ * The app's main update coupon dto class
+ *
+ * Class that handles the dto sent by the user to perform the update
+ */
+export class UpdateCouponDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber({}, { message: DefaultValidationMessages.IsNumber })
+  @Min(0)
+  public value?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber({}, { message: DefaultValidationMessages.IsNumber })
+  @Min(0)
+  public minimumValue?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public maxUses?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public maxUsesPerUser?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString({}, { message: 'It is required to send a valid date' })
+  public startsAt?: string
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString({}, { message: 'It is required to send a valid date' })
+  public expiresAt?: string
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean({ message: DefaultValidationMessages.IsBoolean })
+  public isActive?: boolean
+}
@@ -0,0 +1,371 @@
+import { BadRequestException, ConflictException } from '@nestjs/common'
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import {
+  createConnection,
+  getConnection,
+  getManager,
+  getRepository,
+} from 'typeorm'
+
+import { InvalidCouponException } from 'src/exceptions/bad-request/invalid-coupon.exception'
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+
+import { CouponRedemptionEntity } from '../entities/coupon-redemption.entity'
+import { CouponEntity } from '../entities/coupon.entity'
+import { PurchaseEntity } from 'src/modules/order/entities/purchase.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CouponType } from 'src/models/enums/coupon-type.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { CouponService } from './coupon.service'
+import { CategoryService } from 'src/modules/category/services/category.service'
+
+describe('CouponService', () => {
+  let service: CouponService
+  let sequence = 0
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        CouponService,
+        {
+          provide: getRepositoryToken(CouponEntity),
+          useValue: getRepository(CouponEntity),
+        },
+        { provide: CategoryService, useValue: {} },
+      ],
+    }).compile()
+
+    service = await module.resolve(CouponService)
+  })
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Seller): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `coupon-${sequence}@test.com`,
+      password: '123456',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates a new coupon entity
+   *
+   * @param seller stores the coupon owner
+   * @param coupon stores the coupon data
+   * @returns the created coupon entity
+   */
+  async function createCoupon(
+    seller: UserEntity,
+    coupon: Partial<CouponEntity> = {},
+  ): Promise<CouponEntity> {
+    sequence++
+    return await new CouponEntity({
+      code: `COUPON-${sequence}`,
+      type: CouponType.FixedAmount,
+      value: 10,
+      userId: seller.id,
+      ...coupon,
+    }).save()
+  }
+
+  /**
+   * Function that creates a new purchase of some buyer
+   *
+   * @param buyer stores the buyer entity
+   * @returns the created purchase entity
+   */
+  async function createPurchase(buyer: UserEntity): Promise<PurchaseEntity> {
+    return await new PurchaseEntity({ userId: buyer.id }).save()
+  }
+
+  /**
+   * Function that creates a product item that can be used to calculate
+   * the coupon discounts
+   *
+   * @param seller stores the product seller
+   * @param price stores the product price
+   * @param amount stores the amount of units
+   * @returns the item with the product and its amount
+   */
+  function createItem(
+    seller: UserEntity,
+    price: number,
+    amount = 1,
+  ): { product: ProductEntity; amount: number } {
+    return {
+      product: new ProductEntity({ price, discount: 0, userId: seller.id }),
+      amount,
+    }
+  }
+
+  describe('create', () => {
+    // tests if the code is normalized and the seller is the request user
+    it('should create the coupon with the upper case code', async () => {
+      const seller = await createUser()
+
+      const entity = await service.create(seller, {
+        code: ' summer ',
+        type: CouponType.Percentage,
+        value: 0.1,
+      })
+
+      expect(entity).toMatchObject({
+        code: 'SUMMER',
+        sellerId: seller.id,
+        userId: seller.id,
+      })
+    })
+
+    // tests if the codes can not be repeated
+    it('should throw a "ConflictException" when the code is already used', async () => {
+      const seller = await createUser()
+      const { code } = await createCoupon(seller)
+
+      await expect(
+        service.create(seller, {
+          code: code.toLowerCase(),
+          type: CouponType.FixedAmount,
+          value: 5,
+        }),
+      ).rejects.toThrow(ConflictException)
+    })
+
+    // tests if the percentage must be between 0 and 1
+    it('should throw a "BadRequestException" when the percentage is bigger than 1', async () => {
+      const seller = await createUser()
+
+      await expect(
+        service.create(seller, {
+          code: `PERCENTAGE-${sequence}`,
+          type: CouponType.Percentage,
+          value: 10,
+        }),
+      ).rejects.toThrow(BadRequestException)
+    })
+
+    // tests if the sellers can only give discounts in their own products
+    it('should throw a "ForbiddenException" when the seller is another one', async () => {
+      const seller = await createUser()
+      const other = await createUser()
+
+      await expect(
+        service.create(seller, {
+          code: `OTHER-${sequence}`,
+          type: CouponType.FixedAmount,
+          value: 5,
+          sellerId: other.id,
+        }),
+      ).rejects.toThrow(ForbiddenException)
+    })
+  })
+
+  describe('calculateDiscounts', () => {
+    // tests if the fixed amount is split between the sellers
+    it('should split the fixed amount proportionally between the sellers', async () => {
+      const admin = await createUser(RolesEnum.Admin)
+      const firstSeller = await createUser()
+      const secondSeller = await createUser()
+      const buyer = await createUser(RolesEnum.Common)
+      const coupon = await createCoupon(admin, { value: 10 })
+
+      const discounts = await service.calculateDiscounts(coupon, buyer.id, [
+        createItem(firstSeller, 20),
+        createItem(secondSeller, 10, 2),
+      ])
+
+      expect(discounts.get(firstSeller.id)).toBe(5)
+      expect(discounts.get(secondSeller.id)).toBe(5)
+    })
+
+    // tests if the expired coupons can not be used
+    it('should throw an "InvalidCouponException" when the coupon has expired', async () => {
+      const seller = await createUser()
+      const buyer = await createUser(RolesEnum.Common)
+      const coupon = await createCoupon(seller, {
+        sellerId: seller.id,
+        expiresAt: new Date(Date.now() - 1000),
+      })
+
+      await expect(
+        service.calculateDiscounts(coupon, buyer.id, [createItem(seller, 50)]),
+      ).rejects.toThrow(InvalidCouponException)
+    })
+
+    // tests if the covered products must reach the minimum value
+    it('should throw an "InvalidCouponException" when the minimum value is not reached', async () => {
+      const seller = await createUser()
+      const buyer = await createUser(RolesEnum.Common)
+      const coupon = await createCoupon(seller, {
+        sellerId: seller.id,
+        minimumValue: 100,
+      })
+
+      await expect(
+        service.calculateDiscounts(coupon, buyer.id, [
+          createItem(seller, 30, 3),
+        ]),
+      ).rejects.toThrow(InvalidCouponException)
+
+      const discounts = await service.calculateDiscounts(coupon, buyer.id, [
+        createItem(seller, 50, 2),
+      ])
+
+      expect(discounts.get(seller.id)).toBe(10)
+    })
+
+    // tests if the coupons that reached their limit can not be used
+    it('should throw an "InvalidCouponException" when the coupon is sold out', async () => {
+      const seller = await createUser()
+      const buyer = await createUser(RolesEnum.Common)
+      const coupon = await createCoupon(seller, { maxUses: 2, usesAmount: 2 })
+
+      await expect(
+        service.calculateDiscounts(coupon, buyer.id, [createItem(seller, 50)]),
+      ).rejects.toThrow(InvalidCouponException)
+    })
+
+    // tests if the users that reached their limit can not use the coupon
+    it('should throw an "InvalidCouponException" when the user has reached the limit', async () => {
+      const seller = await createUser()
+      const buyer = await createUser(RolesEnum.Common)
+      const coupon = await createCoupon(seller, { maxUsesPerUser: 1 })
+
+      await service.redeem(
+        getManager(),
+        coupon,
+        buyer.id,
+        (await createPurchase(buyer)).id,
+        10,
+      )
+
+      await expect(
+        service.calculateDiscounts(coupon, buyer.id, [createItem(seller, 50)]),
+      ).rejects.toThrow(InvalidCouponException)
+    })
+  })
+
+  describe('redeem', () => {
+    // tests if the uses amount is not incremented when the coupon is sold out
+    it('should throw an "InvalidCouponException" when the coupon is sold out', async () => {
+      const seller = await createUser()
+      const buyer = await createUser(RolesEnum.Common)
+      const coupon = await createCoupon(seller, { maxUses: 1 })
+
+      await service.redeem(
+        getManager(),
+        coupon,
+        buyer.id,
+        (await createPurchase(buyer)).id,
+        10,
+      )
+      const { id: purchaseId } = await createPurchase(buyer)
+
+      await expect(
+        getManager().transaction(manager =>
+          service.redeem(manager, coupon, buyer.id, purchaseId, 10),
+        ),
+      ).rejects.toThrow(InvalidCouponException)
+
+      await coupon.reload()
+
+      expect(coupon.usesAmount).toBe(1)
+      expect(await CouponRedemptionEntity.count({ couponId: coupon.id })).toBe(
+        1,
+      )
+    })
+
+    // tests if the limit per user is checked again when the coupon is redeemed
+    it('should throw an "InvalidCouponException" when the user has reached the limit', async () => {
+      const seller = await createUser()
+      const buyer = await createUser(RolesEnum.Common)
+      const coupon = await createCoupon(seller, { maxUsesPerUser: 1 })
+
+      await service.redeem(
+        getManager(),
+        coupon,
+        buyer.id,
+        (await createPurchase(buyer)).id,
+        10,
+      )
+      const { id: purchaseId } = await createPurchase(buyer)
+
+      await expect(
+        getManager().transaction(manager =>
+          service.redeem(manager, coupon, buyer.id, purchaseId, 10),
+        ),
+      ).rejects.toThrow(InvalidCouponException)
+
+      const other = await createUser(RolesEnum.Common)
+      await service.redeem(
+        getManager(),
+        coupon,
+        other.id,
+        (await createPurchase(other)).id,
+        10,
+      )
+
+      await coupon.reload()
+
+      expect(coupon.usesAmount).toBe(2)
+    })
+  })
+
+  describe('release', () => {
+    // tests if the released use can be redeemed again
+    it('should give back the use of the purchase', async () => {
+      const seller = await createUser()
+      const buyer = await createUser(RolesEnum.Common)
+      const coupon = await createCoupon(seller, {
+        maxUses: 1,
+        maxUsesPerUser: 1,
+      })
+      const purchase = await createPurchase(buyer)
+
+      await service.redeem(getManager(), coupon, buyer.id, purchase.id, 10)
+      await CouponService.release(getManager(), coupon.id, purchase.id)
+      await CouponService.release(getManager(), coupon.id, purchase.id)
+
+      await coupon.reload()
+
+      expect(coupon.usesAmount).toBe(0)
+      expect(await CouponRedemptionEntity.count({ couponId: coupon.id })).toBe(
+        0,
+      )
+
+      await service.redeem(
+        getManager(),
+        coupon,
+        buyer.id,
+        (await createPurchase(buyer)).id,
+        10,
+      )
+    })
+  })
+})
@@ -0,0 +1,480 @@
+import {
+  BadRequestException,
+  ConflictException,
+  forwardRef,
+  Inject,
+  Injectable,
+} from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { CrudRequest, GetManyDefaultResponse } from '@nestjsx/crud'
+import { TypeOrmCrudService } from '@nestjsx/crud-typeorm'
+import { EntityManager, Repository } from 'typeorm'
+
+import { InvalidCouponException } from 'src/exceptions/bad-request/invalid-coupon.exception'
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { CouponRedemptionEntity } from '../entities/coupon-redemption.entity'
+import { CouponEntity } from '../entities/coupon.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CreateCouponDto } from '../models/create-coupon.dto'
+import { UpdateCouponDto } from '../models/update-coupon.dto'
+import { CouponType } from 'src/models/enums/coupon-type.enum'
+
+import { CategoryService } from 'src/modules/category/services/category.service'
+import { UserService } from 'src/modules/user/services/user.service'
+
+/**
+ * The app's main coupon service class
+ *
+ * Class that deals with the coupons data
+ */
+@Injectable()
+export class CouponService extends TypeOrmCrudService<CouponEntity> {
+  public constructor(
+    @InjectRepository(CouponEntity)
+    repository: Repository<CouponEntity>,
+    @Inject(forwardRef(() => CategoryService))
+    private readonly categoryService: CategoryService,
+  ) {
+    super(repository)
+  }
+
+  /**
+   * Method that can save some entity in the database
+   *
+   * @param requestUser stores the logged user data
+   * @param createCouponPayload stores the new coupon data
+   * @throws {ConflictException} if there is already a coupon with the
+   * same code
+   * @throws {ForbiddenException} if the request user is not an admin and
+   * tries to create a coupon for other seller
+   * @throws {EntityNotFoundException} if the category was not found
+   * @throws {BadRequestException} if the value does not match with the
+   * coupon type
+   * @returns the created coupon entity
+   */
+  public async create(
+    requestUser: UserEntity,
+    createCouponPayload: CreateCouponDto,
+  ): Promise<CouponEntity> {
+    const { startsAt, expiresAt, ...rest } = createCouponPayload
+
+    const code = rest.code.trim().toUpperCase()
+
+    if (await CouponEntity.findOne({ code })) {
+      throw new ConflictException(`There is already a coupon with code ${code}`)
+    }
+
+    // sellers can only give discounts in their own products
+    const sellerId = UserService.isAdminUser(requestUser)
+      ? rest.sellerId
+      : rest.sellerId ?? requestUser.id
+    if (
+      sellerId !== undefined &&
+      sellerId !== null &&
+      !UserService.hasPermissions(sellerId, requestUser)
+    ) {
+      throw new ForbiddenException()
+    }
+
+    if (rest.categoryId !== undefined && rest.categoryId !== null) {
+      await this.categoryService.listOne(rest.categoryId)
+    }
+
+    const entity = new CouponEntity({
+      ...rest,
+      code,
+      sellerId,
+      value: rest.value ?? 0,
+      startsAt: startsAt ? new Date(startsAt) : undefined,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      userId: requestUser.id,
+    })
+
+    CouponService.validateValue(entity)
+
+    return await entity.save()
+  }
+
+  /**
+   * Method that can get some coupon entities. The sellers can only see
+   * the coupons created by themselves
+   *
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @returns the found coupon entities
+   */
+  public async listMany(
+    requestUser: UserEntity,
+    crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<CouponEntity> | CouponEntity[]> {
+    if (!UserService.isAdminUser(requestUser)) {
+      crudRequest.parsed.search = {
+        $and: [
+          ...crudRequest.parsed.search.$and,
+          {
+            userId: {
+              $eq: requestUser.id,
+            },
+          },
+        ],
+      }
+    }
+
+    return await super.getMany(crudRequest)
+  }
+
+  /**
+   * Method that can get one coupon entity
+   *
+   * @param couponId stores the coupon id
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @throws {EntityNotFoundException} if the coupon was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @returns the found coupon entity
+   */
+  public async listOne(
+    couponId: number,
+    requestUser: UserEntity,
+    crudRequest?: CrudRequest,
+  ): Promise<CouponEntity> {
+    const entity: CouponEntity = crudRequest
+      ? await super.getOne(crudRequest).catch(() => undefined)
+      : await CouponEntity.findOne({ id: couponId })
+
+    if (!entity) {
+      throw new EntityNotFoundException(couponId, CouponEntity)
+    }
+
+    if (!UserService.hasPermissions(entity.userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    return entity
+  }
+
+  /**
+   * Method that can update some coupon
+   *
+   * @param couponId stores the coupon id
+   * @param requestUser stores the logged user data
+   * @param updateCouponPayload stores the new coupon data
+   * @throws {EntityNotFoundException} if the coupon was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {BadRequestException} if the value does not match with the
+   * coupon type
+   */
+  public async update(
+    couponId: number,
+    requestUser: UserEntity,
+    updateCouponPayload: UpdateCouponDto,
+  ): Promise<void> {
+    const entity = await this.listOne(couponId, requestUser)
+
+    const { startsAt, expiresAt, ...rest } = updateCouponPayload
+
+    Object.assign(entity, rest)
+    if (startsAt !== undefined) entity.startsAt = new Date(startsAt)
+    if (expiresAt !== undefined) entity.expiresAt = new Date(expiresAt)
+
+    CouponService.validateValue(entity)
+
+    await entity.save()
+  }
+
+  /**
+   * Method that can delete some coupon
+   *
+   * @param couponId stores the coupon id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the coupon was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   */
+  public async delete(
+    couponId: number,
+    requestUser: UserEntity,
+  ): Promise<void> {
+    await this.listOne(couponId, requestUser)
+    await CouponEntity.delete({ id: couponId })
+  }
+
+  /**
+   * Method that can get some active coupon by its code
+   *
+   * @param code stores the coupon code
+   * @param manager stores the entity manager used to search the coupon
+   * @throws {EntityNotFoundException} if the coupon was not found
+   * @returns the found coupon entity
+   */
+  public async listOneByCode(
+    code: string,
+    manager: EntityManager = this.repo.manager,
+  ): Promise<CouponEntity> {
+    const normalizedCode = code.trim().toUpperCase()
+
+    const entity = await manager.findOne(CouponEntity, {
+      code: normalizedCode,
+    })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(normalizedCode, CouponEntity)
+    }
+
+    return entity
+  }
+
+  /**
+   * Method that validates if some user can use the coupon in the informed
+   * products and calculates how much each seller order will be discounted
+   *
+   * @param coupon stores the coupon that will be used
+   * @param userId stores the buyer id
+   * @param items stores the products that are being bought, each one of
+   * them with its categories
+   * @param shippingPrices stores the shipping price of each seller, used
+   * by the free shipping coupons
+   * @param manager stores the entity manager used to count the redemptions
+   * @throws {InvalidCouponException} if the coupon is out of its validity
+   * window, has reached its usage limits, does not cover any of the
+   * products or the products do not reach the minimum value
+   * @returns a map with the discount of each seller
+   */
+  public async calculateDiscounts(
+    coupon: CouponEntity,
+    userId: number,
+    items: Pick<ProductGroupEntity, 'product' | 'amount'>[],
+    shippingPrices = new Map<number, number>(),
+    manager: EntityManager = this.repo.manager,
+  ): Promise<Map<number, number>> {
+    const round = (value: number) => Math.round(value * 100) / 100
+    const now = new Date()
+
+    if (!coupon.isActive) {
+      throw new InvalidCouponException(coupon.code, 'it is disabled')
+    }
+
+    if (coupon.startsAt && new Date(coupon.startsAt) > now) {
+      throw new InvalidCouponException(coupon.code, 'it is not valid yet')
+    }
+
+    if (coupon.expiresAt && new Date(coupon.expiresAt) < now) {
+      throw new InvalidCouponException(coupon.code, 'it has expired')
+    }
+
+    if (
+      coupon.maxUses !== undefined &&
+      coupon.maxUses !== null &&
+      coupon.usesAmount >= coupon.maxUses
+    ) {
+      throw new InvalidCouponException(coupon.code, 'it is sold out')
+    }
+
+    if (coupon.maxUsesPerUser !== undefined && coupon.maxUsesPerUser !== null) {
+      const usesAmount = await manager.count(CouponRedemptionEntity, {
+        couponId: coupon.id,
+        userId,
+      })
+
+      if (usesAmount >= coupon.maxUsesPerUser) {
+        throw new InvalidCouponException(
+          coupon.code,
+          'the user has already used it the maximum amount of times',
+        )
+      }
+    }
+
+    // sums the value, with the product discount, of the products that the
+    // coupon covers for each seller
+    const sellerValues = new Map<number, number>()
+    for (const { product, amount } of items) {
+      if (
+        (coupon.sellerId !== undefined &&
+          coupon.sellerId !== null &&
+          product.userId !== coupon.sellerId) ||
+        (coupon.categoryId !== undefined &&
+          coupon.categoryId !== null &&
+          !product.categories?.some(({ id }) => id === coupon.categoryId))
+      ) {
+        continue
+      }
+
+      sellerValues.set(
+        product.userId,
+        (sellerValues.get(product.userId) ?? 0) +
+          product.price * (1 - (product.discount ?? 0)) * amount,
+      )
+    }
+
+    const value = round([...sellerValues.values()].reduce((a, b) => a + b, 0))
+
+    if (sellerValues.size === 0) {
+      throw new InvalidCouponException(
+        coupon.code,
+        'it does not cover any product of the shopping cart',
+      )
+    }
+
+    if (coupon.minimumValue && value < coupon.minimumValue) {
+      throw new InvalidCouponException(
+        coupon.code,
+        `the products covered by it must sum at least ${coupon.minimumValue}`,
+      )
+    }
+
+    const discounts = new Map<number, number>()
+
+    if (coupon.type === CouponType.FreeShipping) {
+      for (const sellerId of sellerValues.keys()) {
+        discounts.set(sellerId, shippingPrices.get(sellerId) ?? 0)
+      }
+    } else if (coupon.type === CouponType.Percentage) {
+      for (const [sellerId, sellerValue] of sellerValues) {
+        discounts.set(sellerId, round(sellerValue * coupon.value))
+      }
+    } else {
+      // the fixed amount is split between the sellers proportionally to
+      // their value, and the last one receives the rounding remainder
+      const amount = Math.min(coupon.value, value)
+      let remainder = amount
+
+      const sellers = [...sellerValues]
+      sellers.forEach(([sellerId, sellerValue], index) => {
+        const discount =
+          index === sellers.length - 1
+            ? round(remainder)
+            : round((amount * sellerValue) / value)
+
+        remainder -= discount
+        discounts.set(sellerId, discount)
+      })
+    }
+
+    return discounts
+  }
+
+  /**
+   * Method that registers that some user used the coupon in a purchase.
+   * The uses amount is incremented before being verified, so concurrent
+   * checkouts can not use more coupons than the allowed amount. The
+   * increment also locks the coupon row, so the redemptions of the user
+   * are only counted after the concurrent checkouts end
+   *
+   * @param manager stores the entity manager of the checkout transaction
+   * @param coupon stores the redeemed coupon
+   * @param userId stores the buyer id
+   * @param purchaseId stores the purchase where the coupon was used
+   * @param discount stores the total discount given by the coupon
+   * @throws {InvalidCouponException} if the coupon has reached its usage
+   * limit or the user has reached its usage limit per user
+   * @returns the created redemption entity
+   */
+  public async redeem(
+    manager: EntityManager,
+    coupon: CouponEntity,
+    userId: number,
+    purchaseId: number,
+    discount: number,
+  ): Promise<CouponRedemptionEntity> {
+    await manager
+      .createQueryBuilder()
+      .update(CouponEntity)
+      .set({ usesAmount: () => '"usesAmount" + 1' })
+      .where('id = :couponId', { couponId: coupon.id })
+      .execute()
+
+    const {
+      usesAmount,
+      maxUses,
+      maxUsesPerUser,
+    } = await manager.findOne(CouponEntity, { id: coupon.id })
+
+    if (maxUses !== undefined && maxUses !== null && usesAmount > maxUses) {
+      throw new InvalidCouponException(coupon.code, 'it is sold out')
+    }
+
+    if (maxUsesPerUser !== undefined && maxUsesPerUser !== null) {
+      const userUsesAmount = await manager.count(CouponRedemptionEntity, {
+        couponId: coupon.id,
+        userId,
+      })
+
+      if (userUsesAmount >= maxUsesPerUser) {
+        throw new InvalidCouponException(
+          coupon.code,
+          'the user has already used it the maximum amount of times',
+        )
+      }
+    }
+
+    return await manager.save(
+      new CouponRedemptionEntity({
+        couponId: coupon.id,
+        userId,
+        purchaseId,
+        discount,
+      }),
+    )
+  }
+
+  /**
+   * Method that gives back the coupon use registered for some purchase,
+   * so it can be used again
+   *
+   * @param manager stores the entity manager of the current transaction
+   * @param couponId stores the coupon id
+   * @param purchaseId stores the purchase where the coupon was used
+   */
+  public static async release(
+    manager: EntityManager,
+    couponId: number,
+    purchaseId: number,
+  ): Promise<void> {
+    const redemption = await manager.findOne(CouponRedemptionEntity, {
+      couponId,
+      purchaseId,
+    })
+
+    if (!redemption) return
+
+    await manager.delete(CouponRedemptionEntity, { id: redemption.id })
+
+    await manager
+      .createQueryBuilder()
+      .update(CouponEntity)
+      .set({ usesAmount: () => '"usesAmount" - 1' })
+      .where('id = :couponId', { couponId })
+      .andWhere('"usesAmount" > 0')
+      .execute()
+  }
+
+  /**
+   * Method that validates if the coupon value makes sense for its type
+   *
+   * @param coupon stores the coupon that will be validated
+   * @throws {BadRequestException} if the percentage is not between 0 and
+   * 1 or the fixed amount is not positive
+   */
+  private static validateValue(coupon: CouponEntity): void {
+    if (
+      coupon.type === CouponType.Percentage &&
+      (coupon.value <= 0 || coupon.value > 1)
+    ) {
+      throw new BadRequestException(
+        'The percentage coupons value must be between 0 and 1',
+      )
+    }
+
+    if (coupon.type === CouponType.FixedAmount && coupon.value <= 0) {
+      throw new BadRequestException(
+        'The fixed amount coupons value must be bigger than 0',
+      )
+    }
+  }
+}
@@ -2,7 +2,6 @@ import { Injectable, OnModuleInit } from '@nestjs/common'
 import { ConfigService } from '@nestjs/config'
 
 import admin from 'firebase-admin'
-import { v4 as uuidv4 } from 'uuid'
 
 // TODO: remove "onModuleInit" and place that logic in constructor
 
@@ -41,11 +40,14 @@ export class FirebaseService implements OnModuleInit {
   /**
    * Method that can upload some file to the firebase storage
    * @param multerFile stores the multer file data
+   * @param filename stores the file name in the storage bucket
    * @returns the created file url
    */
-  public async upload(multerFile: Express.Multer.File): Promise<string> {
+  public async upload(
+    multerFile: Express.Multer.File,
+    filename: string,
+  ): Promise<string> {
     return new Promise<string>((res, err) => {
-      const filename = uuidv4()
       this.storage
         .bucket()
         .file(filename)
@@ -67,4 +69,39 @@ export class FirebaseService implements OnModuleInit {
         .end(multerFile.buffer)
     })
   }
+
+  /**
+   * Method that verifies if some url points to a file of the firebase
+   * storage bucket, as the urls returned by the upload
+   * @param url stores the file url
+   * @returns true if the url points to the storage bucket, otherwise false
+   */
+  public isStorageUrl(url: string): boolean {
+    const bucket = this.configService.get<string>('FB_STORAGE_BUCKET')
+
+    try {
+      const { protocol, host, pathname } = new URL(url)
+
+      return (
+        !!bucket &&
+        protocol === 'https:' &&
+        host === 'storage.googleapis.com' &&
+        pathname.startsWith(`/${bucket}/`) &&
+        pathname.length > bucket.length + 2
+      )
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Method that can remove some file from the firebase storage
+   * @param filename stores the file name in the storage bucket
+   */
+  public async delete(filename: string): Promise<void> {
+    await this.storage
+      .bucket()
+      .file(filename)
+      .delete({ ignoreNotFound: true })
+  }
 }
@@ -11,7 +11,7 @@ import { ApiFile } from 'src/decorators/api-file/api-file.decorator'
 
 import { MediaDto } from '../models/media.dto'
 
-import { FirebaseService } from 'src/modules/firebase/services/firebase.service'
+import { MediaService } from '../services/media.service'
 
 /**
  * The app's main media controller class
@@ -21,14 +21,14 @@ import { FirebaseService } from 'src/modules/firebase/services/firebase.service'
 @ApiTags('medias')
 @Controller('medias')
 export class MediaController {
-  public constructor(private readonly firebaseService: FirebaseService) {}
+  public constructor(private readonly mediaService: MediaService) {}
 
   /**
    * Method that is called when the user access the "media/upload"
    * route with "POST" method
    *
    * @param file stores the file sent by the user
-   * @returns an object with the file url
+   * @returns an object with the file url and path
    */
   @ApiOperation({ summary: 'Uploads a new file' })
   @ApiCreatedResponse({
@@ -42,7 +42,6 @@ export class MediaController {
   public async upload(
     @UploadedFile() file: Express.Multer.File
   ): Promise<MediaDto> {
-    const url = await this.firebaseService.upload(file)
-    return { url }
+    return await this.mediaService.upload(file)
   }
 }
@@ -1,11 +1,15 @@
 import { Module } from '@nestjs/common'
 
+import { MediaService } from './services/media.service'
+
 import { MediaController } from './controllers/media.controller'
 
 import { FirebaseModule } from '../firebase/firebase.module'
 
 @Module({
   imports: [FirebaseModule],
-  controllers: [MediaController]
+  controllers: [MediaController],
+  providers: [MediaService],
+  exports: [MediaService]
 })
 export class MediaModule {}
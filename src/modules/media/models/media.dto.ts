@@ -8,4 +8,7 @@ import { ApiProperty } from '@nestjs/swagger'
 export class MediaDto {
   @ApiProperty()
   public url: string
+
+  @ApiProperty({ description: 'The file path in the storage backend' })
+  public path: string
 }
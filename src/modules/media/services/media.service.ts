@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common'
+
+import { MediaDto } from '../models/media.dto'
+
+import { FirebaseService } from 'src/modules/firebase/services/firebase.service'
+
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * The app's main media service class
+ *
+ * Class that deals with the files kept in the storage backend
+ */
+@Injectable()
+export class MediaService {
+  public constructor(private readonly firebaseService: FirebaseService) {}
+
+  /**
+   * Method that can upload some file to the storage backend
+   *
+   * @param file stores the file sent by the user
+   * @returns the file url and its path in the storage
+   */
+  public async upload(file: Express.Multer.File): Promise<MediaDto> {
+    const path = uuidv4()
+    const url = await this.firebaseService.upload(file, path)
+    return { url, path }
+  }
+
+  /**
+   * Method that verifies if some url points to a file of the storage
+   * backend
+   *
+   * @param url stores the file url
+   * @returns true if the file is kept in the storage, otherwise false
+   */
+  public isStorageUrl(url: string): boolean {
+    return this.firebaseService.isStorageUrl(url)
+  }
+
+  /**
+   * Method that can remove some file from the storage backend
+   *
+   * @param path stores the file path in the storage
+   */
+  public async delete(path: string): Promise<void> {
+    await this.firebaseService.delete(path)
+  }
+}
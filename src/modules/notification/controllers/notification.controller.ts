@@ -0,0 +1,63 @@
+import { Controller, Param, Put } from '@nestjs/common'
+import {
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { NotificationDto } from '../models/notification.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { NotificationService } from '../services/notification.service'
+
+/**
+ * The app's main notification controller class
+ *
+ * Class that deals with the notification routes
+ */
+@ApiTags('notifications')
+@Controller('notifications')
+export class NotificationController {
+  public constructor(
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Method that is called when the user access the
+   * "notifications/:id/read" route with "PUT" method
+   *
+   * @param notificationId stores the notification id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the notification was not found
+   * @throws {ForbiddenException} if the notification belongs to other user
+   * @returns the read notification data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Marks a notification as read' })
+  @ApiOkResponse({
+    description: 'Gets the read notification data',
+    type: NotificationDto,
+  })
+  @ApiNotFoundResponse({ description: 'Notification not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Put(':id/read')
+  public async read(
+    @Param('id') notificationId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<NotificationDto> {
+    const entity = await this.notificationService.read(
+      notificationId,
+      requestUser,
+    )
+    return entity.toDto()
+  }
+}
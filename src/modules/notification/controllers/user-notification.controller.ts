@@ -0,0 +1,91 @@
+import { Controller, Get, UseInterceptors } from '@nestjs/common'
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger'
+import {
+  Crud,
+  CrudRequest,
+  CrudRequestInterceptor,
+  GetManyDefaultResponse,
+  ParsedRequest,
+} from '@nestjsx/crud'
+
+import { ApiQueryGetMany } from 'src/decorators/api-query-get-many/api-query-get-many.decorator'
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import {
+  GetManyNotificationDtoResponse,
+  NotificationDto,
+} from '../models/notification.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { NotificationService } from '../services/notification.service'
+
+import { map } from 'src/utils/crud'
+
+/**
+ * The app's main user notification controller class
+ *
+ * Class that deals with the logged user notifications routes
+ */
+@Crud({
+  model: {
+    type: NotificationDto,
+  },
+  query: {
+    persist: ['id', 'isActive'],
+    filter: [{ field: 'isActive', operator: '$eq', value: true }],
+    join: {
+      product: {},
+    },
+  },
+  routes: {
+    exclude: [
+      'createManyBase',
+      'createOneBase',
+      'updateOneBase',
+      'replaceOneBase',
+      'recoverOneBase',
+      'getOneBase',
+      'getManyBase',
+      'deleteOneBase',
+    ],
+  },
+})
+@UseInterceptors(CrudRequestInterceptor)
+@ApiTags('notifications')
+@Controller('users/me')
+export class UserNotificationController {
+  public constructor(
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Method that is called when the user access the
+   * "users/me/notifications" route with "GET" method
+   *
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @returns all the found data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiQueryGetMany()
+  @ApiOperation({ summary: 'Retrieves the logged user notifications' })
+  @ApiOkResponse({
+    description: 'Gets all the logged user notifications',
+    type: GetManyNotificationDtoResponse,
+  })
+  @Get('notifications')
+  public async listMine(
+    @RequestUser() requestUser: UserEntity,
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<NotificationDto> | NotificationDto[]> {
+    const entities = await this.notificationService.listManyByUserId(
+      requestUser.id,
+      requestUser,
+      crudRequest,
+    )
+    return map(entities, entity => entity.toDto())
+  }
+}
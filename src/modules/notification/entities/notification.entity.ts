@@ -0,0 +1,95 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne } from 'typeorm'
+
+import { BaseEntity } from 'src/common/base.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { NotificationDto } from '../models/notification.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+import { NotificationType } from 'src/models/enums/notification-type.enum'
+
+/**
+ * The app's main notification entity class
+ *
+ * Class that represents some message sent to the user inbox
+ */
+@Entity('notification')
+export class NotificationEntity extends BaseEntity
+  implements ToDto<NotificationDto> {
+  //#region Columns
+
+  @ApiProperty({ enum: NotificationType })
+  @Column({
+    type: 'varchar',
+    length: 32,
+    nullable: false,
+  })
+  public type: NotificationType
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 128,
+    nullable: false,
+  })
+  public title: string
+
+  @ApiProperty()
+  @Column({
+    type: 'text',
+    nullable: false,
+  })
+  public message: string
+
+  @ApiPropertyOptional()
+  @Column({
+    nullable: true,
+  })
+  public readAt?: Date
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public userId: number
+
+  /**
+   * The product that the notification is about, when there is one
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public productId?: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  public user?: UserEntity
+
+  @ApiPropertyOptional({ type: () => ProductEntity })
+  @ManyToOne(() => ProductEntity, { onDelete: 'SET NULL' })
+  public product?: ProductEntity
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<NotificationEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): NotificationDto {
+    return new NotificationDto(this)
+  }
+}
@@ -0,0 +1,60 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { NotificationEntity } from '../entities/notification.entity'
+
+import { BaseGetManyDefaultResponseDto } from 'src/common/base-get-many-default-response.dto'
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { NotificationType } from 'src/models/enums/notification-type.enum'
+import { ProductDto } from 'src/modules/product/models/product.dto'
+
+/**
+ * The app's main notification dto class
+ *
+ * Class that deals with the notification return data
+ */
+export class NotificationDto extends BaseResponseDto {
+  @ApiProperty({ enum: NotificationType })
+  public type: NotificationType
+
+  @ApiProperty()
+  public title: string
+
+  @ApiProperty()
+  public message: string
+
+  @ApiPropertyOptional()
+  public readAt?: Date
+
+  @ApiProperty()
+  public userId: number
+
+  @ApiPropertyOptional()
+  public productId?: number
+
+  @ApiPropertyOptional({ type: () => ProductDto })
+  public product?: ProductDto
+
+  public constructor(entity: NotificationEntity) {
+    super(entity)
+
+    this.type = entity.type
+    this.title = entity.title
+    this.message = entity.message
+    this.readAt = entity.readAt
+    this.userId = entity.userId
+    this.productId = entity.productId
+
+    // relations
+    this.product = entity.product?.toDto()
+  }
+}
+
+/**
+ * The app's main get many notification dto response
+ *
+ * Class that deals with the notification return data with pagination
+ */
+export class GetManyNotificationDtoResponse extends BaseGetManyDefaultResponseDto {
+  @ApiProperty({ type: NotificationDto, isArray: true })
+  public data: NotificationDto[]
+}
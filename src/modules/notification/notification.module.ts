@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { NotificationEntity } from './entities/notification.entity'
+
+import { NotificationService } from './services/notification.service'
+
+import { NotificationController } from './controllers/notification.controller'
+import { UserNotificationController } from './controllers/user-notification.controller'
+
+@Module({
+  imports: [TypeOrmModule.forFeature([NotificationEntity])],
+  controllers: [NotificationController, UserNotificationController],
+  providers: [NotificationService],
+  exports: [NotificationService],
+})
+export class NotificationModule {}
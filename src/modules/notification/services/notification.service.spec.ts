@@ -0,0 +1,164 @@
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import {
+  createConnection,
+  getConnection,
+  getManager,
+  getRepository,
+} from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+
+import { NotificationEntity } from '../entities/notification.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { NotificationType } from 'src/models/enums/notification-type.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { NotificationService } from './notification.service'
+
+describe('NotificationService', () => {
+  let service: NotificationService
+  let sequence = 0
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        NotificationService,
+        {
+          provide: getRepositoryToken(NotificationEntity),
+          useValue: getRepository(NotificationEntity),
+        },
+      ],
+    }).compile()
+
+    service = await module.resolve(NotificationService)
+  })
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Common): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `notification-${sequence}@test.com`,
+      password: '123456',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates a product and changes its stock amount
+   *
+   * @param seller stores the product owner
+   * @param previousStockAmount stores the stock amount before the change
+   * @param stockAmount stores the stock amount after the change
+   * @returns the notifications received by the seller
+   */
+  async function changeStock(
+    seller: UserEntity,
+    previousStockAmount: number,
+    stockAmount: number,
+  ): Promise<NotificationEntity[]> {
+    sequence++
+    const product = await new ProductEntity({
+      name: `PRODUCT-TEST-${sequence}`,
+      description: 'PRODUCT-TEST',
+      price: 10,
+      stockAmount,
+      lowStockThreshold: 3,
+      userId: seller.id,
+    }).save()
+
+    await NotificationService.notifyStockChange(
+      getManager(),
+      product.id,
+      previousStockAmount,
+    )
+
+    return await NotificationEntity.find({ productId: product.id })
+  }
+
+  describe('notifyStockChange', () => {
+    // tests if the seller knows that the threshold was crossed
+    it('should notify the seller when the threshold is crossed', async () => {
+      const seller = await createUser(RolesEnum.Seller)
+
+      const notifications = await changeStock(seller, 5, 3)
+
+      expect(notifications).toEqual([
+        expect.objectContaining({
+          type: NotificationType.LowStock,
+          userId: seller.id,
+        }),
+      ])
+    })
+
+    // tests if the seller knows that the product is not listed anymore
+    it('should notify the seller when the product runs out', async () => {
+      const seller = await createUser(RolesEnum.Seller)
+
+      const notifications = await changeStock(seller, 2, 0)
+
+      expect(notifications).toEqual([
+        expect.objectContaining({ type: NotificationType.OutOfStock }),
+      ])
+    })
+
+    // tests if the seller knows that the product can be sold again
+    it('should notify the seller when the product is restocked', async () => {
+      const seller = await createUser(RolesEnum.Seller)
+
+      const notifications = await changeStock(seller, 0, 4)
+
+      expect(notifications).toEqual([
+        expect.objectContaining({ type: NotificationType.BackInStock }),
+      ])
+    })
+
+    // tests if the seller is notified only once
+    it('should not notify the seller when the stock was already low', async () => {
+      const seller = await createUser(RolesEnum.Seller)
+
+      expect(await changeStock(seller, 3, 2)).toHaveLength(0)
+      expect(await changeStock(seller, 2, 8)).toHaveLength(0)
+    })
+  })
+
+  describe('read', () => {
+    // tests if only the notification owner can read it
+    it('should mark the notification as read', async () => {
+      const seller = await createUser(RolesEnum.Seller)
+      const [notification] = await changeStock(seller, 1, 0)
+
+      await expect(
+        service.read(notification.id, await createUser()),
+      ).rejects.toThrow(ForbiddenException)
+
+      const entity = await service.read(notification.id, seller)
+
+      expect(entity.readAt).toBeDefined()
+    })
+  })
+})
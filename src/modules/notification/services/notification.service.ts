@@ -0,0 +1,174 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { CrudRequest, GetManyDefaultResponse } from '@nestjsx/crud'
+import { TypeOrmCrudService } from '@nestjsx/crud-typeorm'
+import { EntityManager, Repository } from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { NotificationEntity } from '../entities/notification.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { NotificationType } from 'src/models/enums/notification-type.enum'
+
+import { UserService } from 'src/modules/user/services/user.service'
+
+/**
+ * The app's main notification service class
+ *
+ * Class that deals with the messages sent to the users inbox
+ */
+@Injectable()
+export class NotificationService extends TypeOrmCrudService<
+  NotificationEntity
+> {
+  public constructor(
+    @InjectRepository(NotificationEntity)
+    repository: Repository<NotificationEntity>,
+  ) {
+    super(repository)
+  }
+
+  /**
+   * Method that saves some notification, using the manager of the current
+   * transaction
+   *
+   * @param manager stores the entity manager of the current transaction
+   * @param notification stores the notification data
+   * @returns the created notification entity
+   */
+  public static async notify(
+    manager: EntityManager,
+    notification: Partial<NotificationEntity>,
+  ): Promise<NotificationEntity> {
+    return await manager.save(new NotificationEntity(notification))
+  }
+
+  /**
+   * Method that notifies the seller when the stock of some product crosses
+   * its low stock threshold, runs out or is available again. It must be
+   * called right after the stock is changed, in the same transaction
+   *
+   * @param manager stores the entity manager of the current transaction
+   * @param productId stores the product id
+   * @param previousStockAmount stores the stock amount before the change
+   * @param currentStockAmount stores the stock amount after the change,
+   * by default the product stock amount
+   */
+  public static async notifyStockChange(
+    manager: EntityManager,
+    productId: number,
+    previousStockAmount: number,
+    currentStockAmount?: number,
+  ): Promise<void> {
+    const product = await manager.findOne(ProductEntity, { id: productId })
+
+    if (!product) return
+
+    const { lowStockThreshold } = product
+    const stockAmount = currentStockAmount ?? product.stockAmount
+
+    if (stockAmount > 0 && previousStockAmount <= 0) {
+      await NotificationService.notify(manager, {
+        type: NotificationType.BackInStock,
+        title: 'Product back in stock',
+        message: `The product "${product.name}" has ${stockAmount} units available again`,
+        userId: product.userId,
+        productId,
+      })
+    } else if (stockAmount <= 0 && previousStockAmount > 0) {
+      await NotificationService.notify(manager, {
+        type: NotificationType.OutOfStock,
+        title: 'Product out of stock',
+        message: `The product "${product.name}" is out of stock and will not be listed until it is restocked`,
+        userId: product.userId,
+        productId,
+      })
+    } else if (
+      stockAmount > 0 &&
+      stockAmount <= lowStockThreshold &&
+      previousStockAmount > lowStockThreshold
+    ) {
+      await NotificationService.notify(manager, {
+        type: NotificationType.LowStock,
+        title: 'Product with low stock',
+        message: `The product "${product.name}" has only ${stockAmount} units in stock`,
+        userId: product.userId,
+        productId,
+      })
+    }
+  }
+
+  /**
+   * Method that gets all the notifications of some user, starting from the
+   * most recent ones
+   *
+   * @param userId stores the user id
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @throws {ForbiddenException} if the request user has no permission to
+   * access those sources
+   * @returns the found elements
+   */
+  public async listManyByUserId(
+    userId: number,
+    requestUser: UserEntity,
+    crudRequest?: CrudRequest,
+  ): Promise<
+    GetManyDefaultResponse<NotificationEntity> | NotificationEntity[]
+  > {
+    if (!UserService.hasPermissions(userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    crudRequest.parsed.search = {
+      $and: [
+        ...crudRequest.parsed.search.$and,
+        {
+          userId: {
+            $eq: userId,
+          },
+        },
+      ],
+    }
+
+    if (crudRequest.parsed.sort.length === 0) {
+      crudRequest.parsed.sort = [{ field: 'createdAt', order: 'DESC' }]
+    }
+
+    return await super.getMany(crudRequest)
+  }
+
+  /**
+   * Method that marks some notification as read
+   *
+   * @param notificationId stores the notification id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the notification was not found
+   * @throws {ForbiddenException} if the notification belongs to other user
+   * @returns the read notification entity
+   */
+  public async read(
+    notificationId: number,
+    requestUser: UserEntity,
+  ): Promise<NotificationEntity> {
+    const entity = await NotificationEntity.findOne({ id: notificationId })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(notificationId, NotificationEntity)
+    }
+
+    if (!UserService.hasPermissions(entity.userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    if (!entity.readAt) {
+      entity.readAt = new Date()
+      await entity.save()
+    }
+
+    return entity
+  }
+}
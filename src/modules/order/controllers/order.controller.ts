@@ -2,10 +2,12 @@ import {
   Body,
   Controller,
   Delete,
+  HttpCode,
   Param,
   Patch,
   Post,
   Put,
+  Res,
   UseInterceptors,
 } from '@nestjs/common'
 import { Get } from '@nestjs/common'
@@ -16,6 +18,7 @@ import {
   ApiNotFoundResponse,
   ApiOkResponse,
   ApiOperation,
+  ApiProduces,
   ApiTags,
 } from '@nestjs/swagger'
 import {
@@ -33,15 +36,21 @@ import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
 
 import { UserEntity } from 'src/modules/user/entities/user.entity'
 
+import { CancelOrderDto } from '../models/cancel-order.dto'
 import { CreateOrderDto } from '../models/create-order.dto'
+import { InvoiceDto } from '../models/invoice.dto'
+import { OrderStatusHistoryDto } from '../models/order-status-history.dto'
 import { GetManyOrderDtoResponse, OrderDto } from '../models/order.dto'
 import { UpdateOrderDto } from '../models/update-order.dto'
 import { RolesEnum } from 'src/models/enums/roles.enum'
 
+import { InvoiceService } from '../services/invoice.service'
 import { OrderService } from '../services/order.service'
 
 import { map } from 'src/utils/crud'
 
+import { Response } from 'express'
+
 /**
  * The app's main order controller class
  *
@@ -56,8 +65,13 @@ import { map } from 'src/utils/crud'
     filter: [{ field: 'isActive', operator: '$eq', value: true }],
     join: {
       user: {},
+      seller: {},
+      purchase: {},
+      coupon: {},
       productGroups: {},
       'productGroups.product': {},
+      statusHistory: {},
+      payments: {},
     },
   },
   routes: {
@@ -77,7 +91,10 @@ import { map } from 'src/utils/crud'
 @ApiTags('orders')
 @Controller('orders')
 export class OrderController {
-  public constructor(private readonly orderService: OrderService) {}
+  public constructor(
+    private readonly orderService: OrderService,
+    private readonly invoiceService: InvoiceService,
+  ) {}
 
   /**
    * Method that is called when the user access the "orders" route
@@ -178,6 +195,102 @@ export class OrderController {
     return entity.toDto()
   }
 
+  /**
+   * Method that is called when the user access the "orders/:id/history"
+   * route with "GET" method
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {ForbiddenException} if the logged user has no permission to access
+   * those sources
+   * @returns all the order status history entity dtos
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Retrieves the status history of a single order' })
+  @ApiOkResponse({
+    description: 'Gets all the order status transitions',
+    type: OrderStatusHistoryDto,
+    isArray: true,
+  })
+  @ApiNotFoundResponse({ description: 'Order not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Get(':id/history')
+  public async listHistory(
+    @Param('id') orderId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<OrderStatusHistoryDto[]> {
+    const entities = await this.orderService.listHistory(orderId, requestUser)
+    return entities.map(entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the "orders/:id/invoice"
+   * route with "GET" method
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @param response stores the response that will receive the pdf file
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {ForbiddenException} if the logged user has no permission to access
+   * those sources
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Retrieves the invoice pdf of a single order' })
+  @ApiProduces('application/pdf')
+  @ApiOkResponse({ description: 'Gets the invoice pdf document' })
+  @ApiNotFoundResponse({ description: 'Order not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Get(':id/invoice')
+  public async getInvoice(
+    @Param('id') orderId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Res() response: Response,
+  ): Promise<void> {
+    const entity = await this.invoiceService.getByOrderId(orderId, requestUser)
+
+    response
+      .set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${entity.number}.pdf"`,
+      })
+      .send(Buffer.from(entity.pdf, 'base64'))
+  }
+
+  /**
+   * Method that is called when the user access the "orders/:id/invoice/data"
+   * route with "GET" method
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {ForbiddenException} if the logged user has no permission to access
+   * those sources
+   * @returns the invoice data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Retrieves the invoice data of a single order' })
+  @ApiOkResponse({
+    description: 'Gets the data printed in the invoice',
+    type: InvoiceDto,
+  })
+  @ApiNotFoundResponse({ description: 'Order not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Get(':id/invoice/data')
+  public async getInvoiceData(
+    @Param('id') orderId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<InvoiceDto> {
+    const entity = await this.invoiceService.getByOrderId(orderId, requestUser)
+    return entity.toDto()
+  }
+
   /**
    * Method that is called when the user access the "orders/:id"
    * route with "PATCH" method
@@ -188,6 +301,8 @@ export class OrderController {
    * @throws {EntityNotFoundException} if the order was not found
    * @throws {ForbiddenException} if the logged user has no permission to access
    * those sources
+   * @throws {InvalidOrderStatusTransitionException} if the order can not
+   * be changed to the informed status
    */
   @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
   @ApiOperation({ summary: 'Updates a single product' })
@@ -196,6 +311,9 @@ export class OrderController {
   @ApiForbiddenResponse({
     description: 'The user has no permission to access those sources',
   })
+  @ApiConflictResponse({
+    description: 'The order can not be changed to the informed status',
+  })
   @Patch(':id')
   public async update(
     @Param('id') orderId: number,
@@ -205,6 +323,39 @@ export class OrderController {
     await this.orderService.update(orderId, requestUser, updateOrderPayload)
   }
 
+  /**
+   * Method that is called when the user access the "orders/:id/cancel"
+   * route with "POST" method
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @param cancelOrderPayload stores the cancellation reason
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {ForbiddenException} if the logged user has no permission to
+   * cancel the order in its current status
+   * @throws {InvalidOrderStatusTransitionException} if the order can not
+   * be canceled anymore
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({
+    summary: 'Cancels a single order, giving back its products to the stock',
+  })
+  @ApiOkResponse({ description: 'Cancels a single order' })
+  @ApiNotFoundResponse({ description: 'Order not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @ApiConflictResponse({ description: 'The order can not be canceled' })
+  @Post(':id/cancel')
+  @HttpCode(200)
+  public async cancel(
+    @Param('id') orderId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() cancelOrderPayload: CancelOrderDto,
+  ): Promise<void> {
+    await this.orderService.cancel(orderId, requestUser, cancelOrderPayload)
+  }
+
   /**
    * Method that is called when the user access the "orders/:id"
    * route with "DELETE" method
@@ -0,0 +1,77 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne } from 'typeorm'
+
+import { OrderEntity } from './order.entity'
+import { BaseEntity } from 'src/common/base.entity'
+
+import { InvoiceDto } from '../models/invoice.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+
+/**
+ * The app's main invoice entity class
+ *
+ * Class that represents the invoice generated for some order. The data and
+ * the pdf document are stored the first time they are requested, so the
+ * invoice does not change when the products or the users are updated
+ */
+@Entity('invoice')
+export class InvoiceEntity extends BaseEntity implements ToDto<InvoiceDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 30,
+    nullable: false,
+    unique: true,
+  })
+  public number: string
+
+  @ApiProperty({ type: () => InvoiceDto })
+  @Column({
+    type: 'simple-json',
+    nullable: false,
+  })
+  public data: InvoiceDto
+
+  /**
+   * The rendered pdf document, encoded in base64
+   */
+  @Column({
+    type: 'text',
+    nullable: false,
+  })
+  public pdf: string
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+    unique: true,
+  })
+  public orderId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => OrderEntity })
+  @ManyToOne(() => OrderEntity, { onDelete: 'CASCADE' })
+  public order?: OrderEntity
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<InvoiceEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): InvoiceDto {
+    return new InvoiceDto(this.data)
+  }
+}
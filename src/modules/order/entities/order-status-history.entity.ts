@@ -0,0 +1,90 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne } from 'typeorm'
+
+import { OrderEntity } from './order.entity'
+import { BaseEntity } from 'src/common/base.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { OrderStatusHistoryDto } from '../models/order-status-history.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+
+/**
+ * The app's main order status history entity class
+ *
+ * Class that represents the entity that deals with the order status
+ * transitions
+ */
+@Entity('order-status-history')
+export class OrderStatusHistoryEntity extends BaseEntity
+  implements ToDto<OrderStatusHistoryDto> {
+  //#region Columns
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public fromStatus?: OrderStatus
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public toStatus: OrderStatus
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public orderId: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public userId?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  public reason?: string
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => OrderEntity })
+  @ManyToOne(
+    () => OrderEntity,
+    order => order.statusHistory,
+    { onDelete: 'CASCADE' },
+  )
+  public order?: OrderEntity
+
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'SET NULL' })
+  public user?: UserEntity
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<OrderStatusHistoryEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): OrderStatusHistoryDto {
+    return new OrderStatusHistoryDto(this)
+  }
+}
@@ -1,13 +1,16 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
 import { Column, Entity, ManyToOne, OneToMany } from 'typeorm'
 
+import { OrderStatusHistoryEntity } from './order-status-history.entity'
+import { PurchaseEntity } from './purchase.entity'
 import { BaseEntity } from 'src/common/base.entity'
+import { CouponEntity } from 'src/modules/coupon/entities/coupon.entity'
+import { PaymentEntity } from 'src/modules/payment/entities/payment.entity'
 import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
 import { UserEntity } from 'src/modules/user/entities/user.entity'
 
 import { OrderDto } from '../models/order.dto'
 import { ToDto } from 'src/common/to-dto.interface'
-
 import { OrderStatus } from 'src/models/enums/order-status.enum'
 
 /**
@@ -51,6 +54,54 @@ export class OrderEntity extends BaseEntity implements ToDto<OrderDto> {
   })
   public houseNumber: number
 
+  /**
+   * The address fields are copied from the buyer address book in the
+   * checkout, so later changes in the address book do not change the
+   * order
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 50,
+    nullable: true
+  })
+  public street?: string
+
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'text',
+    nullable: true
+  })
+  public complement?: string
+
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 50,
+    nullable: true
+  })
+  public district?: string
+
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 50,
+    nullable: true
+  })
+  public city?: string
+
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 2,
+    nullable: true
+  })
+  public state?: string
+
   @ApiPropertyOptional()
   @Column({
     type: 'float',
@@ -67,6 +118,60 @@ export class OrderEntity extends BaseEntity implements ToDto<OrderDto> {
   })
   public shippingPrice?: number
 
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0
+  })
+  public subtotal?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0
+  })
+  public discountTotal?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0
+  })
+  public couponDiscount?: number
+
+  /**
+   * The interest charged when the order is split in installments
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0
+  })
+  public installmentInterest?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0
+  })
+  public total?: number
+
+  /**
+   * The sum of the refunds given by the approved return requests
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0
+  })
+  public refundedAmount?: number
+
   @ApiProperty()
   @Column({
     type: 'int',
@@ -74,6 +179,27 @@ export class OrderEntity extends BaseEntity implements ToDto<OrderDto> {
   })
   public userId: number
 
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true
+  })
+  public sellerId?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true
+  })
+  public purchaseId?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true
+  })
+  public couponId?: number
+
   //#region Relations
 
   @ApiPropertyOptional({ type: () => UserEntity })
@@ -84,6 +210,22 @@ export class OrderEntity extends BaseEntity implements ToDto<OrderDto> {
   )
   public user?: UserEntity
 
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'SET NULL' })
+  public seller?: UserEntity
+
+  @ApiPropertyOptional({ type: () => PurchaseEntity })
+  @ManyToOne(
+    () => PurchaseEntity,
+    purchase => purchase.orders,
+    { onDelete: 'CASCADE' }
+  )
+  public purchase?: PurchaseEntity
+
+  @ApiPropertyOptional({ type: () => CouponEntity })
+  @ManyToOne(() => CouponEntity, { onDelete: 'SET NULL' })
+  public coupon?: CouponEntity
+
   @ApiPropertyOptional({
     type: () => ProductGroupEntity,
     isArray: true
@@ -94,6 +236,26 @@ export class OrderEntity extends BaseEntity implements ToDto<OrderDto> {
   )
   public productGroups?: ProductGroupEntity[]
 
+  @ApiPropertyOptional({
+    type: () => OrderStatusHistoryEntity,
+    isArray: true
+  })
+  @OneToMany(
+    () => OrderStatusHistoryEntity,
+    statusHistory => statusHistory.order
+  )
+  public statusHistory?: OrderStatusHistoryEntity[]
+
+  @ApiPropertyOptional({
+    type: () => PaymentEntity,
+    isArray: true
+  })
+  @OneToMany(
+    () => PaymentEntity,
+    payment => payment.order
+  )
+  public payments?: PaymentEntity[]
+
   //#endregion
 
   //#endregion
@@ -0,0 +1,144 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne, OneToMany } from 'typeorm'
+
+import { OrderEntity } from './order.entity'
+import { BaseEntity } from 'src/common/base.entity'
+import { CouponEntity } from 'src/modules/coupon/entities/coupon.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { PurchaseDto } from '../models/purchase.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+
+/**
+ * The app's main purchase entity class
+ *
+ * Class that represents the entity that groups all the orders created
+ * in the same checkout, one for each seller
+ */
+@Entity('purchase')
+export class PurchaseEntity extends BaseEntity implements ToDto<PurchaseDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 8,
+    nullable: true,
+  })
+  public cep: string
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public houseNumber: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: true,
+    default: 1,
+  })
+  public installmentAmount?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0,
+  })
+  public shippingPrice?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0,
+  })
+  public subtotal?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0,
+  })
+  public discountTotal?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0,
+  })
+  public couponDiscount?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0,
+  })
+  public installmentInterest?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0,
+  })
+  public total?: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public userId: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public couponId?: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  public user?: UserEntity
+
+  @ApiPropertyOptional({ type: () => CouponEntity })
+  @ManyToOne(() => CouponEntity, { onDelete: 'SET NULL' })
+  public coupon?: CouponEntity
+
+  @ApiPropertyOptional({
+    type: () => OrderEntity,
+    isArray: true,
+  })
+  @OneToMany(
+    () => OrderEntity,
+    order => order.purchase,
+  )
+  public orders?: OrderEntity[]
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<PurchaseEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): PurchaseDto {
+    return new PurchaseDto(this)
+  }
+}
@@ -0,0 +1,154 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { PaymentMethod } from 'src/models/enums/payment-method.enum'
+
+/**
+ * The app's main invoice party dto class
+ *
+ * Class that deals with the buyer or the seller data printed in the invoice
+ */
+export class InvoicePartyDto {
+  @ApiProperty()
+  public id: number
+
+  @ApiProperty()
+  public name: string
+
+  @ApiPropertyOptional()
+  public cpf?: string
+
+  @ApiProperty()
+  public email: string
+
+  public constructor(partial: Partial<InvoicePartyDto>) {
+    Object.assign(this, partial)
+  }
+}
+
+/**
+ * The app's main invoice address dto class
+ *
+ * Class that deals with the shipping address printed in the invoice
+ */
+export class InvoiceAddressDto {
+  @ApiProperty()
+  public cep: string
+
+  @ApiProperty()
+  public houseNumber: number
+
+  @ApiPropertyOptional()
+  public street?: string
+
+  @ApiPropertyOptional()
+  public complement?: string
+
+  @ApiPropertyOptional()
+  public district?: string
+
+  @ApiPropertyOptional()
+  public city?: string
+
+  @ApiPropertyOptional()
+  public state?: string
+
+  public constructor(partial: Partial<InvoiceAddressDto>) {
+    Object.assign(this, partial)
+  }
+}
+
+/**
+ * The app's main invoice item dto class
+ *
+ * Class that deals with each product printed in the invoice, with the price
+ * paid when the order was created
+ */
+export class InvoiceItemDto {
+  @ApiProperty()
+  public productId: number
+
+  @ApiProperty()
+  public productName: string
+
+  @ApiProperty()
+  public amount: number
+
+  @ApiProperty()
+  public unitPrice: number
+
+  @ApiProperty()
+  public discount: number
+
+  @ApiProperty()
+  public finalUnitPrice: number
+
+  @ApiProperty()
+  public total: number
+
+  public constructor(partial: Partial<InvoiceItemDto>) {
+    Object.assign(this, partial)
+  }
+}
+
+/**
+ * The app's main invoice dto class
+ *
+ * Class that deals with the structured data of some order invoice, the same
+ * data is rendered in the pdf document
+ */
+export class InvoiceDto {
+  @ApiProperty()
+  public number: string
+
+  @ApiProperty()
+  public issuedAt: Date
+
+  @ApiProperty()
+  public orderId: number
+
+  @ApiProperty()
+  public trackingCode: string
+
+  @ApiProperty({ type: () => InvoicePartyDto })
+  public buyer: InvoicePartyDto
+
+  @ApiPropertyOptional({ type: () => InvoicePartyDto })
+  public seller?: InvoicePartyDto
+
+  @ApiProperty({ type: () => InvoiceAddressDto })
+  public shippingAddress: InvoiceAddressDto
+
+  @ApiProperty({ type: () => InvoiceItemDto, isArray: true })
+  public items: InvoiceItemDto[]
+
+  @ApiProperty()
+  public subtotal: number
+
+  @ApiProperty()
+  public discountTotal: number
+
+  @ApiProperty()
+  public couponDiscount: number
+
+  @ApiProperty()
+  public installmentInterest: number
+
+  @ApiProperty()
+  public shippingPrice: number
+
+  @ApiProperty()
+  public total: number
+
+  @ApiPropertyOptional({ enum: PaymentMethod })
+  public paymentMethod?: PaymentMethod
+
+  @ApiProperty()
+  public installmentAmount: number
+
+  @ApiProperty()
+  public installmentValue: number
+
+  public constructor(partial: Partial<InvoiceDto>) {
+    Object.assign(this, partial)
+  }
+}
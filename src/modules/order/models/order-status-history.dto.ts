@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { OrderStatusHistoryEntity } from '../entities/order-status-history.entity'
+
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { UserDto } from 'src/modules/user/models/user.dto'
+
+/**
+ * The app's main order status history dto class
+ *
+ * Class that deals with the order status history return data
+ */
+export class OrderStatusHistoryDto extends BaseResponseDto {
+  @ApiPropertyOptional()
+  public fromStatus?: OrderStatus
+
+  @ApiProperty()
+  public toStatus: OrderStatus
+
+  @ApiProperty()
+  public orderId: number
+
+  @ApiPropertyOptional()
+  public userId?: number
+
+  @ApiPropertyOptional()
+  public reason?: string
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => UserDto })
+  public user?: UserDto
+
+  //#endregion
+
+  public constructor(entity: OrderStatusHistoryEntity) {
+    super(entity)
+
+    this.fromStatus = entity.fromStatus
+    this.toStatus = entity.toStatus
+    this.orderId = entity.orderId
+    this.userId = entity.userId
+    this.reason = entity.reason
+
+    // relations
+    this.user = entity.user?.toDto()
+  }
+}
@@ -2,9 +2,13 @@ import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
 
 import { OrderEntity } from '../entities/order.entity'
 
+import { OrderStatusHistoryDto } from './order-status-history.dto'
+import { PurchaseDto } from './purchase.dto'
 import { BaseGetManyDefaultResponseDto } from 'src/common/base-get-many-default-response.dto'
 import { BaseResponseDto } from 'src/common/base-response.dto'
 import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { CouponDto } from 'src/modules/coupon/models/coupon.dto'
+import { PaymentDto } from 'src/modules/payment/models/payment.dto'
 import { ProductGroupDto } from 'src/modules/product-group/models/product-group.dto'
 import { UserDto } from 'src/modules/user/models/user.dto'
 
@@ -26,21 +30,78 @@ export class OrderDto extends BaseResponseDto {
   @ApiProperty()
   public houseNumber: number
 
+  @ApiPropertyOptional()
+  public street?: string
+
+  @ApiPropertyOptional()
+  public complement?: string
+
+  @ApiPropertyOptional()
+  public district?: string
+
+  @ApiPropertyOptional()
+  public city?: string
+
+  @ApiPropertyOptional()
+  public state?: string
+
   @ApiProperty()
   public installmentAmount: number
 
   @ApiProperty()
   public shippingPrice: number
 
+  @ApiProperty()
+  public subtotal: number
+
+  @ApiProperty()
+  public discountTotal: number
+
+  @ApiProperty()
+  public couponDiscount: number
+
+  @ApiProperty()
+  public installmentInterest: number
+
+  @ApiProperty()
+  public total: number
+
+  @ApiProperty()
+  public refundedAmount: number
+
   @ApiProperty()
   public userId: number
 
+  @ApiPropertyOptional()
+  public sellerId?: number
+
+  @ApiPropertyOptional()
+  public purchaseId?: number
+
+  @ApiPropertyOptional()
+  public couponId?: number
+
   @ApiPropertyOptional({ type: () => UserDto })
   public user?: UserDto
 
+  @ApiPropertyOptional({ type: () => UserDto })
+  public seller?: UserDto
+
+  @ApiPropertyOptional({ type: () => PurchaseDto })
+  public purchase?: PurchaseDto
+
+  @ApiPropertyOptional({ type: () => CouponDto })
+  public coupon?: CouponDto
+
   @ApiPropertyOptional({ type: () => ProductGroupDto, isArray: true })
   public productGroups?: ProductGroupDto[]
 
+  @ApiPropertyOptional({ type: () => OrderStatusHistoryDto, isArray: true })
+  public statusHistory?: OrderStatusHistoryDto[]
+
+  @ApiPropertyOptional({ type: () => PaymentDto, isArray: true })
+  public payments?: PaymentDto[]
+
   public constructor(entity: OrderEntity) {
     super(entity)
 
@@ -48,13 +109,34 @@ export class OrderDto extends BaseResponseDto {
     this.trackingCode = entity.trackingCode
     this.cep = entity.cep
     this.houseNumber = entity.houseNumber
+    this.street = entity.street
+    this.complement = entity.complement
+    this.district = entity.district
+    this.city = entity.city
+    this.state = entity.state
     this.installmentAmount = entity.installmentAmount ?? 1
     this.shippingPrice = entity.shippingPrice ?? 0
+    this.subtotal = entity.subtotal ?? 0
+    this.discountTotal = entity.discountTotal ?? 0
+    this.couponDiscount = entity.couponDiscount ?? 0
+    this.installmentInterest = entity.installmentInterest ?? 0
+    this.total = entity.total ?? 0
+    this.refundedAmount = entity.refundedAmount ?? 0
     this.userId = entity.userId
+    this.sellerId = entity.sellerId
+    this.purchaseId = entity.purchaseId
+    this.couponId = entity.couponId
 
     // relations
     this.user = entity.user?.toDto()
+    this.seller = entity.seller?.toDto()
+    this.purchase = entity.purchase?.toDto()
+    this.coupon = entity.coupon?.toDto()
     this.productGroups = entity.productGroups?.map(order => order.toDto())
+    this.statusHistory = entity.statusHistory?.map(statusHistory =>
+      statusHistory.toDto(),
+    )
+    this.payments = entity.payments?.map(payment => payment.toDto())
   }
 }
 
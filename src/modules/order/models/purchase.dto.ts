@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { PurchaseEntity } from '../entities/purchase.entity'
+
+import { OrderDto } from './order.dto'
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { CouponDto } from 'src/modules/coupon/models/coupon.dto'
+import { UserDto } from 'src/modules/user/models/user.dto'
+
+/**
+ * The app's main purchase dto class
+ *
+ * Class that deals with the purchase return data
+ */
+export class PurchaseDto extends BaseResponseDto {
+  @ApiProperty()
+  public cep: string
+
+  @ApiProperty()
+  public houseNumber: number
+
+  @ApiProperty()
+  public installmentAmount: number
+
+  @ApiProperty()
+  public shippingPrice: number
+
+  @ApiProperty()
+  public subtotal: number
+
+  @ApiProperty()
+  public discountTotal: number
+
+  @ApiProperty()
+  public couponDiscount: number
+
+  @ApiProperty()
+  public installmentInterest: number
+
+  @ApiProperty()
+  public total: number
+
+  @ApiProperty()
+  public userId: number
+
+  @ApiPropertyOptional()
+  public couponId?: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => UserDto })
+  public user?: UserDto
+
+  @ApiPropertyOptional({ type: () => CouponDto })
+  public coupon?: CouponDto
+
+  @ApiPropertyOptional({ type: () => OrderDto, isArray: true })
+  public orders?: OrderDto[]
+
+  //#endregion
+
+  public constructor(entity: PurchaseEntity) {
+    super(entity)
+
+    this.cep = entity.cep
+    this.houseNumber = entity.houseNumber
+    this.installmentAmount = entity.installmentAmount ?? 1
+    this.shippingPrice = entity.shippingPrice ?? 0
+    this.subtotal = entity.subtotal ?? 0
+    this.discountTotal = entity.discountTotal ?? 0
+    this.couponDiscount = entity.couponDiscount ?? 0
+    this.installmentInterest = entity.installmentInterest ?? 0
+    this.total = entity.total ?? 0
+    this.userId = entity.userId
+    this.couponId = entity.couponId
+
+    // relations
+    this.user = entity.user?.toDto()
+    this.coupon = entity.coupon?.toDto()
+    this.orders = entity.orders?.map(order => order.toDto())
+  }
+}
@@ -1,21 +1,32 @@
 import { forwardRef, Module } from '@nestjs/common'
 import { TypeOrmModule } from '@nestjs/typeorm'
 
+import { InvoiceEntity } from './entities/invoice.entity'
+import { OrderStatusHistoryEntity } from './entities/order-status-history.entity'
 import { OrderEntity } from './entities/order.entity'
+import { PurchaseEntity } from './entities/purchase.entity'
 
+import { InvoiceService } from './services/invoice.service'
 import { OrderService } from './services/order.service'
 
 import { OrderController } from './controllers/order.controller'
 
+import { PaymentModule } from '../payment/payment.module'
 import { UserModule } from '../user/user.module'
 
 @Module({
   imports: [
+    forwardRef(() => PaymentModule),
     forwardRef(() => UserModule),
-    TypeOrmModule.forFeature([OrderEntity])
+    TypeOrmModule.forFeature([
+      InvoiceEntity,
+      OrderEntity,
+      OrderStatusHistoryEntity,
+      PurchaseEntity
+    ])
   ],
   controllers: [OrderController],
-  providers: [OrderService],
+  providers: [OrderService, InvoiceService],
   exports: [OrderService]
 })
 export class OrderModule {}
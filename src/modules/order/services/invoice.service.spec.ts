@@ -0,0 +1,211 @@
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+
+import { InvoiceEntity } from '../entities/invoice.entity'
+import { OrderEntity } from '../entities/order.entity'
+import { AddressEntity } from 'src/modules/address/entities/address.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { InvoiceService } from './invoice.service'
+import { OrderService } from './order.service'
+import { PaymentService } from 'src/modules/payment/services/payment.service'
+
+describe('InvoiceService', () => {
+  let service: InvoiceService
+  let sequence = 0
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        InvoiceService,
+        {
+          provide: getRepositoryToken(InvoiceEntity),
+          useValue: getRepository(InvoiceEntity),
+        },
+        OrderService,
+        {
+          provide: getRepositoryToken(OrderEntity),
+          useValue: getRepository(OrderEntity),
+        },
+        { provide: PaymentService, useValue: {} },
+      ],
+    }).compile()
+
+    service = await module.resolve(InvoiceService)
+  })
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Common): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: `TEST-${sequence}`,
+      email: `invoice-${sequence}@test.com`,
+      password: '123456',
+      cpf: '12345678909',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates an order of some buyer with one product of the
+   * seller
+   *
+   * @param buyer stores the buyer entity
+   * @param seller stores the seller entity
+   * @returns the created order entity
+   */
+  async function createOrder(
+    buyer: UserEntity,
+    seller: UserEntity,
+  ): Promise<OrderEntity> {
+    sequence++
+    const product = await new ProductEntity({
+      name: `O PEQUENO PRÍNCIPE ${sequence}`,
+      description: 'PRODUCT-TEST',
+      price: 40,
+      stockAmount: 10,
+      userId: seller.id,
+    }).save()
+
+    const order = await new OrderEntity({
+      trackingCode: `TRACKING-${sequence}`,
+      cep: '01001000',
+      houseNumber: 10,
+      street: 'PRAÇA DA SÉ',
+      district: 'SÉ',
+      city: 'SÃO PAULO',
+      state: 'SP',
+      installmentAmount: 2,
+      shippingPrice: 10,
+      subtotal: 80,
+      discountTotal: 8,
+      total: 82,
+      userId: buyer.id,
+      sellerId: seller.id,
+    }).save()
+
+    await new ProductGroupEntity({
+      amount: 2,
+      productId: product.id,
+      productName: product.name,
+      unitPrice: 40,
+      discount: 0.1,
+      orderId: order.id,
+    }).save()
+
+    return order
+  }
+
+  describe('getByOrderId', () => {
+    // tests if the invoice has the price snapshot of the order
+    it('should generate the invoice data and the pdf document', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const order = await createOrder(buyer, seller)
+
+      const invoice = await service.getByOrderId(order.id, buyer)
+
+      expect(invoice.toDto()).toMatchObject({
+        orderId: order.id,
+        buyer: { id: buyer.id, cpf: '12345678909' },
+        seller: { id: seller.id },
+        shippingAddress: { street: 'PRAÇA DA SÉ', city: 'SÃO PAULO' },
+        items: [
+          {
+            productName: expect.stringContaining('O PEQUENO PRÍNCIPE'),
+            amount: 2,
+            finalUnitPrice: 36,
+            total: 72,
+          },
+        ],
+        total: 82,
+        installmentAmount: 2,
+        installmentValue: 41,
+      })
+
+      const pdf = Buffer.from(invoice.pdf, 'base64')
+      expect(pdf.slice(0, 8).toString('latin1')).toBe('%PDF-1.4')
+      expect(pdf.toString('latin1')).toContain('O PEQUENO PR\xcdNCIPE')
+    })
+
+    // tests if the invoice keeps the address that was used in the checkout
+    it('should print the order address even after the buyer edits the address book', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const order = await createOrder(buyer, seller)
+
+      await new AddressEntity({
+        cep: '01001000',
+        street: 'RUA NOVA',
+        houseNumber: 10,
+        district: 'CENTRO',
+        city: 'SÃO PAULO',
+        state: 'SP',
+        userId: buyer.id,
+      }).save()
+
+      const invoice = await service.getByOrderId(order.id, buyer)
+
+      expect(invoice.data.shippingAddress).toMatchObject({
+        cep: '01001000',
+        houseNumber: 10,
+        street: 'PRAÇA DA SÉ',
+        district: 'SÉ',
+      })
+    })
+
+    // tests if the invoice is not generated again
+    it('should return the cached invoice to the seller', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const order = await createOrder(buyer, seller)
+
+      const first = await service.getByOrderId(order.id, buyer)
+      await UserEntity.update({ id: buyer.id }, { name: 'RENAMED' })
+      const second = await service.getByOrderId(order.id, seller)
+
+      expect(second.id).toBe(first.id)
+      expect(second.data.buyer.name).toBe(first.data.buyer.name)
+      expect(await InvoiceEntity.count({ orderId: order.id })).toBe(1)
+    })
+
+    // tests if the other users can not fetch the invoice
+    it('should throw a "ForbiddenException" when the user is not involved in the order', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const order = await createOrder(buyer, seller)
+
+      await expect(
+        service.getByOrderId(order.id, await createUser()),
+      ).rejects.toThrow(ForbiddenException)
+    })
+  })
+})
@@ -0,0 +1,311 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { InvoiceEntity } from '../entities/invoice.entity'
+import { OrderEntity } from '../entities/order.entity'
+import { PaymentEntity } from 'src/modules/payment/entities/payment.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import {
+  InvoiceAddressDto,
+  InvoiceDto,
+  InvoiceItemDto,
+  InvoicePartyDto,
+} from '../models/invoice.dto'
+
+import { OrderService } from './order.service'
+
+import { PDF_PAGE_SIZE, PdfText, renderPdf } from 'src/utils/pdf'
+
+/**
+ * The app's main invoice service class
+ *
+ * Class that deals with the invoices of the orders
+ */
+@Injectable()
+export class InvoiceService {
+  public constructor(
+    @InjectRepository(InvoiceEntity)
+    private readonly repository: Repository<InvoiceEntity>,
+    private readonly orderService: OrderService,
+  ) {}
+
+  /**
+   * Method that gets the invoice of some order, generating it the first
+   * time it is requested
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {ForbiddenException} if the logged user is not the buyer, the
+   * seller or an admin
+   * @returns the invoice entity
+   */
+  public async getByOrderId(
+    orderId: number,
+    requestUser: UserEntity,
+  ): Promise<InvoiceEntity> {
+    const order = await OrderEntity.findOne({ id: orderId })
+
+    if (!order || !order.isActive) {
+      throw new EntityNotFoundException(orderId, OrderEntity)
+    }
+
+    const actors = await this.orderService.getActors(order, requestUser)
+
+    if (actors.length === 0) {
+      throw new ForbiddenException()
+    }
+
+    const cached = await this.repository.findOne({ orderId: order.id })
+
+    if (cached) {
+      return cached
+    }
+
+    const data = await this.createData(order)
+
+    try {
+      return await this.repository.save(
+        new InvoiceEntity({
+          number: data.number,
+          data,
+          pdf: InvoiceService.render(data).toString('base64'),
+          orderId: order.id,
+        }),
+      )
+    } catch (error) {
+      // another request may have generated the same invoice meanwhile
+      const created = await this.repository.findOne({ orderId: order.id })
+      if (!created) throw error
+      return created
+    }
+  }
+
+  /**
+   * Method that collects all the data printed in the invoice of some order
+   *
+   * @param order stores the order entity
+   * @returns the invoice data
+   */
+  private async createData(order: OrderEntity): Promise<InvoiceDto> {
+    const round = (value: number) => Math.round(value * 100) / 100
+
+    const buyer = await UserEntity.findOne({ id: order.userId })
+    const seller =
+      order.sellerId !== null && order.sellerId !== undefined
+        ? await UserEntity.findOne({ id: order.sellerId })
+        : undefined
+
+    const productGroups = await ProductGroupEntity.find({
+      where: { orderId: order.id },
+      relations: ['product'],
+      order: { id: 'ASC' },
+    })
+
+    const payment = await PaymentEntity.findOne({
+      where: { orderId: order.id },
+      order: { id: 'DESC' },
+    })
+
+    const issuedAt = new Date()
+    const installmentAmount = order.installmentAmount || 1
+
+    return new InvoiceDto({
+      number: `PB-${issuedAt.getFullYear()}-${String(order.id).padStart(
+        8,
+        '0',
+      )}`,
+      issuedAt,
+      orderId: order.id,
+      trackingCode: order.trackingCode,
+      buyer: InvoiceService.toParty(buyer),
+      seller: seller && InvoiceService.toParty(seller),
+      shippingAddress: new InvoiceAddressDto({
+        cep: order.cep,
+        houseNumber: order.houseNumber,
+        street: order.street,
+        complement: order.complement,
+        district: order.district,
+        city: order.city,
+        state: order.state,
+      }),
+      items: productGroups.map(({ product, productId, amount, ...rest }) => {
+        const unitPrice = rest.unitPrice ?? product.price
+        const discount = rest.discount ?? 0
+        const finalUnitPrice = round(unitPrice * (1 - discount))
+
+        return new InvoiceItemDto({
+          productId,
+          productName: rest.productName ?? product.name,
+          amount,
+          unitPrice,
+          discount,
+          finalUnitPrice,
+          total: round(finalUnitPrice * amount),
+        })
+      }),
+      subtotal: order.subtotal ?? 0,
+      discountTotal: order.discountTotal ?? 0,
+      couponDiscount: order.couponDiscount ?? 0,
+      installmentInterest: order.installmentInterest ?? 0,
+      shippingPrice: order.shippingPrice ?? 0,
+      total: order.total ?? 0,
+      paymentMethod: payment?.method,
+      installmentAmount,
+      installmentValue: round((order.total ?? 0) / installmentAmount),
+    })
+  }
+
+  /**
+   * Method that renders the invoice pdf document
+   *
+   * @param data stores the invoice data
+   * @returns the pdf file content
+   */
+  public static render(data: InvoiceDto): Buffer {
+    const [, height] = PDF_PAGE_SIZE
+    const pages: PdfText[][] = [[]]
+    let y = height - 60
+
+    const write = (texts: Omit<PdfText, 'y'>[], spacing = 16) => {
+      if (y < 60) {
+        pages.push([])
+        y = height - 60
+      }
+
+      pages[pages.length - 1].push(...texts.map(text => ({ ...text, y })))
+      y -= spacing
+    }
+
+    const money = (value: number) => {
+      const [integer, cents] = Math.abs(value)
+        .toFixed(2)
+        .split('.')
+      return `${value < 0 ? '-' : ''}R$ ${integer.replace(
+        /\B(?=(\d{3})+(?!\d))/g,
+        '.',
+      )},${cents}`
+    }
+
+    const { buyer, seller, shippingAddress: address } = data
+
+    write([{ x: 50, text: `Invoice ${data.number}`, size: 18, bold: true }], 28)
+    write([
+      {
+        x: 50,
+        text: `Issued at ${new Date(data.issuedAt).toISOString().slice(0, 10)}`,
+      },
+    ])
+    write([
+      {
+        x: 50,
+        text: `Order #${data.orderId} - tracking code ${data.trackingCode}`,
+      },
+    ])
+    y -= 12
+
+    write([{ x: 50, text: 'Buyer', bold: true }])
+    write([{ x: 50, text: buyer.name }])
+    if (buyer.cpf) write([{ x: 50, text: `CPF ${buyer.cpf}` }])
+    write([{ x: 50, text: buyer.email }])
+    if (seller) {
+      y -= 12
+      write([{ x: 50, text: 'Seller', bold: true }])
+      write([{ x: 50, text: seller.name }])
+      write([{ x: 50, text: seller.email }])
+    }
+    y -= 12
+
+    write([{ x: 50, text: 'Shipping address', bold: true }])
+    write([
+      {
+        x: 50,
+        text: [address.street, address.houseNumber, address.complement]
+          .filter(part => part !== undefined && part !== null && part !== '')
+          .join(', '),
+      },
+    ])
+    write([
+      {
+        x: 50,
+        text: [address.district, address.city, address.state]
+          .filter(Boolean)
+          .join(', '),
+      },
+    ])
+    write([{ x: 50, text: `CEP ${address.cep}` }])
+    y -= 12
+
+    const header = { bold: true }
+    write([
+      { x: 50, text: 'Product', ...header },
+      { x: 330, text: 'Amount', ...header },
+      { x: 390, text: 'Unit price', ...header },
+      { x: 480, text: 'Total', ...header },
+    ])
+    for (const item of data.items) {
+      write([
+        {
+          x: 50,
+          text:
+            item.productName.length > 45
+              ? `${item.productName.slice(0, 42)}...`
+              : item.productName,
+        },
+        { x: 330, text: String(item.amount) },
+        { x: 390, text: money(item.finalUnitPrice) },
+        { x: 480, text: money(item.total) },
+      ])
+    }
+    y -= 12
+
+    const totals: [string, number][] = [
+      ['Subtotal', data.subtotal],
+      ['Discounts', -data.discountTotal],
+      ['Coupon', -data.couponDiscount],
+      ['Shipping', data.shippingPrice],
+      ['Installment interest', data.installmentInterest],
+    ]
+    for (const [label, value] of totals) {
+      write([
+        { x: 330, text: label },
+        { x: 480, text: money(value) },
+      ])
+    }
+    write([
+      { x: 330, text: 'Total', bold: true },
+      { x: 480, text: money(data.total), bold: true },
+    ])
+    write([
+      {
+        x: 330,
+        text: `${data.installmentAmount}x of ${money(data.installmentValue)}${
+          data.paymentMethod ? ` (${data.paymentMethod})` : ''
+        }`,
+      },
+    ])
+
+    return renderPdf(pages)
+  }
+
+  /**
+   * Method that gets the user data printed in the invoice
+   *
+   * @param user stores the user entity
+   * @returns the invoice party data
+   */
+  private static toParty(user: UserEntity): InvoicePartyDto {
+    return new InvoicePartyDto({
+      id: user.id,
+      name: `${user.name} ${user.lastName}`,
+      cpf: user.cpf,
+      email: user.email,
+    })
+  }
+}
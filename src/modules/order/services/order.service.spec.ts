@@ -0,0 +1,532 @@
+import { ConfigService } from '@nestjs/config'
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { InvalidOrderStatusTransitionException } from 'src/exceptions/conflict/invalid-order-status-transition.exception'
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+
+import { OrderStatusHistoryEntity } from '../entities/order-status-history.entity'
+import { OrderEntity } from '../entities/order.entity'
+import { PurchaseEntity } from '../entities/purchase.entity'
+import { CouponRedemptionEntity } from 'src/modules/coupon/entities/coupon-redemption.entity'
+import { CouponEntity } from 'src/modules/coupon/entities/coupon.entity'
+import { NotificationEntity } from 'src/modules/notification/entities/notification.entity'
+import { PaymentEntity } from 'src/modules/payment/entities/payment.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CouponType } from 'src/models/enums/coupon-type.enum'
+import { NotificationType } from 'src/models/enums/notification-type.enum'
+import { OrderActor } from 'src/models/enums/order-actor.enum'
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { OrderService } from './order.service'
+import { PaymentService } from 'src/modules/payment/services/payment.service'
+
+import { FakePaymentProvider } from 'src/modules/payment/providers/fake-payment.provider'
+import { PAYMENT_PROVIDER } from 'src/modules/payment/providers/payment-provider.interface'
+
+describe('OrderService', () => {
+  let service: OrderService
+  let sequence = 0
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+    jest.restoreAllMocks()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        OrderService,
+        {
+          provide: getRepositoryToken(OrderEntity),
+          useValue: getRepository(OrderEntity),
+        },
+        PaymentService,
+        {
+          provide: getRepositoryToken(PaymentEntity),
+          useValue: getRepository(PaymentEntity),
+        },
+        { provide: PAYMENT_PROVIDER, useClass: FakePaymentProvider },
+        { provide: ConfigService, useValue: { get: () => 'SECRET' } },
+      ],
+    }).compile()
+
+    service = await module.resolve(OrderService)
+  })
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Common): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `order-${sequence}@test.com`,
+      password: '123456',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates an order of some buyer sold by some seller
+   *
+   * @param status stores the order status
+   * @param buyer stores the buyer entity
+   * @param seller stores the seller entity
+   * @param order stores the other order data
+   * @returns the created order entity
+   */
+  async function createOrder(
+    status: OrderStatus,
+    buyer: UserEntity,
+    seller: UserEntity,
+    order: Partial<OrderEntity> = {},
+  ): Promise<OrderEntity> {
+    return await new OrderEntity({
+      trackingCode: OrderService.generateTrackingCode(),
+      status,
+      userId: buyer.id,
+      sellerId: seller.id,
+      ...order,
+    }).save()
+  }
+
+  /**
+   * Function that creates an order with some units of a new product
+   *
+   * @param status stores the order status
+   * @param buyer stores the buyer entity
+   * @param seller stores the seller entity
+   * @param amount stores the amount of units that were ordered
+   * @returns the created order and product entities
+   */
+  async function createOrderWithProduct(
+    status: OrderStatus,
+    buyer: UserEntity,
+    seller: UserEntity,
+    amount: number,
+  ): Promise<[OrderEntity, ProductEntity]> {
+    const product = await new ProductEntity({
+      name: `PRODUCT-TEST-${sequence}`,
+      description: 'PRODUCT-TEST',
+      price: 10,
+      stockAmount: 5,
+      ordersAmount: 1,
+      userId: seller.id,
+    }).save()
+
+    const order = await createOrder(status, buyer, seller)
+
+    await new ProductGroupEntity({
+      productId: product.id,
+      orderId: order.id,
+      amount,
+    }).save()
+
+    return [order, product]
+  }
+
+  describe('statusTransitions', () => {
+    // tests if the refunded orders can not change anymore
+    it('should not change the status of refunded orders', () => {
+      expect(OrderService.statusTransitions[OrderStatus.Refunded]).toEqual({})
+    })
+
+    // tests if only the payment confirmation marks the orders as paid
+    it('should only let the system mark the orders as paid', () => {
+      expect(
+        Object.values(OrderService.statusTransitions)
+          .map(transitions => transitions[OrderStatus.Paid])
+          .filter(actors => actors !== undefined),
+      ).toEqual([[OrderActor.System]])
+    })
+
+    // tests if the shipped orders can not be canceled
+    it('should not cancel the orders that left the seller', () => {
+      for (const status of [
+        OrderStatus.Shipped,
+        OrderStatus.InTransit,
+        OrderStatus.Delivered,
+      ]) {
+        expect(
+          OrderService.statusTransitions[status][OrderStatus.Canceled],
+        ).toBeUndefined()
+      }
+    })
+  })
+
+  describe('create', () => {
+    // tests if the order is created with its first history row
+    it('should store the first status of the order in its history', async () => {
+      const admin = await createUser(RolesEnum.Admin)
+      const buyer = await createUser()
+
+      const order = await service.create(admin, {
+        userId: buyer.id,
+        shippingPrice: 10,
+        addressId: 1,
+      })
+
+      expect(
+        await OrderStatusHistoryEntity.find({ orderId: order.id }),
+      ).toMatchObject([
+        { fromStatus: null, toStatus: OrderStatus.Pendent, userId: admin.id },
+      ])
+    })
+  })
+
+  describe('changeStatus', () => {
+    // tests if the seller moves the order forward and the transition is stored
+    it('should let the seller confirm a paid order', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const order = await createOrder(OrderStatus.Paid, buyer, seller)
+
+      await service.changeStatus(order.id, seller, OrderStatus.Confirmed)
+
+      await order.reload()
+
+      expect(order.status).toBe(OrderStatus.Confirmed)
+      expect(
+        await OrderStatusHistoryEntity.findOne({ orderId: order.id }),
+      ).toMatchObject({
+        fromStatus: OrderStatus.Paid,
+        toStatus: OrderStatus.Confirmed,
+        userId: seller.id,
+      })
+    })
+
+    // tests if the buyer can not perform the seller transitions
+    it('should throw ForbiddenException when the buyer confirms the order', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const order = await createOrder(OrderStatus.Paid, buyer, seller)
+
+      await expect(
+        service.changeStatus(order.id, buyer, OrderStatus.Confirmed),
+      ).rejects.toThrow(ForbiddenException)
+    })
+
+    // tests if the users that are not related with the order can not change it
+    it('should throw ForbiddenException when the user is not related with the order', async () => {
+      const order = await createOrder(
+        OrderStatus.Paid,
+        await createUser(),
+        await createUser(RolesEnum.Seller),
+      )
+
+      await expect(
+        service.changeStatus(
+          order.id,
+          await createUser(RolesEnum.Seller),
+          OrderStatus.Confirmed,
+        ),
+      ).rejects.toThrow(ForbiddenException)
+    })
+
+    // tests if the status can not be skipped, not even by the admins
+    it('should throw InvalidOrderStatusTransitionException when skipping some status', async () => {
+      const order = await createOrder(
+        OrderStatus.Pendent,
+        await createUser(),
+        await createUser(RolesEnum.Seller),
+      )
+
+      await expect(
+        service.changeStatus(
+          order.id,
+          await createUser(RolesEnum.Admin),
+          OrderStatus.Delivered,
+        ),
+      ).rejects.toThrow(InvalidOrderStatusTransitionException)
+    })
+
+    // tests if the admins can not mark the orders as paid, only the system
+    it('should only mark the order as paid on behalf of the system', async () => {
+      const order = await createOrder(
+        OrderStatus.Pendent,
+        await createUser(),
+        await createUser(RolesEnum.Seller),
+      )
+
+      await expect(
+        service.changeStatus(
+          order.id,
+          await createUser(RolesEnum.Admin),
+          OrderStatus.Paid,
+        ),
+      ).rejects.toThrow(ForbiddenException)
+
+      await service.changeStatusAsSystem(order.id, OrderStatus.Paid)
+
+      await order.reload()
+
+      expect(order.status).toBe(OrderStatus.Paid)
+    })
+  })
+
+  describe('cancel', () => {
+    // tests if the ordered units are given back to the stock
+    it('should give back the products to the stock', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const [order, product] = await createOrderWithProduct(
+        OrderStatus.Paid,
+        buyer,
+        seller,
+        3,
+      )
+
+      await service.cancel(order.id, buyer, { reason: 'CHANGED MY MIND' })
+
+      await Promise.all([order.reload(), product.reload()])
+
+      expect(order.status).toBe(OrderStatus.Canceled)
+      expect(product).toMatchObject({ stockAmount: 8, ordersAmount: 0 })
+      expect(
+        await OrderStatusHistoryEntity.findOne({ orderId: order.id }),
+      ).toMatchObject({
+        fromStatus: OrderStatus.Paid,
+        toStatus: OrderStatus.Canceled,
+        userId: buyer.id,
+        reason: 'CHANGED MY MIND',
+      })
+    })
+
+    // tests if the seller knows that the canceled units can be sold again
+    it('should notify the seller when the canceled units restock the product', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const [order, product] = await createOrderWithProduct(
+        OrderStatus.Paid,
+        buyer,
+        seller,
+        2,
+      )
+      await ProductEntity.update({ id: product.id }, { stockAmount: 0 })
+
+      await service.cancel(order.id, buyer, { reason: 'CHANGED MY MIND' })
+
+      expect(await NotificationEntity.find({ productId: product.id })).toEqual([
+        expect.objectContaining({
+          type: NotificationType.BackInStock,
+          userId: seller.id,
+        }),
+      ])
+    })
+
+    // tests if the same order can not be restocked twice
+    it('should throw InvalidOrderStatusTransitionException when the order is already canceled', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const [order, product] = await createOrderWithProduct(
+        OrderStatus.Pendent,
+        buyer,
+        seller,
+        2,
+      )
+
+      await service.cancel(order.id, buyer, { reason: 'CANCELED' })
+
+      await expect(
+        service.cancel(order.id, buyer, { reason: 'CANCELED' }),
+      ).rejects.toThrow(InvalidOrderStatusTransitionException)
+
+      await product.reload()
+
+      expect(product.stockAmount).toBe(7)
+      expect(await OrderStatusHistoryEntity.count({ orderId: order.id })).toBe(
+        1,
+      )
+    })
+
+    // tests if only the seller can cancel the orders that are being prepared
+    it('should throw ForbiddenException when the buyer cancels an order that is being prepared', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const order = await createOrder(OrderStatus.Preparing, buyer, seller)
+
+      await expect(
+        service.cancel(order.id, buyer, { reason: 'CANCELED' }),
+      ).rejects.toThrow(ForbiddenException)
+
+      await service.cancel(order.id, seller, { reason: 'CANCELED' })
+
+      await order.reload()
+
+      expect(order.status).toBe(OrderStatus.Canceled)
+    })
+
+    // tests if the coupon can be used again once all the purchase orders
+    // that used it are canceled
+    it('should release the coupon use when the last order of the purchase is canceled', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const coupon = await new CouponEntity({
+        code: `COUPON-${sequence}`,
+        type: CouponType.Percentage,
+        value: 10,
+        usesAmount: 1,
+        userId: seller.id,
+      }).save()
+      const purchase = await new PurchaseEntity({
+        shippingPrice: 0,
+        subtotal: 20,
+        discountTotal: 0,
+        couponDiscount: 2,
+        total: 18,
+        userId: buyer.id,
+        couponId: coupon.id,
+      }).save()
+      const orders = [
+        await createOrder(OrderStatus.Paid, buyer, seller, {
+          purchaseId: purchase.id,
+          couponId: coupon.id,
+        }),
+        await createOrder(OrderStatus.Paid, buyer, seller, {
+          purchaseId: purchase.id,
+          couponId: coupon.id,
+        }),
+      ]
+
+      await new CouponRedemptionEntity({
+        couponId: coupon.id,
+        userId: buyer.id,
+        purchaseId: purchase.id,
+        discount: 2,
+      }).save()
+
+      await service.cancel(orders[0].id, buyer, { reason: 'CANCELED' })
+
+      await coupon.reload()
+
+      expect(coupon.usesAmount).toBe(1)
+
+      await service.cancel(orders[1].id, buyer, { reason: 'CANCELED' })
+
+      await coupon.reload()
+
+      expect(coupon.usesAmount).toBe(0)
+      expect(await CouponRedemptionEntity.count({ couponId: coupon.id })).toBe(
+        0,
+      )
+    })
+  })
+
+  describe('listHistory', () => {
+    // tests if the history lists all the transitions in the order they happened
+    it('should list the transitions of the order', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const order = await createOrder(OrderStatus.Paid, buyer, seller)
+
+      await service.changeStatus(order.id, seller, OrderStatus.Confirmed)
+      await service.changeStatus(order.id, seller, OrderStatus.Preparing)
+
+      const history = await service.listHistory(order.id, buyer)
+
+      expect(history).toMatchObject([
+        { fromStatus: OrderStatus.Paid, toStatus: OrderStatus.Confirmed },
+        { fromStatus: OrderStatus.Confirmed, toStatus: OrderStatus.Preparing },
+      ])
+    })
+
+    // tests if the history is only shown to the users related with the order
+    it('should throw ForbiddenException when the user is not related with the order', async () => {
+      const order = await createOrder(
+        OrderStatus.Pendent,
+        await createUser(),
+        await createUser(RolesEnum.Seller),
+      )
+
+      await expect(
+        service.listHistory(order.id, await createUser()),
+      ).rejects.toThrow(ForbiddenException)
+    })
+  })
+
+  describe('generateUniqueTrackingCodes', () => {
+    // tests if the codes are easy to read
+    it('should generate codes without similar characters', async () => {
+      const codes = await OrderService.generateUniqueTrackingCodes(20)
+
+      expect(new Set(codes).size).toBe(20)
+      codes.forEach(code =>
+        expect(code).toMatch(
+          /^PB-[2-9A-HJ-NP-Z]{4}-[2-9A-HJ-NP-Z]{4}-[2-9A-HJ-NP-Z]{4}$/,
+        ),
+      )
+    })
+
+    // tests if the codes used by other orders are generated again
+    it('should not return the codes that are already used', async () => {
+      const user = await new UserEntity({
+        name: 'USER',
+        lastName: 'TEST',
+        email: 'order@test.com',
+        password: '123456',
+        roles: RolesEnum.Common,
+      }).save()
+
+      await new OrderEntity({
+        trackingCode: 'PB-AAAA-AAAA-AAAA',
+        userId: user.id,
+      }).save()
+
+      jest
+        .spyOn(OrderService, 'generateTrackingCode')
+        .mockReturnValueOnce('PB-AAAA-AAAA-AAAA')
+        .mockReturnValueOnce('PB-BBBB-BBBB-BBBB')
+
+      expect(await OrderService.generateUniqueTrackingCodes(1)).toEqual([
+        'PB-BBBB-BBBB-BBBB',
+      ])
+    })
+  })
+
+  describe('saveWithUniqueTrackingCode', () => {
+    // tests if a code taken after being generated is replaced instead of failing
+    it('should generate a new code when the code was taken in the meantime', async () => {
+      const user = await UserEntity.findOne({ email: 'order@test.com' })
+
+      jest
+        .spyOn(OrderService, 'generateTrackingCode')
+        .mockReturnValueOnce('PB-CCCC-CCCC-CCCC')
+
+      const order = await getConnection().transaction(manager =>
+        OrderService.saveWithUniqueTrackingCode(
+          manager,
+          new OrderEntity({
+            trackingCode: 'PB-AAAA-AAAA-AAAA',
+            userId: user.id,
+          }),
+        ),
+      )
+
+      expect(order.trackingCode).toBe('PB-CCCC-CCCC-CCCC')
+      expect(
+        await OrderEntity.count({ trackingCode: 'PB-CCCC-CCCC-CCCC' }),
+      ).toBe(1)
+    })
+  })
+})
@@ -1,23 +1,43 @@
-import { Injectable } from '@nestjs/common'
+import {
+  forwardRef,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+} from '@nestjs/common'
 import { InjectRepository } from '@nestjs/typeorm'
 import { CrudRequest, GetManyDefaultResponse } from '@nestjsx/crud'
 import { TypeOrmCrudService } from '@nestjsx/crud-typeorm'
-import { Repository } from 'typeorm'
+import { EntityManager, getManager, In, Repository } from 'typeorm'
 
 import { EntityAlreadyDisabledException } from 'src/exceptions/conflict/entity-already-disabled.exception'
 import { EntityAlreadyEnabledException } from 'src/exceptions/conflict/entity-already-enabled.exception'
+import { InvalidOrderStatusTransitionException } from 'src/exceptions/conflict/invalid-order-status-transition.exception'
 import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
 import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
 
+import { OrderStatusHistoryEntity } from '../entities/order-status-history.entity'
 import { OrderEntity } from '../entities/order.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
 import { UserEntity } from 'src/modules/user/entities/user.entity'
 
+import { CancelOrderDto } from '../models/cancel-order.dto'
 import { CreateOrderDto } from '../models/create-order.dto'
 import { UpdateOrderDto } from '../models/update-order.dto'
-
+import { OrderActor } from 'src/models/enums/order-actor.enum'
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+
+import { CouponService } from 'src/modules/coupon/services/coupon.service'
+import { NotificationService } from 'src/modules/notification/services/notification.service'
+import { PaymentService } from 'src/modules/payment/services/payment.service'
+import { ProductSubscriptionService } from 'src/modules/product-subscription/services/product-subscription.service'
+import { ProductVariantService } from 'src/modules/product/services/product-variant.service'
 import { UserService } from 'src/modules/user/services/user.service'
 
 import { some } from 'src/utils/crud'
+import { isUniqueViolation } from 'src/utils/sql'
+
+import { randomBytes } from 'crypto'
 
 /**
  * The app's main order service class
@@ -26,9 +46,95 @@ import { some } from 'src/utils/crud'
  */
 @Injectable()
 export class OrderService extends TypeOrmCrudService<OrderEntity> {
+  /**
+   * Map that stores, for each order status, which status it can be changed
+   * to and which actors are allowed to perform that transition
+   *
+   * The buyers can cancel the orders until the seller starts preparing
+   * them. The paid status sits between the pendent and the confirmed ones,
+   * so the paid orders can be canceled by the buyers too
+   */
+  public static readonly statusTransitions: Record<
+    OrderStatus,
+    Partial<Record<OrderStatus, OrderActor[]>>
+  > = {
+    [OrderStatus.Pendent]: {
+      [OrderStatus.Paid]: [OrderActor.System],
+      [OrderStatus.Canceled]: [
+        OrderActor.Buyer,
+        OrderActor.Seller,
+        OrderActor.Admin,
+        OrderActor.System,
+      ],
+    },
+    [OrderStatus.Paid]: {
+      [OrderStatus.Confirmed]: [OrderActor.Seller, OrderActor.Admin],
+      [OrderStatus.Canceled]: [
+        OrderActor.Buyer,
+        OrderActor.Seller,
+        OrderActor.Admin,
+      ],
+    },
+    [OrderStatus.Confirmed]: {
+      [OrderStatus.Preparing]: [OrderActor.Seller, OrderActor.Admin],
+      [OrderStatus.Canceled]: [
+        OrderActor.Buyer,
+        OrderActor.Seller,
+        OrderActor.Admin,
+      ],
+    },
+    [OrderStatus.Preparing]: {
+      [OrderStatus.Shipped]: [
+        OrderActor.Seller,
+        OrderActor.Admin,
+        OrderActor.System,
+      ],
+      [OrderStatus.Canceled]: [OrderActor.Seller, OrderActor.Admin],
+    },
+    [OrderStatus.Shipped]: {
+      [OrderStatus.InTransit]: [
+        OrderActor.Seller,
+        OrderActor.Admin,
+        OrderActor.System,
+      ],
+      [OrderStatus.Delivered]: [
+        OrderActor.Seller,
+        OrderActor.Admin,
+        OrderActor.System,
+      ],
+    },
+    [OrderStatus.InTransit]: {
+      [OrderStatus.Delivered]: [
+        OrderActor.Seller,
+        OrderActor.Admin,
+        OrderActor.System,
+      ],
+    },
+    [OrderStatus.Delivered]: {
+      [OrderStatus.Returned]: [OrderActor.Seller, OrderActor.Admin],
+    },
+    [OrderStatus.Returned]: {
+      [OrderStatus.Refunded]: [
+        OrderActor.Seller,
+        OrderActor.Admin,
+        OrderActor.System,
+      ],
+    },
+    [OrderStatus.Canceled]: {
+      [OrderStatus.Refunded]: [
+        OrderActor.Seller,
+        OrderActor.Admin,
+        OrderActor.System,
+      ],
+    },
+    [OrderStatus.Refunded]: {},
+  }
+
   public constructor(
     @InjectRepository(OrderEntity)
     repository: Repository<OrderEntity>,
+    @Inject(forwardRef(() => PaymentService))
+    private readonly paymentService: PaymentService,
   ) {
     super(repository)
   }
@@ -59,13 +165,31 @@ export class OrderService extends TypeOrmCrudService<OrderEntity> {
       throw new ForbiddenException()
     }
 
-    const entity = new OrderEntity({
-      ...createOrderPayload,
-      trackingCode: OrderService.generateTrackingCode(),
-      user,
-    })
+    const [trackingCode] = await OrderService.generateUniqueTrackingCodes(1)
+
+    // the order and its first history row are saved together, so no order
+    // is left without history
+    return await this.repo.manager.transaction(async manager => {
+      const entity = await OrderService.saveWithUniqueTrackingCode(
+        manager,
+        new OrderEntity({
+          ...createOrderPayload,
+          ...OrderService.calculateTotals([], createOrderPayload.shippingPrice),
+          trackingCode,
+          user,
+        }),
+      )
 
-    return await entity.save()
+      await manager.save(
+        new OrderStatusHistoryEntity({
+          orderId: entity.id,
+          toStatus: entity.status,
+          userId: requestUser.id,
+        }),
+      )
+
+      return entity
+    })
   }
 
   /**
@@ -135,11 +259,71 @@ export class OrderService extends TypeOrmCrudService<OrderEntity> {
    * @throws {EntityNotFoundException} if the order was not found
    * @throws {ForbiddenException} if the logged user has no permission to access
    * those sources
+   * @throws {InvalidOrderStatusTransitionException} if the order can not
+   * be changed to the informed status
    */
   public async update(
     orderId: number,
     requestUser: UserEntity,
     updateOrderPayload: UpdateOrderDto,
+  ): Promise<void> {
+    const { status } = updateOrderPayload
+
+    if (status !== undefined) {
+      await this.changeStatus(orderId, requestUser, status)
+    }
+  }
+
+  /**
+   * Method that cancels some order, giving back to the stock all the
+   * products that were removed from it in the checkout
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @param cancelOrderPayload stores the cancellation reason
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {InvalidOrderStatusTransitionException} if the order can not
+   * be canceled anymore
+   * @throws {ForbiddenException} if the logged user has no permission to
+   * cancel the order in its current status
+   */
+  public async cancel(
+    orderId: number,
+    requestUser: UserEntity,
+    cancelOrderPayload: CancelOrderDto,
+  ): Promise<void> {
+    await this.changeStatus(
+      orderId,
+      requestUser,
+      OrderStatus.Canceled,
+      cancelOrderPayload.reason,
+    )
+  }
+
+  /**
+   * Method that changes the status of some order, validating if the
+   * transition is allowed and if the request user can perform it. Every
+   * transition is stored in the order status history
+   *
+   * When the order is canceled, all its products are given back to the
+   * stock, its coupon use is released and its payments are given back to
+   * the buyer, in the same transaction that changes the status
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @param status stores the new order status
+   * @param reason stores the reason of the transition
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {InvalidOrderStatusTransitionException} if the order can not
+   * be changed to the informed status
+   * @throws {ForbiddenException} if the logged user has no permission to
+   * perform this transition
+   */
+  public async changeStatus(
+    orderId: number,
+    requestUser: UserEntity,
+    status: OrderStatus,
+    reason?: string,
   ): Promise<void> {
     const entity = await OrderEntity.findOne({ id: orderId })
 
@@ -147,11 +331,216 @@ export class OrderService extends TypeOrmCrudService<OrderEntity> {
       throw new EntityNotFoundException(orderId, OrderEntity)
     }
 
-    if (!UserService.hasPermissions(entity.userId, requestUser)) {
+    await this.applyStatus(
+      entity,
+      status,
+      await this.getActors(entity, requestUser),
+      requestUser.id,
+      reason,
+    )
+  }
+
+  /**
+   * Method that changes the status of some order on behalf of the
+   * application itself, as when some payment is captured
+   *
+   * @param orderId stores the order id
+   * @param status stores the new order status
+   * @param reason stores the reason of the transition
+   * @param manager stores the entity manager of the transaction that
+   * caused the transition, if any
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {InvalidOrderStatusTransitionException} if the order can not
+   * be changed to the informed status
+   * @throws {ForbiddenException} if the application is not allowed to
+   * perform this transition
+   */
+  public async changeStatusAsSystem(
+    orderId: number,
+    status: OrderStatus,
+    reason?: string,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const entity = await (manager ?? this.repo.manager).findOne(OrderEntity, {
+      id: orderId,
+    })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(orderId, OrderEntity)
+    }
+
+    await this.applyStatus(
+      entity,
+      status,
+      [OrderActor.System],
+      null,
+      reason,
+      manager,
+    )
+  }
+
+  /**
+   * Method that validates and applies some status transition
+   *
+   * @param entity stores the order entity
+   * @param status stores the new order status
+   * @param actors stores the actors that are performing the transition
+   * @param userId stores the id of the user that is performing the
+   * transition
+   * @param reason stores the reason of the transition
+   * @param manager stores the entity manager of the current transaction,
+   * when not informed a new transaction is started
+   * @throws {InvalidOrderStatusTransitionException} if the order can not
+   * be changed to the informed status
+   * @throws {ForbiddenException} if none of the actors can perform this
+   * transition
+   */
+  private async applyStatus(
+    entity: OrderEntity,
+    status: OrderStatus,
+    actors: OrderActor[],
+    userId: number | null,
+    reason?: string,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const orderId = entity.id
+
+    const allowedActors =
+      OrderService.statusTransitions[entity.status]?.[status]
+
+    if (!allowedActors) {
+      throw new InvalidOrderStatusTransitionException(entity.status, status)
+    }
+
+    if (!actors.some(actor => allowedActors.includes(actor))) {
       throw new ForbiddenException()
     }
 
-    await OrderEntity.update({ id: orderId }, updateOrderPayload)
+    const apply = async (manager: EntityManager): Promise<void> => {
+      // only changes the status if no one changed it in the meantime, so the
+      // same transition, and the restock, can not be applied twice
+      const { affected } = await manager
+        .createQueryBuilder()
+        .update(OrderEntity)
+        .set({ status })
+        .where('id = :orderId', { orderId })
+        .andWhere('status = :fromStatus', { fromStatus: entity.status })
+        .execute()
+
+      const { status: currentStatus } = await manager.findOne(OrderEntity, {
+        id: orderId,
+      })
+
+      if (affected === 0 || currentStatus !== status) {
+        throw new InvalidOrderStatusTransitionException(currentStatus, status)
+      }
+
+      if (status === OrderStatus.Canceled) {
+        const productGroups = await manager.find(ProductGroupEntity, {
+          orderId,
+        })
+
+        for (const { productId, amount } of productGroups) {
+          await manager
+            .createQueryBuilder()
+            .update(ProductEntity)
+            .set({
+              stockAmount: () => '"stockAmount" + :amount',
+              ordersAmount: () => '"ordersAmount" - 1',
+            })
+            .where('id = :productId', { productId })
+            .setParameter('amount', amount)
+            .execute()
+
+          const { stockAmount } = await manager.findOne(ProductEntity, {
+            id: productId,
+          })
+
+          await NotificationService.notifyStockChange(
+            manager,
+            productId,
+            stockAmount - amount,
+          )
+          await ProductSubscriptionService.fulfill(manager, productId)
+          await ProductVariantService.syncStock(manager, productId)
+        }
+
+        // the coupon use is given back when no order of the purchase uses
+        // its discount anymore
+        if (entity.couponId && entity.purchaseId) {
+          const couponOrders = await manager.find(OrderEntity, {
+            purchaseId: entity.purchaseId,
+            couponId: entity.couponId,
+          })
+
+          if (
+            couponOrders.every(({ status }) =>
+              [OrderStatus.Canceled, OrderStatus.Refunded].includes(status),
+            )
+          ) {
+            await CouponService.release(
+              manager,
+              entity.couponId,
+              entity.purchaseId,
+            )
+          }
+        }
+      }
+
+      await manager.save(
+        new OrderStatusHistoryEntity({
+          orderId,
+          fromStatus: entity.status,
+          toStatus: status,
+          userId,
+          reason,
+        }),
+      )
+
+      // the payments are released last, since the provider calls can not
+      // be rolled back
+      if (status === OrderStatus.Canceled) {
+        await this.paymentService.releaseByOrderId(manager, orderId)
+      }
+    }
+
+    if (manager) {
+      await apply(manager)
+    } else {
+      await this.repo.manager.transaction(apply)
+    }
+  }
+
+  /**
+   * Method that gets all the status transitions of some order
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {ForbiddenException} if the logged user is not the buyer, one of
+   * the sellers or an admin
+   * @returns the found order status history entities
+   */
+  public async listHistory(
+    orderId: number,
+    requestUser: UserEntity,
+  ): Promise<OrderStatusHistoryEntity[]> {
+    const entity = await OrderEntity.findOne({ id: orderId })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(orderId, OrderEntity)
+    }
+
+    const actors = await this.getActors(entity, requestUser)
+
+    if (actors.length === 0) {
+      throw new ForbiddenException()
+    }
+
+    return await OrderStatusHistoryEntity.find({
+      where: { orderId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    })
   }
 
   /**
@@ -236,15 +625,286 @@ export class OrderService extends TypeOrmCrudService<OrderEntity> {
   }
 
   /**
-   * Method that creates a new tracking code string
+   * Method that gets all the roles that the request user plays in some
+   * order
+   *
+   * @param order stores the order entity
+   * @param requestUser stores the logged user data
+   * @returns an array with the user actors
+   */
+  public async getActors(
+    order: OrderEntity,
+    requestUser: UserEntity,
+  ): Promise<OrderActor[]> {
+    const actors: OrderActor[] = []
+
+    if (order.userId === requestUser.id) {
+      actors.push(OrderActor.Buyer)
+    }
+
+    if (UserService.isAdminUser(requestUser)) {
+      actors.push(OrderActor.Admin)
+    }
+
+    if (order.sellerId !== null && order.sellerId !== undefined) {
+      if (order.sellerId === requestUser.id) {
+        actors.push(OrderActor.Seller)
+      }
+      return actors
+    }
+
+    // the orders created before the split by seller have no seller, so the
+    // seller is found through the order products
+    const sellerProductGroups = await ProductGroupEntity.createQueryBuilder(
+      'productGroup',
+    )
+      .innerJoin('productGroup.product', 'product')
+      .where('productGroup.orderId = :orderId', { orderId: order.id })
+      .andWhere('product.userId = :userId', { userId: requestUser.id })
+      .getCount()
+
+    if (sellerProductGroups > 0) {
+      actors.push(OrderActor.Seller)
+    }
+
+    return actors
+  }
+
+  /**
+   * Method that calculates the order totals based on the price snapshot
+   * stored in each one of its product groups
+   *
+   * @param productGroups stores the order product groups
+   * @param shippingPrice stores the order shipping price
+   * @param couponDiscount stores the discount given by the order coupon
+   * @param installmentAmount stores the amount of installments chosen by
+   * the buyer
+   * @returns the order subtotal, discount total, coupon discount,
+   * installment interest and grand total
+   */
+  public static calculateTotals(
+    productGroups: ProductGroupEntity[],
+    shippingPrice = 0,
+    couponDiscount = 0,
+    installmentAmount = 1,
+  ): Pick<
+    OrderEntity,
+    | 'subtotal'
+    | 'discountTotal'
+    | 'couponDiscount'
+    | 'installmentInterest'
+    | 'total'
+  > {
+    const round = (value: number) => Math.round(value * 100) / 100
+
+    const subtotal = round(
+      productGroups.reduce(
+        (sum, { unitPrice, amount }) => sum + (unitPrice ?? 0) * (amount ?? 1),
+        0,
+      ),
+    )
+    const discountTotal = round(
+      productGroups.reduce(
+        (sum, { unitPrice, discount, amount }) =>
+          sum + (unitPrice ?? 0) * (discount ?? 0) * (amount ?? 1),
+        0,
+      ),
+    )
+
+    const installmentInterest = OrderService.calculateInstallmentInterest(
+      productGroups,
+      installmentAmount,
+    )
+
+    return {
+      subtotal,
+      discountTotal,
+      couponDiscount,
+      installmentInterest,
+      total: round(
+        subtotal -
+          discountTotal -
+          couponDiscount +
+          shippingPrice +
+          installmentInterest,
+      ),
+    }
+  }
+
+  /**
+   * Method that calculates the interest charged when the order is split in
+   * installments, that is the difference between the installment price and
+   * the final price of its products. The products without installment
+   * price are split free of interests
+   *
+   * @param productGroups stores the order product groups
+   * @param installmentAmount stores the amount of installments
+   * @returns the order installment interest
+   */
+  public static calculateInstallmentInterest(
+    productGroups: ProductGroupEntity[],
+    installmentAmount = 1,
+  ): number {
+    if (installmentAmount <= 1) {
+      return 0
+    }
+
+    return (
+      Math.round(
+        productGroups.reduce(
+          (sum, { unitPrice, discount, installmentPrice, amount }) =>
+            installmentPrice === undefined || installmentPrice === null
+              ? sum
+              : sum +
+                (installmentPrice - (unitPrice ?? 0) * (1 - (discount ?? 0))) *
+                  (amount ?? 1),
+          0,
+        ) * 100,
+      ) / 100
+    )
+  }
+
+  /**
+   * Method that sums the totals of some orders
+   *
+   * @param orders stores the orders that will be summed
+   * @returns the orders shipping price, subtotal, discount total, coupon
+   * discount, installment interest and grand total
+   */
+  public static sumTotals(
+    orders: OrderEntity[],
+  ): Pick<
+    OrderEntity,
+    | 'shippingPrice'
+    | 'subtotal'
+    | 'discountTotal'
+    | 'couponDiscount'
+    | 'installmentInterest'
+    | 'total'
+  > {
+    const sum = (field: keyof OrderEntity) =>
+      Math.round(
+        orders.reduce(
+          (sum, order) => sum + ((order[field] as number) ?? 0),
+          0,
+        ) * 100,
+      ) / 100
+
+    return {
+      shippingPrice: sum('shippingPrice'),
+      subtotal: sum('subtotal'),
+      discountTotal: sum('discountTotal'),
+      couponDiscount: sum('couponDiscount'),
+      installmentInterest: sum('installmentInterest'),
+      total: sum('total'),
+    }
+  }
+
+  /**
+   * Method that creates some tracking codes that are not used by any other
+   * order, nor repeated between themselves
+   *
+   * @param amount stores how many tracking codes must be created
+   * @param manager stores the manager used to search the existing codes
+   * @throws {InternalServerErrorException} if no unique code was found
+   * after some attempts
+   * @returns the generated tracking codes
+   */
+  public static async generateUniqueTrackingCodes(
+    amount: number,
+    manager: EntityManager = getManager(),
+  ): Promise<string[]> {
+    const codes = new Set<string>()
+
+    for (let attempt = 0; attempt < 5 && codes.size < amount; attempt++) {
+      const candidates = Array.from({ length: amount - codes.size }, () =>
+        OrderService.generateTrackingCode(),
+      ).filter(code => !codes.has(code))
+
+      const used = await manager.find(OrderEntity, {
+        select: ['trackingCode'],
+        where: { trackingCode: In(candidates) },
+      })
+
+      candidates
+        .filter(code => !used.some(({ trackingCode }) => trackingCode === code))
+        .forEach(code => codes.add(code))
+    }
+
+    if (codes.size < amount) {
+      throw new InternalServerErrorException(
+        'It was not possible to generate an unique tracking code',
+      )
+    }
+
+    return [...codes]
+  }
+
+  /**
+   * Method that saves some new order. When its tracking code was taken by a
+   * concurrent order after being generated, a new one is generated and the
+   * order is saved again
+   *
+   * @param manager stores the entity manager used to save the order
+   * @param order stores the order that will be saved
+   * @throws {InternalServerErrorException} if no unique code was found
+   * after some attempts
+   * @returns the saved order entity
+   */
+  public static async saveWithUniqueTrackingCode(
+    manager: EntityManager,
+    order: OrderEntity,
+  ): Promise<OrderEntity> {
+    // a failed statement aborts the whole transaction in postgres, so the
+    // insert runs inside a savepoint that can be rolled back alone
+    const inTransaction = !!manager.queryRunner?.isTransactionActive
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      if (inTransaction) await manager.query('SAVEPOINT tracking_code')
+
+      try {
+        const entity = await manager.save(order)
+
+        if (inTransaction) {
+          await manager.query('RELEASE SAVEPOINT tracking_code')
+        }
+
+        return entity
+      } catch (error) {
+        if (inTransaction) {
+          await manager.query('ROLLBACK TO SAVEPOINT tracking_code')
+        }
+
+        if (!isUniqueViolation(error, 'trackingCode')) throw error
+
+        const [trackingCode] = await OrderService.generateUniqueTrackingCodes(
+          1,
+          manager,
+        )
+        order.trackingCode = trackingCode
+      }
+    }
+
+    throw new InternalServerErrorException(
+      'It was not possible to generate an unique tracking code',
+    )
+  }
+
+  /**
+   * Method that creates a new tracking code string, in the format
+   * "PB-XXXX-XXXX-XXXX". The similar characters, as "0" and "O" or "1" and
+   * "I", are not used, so the code can be easily read and typed
    *
    * @returns the generated tracking code
    */
   public static generateTrackingCode(): string {
-    return 'xxxxxxxxxxxxx'.replace(/[x]/g, (c: string) => {
-      const r = (Math.random() * 16) | 0
-      const v = c == 'x' ? r : (r & 0x3) | 0x8
-      return v.toString(16).toUpperCase()
-    })
+    const alphabet = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ'
+    const characters = [...randomBytes(12)].map(
+      byte => alphabet[byte % alphabet.length],
+    )
+
+    return `PB-${characters.slice(0, 4).join('')}-${characters
+      .slice(4, 8)
+      .join('')}-${characters.slice(8).join('')}`
   }
 }
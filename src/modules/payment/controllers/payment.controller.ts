@@ -0,0 +1,107 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  Param,
+  Post,
+} from '@nestjs/common'
+import {
+  ApiBadRequestResponse,
+  ApiHeader,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger'
+
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+
+import { PaymentWebhookDto } from '../models/payment-webhook.dto'
+import { PaymentDto } from '../models/payment.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { PaymentService } from '../services/payment.service'
+
+/**
+ * The app's main payment controller class
+ *
+ * Class that deals with the payment routes
+ */
+@ApiTags('payments')
+@Controller('payments')
+export class PaymentController {
+  public constructor(private readonly paymentService: PaymentService) {}
+
+  /**
+   * Method that is called when the user access the "payments/:id/capture"
+   * route with "POST" method
+   *
+   * @param paymentId stores the payment id
+   * @throws {EntityNotFoundException} if the payment was not found
+   * @throws {BadRequestException} if the payment is not authorized
+   * @returns the captured payment entity dto
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiOperation({ summary: 'Captures a single authorized payment' })
+  @ApiOkResponse({
+    description: 'Gets the captured payment data',
+    type: PaymentDto,
+  })
+  @ApiNotFoundResponse({ description: 'Payment not found' })
+  @ApiBadRequestResponse({ description: 'The payment is not authorized' })
+  @Post(':id/capture')
+  @HttpCode(200)
+  public async capture(@Param('id') paymentId: number): Promise<PaymentDto> {
+    const entity = await this.paymentService.capture(paymentId)
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "payments/:id/refund"
+   * route with "POST" method
+   *
+   * @param paymentId stores the payment id
+   * @throws {EntityNotFoundException} if the payment was not found
+   * @throws {BadRequestException} if the payment is not captured
+   * @returns the refunded payment entity dto
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiOperation({ summary: 'Refunds a single captured payment' })
+  @ApiOkResponse({
+    description: 'Gets the refunded payment data',
+    type: PaymentDto,
+  })
+  @ApiNotFoundResponse({ description: 'Payment not found' })
+  @ApiBadRequestResponse({ description: 'The payment is not captured' })
+  @Post(':id/refund')
+  @HttpCode(200)
+  public async refund(@Param('id') paymentId: number): Promise<PaymentDto> {
+    const entity = await this.paymentService.refund(paymentId)
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the payment provider access the
+   * "payments/webhook" route with "POST" method
+   *
+   * @param signature stores the event signature
+   * @param paymentWebhookPayload stores the event data
+   * @throws {InvalidWebhookSignatureException} if the signature is invalid
+   * @throws {EntityNotFoundException} if the payment was not found
+   */
+  @ApiOperation({ summary: 'Receives the payment provider events' })
+  @ApiHeader({ name: 'x-payment-signature', required: true })
+  @ApiOkResponse({ description: 'The event was handled' })
+  @ApiUnauthorizedResponse({ description: 'The signature is invalid' })
+  @ApiNotFoundResponse({ description: 'Payment not found' })
+  @Post('webhook')
+  @HttpCode(200)
+  public async webhook(
+    @Headers('x-payment-signature') signature: string,
+    @Body() paymentWebhookPayload: PaymentWebhookDto,
+  ): Promise<void> {
+    await this.paymentService.handleWebhook(paymentWebhookPayload, signature)
+  }
+}
@@ -0,0 +1,111 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne } from 'typeorm'
+
+import { BaseEntity } from 'src/common/base.entity'
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+
+import { PaymentDto } from '../models/payment.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+import { PaymentMethod } from 'src/models/enums/payment-method.enum'
+import { PaymentStatus } from 'src/models/enums/payment-status.enum'
+
+/**
+ * The app's main payment entity class
+ *
+ * Class that represents the entity that deals with the order payments
+ */
+@Entity('payment')
+export class PaymentEntity extends BaseEntity implements ToDto<PaymentDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 20,
+    nullable: false,
+  })
+  public method: PaymentMethod
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 20,
+    nullable: false,
+    default: PaymentStatus.Authorized,
+  })
+  public status: PaymentStatus
+
+  @ApiProperty()
+  @Column({
+    type: 'float',
+    nullable: false,
+  })
+  public amount: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: false,
+    default: 1,
+  })
+  public installmentAmount?: number
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 50,
+    nullable: false,
+  })
+  public provider: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+    unique: true,
+  })
+  public providerPaymentId?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'text',
+    nullable: true,
+  })
+  public instructions?: string
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public orderId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => OrderEntity })
+  @ManyToOne(
+    () => OrderEntity,
+    order => order.payments,
+    { onDelete: 'CASCADE' },
+  )
+  public order?: OrderEntity
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<PaymentEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): PaymentDto {
+    return new PaymentDto(this)
+  }
+}
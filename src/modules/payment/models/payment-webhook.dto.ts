@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+import { PaymentStatus } from 'src/models/enums/payment-status.enum'
+
+import { IsDefined, IsEnum, IsString } from 'class-validator'
+
+/**
+ * The app's main payment webhook dto class
+ *
+ * Class that handles the event sent by the payment provider when some
+ * payment changes its status
+ */
+export class PaymentWebhookDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the provider payment id' })
+  @IsString({ message: DefaultValidationMessages.IsString })
+  public providerPaymentId: string
+
+  @ApiProperty({ enum: PaymentStatus })
+  @IsDefined({ message: 'It is required to send the payment status' })
+  @IsEnum(PaymentStatus, {
+    message: 'It is required to send a valid payment status',
+  })
+  public status: PaymentStatus
+}
@@ -0,0 +1,64 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { PaymentEntity } from '../entities/payment.entity'
+
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { PaymentMethod } from 'src/models/enums/payment-method.enum'
+import { PaymentStatus } from 'src/models/enums/payment-status.enum'
+import { OrderDto } from 'src/modules/order/models/order.dto'
+
+/**
+ * The app's main payment dto class
+ *
+ * Class that deals with the payment return data
+ */
+export class PaymentDto extends BaseResponseDto {
+  @ApiProperty({ enum: PaymentMethod })
+  public method: PaymentMethod
+
+  @ApiProperty({ enum: PaymentStatus })
+  public status: PaymentStatus
+
+  @ApiProperty()
+  public amount: number
+
+  @ApiProperty()
+  public installmentAmount: number
+
+  @ApiProperty()
+  public provider: string
+
+  @ApiPropertyOptional()
+  public providerPaymentId?: string
+
+  @ApiPropertyOptional({
+    description: 'The pix code or the boleto line that must be paid',
+  })
+  public instructions?: string
+
+  @ApiProperty()
+  public orderId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => OrderDto })
+  public order?: OrderDto
+
+  //#endregion
+
+  public constructor(entity: PaymentEntity) {
+    super(entity)
+
+    this.method = entity.method
+    this.status = entity.status
+    this.amount = entity.amount
+    this.installmentAmount = entity.installmentAmount ?? 1
+    this.provider = entity.provider
+    this.providerPaymentId = entity.providerPaymentId
+    this.instructions = entity.instructions
+    this.orderId = entity.orderId
+
+    // relations
+    this.order = entity.order?.toDto()
+  }
+}
@@ -0,0 +1,28 @@
+import { forwardRef, Module } from '@nestjs/common'
+import { ConfigModule } from '@nestjs/config'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { PaymentEntity } from './entities/payment.entity'
+
+import { PaymentService } from './services/payment.service'
+
+import { PaymentController } from './controllers/payment.controller'
+
+import { OrderModule } from '../order/order.module'
+import { FakePaymentProvider } from './providers/fake-payment.provider'
+import { PAYMENT_PROVIDER } from './providers/payment-provider.interface'
+
+@Module({
+  imports: [
+    ConfigModule,
+    forwardRef(() => OrderModule),
+    TypeOrmModule.forFeature([PaymentEntity]),
+  ],
+  controllers: [PaymentController],
+  providers: [
+    PaymentService,
+    { provide: PAYMENT_PROVIDER, useClass: FakePaymentProvider },
+  ],
+  exports: [PaymentService],
+})
+export class PaymentModule {}
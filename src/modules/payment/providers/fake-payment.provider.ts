@@ -0,0 +1,183 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+
+import { InvalidWebhookSignatureException } from 'src/exceptions/unauthorized/invalid-webhook-signature.exception'
+
+import { PaymentEntity } from '../entities/payment.entity'
+
+import { PaymentWebhookDto } from '../models/payment-webhook.dto'
+import { PaymentMethod } from 'src/models/enums/payment-method.enum'
+import { PaymentStatus } from 'src/models/enums/payment-status.enum'
+
+import {
+  PaymentAuthorization,
+  PaymentAuthorizationRequest,
+  PaymentProvider,
+  PaymentWebhookEvent,
+} from './payment-provider.interface'
+import { createHmac, timingSafeEqual } from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * The app's fake payment provider class
+ *
+ * Class that simulates a payment gateway, so the whole payment flow can be
+ * used without any external service. It keeps no state of its own, the
+ * payments it knows are the ones stored in the database
+ */
+@Injectable()
+export class FakePaymentProvider implements PaymentProvider {
+  public readonly name = 'fake'
+
+  public constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Method that reserves the payment amount. Credit cards are always
+   * authorized, while pix and boleto return the code that must be paid
+   *
+   * @param request stores the payment data
+   * @returns the authorization data
+   */
+  public async authorize(
+    request: PaymentAuthorizationRequest,
+  ): Promise<PaymentAuthorization> {
+    const providerPaymentId = uuidv4()
+
+    let instructions: string
+    if (request.method === PaymentMethod.Pix) {
+      instructions = `00020126FAKEPIX${providerPaymentId}`
+    } else if (request.method === PaymentMethod.Boleto) {
+      instructions = `34191.79001 01043.510047 ${providerPaymentId}`
+    }
+
+    return {
+      providerPaymentId,
+      status: PaymentStatus.Authorized,
+      instructions,
+    }
+  }
+
+  /**
+   * Method that charges some authorized payment
+   *
+   * @param providerPaymentId stores the provider payment id
+   * @param amount stores the amount that must be charged
+   * @throws {BadRequestException} if the payment is not authorized or the
+   * amount is bigger than the authorized one
+   */
+  public async capture(
+    providerPaymentId: string,
+    amount: number,
+  ): Promise<void> {
+    const payment = await this.findPayment(providerPaymentId)
+
+    if (
+      !payment ||
+      payment.status !== PaymentStatus.Authorized ||
+      amount > payment.amount
+    ) {
+      throw new BadRequestException('The payment can not be captured')
+    }
+  }
+
+  /**
+   * Method that releases some authorization that will never be captured.
+   * The fake gateway reserves no money, so there is nothing to release
+   */
+  public async cancelAuthorization(): Promise<void> {
+    return
+  }
+
+  /**
+   * Method that gives back the amount of some captured payment
+   *
+   * @param providerPaymentId stores the provider payment id
+   * @param amount stores the amount that must be refunded
+   * @throws {BadRequestException} if the payment is not captured or the
+   * amount is bigger than the captured one
+   */
+  public async refund(
+    providerPaymentId: string,
+    amount: number,
+  ): Promise<void> {
+    const payment = await this.findPayment(providerPaymentId)
+
+    if (
+      !payment ||
+      payment.status !== PaymentStatus.Captured ||
+      amount > payment.amount
+    ) {
+      throw new BadRequestException('The payment can not be refunded')
+    }
+  }
+
+  /**
+   * Method that validates if some webhook event was signed with the
+   * configured secret
+   *
+   * @param payload stores the event data
+   * @param signature stores the signature sent with the event
+   * @throws {InvalidWebhookSignatureException} if the signature is invalid
+   * or no secret is configured
+   * @returns the validated event
+   */
+  public verifyWebhook(
+    payload: PaymentWebhookDto,
+    signature: string,
+  ): PaymentWebhookEvent {
+    // without a secret no event can be trusted, so all of them are refused
+    if (!this.configService.get<string>('PAYMENT_WEBHOOK_SECRET')) {
+      throw new InvalidWebhookSignatureException()
+    }
+
+    const expected = Buffer.from(this.sign(payload))
+    const received = Buffer.from(signature ?? '')
+
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      throw new InvalidWebhookSignatureException()
+    }
+
+    return {
+      providerPaymentId: payload.providerPaymentId,
+      status: payload.status,
+    }
+  }
+
+  /**
+   * Method that signs some webhook event, it allows to simulate the
+   * events that a real gateway would send
+   *
+   * @param payload stores the event data
+   * @throws {Error} if the webhook secret is not configured
+   * @returns the event signature
+   */
+  public sign(payload: PaymentWebhookDto): string {
+    const secret = this.configService.get<string>('PAYMENT_WEBHOOK_SECRET')
+
+    if (!secret) {
+      throw new Error('The "PAYMENT_WEBHOOK_SECRET" variable is not configured')
+    }
+
+    return createHmac('sha256', secret)
+      .update(`${payload.providerPaymentId}:${payload.status}`)
+      .digest('hex')
+  }
+
+  /**
+   * Method that finds some payment made through the fake gateway
+   *
+   * @param providerPaymentId stores the provider payment id
+   * @returns the found payment entity
+   */
+  private async findPayment(
+    providerPaymentId: string,
+  ): Promise<PaymentEntity | undefined> {
+    return await PaymentEntity.findOne({
+      providerPaymentId,
+      provider: this.name,
+    })
+  }
+}
@@ -0,0 +1,121 @@
+import { PaymentMethod } from 'src/models/enums/payment-method.enum'
+import { PaymentStatus } from 'src/models/enums/payment-status.enum'
+
+/**
+ * The token used to inject the payment provider that is currently in use
+ */
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER'
+
+/**
+ * Interface that represents the data sent to the provider to authorize
+ * some payment
+ */
+export interface PaymentAuthorizationRequest {
+  /**
+   * The payment method chosen by the buyer
+   */
+  method: PaymentMethod
+
+  /**
+   * The amount that must be charged
+   */
+  amount: number
+
+  /**
+   * The amount of installments, only used by credit cards
+   */
+  installmentAmount: number
+
+  /**
+   * The value that identifies the payment in our side
+   */
+  reference: string
+}
+
+/**
+ * Interface that represents the provider answer to some authorization
+ */
+export interface PaymentAuthorization {
+  /**
+   * The value that identifies the payment in the provider side
+   */
+  providerPaymentId: string
+
+  /**
+   * The payment status after the authorization
+   */
+  status: PaymentStatus
+
+  /**
+   * The pix code or the boleto line that must be paid by the buyer
+   */
+  instructions?: string
+}
+
+/**
+ * Interface that represents some event sent by the provider through
+ * its webhook
+ */
+export interface PaymentWebhookEvent {
+  /**
+   * The value that identifies the payment in the provider side
+   */
+  providerPaymentId: string
+
+  /**
+   * The new payment status
+   */
+  status: PaymentStatus
+}
+
+/**
+ * Interface that must be implemented by all the payment gateways
+ */
+export interface PaymentProvider {
+  /**
+   * The provider name, stored in each payment
+   */
+  readonly name: string
+
+  /**
+   * Method that reserves the payment amount
+   *
+   * @param request stores the payment data
+   * @returns the authorization data
+   */
+  authorize(request: PaymentAuthorizationRequest): Promise<PaymentAuthorization>
+
+  /**
+   * Method that charges some authorized payment
+   *
+   * @param providerPaymentId stores the provider payment id
+   * @param amount stores the amount that must be charged
+   */
+  capture(providerPaymentId: string, amount: number): Promise<void>
+
+  /**
+   * Method that releases some authorization that will never be captured
+   *
+   * @param providerPaymentId stores the provider payment id
+   */
+  cancelAuthorization(providerPaymentId: string): Promise<void>
+
+  /**
+   * Method that gives back the amount of some captured payment
+   *
+   * @param providerPaymentId stores the provider payment id
+   * @param amount stores the amount that must be refunded
+   */
+  refund(providerPaymentId: string, amount: number): Promise<void>
+
+  /**
+   * Method that validates if some webhook event was really sent by the
+   * provider
+   *
+   * @param payload stores the event data
+   * @param signature stores the signature sent with the event
+   * @throws {InvalidWebhookSignatureException} if the signature is invalid
+   * @returns the validated event
+   */
+  verifyWebhook(payload: unknown, signature: string): PaymentWebhookEvent
+}
@@ -0,0 +1,357 @@
+import { BadRequestException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { OrderNotPayableException } from 'src/exceptions/conflict/order-not-payable.exception'
+import { InvalidWebhookSignatureException } from 'src/exceptions/unauthorized/invalid-webhook-signature.exception'
+
+import { PaymentEntity } from '../entities/payment.entity'
+import { OrderStatusHistoryEntity } from 'src/modules/order/entities/order-status-history.entity'
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { PaymentMethod } from 'src/models/enums/payment-method.enum'
+import { PaymentStatus } from 'src/models/enums/payment-status.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { PaymentService } from './payment.service'
+import { OrderService } from 'src/modules/order/services/order.service'
+
+import { FakePaymentProvider } from '../providers/fake-payment.provider'
+import { PAYMENT_PROVIDER } from '../providers/payment-provider.interface'
+
+describe('PaymentService', () => {
+  let service: PaymentService
+  let provider: FakePaymentProvider
+  let orderService: OrderService
+  let buyer: UserEntity
+  let secret: string
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+
+    buyer = await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: 'user@test.com',
+      password: '123456',
+      roles: RolesEnum.Common,
+    }).save()
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    secret = 'SECRET'
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PaymentService,
+        OrderService,
+        { provide: ConfigService, useValue: { get: () => secret } },
+        {
+          provide: getRepositoryToken(PaymentEntity),
+          useValue: getRepository(PaymentEntity),
+        },
+        {
+          provide: getRepositoryToken(OrderEntity),
+          useValue: getRepository(OrderEntity),
+        },
+        { provide: PAYMENT_PROVIDER, useClass: FakePaymentProvider },
+      ],
+    }).compile()
+
+    service = await module.resolve(PaymentService)
+    provider = await module.resolve(PAYMENT_PROVIDER)
+    orderService = await module.resolve(OrderService)
+  })
+
+  /**
+   * Function that creates a new pendent order with an authorized payment
+   *
+   * @param method stores the payment method
+   * @returns the created payment entity
+   */
+  async function createPayment(
+    method = PaymentMethod.CreditCard,
+  ): Promise<PaymentEntity> {
+    const order = await new OrderEntity({
+      userId: buyer.id,
+      status: OrderStatus.Pendent,
+      trackingCode: OrderService.generateTrackingCode(),
+      total: 100,
+    }).save()
+
+    return await getConnection().transaction(manager =>
+      service.authorize(manager, order, method),
+    )
+  }
+
+  // test if the service exists
+  it('should be defined', () => {
+    expect(service).toBeDefined()
+  })
+
+  describe('authorize', () => {
+    // tests if the "authorize" method is working properly
+    it('should keep the order pendent until the payment is captured', async () => {
+      const payment = await createPayment(PaymentMethod.Pix)
+      const order = await OrderEntity.findOne({ id: payment.orderId })
+
+      expect(payment).toMatchObject({
+        status: PaymentStatus.Authorized,
+        amount: 100,
+        provider: 'fake',
+      })
+      expect(payment.instructions).toBeDefined()
+      expect(order.status).toBe(OrderStatus.Pendent)
+    })
+
+    // tests if the "authorize" method refuses installments out of credit cards
+    it('should throw BadRequestException when splitting a boleto', async () => {
+      const order = await new OrderEntity({
+        userId: buyer.id,
+        trackingCode: OrderService.generateTrackingCode(),
+        total: 100,
+      }).save()
+
+      await expect(
+        getConnection().transaction(manager =>
+          service.authorize(manager, order, PaymentMethod.Boleto, 3),
+        ),
+      ).rejects.toThrowError(BadRequestException)
+    })
+  })
+
+  describe('capture', () => {
+    // tests if the "capture" method is working properly
+    it('should mark the order as paid', async () => {
+      const payment = await createPayment()
+
+      await service.capture(payment.id)
+
+      await payment.reload()
+      const order = await OrderEntity.findOne({ id: payment.orderId })
+      const history = await OrderStatusHistoryEntity.findOne({
+        orderId: order.id,
+        toStatus: OrderStatus.Paid,
+      })
+
+      expect(payment.status).toBe(PaymentStatus.Captured)
+      expect(order.status).toBe(OrderStatus.Paid)
+      expect(history).toMatchObject({ fromStatus: OrderStatus.Pendent })
+    })
+
+    // tests if the "capture" method refuses payments already captured
+    it('should throw BadRequestException when capturing twice', async () => {
+      const payment = await createPayment()
+      await service.capture(payment.id)
+
+      await expect(service.capture(payment.id)).rejects.toThrowError(
+        BadRequestException,
+      )
+    })
+  })
+
+  describe('releaseByOrderId', () => {
+    // tests if the canceled orders release their authorizations
+    it('should release the authorization of the canceled order and refuse its capture', async () => {
+      const payment = await createPayment()
+      const cancelAuthorization = jest.spyOn(provider, 'cancelAuthorization')
+
+      await orderService.cancel(payment.orderId, buyer, { reason: 'CANCELED' })
+
+      await payment.reload()
+
+      expect(payment.status).toBe(PaymentStatus.Canceled)
+      expect(cancelAuthorization).toHaveBeenCalledWith(
+        payment.providerPaymentId,
+      )
+      await expect(service.capture(payment.id)).rejects.toThrowError(
+        BadRequestException,
+      )
+    })
+
+    // tests if the canceled orders give back the captured amount
+    it('should refund the captured payment of the canceled order', async () => {
+      const payment = await createPayment()
+      await service.capture(payment.id)
+      const refund = jest.spyOn(provider, 'refund')
+
+      await orderService.cancel(payment.orderId, buyer, { reason: 'CANCELED' })
+
+      await payment.reload()
+      const order = await OrderEntity.findOne({ id: payment.orderId })
+
+      expect(payment.status).toBe(PaymentStatus.Refunded)
+      expect(refund).toHaveBeenCalledWith(payment.providerPaymentId, 100)
+      expect(order.status).toBe(OrderStatus.Refunded)
+    })
+
+    // tests if the order is kept when the provider can not release the payment
+    it('should not cancel the order when the provider fails', async () => {
+      const payment = await createPayment()
+      jest
+        .spyOn(provider, 'cancelAuthorization')
+        .mockRejectedValueOnce(new Error('FAILED'))
+
+      await expect(
+        orderService.cancel(payment.orderId, buyer, { reason: 'CANCELED' }),
+      ).rejects.toThrowError('FAILED')
+
+      await payment.reload()
+      const order = await OrderEntity.findOne({ id: payment.orderId })
+
+      expect(payment.status).toBe(PaymentStatus.Authorized)
+      expect(order.status).toBe(OrderStatus.Pendent)
+    })
+  })
+
+  describe('handleWebhook', () => {
+    // tests if the "handleWebhook" method is working properly
+    it('should mark the order as paid when the provider confirms the payment', async () => {
+      const payment = await createPayment(PaymentMethod.Pix)
+      const payload = {
+        providerPaymentId: payment.providerPaymentId,
+        status: PaymentStatus.Captured,
+      }
+
+      await service.handleWebhook(payload, provider.sign(payload))
+      // the providers may send the same event more than once
+      await service.handleWebhook(payload, provider.sign(payload))
+
+      const order = await OrderEntity.findOne({ id: payment.orderId })
+
+      expect(order.status).toBe(OrderStatus.Paid)
+    })
+
+    // tests if the "handleWebhook" method ignores events older than the current status
+    it('should not capture again a payment that was already refunded', async () => {
+      const payment = await createPayment()
+      await service.capture(payment.id)
+      await OrderEntity.update(
+        { id: payment.orderId },
+        { status: OrderStatus.Canceled },
+      )
+      await service.refund(payment.id)
+      const payload = {
+        providerPaymentId: payment.providerPaymentId,
+        status: PaymentStatus.Captured,
+      }
+
+      await service.handleWebhook(payload, provider.sign(payload))
+
+      await payment.reload()
+      const order = await OrderEntity.findOne({ id: payment.orderId })
+
+      expect(payment.status).toBe(PaymentStatus.Refunded)
+      expect(order.status).toBe(OrderStatus.Refunded)
+    })
+
+    // tests if the "handleWebhook" method keeps the payment untouched when the order can not change
+    it('should keep the payment authorized when the order status change fails', async () => {
+      const payment = await createPayment(PaymentMethod.Pix)
+      const payload = {
+        providerPaymentId: payment.providerPaymentId,
+        status: PaymentStatus.Captured,
+      }
+      jest
+        .spyOn(orderService, 'changeStatusAsSystem')
+        .mockRejectedValueOnce(new Error('FAILED'))
+
+      await expect(
+        service.handleWebhook(payload, provider.sign(payload)),
+      ).rejects.toThrowError('FAILED')
+
+      await payment.reload()
+      const order = await OrderEntity.findOne({ id: payment.orderId })
+
+      expect(payment.status).toBe(PaymentStatus.Authorized)
+      expect(order.status).toBe(OrderStatus.Pendent)
+    })
+
+    // tests if the "handleWebhook" method refuses the payments of closed orders
+    it('should throw OrderNotPayableException when the order was canceled', async () => {
+      const payment = await createPayment(PaymentMethod.Pix)
+      await OrderEntity.update(
+        { id: payment.orderId },
+        { status: OrderStatus.Canceled },
+      )
+      const payload = {
+        providerPaymentId: payment.providerPaymentId,
+        status: PaymentStatus.Captured,
+      }
+
+      await expect(
+        service.handleWebhook(payload, provider.sign(payload)),
+      ).rejects.toThrowError(OrderNotPayableException)
+      await expect(service.capture(payment.id)).rejects.toThrowError(
+        OrderNotPayableException,
+      )
+
+      await payment.reload()
+
+      expect(payment.status).toBe(PaymentStatus.Authorized)
+    })
+
+    // tests if the "handleWebhook" method refuses unsigned events
+    it('should throw InvalidWebhookSignatureException when the signature is invalid', async () => {
+      const payment = await createPayment(PaymentMethod.Pix)
+
+      await expect(
+        service.handleWebhook(
+          {
+            providerPaymentId: payment.providerPaymentId,
+            status: PaymentStatus.Captured,
+          },
+          'invalid',
+        ),
+      ).rejects.toThrowError(InvalidWebhookSignatureException)
+    })
+
+    // tests if the "handleWebhook" method refuses all the events without a secret
+    it('should throw InvalidWebhookSignatureException when no secret is configured', async () => {
+      const payment = await createPayment(PaymentMethod.Pix)
+      const payload = {
+        providerPaymentId: payment.providerPaymentId,
+        status: PaymentStatus.Captured,
+      }
+      const signature = provider.sign(payload)
+      secret = undefined
+
+      await expect(
+        service.handleWebhook(payload, signature),
+      ).rejects.toThrowError(InvalidWebhookSignatureException)
+    })
+  })
+
+  describe('refund', () => {
+    // tests if the "refund" method is working properly
+    it('should mark the canceled order as refunded', async () => {
+      const payment = await createPayment()
+      await service.capture(payment.id)
+      await OrderEntity.update(
+        { id: payment.orderId },
+        { status: OrderStatus.Canceled },
+      )
+
+      await service.refund(payment.id)
+
+      const order = await OrderEntity.findOne({ id: payment.orderId })
+
+      expect(order.status).toBe(OrderStatus.Refunded)
+    })
+  })
+})
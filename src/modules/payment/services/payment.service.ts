@@ -0,0 +1,354 @@
+import {
+  BadRequestException,
+  forwardRef,
+  Inject,
+  Injectable,
+} from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { EntityManager, In, Repository } from 'typeorm'
+
+import { InvalidPaymentStatusTransitionException } from 'src/exceptions/conflict/invalid-payment-status-transition.exception'
+import { OrderNotPayableException } from 'src/exceptions/conflict/order-not-payable.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { PaymentEntity } from '../entities/payment.entity'
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+
+import { PaymentWebhookDto } from '../models/payment-webhook.dto'
+import { OrderActor } from 'src/models/enums/order-actor.enum'
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { PaymentMethod } from 'src/models/enums/payment-method.enum'
+import { PaymentStatus } from 'src/models/enums/payment-status.enum'
+
+import { OrderService } from 'src/modules/order/services/order.service'
+
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+} from '../providers/payment-provider.interface'
+
+/**
+ * The app's main payment service class
+ *
+ * Class that deals with the order payments, delegating the charges to the
+ * configured payment provider
+ */
+@Injectable()
+export class PaymentService {
+  /**
+   * Map that stores, for each payment status, which status it can be
+   * changed to
+   */
+  public static readonly statusTransitions: Record<
+    PaymentStatus,
+    PaymentStatus[]
+  > = {
+    [PaymentStatus.Authorized]: [
+      PaymentStatus.Captured,
+      PaymentStatus.Failed,
+      PaymentStatus.Canceled,
+    ],
+    [PaymentStatus.Captured]: [PaymentStatus.Refunded],
+    [PaymentStatus.Refunded]: [],
+    [PaymentStatus.Failed]: [],
+    [PaymentStatus.Canceled]: [],
+  }
+
+  /**
+   * The order status whose payments can not be captured anymore
+   */
+  private static readonly closedOrderStatus = [
+    OrderStatus.Canceled,
+    OrderStatus.Refunded,
+  ]
+
+  public constructor(
+    @InjectRepository(PaymentEntity)
+    private readonly repository: Repository<PaymentEntity>,
+    @Inject(PAYMENT_PROVIDER)
+    private readonly paymentProvider: PaymentProvider,
+    @Inject(forwardRef(() => OrderService))
+    private readonly orderService: OrderService,
+  ) {}
+
+  /**
+   * Method that authorizes the payment of some order
+   *
+   * The authorization is requested to the provider before the transaction
+   * commits, so if it is rolled back the caller must release it through
+   * the "cancelAuthorizations" method
+   *
+   * @param manager stores the entity manager of the transaction that
+   * created the order
+   * @param order stores the order that will be paid
+   * @param method stores the payment method chosen by the buyer
+   * @param installmentAmount stores the amount of installments
+   * @throws {BadRequestException} if the payment method does not accept
+   * installments
+   * @returns the created payment entity
+   */
+  public async authorize(
+    manager: EntityManager,
+    order: OrderEntity,
+    method: PaymentMethod,
+    installmentAmount = 1,
+  ): Promise<PaymentEntity> {
+    if (method !== PaymentMethod.CreditCard && installmentAmount > 1) {
+      throw new BadRequestException(
+        'Only credit card payments can be split in installments',
+      )
+    }
+
+    const authorization = await this.paymentProvider.authorize({
+      method,
+      amount: order.total,
+      installmentAmount,
+      reference: order.trackingCode,
+    })
+
+    try {
+      return await manager.save(
+        new PaymentEntity({
+          ...authorization,
+          method,
+          amount: order.total,
+          installmentAmount,
+          provider: this.paymentProvider.name,
+          orderId: order.id,
+        }),
+      )
+    } catch (error) {
+      await this.cancelAuthorizations([authorization])
+      throw error
+    }
+  }
+
+  /**
+   * Method that releases, in the provider, the authorizations of payments
+   * whose transaction was rolled back. It never fails, so the error that
+   * caused the rollback is the one that reaches the client
+   *
+   * @param payments stores the payments whose authorizations were not
+   * persisted
+   */
+  public async cancelAuthorizations(
+    payments: Pick<PaymentEntity, 'providerPaymentId'>[],
+  ): Promise<void> {
+    for (const { providerPaymentId } of payments) {
+      await this.paymentProvider
+        .cancelAuthorization(providerPaymentId)
+        .catch(() => undefined)
+    }
+  }
+
+  /**
+   * Method that charges some authorized payment and marks its order as
+   * paid
+   *
+   * @param paymentId stores the payment id
+   * @throws {EntityNotFoundException} if the payment was not found
+   * @throws {BadRequestException} if the payment is not authorized
+   * @throws {OrderNotPayableException} if the order was canceled or
+   * refunded
+   * @returns the captured payment entity
+   */
+  public async capture(paymentId: number): Promise<PaymentEntity> {
+    const entity = await this.repository.findOne({ id: paymentId })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(paymentId, PaymentEntity)
+    }
+
+    if (entity.status !== PaymentStatus.Authorized) {
+      throw new BadRequestException('Only authorized payments can be captured')
+    }
+
+    const order = await OrderEntity.findOne({ id: entity.orderId })
+
+    if (order && PaymentService.closedOrderStatus.includes(order.status)) {
+      throw new OrderNotPayableException(order.id, order.status)
+    }
+
+    await this.paymentProvider.capture(entity.providerPaymentId, entity.amount)
+
+    return await this.changeStatus(entity, PaymentStatus.Captured)
+  }
+
+  /**
+   * Method that gives back the amount of some captured payment
+   *
+   * @param paymentId stores the payment id
+   * @throws {EntityNotFoundException} if the payment was not found
+   * @throws {BadRequestException} if the payment is not captured
+   * @returns the refunded payment entity
+   */
+  public async refund(paymentId: number): Promise<PaymentEntity> {
+    const entity = await this.repository.findOne({ id: paymentId })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(paymentId, PaymentEntity)
+    }
+
+    if (entity.status !== PaymentStatus.Captured) {
+      throw new BadRequestException('Only captured payments can be refunded')
+    }
+
+    await this.paymentProvider.refund(entity.providerPaymentId, entity.amount)
+
+    return await this.changeStatus(entity, PaymentStatus.Refunded)
+  }
+
+  /**
+   * Method that gives back to the buyer the payments of some canceled
+   * order, releasing the authorized ones and refunding the captured ones
+   *
+   * The provider is called before each payment is changed, so a failure
+   * in the provider rolls back the order cancellation
+   *
+   * @param manager stores the entity manager of the transaction that
+   * canceled the order
+   * @param orderId stores the order id
+   */
+  public async releaseByOrderId(
+    manager: EntityManager,
+    orderId: number,
+  ): Promise<void> {
+    const payments = await manager.find(PaymentEntity, {
+      orderId,
+      status: In([PaymentStatus.Authorized, PaymentStatus.Captured]),
+    })
+
+    for (const payment of payments) {
+      if (payment.status === PaymentStatus.Authorized) {
+        await this.paymentProvider.cancelAuthorization(
+          payment.providerPaymentId,
+        )
+        await this.changeStatus(payment, PaymentStatus.Canceled, manager)
+      } else {
+        await this.paymentProvider.refund(
+          payment.providerPaymentId,
+          payment.amount,
+        )
+        await this.changeStatus(payment, PaymentStatus.Refunded, manager)
+      }
+    }
+  }
+
+  /**
+   * Method that handles the events sent by the payment provider
+   *
+   * @param payload stores the event data
+   * @param signature stores the signature sent with the event
+   * @throws {InvalidWebhookSignatureException} if the signature is invalid
+   * @throws {EntityNotFoundException} if the payment was not found
+   * @throws {OrderNotPayableException} if the provider captured the
+   * payment of an order that was canceled or refunded
+   */
+  public async handleWebhook(
+    payload: PaymentWebhookDto,
+    signature: string,
+  ): Promise<void> {
+    const { providerPaymentId, status } = this.paymentProvider.verifyWebhook(
+      payload,
+      signature,
+    )
+
+    const entity = await this.repository.findOne({ providerPaymentId })
+
+    if (!entity) {
+      throw new EntityNotFoundException(providerPaymentId, PaymentEntity)
+    }
+
+    // the providers may send the same event more than once, or deliver
+    // them out of order, so repeated and stale events are ignored
+    if (!PaymentService.statusTransitions[entity.status]?.includes(status)) {
+      return
+    }
+
+    await this.changeStatus(entity, status)
+  }
+
+  /**
+   * Method that changes the payment status and moves its order to the
+   * status related with it, both in the same transaction
+   *
+   * @param entity stores the payment entity
+   * @param status stores the new payment status
+   * @param manager stores the entity manager of the current transaction,
+   * when not informed a new transaction is started
+   * @throws {InvalidPaymentStatusTransitionException} if the payment can
+   * not be changed to the informed status
+   * @throws {OrderNotPayableException} if the payment is captured while
+   * its order is canceled or refunded
+   * @returns the changed payment entity
+   */
+  private async changeStatus(
+    entity: PaymentEntity,
+    status: PaymentStatus,
+    manager?: EntityManager,
+  ): Promise<PaymentEntity> {
+    if (!PaymentService.statusTransitions[entity.status]?.includes(status)) {
+      throw new InvalidPaymentStatusTransitionException(entity.status, status)
+    }
+
+    const orderStatus = {
+      [PaymentStatus.Captured]: OrderStatus.Paid,
+      [PaymentStatus.Refunded]: OrderStatus.Refunded,
+      [PaymentStatus.Failed]: OrderStatus.Canceled,
+    }[status]
+
+    const apply = async (manager: EntityManager): Promise<void> => {
+      // only changes the status if no one changed it in the meantime, so the
+      // same event can not be applied twice
+      const { affected } = await manager
+        .createQueryBuilder()
+        .update(PaymentEntity)
+        .set({ status })
+        .where('id = :paymentId', { paymentId: entity.id })
+        .andWhere('status = :fromStatus', { fromStatus: entity.status })
+        .execute()
+
+      if (affected === 0) {
+        const { status: currentStatus } = await manager.findOne(PaymentEntity, {
+          id: entity.id,
+        })
+        throw new InvalidPaymentStatusTransitionException(currentStatus, status)
+      }
+
+      const order = await manager.findOne(OrderEntity, { id: entity.orderId })
+
+      if (
+        status === PaymentStatus.Captured &&
+        order &&
+        PaymentService.closedOrderStatus.includes(order.status)
+      ) {
+        throw new OrderNotPayableException(order.id, order.status)
+      }
+
+      // the payments that fail or are given back may belong to orders
+      // that were already closed, those orders are kept as they are
+      if (
+        orderStatus !== undefined &&
+        order &&
+        OrderService.statusTransitions[order.status]?.[orderStatus]?.includes(
+          OrderActor.System,
+        )
+      ) {
+        await this.orderService.changeStatusAsSystem(
+          order.id,
+          orderStatus,
+          `The payment ${entity.id} was ${status}`,
+          manager,
+        )
+      }
+    }
+
+    if (manager) {
+      await apply(manager)
+    } else {
+      await this.repository.manager.transaction(apply)
+    }
+
+    return Object.assign(entity, { status })
+  }
+}
@@ -41,6 +41,46 @@ export class ProductGroupEntity extends BaseEntity {
   })
   public orderId?: number
 
+  //#region Snapshot
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true
+  })
+  public productName?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: true
+  })
+  public unitPrice?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: true
+  })
+  public discount?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: true
+  })
+  public installmentPrice?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true
+  })
+  public installmentAmount?: number
+
+  //#endregion
+
   //#region Relations
 
   @ApiPropertyOptional({ type: () => ProductEntity })
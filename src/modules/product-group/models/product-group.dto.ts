@@ -26,6 +26,25 @@ export class ProductGroupDto extends BaseResponseDto {
   @ApiPropertyOptional()
   public orderId?: number
 
+  //#region Snapshot
+
+  @ApiPropertyOptional()
+  public productName?: string
+
+  @ApiPropertyOptional()
+  public unitPrice?: number
+
+  @ApiPropertyOptional()
+  public discount?: number
+
+  @ApiPropertyOptional()
+  public installmentPrice?: number
+
+  @ApiPropertyOptional()
+  public installmentAmount?: number
+
+  //#endregion
+
   //#region Relations
 
   @ApiPropertyOptional({
@@ -51,6 +70,13 @@ export class ProductGroupDto extends BaseResponseDto {
     this.shoppingCartId = entity?.shoppingCartId
     this.orderId = entity?.orderId
 
+    // snapshot
+    this.productName = entity.productName
+    this.unitPrice = entity.unitPrice
+    this.discount = entity.discount
+    this.installmentPrice = entity.installmentPrice
+    this.installmentAmount = entity.installmentAmount
+
     // relations
     this.product = entity.product?.toDto()
     this.shoppingCart = entity.shoppingCart?.toDto()
@@ -15,6 +15,8 @@ import { ProductGroupEntity } from '../entities/product-group.entity'
 import { CreateProductGroupDto } from '../models/create-product-group.dto'
 import { UpdateProductGroupDto } from '../models/update-product-group.dto'
 
+import { ProductVariantService } from 'src/modules/product/services/product-variant.service'
+
 /**
  * The app's main product group service class
  *
@@ -37,6 +39,7 @@ export class ProductGroupService extends TypeOrmCrudService<
    * @param createProductGroupDto stores the new product group data
    * @throws {EntityNotFoundException} if the product was not found
    * @throws {EntityNotFoundException} if the shopping cart was not found
+   * @throws {BadRequestException} if the product is sold through variants
    * @returns the created product group entity
    */
   public async create(
@@ -53,6 +56,8 @@ export class ProductGroupService extends TypeOrmCrudService<
       throw new EntityNotFoundException(productId, ProductEntity)
     }
 
+    ProductVariantService.assertPurchasable(product)
+
     if (!shoppingCart || !shoppingCart.isActive) {
       throw new EntityNotFoundException(shoppingCartId, ShoppingCartEntity)
     }
@@ -0,0 +1,219 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Put,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common'
+import { FileInterceptor } from '@nestjs/platform-express'
+import {
+  ApiBadRequestResponse,
+  ApiConsumes,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+
+import { ApiFile } from 'src/decorators/api-file/api-file.decorator'
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { ProductImageDto } from '../models/product-image.dto'
+import { ReorderProductImagesDto } from '../models/reorder-product-images.dto'
+import { UpdateProductImageDto } from '../models/update-product-image.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ProductImageService } from '../services/product-image.service'
+
+/**
+ * The app's main product image controller class
+ *
+ * Class that deals with the product gallery routes
+ */
+@ApiTags('products')
+@Controller('products')
+export class ProductImageController {
+  public constructor(
+    private readonly productImageService: ProductImageService,
+  ) {}
+
+  /**
+   * Method that is called when the user access the "/products/:id/images"
+   * route with the "POST" method
+   *
+   * @param productId stores the product id
+   * @param requestUser stores the logged user data
+   * @param file stores the image sent by the user
+   * @throws {EntityNotFoundException} if the product was not found
+   * @throws {ForbiddenException} if the request user has no permissions
+   * to execute this action
+   * @throws {BadRequestException} if the file is not an image
+   * @returns the created image data
+   */
+  @ProtectTo(RolesEnum.Admin, RolesEnum.Seller)
+  @ApiOperation({ summary: 'Uploads a new image to the product gallery' })
+  @ApiCreatedResponse({
+    description: 'Gets the created image data',
+    type: ProductImageDto,
+  })
+  @ApiNotFoundResponse({ description: 'Product not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @ApiBadRequestResponse({ description: 'The file is not an image' })
+  @ApiConsumes('multipart/form-data')
+  @ApiFile('file')
+  @UseInterceptors(FileInterceptor('file'))
+  @Post(':id/images')
+  public async create(
+    @Param('id', ParseIntPipe) productId: number,
+    @RequestUser() requestUser: UserEntity,
+    @UploadedFile() file: Express.Multer.File,
+  ): Promise<ProductImageDto> {
+    const entity = await this.productImageService.create(
+      productId,
+      requestUser,
+      file,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "/products/:id/images"
+   * route with the "GET" method
+   *
+   * @param productId stores the product id
+   * @throws {EntityNotFoundException} if the product was not found
+   * @returns the product gallery in its order
+   */
+  @ApiOperation({ summary: 'Retrieves the gallery of a single product' })
+  @ApiOkResponse({
+    description: 'Gets the product images in their order',
+    type: ProductImageDto,
+    isArray: true,
+  })
+  @ApiNotFoundResponse({ description: 'Product not found' })
+  @Get(':id/images')
+  public async listMany(
+    @Param('id', ParseIntPipe) productId: number,
+  ): Promise<ProductImageDto[]> {
+    const entities = await this.productImageService.listMany(productId)
+    return entities.map(entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/products/:id/images/order" route with the "PUT" method
+   *
+   * @param productId stores the product id
+   * @param requestUser stores the logged user data
+   * @param reorderProductImagesDto stores the image ids in the new order
+   * @throws {EntityNotFoundException} if the product was not found
+   * @throws {ForbiddenException} if the request user has no permissions
+   * to execute this action
+   * @throws {BadRequestException} if the ids are not the ids of all the
+   * product images
+   * @returns the product gallery in its new order
+   */
+  @ProtectTo(RolesEnum.Admin, RolesEnum.Seller)
+  @ApiOperation({ summary: 'Sorts the gallery of a single product' })
+  @ApiOkResponse({
+    description: 'Gets the product images in their new order',
+    type: ProductImageDto,
+    isArray: true,
+  })
+  @ApiNotFoundResponse({ description: 'Product not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @ApiBadRequestResponse({
+    description: 'The ids are not the ids of all the product images',
+  })
+  @Put(':id/images/order')
+  public async reorder(
+    @Param('id', ParseIntPipe) productId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() reorderProductImagesDto: ReorderProductImagesDto,
+  ): Promise<ProductImageDto[]> {
+    const entities = await this.productImageService.reorder(
+      productId,
+      requestUser,
+      reorderProductImagesDto,
+    )
+    return entities.map(entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/products/:id/images/:imageId" route with the "PATCH" method
+   *
+   * @param productId stores the product id
+   * @param imageId stores the image id
+   * @param requestUser stores the logged user data
+   * @param updateProductImageDto stores the new image data
+   * @throws {EntityNotFoundException} if the product or the image was not
+   * found
+   * @throws {ForbiddenException} if the request user has no permissions
+   * to execute this action
+   */
+  @ProtectTo(RolesEnum.Admin, RolesEnum.Seller)
+  @ApiOperation({ summary: 'Updates a single product image' })
+  @ApiOkResponse({ description: 'Updates the image' })
+  @ApiNotFoundResponse({ description: 'Product or image not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Patch(':id/images/:imageId')
+  public async update(
+    @Param('id', ParseIntPipe) productId: number,
+    @Param('imageId', ParseIntPipe) imageId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() updateProductImageDto: UpdateProductImageDto,
+  ): Promise<void> {
+    await this.productImageService.update(
+      productId,
+      imageId,
+      requestUser,
+      updateProductImageDto,
+    )
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/products/:id/images/:imageId" route with the "DELETE" method
+   *
+   * @param productId stores the product id
+   * @param imageId stores the image id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the product or the image was not
+   * found
+   * @throws {ForbiddenException} if the request user has no permissions
+   * to execute this action
+   */
+  @ProtectTo(RolesEnum.Admin, RolesEnum.Seller)
+  @ApiOperation({ summary: 'Deletes a single product image and its file' })
+  @ApiOkResponse({ description: 'Deletes the image' })
+  @ApiNotFoundResponse({ description: 'Product or image not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Delete(':id/images/:imageId')
+  public async delete(
+    @Param('id', ParseIntPipe) productId: number,
+    @Param('imageId', ParseIntPipe) imageId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<void> {
+    await this.productImageService.delete(productId, imageId, requestUser)
+  }
+}
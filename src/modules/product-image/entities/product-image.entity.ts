@@ -0,0 +1,105 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne } from 'typeorm'
+
+import { BaseEntity } from 'src/common/base.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+
+import { ProductImageDto } from '../models/product-image.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+
+/**
+ * The app's main product image entity class
+ *
+ * Class that represents the images of the product gallery
+ */
+@Entity('product-image')
+export class ProductImageEntity extends BaseEntity
+  implements ToDto<ProductImageDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'text',
+    nullable: false,
+  })
+  public url: string
+
+  /**
+   * The file path in the storage backend, used to remove the file when
+   * the image is deleted
+   */
+  @ApiProperty()
+  @Column({
+    type: 'text',
+    nullable: false,
+  })
+  public path: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 150,
+    nullable: true,
+  })
+  public altText?: string
+
+  /**
+   * The image position in the gallery, starting from zero
+   */
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+    default: 0,
+  })
+  public sortOrder: number
+
+  /**
+   * Whether the image is the product cover, whose url is kept in the
+   * product "imageUrl"
+   */
+  @ApiProperty()
+  @Column({
+    type: 'boolean',
+    nullable: false,
+    default: false,
+  })
+  public isCover: boolean
+
+  @ApiProperty()
+  @Column({
+    type: 'integer',
+    nullable: false,
+  })
+  public productId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({
+    type: () => ProductEntity,
+  })
+  @ManyToOne(
+    () => ProductEntity,
+    product => product.images,
+    { onDelete: 'CASCADE' },
+  )
+  public product?: ProductEntity
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<ProductImageEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): ProductImageDto {
+    return new ProductImageDto(this)
+  }
+}
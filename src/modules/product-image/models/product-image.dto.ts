@@ -0,0 +1,37 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { ProductImageEntity } from '../entities/product-image.entity'
+
+import { BaseResponseDto } from 'src/common/base-response.dto'
+
+/**
+ * The app's main product image dto class
+ *
+ * Class that deals with the product image return data
+ */
+export class ProductImageDto extends BaseResponseDto {
+  @ApiProperty()
+  public url: string
+
+  @ApiPropertyOptional()
+  public altText?: string
+
+  @ApiProperty({ description: 'The image position in the gallery' })
+  public sortOrder: number
+
+  @ApiProperty()
+  public isCover: boolean
+
+  @ApiProperty()
+  public productId: number
+
+  public constructor(entity: ProductImageEntity) {
+    super(entity)
+
+    this.url = entity.url
+    this.altText = entity.altText
+    this.sortOrder = entity.sortOrder
+    this.isCover = entity.isCover
+    this.productId = entity.productId
+  }
+}
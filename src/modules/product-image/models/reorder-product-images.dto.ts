@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import {
+  ArrayUnique,
+  IsArray,
+  IsDefined,
+  IsNumber,
+} from 'class-validator'
+
+/**
+ * The app's main reorder product images dto class
+ *
+ * Class that handles the dto sent by the user to sort the product gallery
+ */
+export class ReorderProductImagesDto {
+  @ApiProperty({
+    type: 'number',
+    isArray: true,
+    description: 'The ids of all the product images in the new order',
+  })
+  @IsDefined({ message: 'It is required to send the image ids' })
+  @IsArray({ message: 'It is required to send a valid array' })
+  @ArrayUnique()
+  @IsNumber({}, { each: true })
+  public imageIds: number[]
+}
@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator'
+
+/**
+ * The app's main update product image dto class
+ *
+ * Class that handles the dto sent by the user to perform the update
+ */
+export class UpdateProductImageDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @MaxLength(150)
+  public altText?: string
+
+  @ApiPropertyOptional({
+    description: 'Makes the image the product cover, replacing the current one',
+  })
+  @IsOptional()
+  @IsBoolean({ message: DefaultValidationMessages.IsBoolean })
+  public isCover?: boolean
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { ProductImageEntity } from './entities/product-image.entity'
+
+import { ProductImageService } from './services/product-image.service'
+
+import { ProductImageController } from './controllers/product-image.controller'
+
+import { MediaModule } from '../media/media.module'
+
+@Module({
+  imports: [MediaModule, TypeOrmModule.forFeature([ProductImageEntity])],
+  controllers: [ProductImageController],
+  providers: [ProductImageService],
+})
+export class ProductImageModule {}
@@ -0,0 +1,247 @@
+import { BadRequestException } from '@nestjs/common'
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+
+import { ProductImageEntity } from '../entities/product-image.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ProductImageService } from './product-image.service'
+import { MediaService } from 'src/modules/media/services/media.service'
+
+describe('ProductImageService', () => {
+  let service: ProductImageService
+  let sequence = 0
+
+  const mediaService = {
+    upload: jest.fn(async () => {
+      sequence++
+      return {
+        url: `https://test.com/image-${sequence}.png`,
+        path: `image-${sequence}`,
+      }
+    }),
+    delete: jest.fn(async () => undefined),
+  }
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        ProductImageService,
+        { provide: MediaService, useValue: mediaService },
+        {
+          provide: getRepositoryToken(ProductImageEntity),
+          useValue: getRepository(ProductImageEntity),
+        },
+      ],
+    }).compile()
+
+    service = await module.resolve(ProductImageService)
+    mediaService.delete.mockClear()
+  })
+
+  /**
+   * Function that creates a new seller entity
+   *
+   * @returns the created user entity
+   */
+  async function createSeller(): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `product-image-${sequence}@test.com`,
+      password: '123456',
+      roles: RolesEnum.Seller,
+    }).save()
+  }
+
+  /**
+   * Function that creates a new product entity
+   *
+   * @param seller stores the product seller
+   * @returns the created product entity
+   */
+  async function createProduct(seller: UserEntity): Promise<ProductEntity> {
+    sequence++
+    return await new ProductEntity({
+      name: `PRODUCT-TEST-${sequence}`,
+      description: 'PRODUCT-TEST',
+      imageUrl: 'https://test.com/product.png',
+      price: 10,
+      stockAmount: 1,
+      userId: seller.id,
+    }).save()
+  }
+
+  /**
+   * Function that creates an image file like the ones sent through
+   * multipart forms
+   *
+   * @param mimetype stores the file mime type
+   * @returns the file data
+   */
+  function createFile(mimetype = 'image/png'): Express.Multer.File {
+    return {
+      originalname: 'image.png',
+      mimetype,
+      buffer: Buffer.from(''),
+    } as Express.Multer.File
+  }
+
+  describe('create', () => {
+    // tests if the first image becomes the product cover
+    it('should add the images to the end of the gallery', async () => {
+      const seller = await createSeller()
+      const product = await createProduct(seller)
+
+      const first = await service.create(product.id, seller, createFile())
+      const second = await service.create(product.id, seller, createFile())
+
+      expect(first).toMatchObject({ sortOrder: 0, isCover: true })
+      expect(second).toMatchObject({ sortOrder: 1, isCover: false })
+      expect((await ProductEntity.findOne({ id: product.id })).imageUrl).toBe(
+        first.url,
+      )
+    })
+
+    // tests if the uploaded file is removed when the image can not be saved
+    it('should remove the uploaded file when the image is not saved', async () => {
+      const seller = await createSeller()
+      const product = await createProduct(seller)
+
+      jest
+        .spyOn(getRepository(ProductImageEntity).manager, 'transaction')
+        .mockRejectedValueOnce(new Error('FAILED'))
+
+      await expect(
+        service.create(product.id, seller, createFile()),
+      ).rejects.toThrow('FAILED')
+
+      expect(mediaService.delete).toHaveBeenCalledWith(`image-${sequence}`)
+      expect(await service.listMany(product.id)).toEqual([])
+    })
+
+    // tests if only images are uploaded
+    it('should reject the files that are not images', async () => {
+      const seller = await createSeller()
+      const product = await createProduct(seller)
+
+      await expect(
+        service.create(product.id, seller, createFile('application/pdf')),
+      ).rejects.toThrow(BadRequestException)
+    })
+
+    // tests if only the product seller can change its gallery
+    it('should throw when the user does not own the product', async () => {
+      const product = await createProduct(await createSeller())
+
+      await expect(
+        service.create(product.id, await createSeller(), createFile()),
+      ).rejects.toThrow(ForbiddenException)
+    })
+  })
+
+  describe('reorder', () => {
+    // tests if the gallery follows the sent order
+    it('should sort the gallery', async () => {
+      const seller = await createSeller()
+      const product = await createProduct(seller)
+
+      const first = await service.create(product.id, seller, createFile())
+      const second = await service.create(product.id, seller, createFile())
+
+      const images = await service.reorder(product.id, seller, {
+        imageIds: [second.id, first.id],
+      })
+
+      expect(images.map(image => image.id)).toEqual([second.id, first.id])
+      await expect(
+        service.reorder(product.id, seller, { imageIds: [first.id] }),
+      ).rejects.toThrow(BadRequestException)
+    })
+  })
+
+  describe('update', () => {
+    // tests if the product has only one cover
+    it('should replace the product cover', async () => {
+      const seller = await createSeller()
+      const product = await createProduct(seller)
+
+      const first = await service.create(product.id, seller, createFile())
+      const second = await service.create(product.id, seller, createFile())
+
+      await service.update(product.id, second.id, seller, {
+        isCover: true,
+        altText: 'The back cover',
+      })
+
+      expect(await service.listMany(product.id)).toEqual([
+        expect.objectContaining({ id: first.id, isCover: false }),
+        expect.objectContaining({
+          id: second.id,
+          isCover: true,
+          altText: 'The back cover',
+        }),
+      ])
+      expect((await ProductEntity.findOne({ id: product.id })).imageUrl).toBe(
+        second.url,
+      )
+    })
+  })
+
+  describe('delete', () => {
+    // tests if the stored file is removed and the next image becomes the cover
+    it('should remove the image and its file', async () => {
+      const seller = await createSeller()
+      const product = await createProduct(seller)
+
+      const first = await service.create(product.id, seller, createFile())
+      const second = await service.create(product.id, seller, createFile())
+
+      await service.delete(product.id, first.id, seller)
+
+      expect(mediaService.delete).toHaveBeenCalledWith(first.path)
+      expect(await service.listMany(product.id)).toEqual([
+        expect.objectContaining({ id: second.id, sortOrder: 0, isCover: true }),
+      ])
+      expect((await ProductEntity.findOne({ id: product.id })).imageUrl).toBe(
+        second.url,
+      )
+    })
+
+    // tests if the product does not keep the url of a removed file
+    it('should remove the product cover when the last image is removed', async () => {
+      const seller = await createSeller()
+      const product = await createProduct(seller)
+
+      const image = await service.create(product.id, seller, createFile())
+
+      await service.delete(product.id, image.id, seller)
+
+      expect(
+        (await ProductEntity.findOne({ id: product.id })).imageUrl,
+      ).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,314 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { EntityManager, Not, Repository } from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { ProductImageEntity } from '../entities/product-image.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { ReorderProductImagesDto } from '../models/reorder-product-images.dto'
+import { UpdateProductImageDto } from '../models/update-product-image.dto'
+
+import { MediaService } from 'src/modules/media/services/media.service'
+import { UserService } from 'src/modules/user/services/user.service'
+
+/**
+ * The app's main product image service class
+ *
+ * Class that deals with the product galleries. The cover url is also kept
+ * in the product "imageUrl", so the listings do not need to join the
+ * galleries
+ */
+@Injectable()
+export class ProductImageService {
+  public constructor(
+    @InjectRepository(ProductImageEntity)
+    private readonly repository: Repository<ProductImageEntity>,
+    private readonly mediaService: MediaService,
+  ) {}
+
+  /**
+   * Method that uploads some image to the end of the product gallery. The
+   * first image of the gallery becomes the product cover. When the image
+   * can not be saved its file is removed from the storage backend
+   *
+   * @param productId stores the product id
+   * @param requestUser stores the logged user data
+   * @param file stores the image sent by the user
+   * @throws {EntityNotFoundException} if the product was not found
+   * @throws {ForbiddenException} if the request user has no permissions
+   * to execute this action
+   * @throws {BadRequestException} if the file is not an image
+   * @returns the created image
+   */
+  public async create(
+    productId: number,
+    requestUser: UserEntity,
+    file: Express.Multer.File,
+  ): Promise<ProductImageEntity> {
+    await this.findProduct(productId, requestUser)
+
+    if (!file?.mimetype?.startsWith('image/')) {
+      throw new BadRequestException('It is required to send an image file')
+    }
+
+    const { url, path } = await this.mediaService.upload(file)
+
+    try {
+      return await this.repository.manager.transaction(async manager => {
+        const images = await manager.find(ProductImageEntity, { productId })
+
+        const image = await manager.save(
+          new ProductImageEntity({
+            url,
+            path,
+            productId,
+            sortOrder: images.length,
+            isCover: !images.some(({ isCover }) => isCover),
+          }),
+        )
+
+        if (image.isCover) {
+          await ProductImageService.setCover(manager, image)
+        }
+
+        return image
+      })
+    } catch (error) {
+      await this.mediaService.delete(path)
+      throw error
+    }
+  }
+
+  /**
+   * Method that gets the product gallery in its order
+   *
+   * @param productId stores the product id
+   * @throws {EntityNotFoundException} if the product was not found
+   * @returns the found images
+   */
+  public async listMany(productId: number): Promise<ProductImageEntity[]> {
+    const product = await ProductEntity.findOne({ id: productId })
+
+    if (!product || !product.isActive) {
+      throw new EntityNotFoundException(productId, ProductEntity)
+    }
+
+    return await ProductImageEntity.find({
+      where: { productId },
+      order: { sortOrder: 'ASC', id: 'ASC' },
+    })
+  }
+
+  /**
+   * Method that changes the alt text of some image or makes it the
+   * product cover
+   *
+   * @param productId stores the product id
+   * @param imageId stores the image id
+   * @param requestUser stores the logged user data
+   * @param updateProductImagePayload stores the new image data
+   * @throws {EntityNotFoundException} if the product or the image was not
+   * found
+   * @throws {ForbiddenException} if the request user has no permissions
+   * to execute this action
+   * @throws {BadRequestException} if the cover is unset without choosing
+   * another one
+   */
+  public async update(
+    productId: number,
+    imageId: number,
+    requestUser: UserEntity,
+    updateProductImagePayload: UpdateProductImageDto,
+  ): Promise<void> {
+    await this.findProduct(productId, requestUser)
+    const image = await this.findImage(productId, imageId)
+
+    const { altText, isCover } = updateProductImagePayload
+
+    if (isCover === false && image.isCover) {
+      throw new BadRequestException(
+        'It is required to choose another image as the product cover',
+      )
+    }
+
+    await this.repository.manager.transaction(async manager => {
+      if (altText !== undefined) {
+        await manager.update(ProductImageEntity, { id: imageId }, { altText })
+      }
+
+      if (isCover && !image.isCover) {
+        await ProductImageService.setCover(manager, image)
+      }
+    })
+  }
+
+  /**
+   * Method that sorts the product gallery
+   *
+   * @param productId stores the product id
+   * @param requestUser stores the logged user data
+   * @param reorderProductImagesPayload stores the ids of all the product
+   * images in the new order
+   * @throws {EntityNotFoundException} if the product was not found
+   * @throws {ForbiddenException} if the request user has no permissions
+   * to execute this action
+   * @throws {BadRequestException} if the ids are not the ids of all the
+   * product images
+   * @returns the sorted images
+   */
+  public async reorder(
+    productId: number,
+    requestUser: UserEntity,
+    reorderProductImagesPayload: ReorderProductImagesDto,
+  ): Promise<ProductImageEntity[]> {
+    await this.findProduct(productId, requestUser)
+
+    const { imageIds } = reorderProductImagesPayload
+    const images = await ProductImageEntity.find({ productId })
+
+    if (
+      imageIds.length !== images.length ||
+      images.some(({ id }) => !imageIds.includes(id))
+    ) {
+      throw new BadRequestException(
+        'It is required to send the ids of all the product images',
+      )
+    }
+
+    await this.repository.manager.transaction(async manager => {
+      for (const [sortOrder, id] of imageIds.entries()) {
+        await manager.update(ProductImageEntity, { id }, { sortOrder })
+      }
+    })
+
+    return await this.listMany(productId)
+  }
+
+  /**
+   * Method that removes some image from the product gallery and its file
+   * from the storage backend. When the cover is removed the next image
+   * becomes the product cover, and when it was the last image the product
+   * is left without cover
+   *
+   * @param productId stores the product id
+   * @param imageId stores the image id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the product or the image was not
+   * found
+   * @throws {ForbiddenException} if the request user has no permissions
+   * to execute this action
+   */
+  public async delete(
+    productId: number,
+    imageId: number,
+    requestUser: UserEntity,
+  ): Promise<void> {
+    await this.findProduct(productId, requestUser)
+    const image = await this.findImage(productId, imageId)
+
+    await this.repository.manager.transaction(async manager => {
+      await manager.delete(ProductImageEntity, { id: imageId })
+
+      const images = await manager.find(ProductImageEntity, {
+        where: { productId },
+        order: { sortOrder: 'ASC', id: 'ASC' },
+      })
+
+      for (const [sortOrder, { id }] of images.entries()) {
+        await manager.update(ProductImageEntity, { id }, { sortOrder })
+      }
+
+      if (image.isCover && images.length > 0) {
+        await ProductImageService.setCover(manager, images[0])
+      } else if (image.isCover) {
+        await manager.update(
+          ProductEntity,
+          { id: productId },
+          { imageUrl: null },
+        )
+      }
+    })
+
+    await this.mediaService.delete(image.path)
+  }
+
+  /**
+   * Method that finds some product whose gallery can be changed by the
+   * request user
+   *
+   * @param productId stores the product id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the product was not found
+   * @throws {ForbiddenException} if the request user has no permissions
+   * to execute this action
+   * @returns the found product
+   */
+  private async findProduct(
+    productId: number,
+    requestUser: UserEntity,
+  ): Promise<ProductEntity> {
+    const product = await ProductEntity.findOne({ id: productId })
+
+    if (!product || !product.isActive) {
+      throw new EntityNotFoundException(productId, ProductEntity)
+    }
+
+    if (!UserService.hasPermissions(product.userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    return product
+  }
+
+  /**
+   * Method that finds some image of the product gallery
+   *
+   * @param productId stores the product id
+   * @param imageId stores the image id
+   * @throws {EntityNotFoundException} if the image was not found
+   * @returns the found image
+   */
+  private async findImage(
+    productId: number,
+    imageId: number,
+  ): Promise<ProductImageEntity> {
+    const image = await ProductImageEntity.findOne({ id: imageId, productId })
+
+    if (!image) {
+      throw new EntityNotFoundException(imageId, ProductImageEntity)
+    }
+
+    return image
+  }
+
+  /**
+   * Method that makes some image the product cover
+   *
+   * @param manager stores the entity manager of the current transaction
+   * @param image stores the image entity
+   */
+  private static async setCover(
+    manager: EntityManager,
+    image: ProductImageEntity,
+  ): Promise<void> {
+    await manager.update(
+      ProductImageEntity,
+      { productId: image.productId, id: Not(image.id) },
+      { isCover: false },
+    )
+    await manager.update(
+      ProductImageEntity,
+      { id: image.id },
+      { isCover: true },
+    )
+    await manager.update(
+      ProductEntity,
+      { id: image.productId },
+      { imageUrl: image.url },
+    )
+  }
+}
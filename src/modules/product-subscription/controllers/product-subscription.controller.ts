@@ -0,0 +1,71 @@
+import { Body, Controller, Param, Post } from '@nestjs/common'
+import {
+  ApiBadRequestResponse,
+  ApiCreatedResponse,
+  ApiNotFoundResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CreateProductSubscriptionDto } from '../models/create-product-subscription.dto'
+import { ProductSubscriptionDto } from '../models/product-subscription.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ProductSubscriptionService } from '../services/product-subscription.service'
+
+/**
+ * The app's main product subscription controller class
+ *
+ * Class that deals with the subscriptions to the products events
+ */
+@ApiTags('products')
+@Controller('products')
+export class ProductSubscriptionController {
+  public constructor(
+    private readonly productSubscriptionService: ProductSubscriptionService,
+  ) {}
+
+  /**
+   * Method that is called when the user access the
+   * "products/:id/subscriptions" route with "POST" method
+   *
+   * @param productId stores the product id
+   * @param requestUser stores the logged user data
+   * @param createProductSubscriptionPayload stores the subscription data
+   * @throws {EntityNotFoundException} if the product was not found
+   * @throws {BadRequestException} if the product is already in stock or
+   * already costs less than the target price
+   * @returns the created subscription data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({
+    summary:
+      'Subscribes the logged user to be notified when the product is restocked or gets cheaper',
+  })
+  @ApiCreatedResponse({
+    description: 'Gets the created subscription data',
+    type: ProductSubscriptionDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'The event that the user wants to wait already happened',
+  })
+  @ApiNotFoundResponse({ description: 'Product not found' })
+  @Post(':id/subscriptions')
+  public async create(
+    @Param('id') productId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() createProductSubscriptionPayload: CreateProductSubscriptionDto,
+  ): Promise<ProductSubscriptionDto> {
+    const entity = await this.productSubscriptionService.create(
+      productId,
+      requestUser,
+      createProductSubscriptionPayload,
+    )
+    return entity.toDto()
+  }
+}
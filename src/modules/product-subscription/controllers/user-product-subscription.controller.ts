@@ -0,0 +1,126 @@
+import { Controller, Delete, Get, Param, UseInterceptors } from '@nestjs/common'
+import {
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+import {
+  Crud,
+  CrudRequest,
+  CrudRequestInterceptor,
+  GetManyDefaultResponse,
+  ParsedRequest,
+} from '@nestjsx/crud'
+
+import { ApiQueryGetMany } from 'src/decorators/api-query-get-many/api-query-get-many.decorator'
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import {
+  GetManyProductSubscriptionDtoResponse,
+  ProductSubscriptionDto,
+} from '../models/product-subscription.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ProductSubscriptionService } from '../services/product-subscription.service'
+
+import { map } from 'src/utils/crud'
+
+/**
+ * The app's main user product subscription controller class
+ *
+ * Class that deals with the logged user product subscriptions routes
+ */
+@Crud({
+  model: {
+    type: ProductSubscriptionDto,
+  },
+  query: {
+    persist: ['id', 'isActive'],
+    filter: [{ field: 'isActive', operator: '$eq', value: true }],
+    join: {
+      product: {},
+    },
+  },
+  routes: {
+    exclude: [
+      'createManyBase',
+      'createOneBase',
+      'updateOneBase',
+      'replaceOneBase',
+      'recoverOneBase',
+      'getOneBase',
+      'getManyBase',
+      'deleteOneBase',
+    ],
+  },
+})
+@UseInterceptors(CrudRequestInterceptor)
+@ApiTags('products')
+@Controller('users/me')
+export class UserProductSubscriptionController {
+  public constructor(
+    private readonly productSubscriptionService: ProductSubscriptionService,
+  ) {}
+
+  /**
+   * Method that is called when the user access the
+   * "users/me/product-subscriptions" route with "GET" method
+   *
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @returns all the found data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiQueryGetMany()
+  @ApiOperation({ summary: 'Retrieves the logged user product subscriptions' })
+  @ApiOkResponse({
+    description: 'Gets all the logged user product subscriptions',
+    type: GetManyProductSubscriptionDtoResponse,
+  })
+  @Get('product-subscriptions')
+  public async listMine(
+    @RequestUser() requestUser: UserEntity,
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<
+    GetManyDefaultResponse<ProductSubscriptionDto> | ProductSubscriptionDto[]
+  > {
+    const entities = await this.productSubscriptionService.listManyByUserId(
+      requestUser.id,
+      requestUser,
+      crudRequest,
+    )
+    return map(entities, entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "users/me/product-subscriptions/:id" route with "DELETE" method
+   *
+   * @param productSubscriptionId stores the product subscription id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the subscription was not found
+   * @throws {ForbiddenException} if the subscription belongs to other user
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Cancels a product subscription' })
+  @ApiOkResponse({ description: 'The subscription was canceled' })
+  @ApiNotFoundResponse({ description: 'Product subscription not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Delete('product-subscriptions/:id')
+  public async delete(
+    @Param('id') productSubscriptionId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<void> {
+    await this.productSubscriptionService.delete(
+      productSubscriptionId,
+      requestUser,
+    )
+  }
+}
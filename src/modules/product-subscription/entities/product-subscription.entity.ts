@@ -0,0 +1,89 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne } from 'typeorm'
+
+import { BaseEntity } from 'src/common/base.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { ProductSubscriptionDto } from '../models/product-subscription.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+import { ProductSubscriptionType } from 'src/models/enums/product-subscription-type.enum'
+
+/**
+ * The app's main product subscription entity class
+ *
+ * Class that represents the wish of some user to be notified when a
+ * product is restocked or when its price drops
+ */
+@Entity('product-subscription')
+export class ProductSubscriptionEntity extends BaseEntity
+  implements ToDto<ProductSubscriptionDto> {
+  //#region Columns
+
+  @ApiProperty({ enum: ProductSubscriptionType })
+  @Column({
+    type: 'varchar',
+    length: 32,
+    nullable: false,
+  })
+  public type: ProductSubscriptionType
+
+  /**
+   * The price, with discount, that the product must reach, it is only set
+   * in the "price-below" subscriptions
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'float',
+    nullable: true,
+  })
+  public targetPrice?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    nullable: true,
+  })
+  public fulfilledAt?: Date
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public userId: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public productId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  public user?: UserEntity
+
+  @ApiPropertyOptional({ type: () => ProductEntity })
+  @ManyToOne(() => ProductEntity, { onDelete: 'CASCADE' })
+  public product?: ProductEntity
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<ProductSubscriptionEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): ProductSubscriptionDto {
+    return new ProductSubscriptionDto(this)
+  }
+}
@@ -0,0 +1,37 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+import { ProductSubscriptionType } from 'src/models/enums/product-subscription-type.enum'
+
+import { IsDefined, IsEnum, IsNumber, Min, ValidateIf } from 'class-validator'
+
+/**
+ * The app's main create product subscription dto class
+ *
+ * Class that handles the dto sent by the user to be notified about some
+ * product
+ */
+export class CreateProductSubscriptionDto {
+  @ApiProperty({ enum: ProductSubscriptionType })
+  @IsDefined({ message: 'It is required to send the subscription type' })
+  @IsEnum(ProductSubscriptionType, {
+    message: 'It is required to send a valid subscription type',
+  })
+  public type: ProductSubscriptionType
+
+  @ApiPropertyOptional({
+    description:
+      'The price, with discount, that the product must reach. It is required in the "price-below" subscriptions',
+  })
+  @ValidateIf(
+    (payload: CreateProductSubscriptionDto) =>
+      payload.type === ProductSubscriptionType.PriceBelow,
+  )
+  @IsDefined({ message: 'It is required to send the target price' })
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(0.01)
+  public targetPrice?: number
+}
@@ -0,0 +1,57 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { ProductSubscriptionEntity } from '../entities/product-subscription.entity'
+
+import { BaseGetManyDefaultResponseDto } from 'src/common/base-get-many-default-response.dto'
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { ProductSubscriptionType } from 'src/models/enums/product-subscription-type.enum'
+import { ProductDto } from 'src/modules/product/models/product.dto'
+
+/**
+ * The app's main product subscription dto class
+ *
+ * Class that deals with the product subscription return data
+ */
+export class ProductSubscriptionDto extends BaseResponseDto {
+  @ApiProperty({ enum: ProductSubscriptionType })
+  public type: ProductSubscriptionType
+
+  @ApiPropertyOptional()
+  public targetPrice?: number
+
+  @ApiPropertyOptional()
+  public fulfilledAt?: Date
+
+  @ApiProperty()
+  public userId: number
+
+  @ApiProperty()
+  public productId: number
+
+  @ApiPropertyOptional({ type: () => ProductDto })
+  public product?: ProductDto
+
+  public constructor(entity: ProductSubscriptionEntity) {
+    super(entity)
+
+    this.type = entity.type
+    this.targetPrice = entity.targetPrice
+    this.fulfilledAt = entity.fulfilledAt
+    this.userId = entity.userId
+    this.productId = entity.productId
+
+    // relations
+    this.product = entity.product?.toDto()
+  }
+}
+
+/**
+ * The app's main get many product subscription dto response
+ *
+ * Class that deals with the product subscription return data with
+ * pagination
+ */
+export class GetManyProductSubscriptionDtoResponse extends BaseGetManyDefaultResponseDto {
+  @ApiProperty({ type: ProductSubscriptionDto, isArray: true })
+  public data: ProductSubscriptionDto[]
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { ProductSubscriptionEntity } from './entities/product-subscription.entity'
+
+import { ProductSubscriptionService } from './services/product-subscription.service'
+
+import { ProductSubscriptionController } from './controllers/product-subscription.controller'
+import { UserProductSubscriptionController } from './controllers/user-product-subscription.controller'
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ProductSubscriptionEntity])],
+  controllers: [
+    ProductSubscriptionController,
+    UserProductSubscriptionController,
+  ],
+  providers: [ProductSubscriptionService],
+  exports: [ProductSubscriptionService],
+})
+export class ProductSubscriptionModule {}
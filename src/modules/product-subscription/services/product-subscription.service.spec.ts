@@ -0,0 +1,223 @@
+import { BadRequestException } from '@nestjs/common'
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import {
+  createConnection,
+  getConnection,
+  getManager,
+  getRepository,
+} from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { ProductSubscriptionEntity } from '../entities/product-subscription.entity'
+import { NotificationEntity } from 'src/modules/notification/entities/notification.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { NotificationType } from 'src/models/enums/notification-type.enum'
+import { ProductSubscriptionType } from 'src/models/enums/product-subscription-type.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ProductSubscriptionService } from './product-subscription.service'
+
+describe('ProductSubscriptionService', () => {
+  let service: ProductSubscriptionService
+  let sequence = 0
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        ProductSubscriptionService,
+        {
+          provide: getRepositoryToken(ProductSubscriptionEntity),
+          useValue: getRepository(ProductSubscriptionEntity),
+        },
+      ],
+    }).compile()
+
+    service = await module.resolve(ProductSubscriptionService)
+  })
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Common): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `product-subscription-${sequence}@test.com`,
+      password: '123456',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates a new product entity
+   *
+   * @param stockAmount stores the product stock amount
+   * @returns the created product entity
+   */
+  async function createProduct(stockAmount: number): Promise<ProductEntity> {
+    sequence++
+    const seller = await createUser(RolesEnum.Seller)
+    return await new ProductEntity({
+      name: `PRODUCT-TEST-${sequence}`,
+      description: 'PRODUCT-TEST',
+      price: 50,
+      discount: 0.1,
+      stockAmount,
+      userId: seller.id,
+    }).save()
+  }
+
+  describe('create', () => {
+    // tests if the user can not wait for an event that already happened
+    it('should reject subscriptions whose event already happened', async () => {
+      const user = await createUser()
+      const product = await createProduct(5)
+
+      await expect(
+        service.create(product.id, user, {
+          type: ProductSubscriptionType.Restock,
+        }),
+      ).rejects.toThrow(BadRequestException)
+
+      await expect(
+        service.create(product.id, user, {
+          type: ProductSubscriptionType.PriceBelow,
+          targetPrice: 45,
+        }),
+      ).rejects.toThrow(BadRequestException)
+    })
+
+    // tests if the same pending subscription is not duplicated
+    it('should update the pending subscription of the same type', async () => {
+      const user = await createUser()
+      const product = await createProduct(5)
+
+      const first = await service.create(product.id, user, {
+        type: ProductSubscriptionType.PriceBelow,
+        targetPrice: 40,
+      })
+      const second = await service.create(product.id, user, {
+        type: ProductSubscriptionType.PriceBelow,
+        targetPrice: 30,
+      })
+
+      expect(second.id).toBe(first.id)
+      expect(second.targetPrice).toBe(30)
+    })
+
+    // tests if the product must exist
+    it('should throw when the product does not exist', async () => {
+      await expect(
+        service.create(0, await createUser(), {
+          type: ProductSubscriptionType.Restock,
+        }),
+      ).rejects.toThrow(EntityNotFoundException)
+    })
+  })
+
+  describe('fulfill', () => {
+    // tests if the subscribers know that the product is available again
+    it('should notify the subscribers when the product is restocked', async () => {
+      const user = await createUser()
+      const product = await createProduct(0)
+
+      const subscription = await service.create(product.id, user, {
+        type: ProductSubscriptionType.Restock,
+      })
+
+      await ProductEntity.update({ id: product.id }, { stockAmount: 3 })
+      await ProductSubscriptionService.fulfill(getManager(), product.id)
+      await ProductSubscriptionService.fulfill(getManager(), product.id)
+
+      expect(
+        (await ProductSubscriptionEntity.findOne({ id: subscription.id }))
+          .fulfilledAt,
+      ).toBeTruthy()
+      expect(
+        await NotificationEntity.find({
+          userId: user.id,
+          productId: product.id,
+        }),
+      ).toEqual([
+        expect.objectContaining({ type: NotificationType.BackInStock }),
+      ])
+    })
+
+    // tests if only the reached target prices are notified
+    it('should notify the subscribers when the price drops below the target', async () => {
+      const user = await createUser()
+      const product = await createProduct(5)
+
+      await service.create(product.id, user, {
+        type: ProductSubscriptionType.PriceBelow,
+        targetPrice: 40,
+      })
+
+      await ProductEntity.update({ id: product.id }, { discount: 0.15 })
+      await ProductSubscriptionService.fulfill(getManager(), product.id)
+
+      expect(
+        await NotificationEntity.find({
+          userId: user.id,
+          productId: product.id,
+        }),
+      ).toHaveLength(0)
+
+      await ProductEntity.update({ id: product.id }, { discount: 0.2 })
+      await ProductSubscriptionService.fulfill(getManager(), product.id)
+
+      expect(
+        await NotificationEntity.find({
+          userId: user.id,
+          productId: product.id,
+        }),
+      ).toEqual([expect.objectContaining({ type: NotificationType.PriceDrop })])
+    })
+  })
+
+  describe('delete', () => {
+    // tests if only the subscription owner can cancel it
+    it('should cancel the subscription', async () => {
+      const user = await createUser()
+      const product = await createProduct(0)
+
+      const subscription = await service.create(product.id, user, {
+        type: ProductSubscriptionType.Restock,
+      })
+
+      await expect(
+        service.delete(subscription.id, await createUser()),
+      ).rejects.toThrow(ForbiddenException)
+
+      await service.delete(subscription.id, user)
+
+      expect(
+        await ProductSubscriptionEntity.findOne({ id: subscription.id }),
+      ).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,229 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { CrudRequest, GetManyDefaultResponse } from '@nestjsx/crud'
+import { TypeOrmCrudService } from '@nestjsx/crud-typeorm'
+import { EntityManager, IsNull, Repository } from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { ProductSubscriptionEntity } from '../entities/product-subscription.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CreateProductSubscriptionDto } from '../models/create-product-subscription.dto'
+import { NotificationType } from 'src/models/enums/notification-type.enum'
+import { ProductSubscriptionType } from 'src/models/enums/product-subscription-type.enum'
+
+import { NotificationService } from 'src/modules/notification/services/notification.service'
+import { UserService } from 'src/modules/user/services/user.service'
+
+/**
+ * The app's main product subscription service class
+ *
+ * Class that deals with the users that want to be notified when some
+ * product is restocked or gets cheaper
+ */
+@Injectable()
+export class ProductSubscriptionService extends TypeOrmCrudService<
+  ProductSubscriptionEntity
+> {
+  public constructor(
+    @InjectRepository(ProductSubscriptionEntity)
+    repository: Repository<ProductSubscriptionEntity>,
+  ) {
+    super(repository)
+  }
+
+  /**
+   * Method that subscribes the logged user to some product. When the user
+   * already waits for the same event, the pending subscription is updated
+   *
+   * @param productId stores the product id
+   * @param requestUser stores the logged user data
+   * @param createProductSubscriptionPayload stores the subscription data
+   * @throws {EntityNotFoundException} if the product was not found
+   * @throws {BadRequestException} if the product is already in stock or
+   * already costs less than the target price
+   * @returns the created product subscription entity
+   */
+  public async create(
+    productId: number,
+    requestUser: UserEntity,
+    createProductSubscriptionPayload: CreateProductSubscriptionDto,
+  ): Promise<ProductSubscriptionEntity> {
+    const product = await ProductEntity.findOne({ id: productId })
+
+    if (!product || !product.isActive) {
+      throw new EntityNotFoundException(productId, ProductEntity)
+    }
+
+    const { type } = createProductSubscriptionPayload
+    const targetPrice =
+      type === ProductSubscriptionType.PriceBelow
+        ? createProductSubscriptionPayload.targetPrice
+        : null
+
+    if (type === ProductSubscriptionType.Restock && product.stockAmount > 0) {
+      throw new BadRequestException('The product is already in stock')
+    }
+
+    if (
+      type === ProductSubscriptionType.PriceBelow &&
+      product.getPriceWithDiscount() <= targetPrice
+    ) {
+      throw new BadRequestException(
+        'The product already costs less than the target price',
+      )
+    }
+
+    const existing = await ProductSubscriptionEntity.findOne({
+      userId: requestUser.id,
+      productId,
+      type,
+      fulfilledAt: IsNull(),
+      isActive: true,
+    })
+
+    return await new ProductSubscriptionEntity({
+      ...existing,
+      type,
+      targetPrice,
+      userId: requestUser.id,
+      productId,
+    }).save()
+  }
+
+  /**
+   * Method that gets all the subscriptions of some user
+   *
+   * @param userId stores the user id
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @throws {ForbiddenException} if the request user has no permission to
+   * access those sources
+   * @returns the found elements
+   */
+  public async listManyByUserId(
+    userId: number,
+    requestUser: UserEntity,
+    crudRequest?: CrudRequest,
+  ): Promise<
+    | GetManyDefaultResponse<ProductSubscriptionEntity>
+    | ProductSubscriptionEntity[]
+  > {
+    if (!UserService.hasPermissions(userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    crudRequest.parsed.search = {
+      $and: [
+        ...crudRequest.parsed.search.$and,
+        {
+          userId: {
+            $eq: userId,
+          },
+        },
+      ],
+    }
+
+    return await super.getMany(crudRequest)
+  }
+
+  /**
+   * Method that cancels some subscription
+   *
+   * @param productSubscriptionId stores the product subscription id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the subscription was not found
+   * @throws {ForbiddenException} if the subscription belongs to other user
+   */
+  public async delete(
+    productSubscriptionId: number,
+    requestUser: UserEntity,
+  ): Promise<void> {
+    const entity = await ProductSubscriptionEntity.findOne({
+      id: productSubscriptionId,
+    })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(
+        productSubscriptionId,
+        ProductSubscriptionEntity,
+      )
+    }
+
+    if (!UserService.hasPermissions(entity.userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    await ProductSubscriptionEntity.delete({ id: productSubscriptionId })
+  }
+
+  /**
+   * Method that notifies the subscribers of some product whose event
+   * already happened, marking their subscriptions as fulfilled. It must be
+   * called after the stock, the price or the discount of the product is
+   * changed, in the same transaction
+   *
+   * @param manager stores the entity manager of the current transaction
+   * @param productId stores the product id
+   */
+  public static async fulfill(
+    manager: EntityManager,
+    productId: number,
+  ): Promise<void> {
+    const product = await manager.findOne(ProductEntity, { id: productId })
+
+    if (!product || !product.isActive) return
+
+    const price = product.getPriceWithDiscount()
+
+    const subscriptions = await manager.find(ProductSubscriptionEntity, {
+      productId,
+      fulfilledAt: IsNull(),
+      isActive: true,
+    })
+
+    for (const subscription of subscriptions) {
+      const isRestock = subscription.type === ProductSubscriptionType.Restock
+
+      if (
+        isRestock ? product.stockAmount <= 0 : price > subscription.targetPrice
+      ) {
+        continue
+      }
+
+      // the condition avoids notifying twice when two changes of the same
+      // product are saved at the same time
+      const { affected } = await manager.update(
+        ProductSubscriptionEntity,
+        { id: subscription.id, fulfilledAt: IsNull() },
+        { fulfilledAt: new Date() },
+      )
+
+      if (affected === 0) continue
+
+      await NotificationService.notify(
+        manager,
+        isRestock
+          ? {
+              type: NotificationType.BackInStock,
+              title: 'Product back in stock',
+              message: `The product "${product.name}" is available again`,
+              userId: subscription.userId,
+              productId,
+            }
+          : {
+              type: NotificationType.PriceDrop,
+              title: 'Product price dropped',
+              message: `The product "${product.name}" now costs ${price.toFixed(
+                2,
+              )}`,
+              userId: subscription.userId,
+              productId,
+            },
+      )
+    }
+  }
+}
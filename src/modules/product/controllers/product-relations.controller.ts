@@ -48,6 +48,11 @@ import { map } from 'src/utils/crud'
       user: {},
       orders: {},
       categories: {},
+      authors: {},
+      work: {},
+      parent: {},
+      variants: {},
+      images: {},
       shoppingCarts: {},
       ratings: {},
       products: {},
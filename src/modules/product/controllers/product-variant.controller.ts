@@ -0,0 +1,96 @@
+import { Body, Controller, Get, Param, Post } from '@nestjs/common'
+import {
+  ApiBadRequestResponse,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CreateProductVariantDto } from '../models/create-product-variant.dto'
+import { ProductDto } from '../models/product.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ProductVariantService } from '../services/product-variant.service'
+
+/**
+ * The app's main product variant controller class
+ *
+ * Class that deals with the product variants routes
+ */
+@ApiTags('products')
+@Controller('products')
+export class ProductVariantController {
+  public constructor(
+    private readonly productVariantService: ProductVariantService,
+  ) {}
+
+  /**
+   * Method that is called when the user access the "/products/:id/variants"
+   * route with the "POST" method
+   *
+   * @param productId stores the product id
+   * @param requestUser stores the logged user data
+   * @param createProductVariantDto stores the new variant data
+   * @throws {EntityNotFoundException} if the product was not found
+   * @throws {ForbiddenException} if the request user has no permissions
+   * to execute this action
+   * @throws {BadRequestException} if the options do not match the product
+   * option dimensions
+   * @returns the created variant data
+   */
+  @ProtectTo(RolesEnum.Admin, RolesEnum.Seller)
+  @ApiOperation({ summary: 'Adds a new variant to a product' })
+  @ApiCreatedResponse({
+    description: 'Gets the created variant data',
+    type: ProductDto,
+  })
+  @ApiNotFoundResponse({ description: 'Product not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @ApiBadRequestResponse({
+    description: 'The options do not match the product option dimensions',
+  })
+  @Post(':id/variants')
+  public async create(
+    @Param('id') productId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() createProductVariantDto: CreateProductVariantDto,
+  ): Promise<ProductDto> {
+    const entity = await this.productVariantService.create(
+      productId,
+      requestUser,
+      createProductVariantDto,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "/products/:id/variants"
+   * route with the "GET" method
+   *
+   * @param productId stores the product id
+   * @throws {EntityNotFoundException} if the product was not found
+   * @returns the product variants data
+   */
+  @ApiOperation({ summary: 'Retrieves the variants of a single product' })
+  @ApiOkResponse({
+    description: 'Gets the variants of a single product',
+    type: ProductDto,
+    isArray: true,
+  })
+  @ApiNotFoundResponse({ description: 'Product not found' })
+  @Get(':id/variants')
+  public async listMany(@Param('id') productId: number): Promise<ProductDto[]> {
+    const entities = await this.productVariantService.listMany(productId)
+    return entities.map(entity => entity.toDto())
+  }
+}
@@ -62,6 +62,11 @@ import { map } from 'src/utils/crud'
       user: {},
       orders: {},
       categories: {},
+      authors: {},
+      work: {},
+      parent: {},
+      variants: {},
+      images: {},
       shoppingCarts: {},
       ratings: {},
       product: {},
@@ -291,7 +296,7 @@ export class ProductController {
   public async listMany(
     @ParsedRequest() crudRequest?: CrudRequest,
   ): Promise<GetManyDefaultResponse<ProductDto> | ProductDto[]> {
-    const entities = await this.productService.getMany(crudRequest)
+    const entities = await this.productService.listMany(crudRequest)
     return map(entities, entity => entity.toDto())
   }
 
@@ -2,13 +2,18 @@ import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
 import { Column, Entity, ManyToMany, ManyToOne, OneToMany } from 'typeorm'
 
 import { BaseEntity } from 'src/common/base.entity'
+import { AuthorEntity } from 'src/modules/author/entities/author.entity'
 import { CategoryEntity } from 'src/modules/category/entities/category.entity'
 import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductImageEntity } from 'src/modules/product-image/entities/product-image.entity'
 import { RatingEntity } from 'src/modules/rating/entities/rating.entity'
 import { UserEntity } from 'src/modules/user/entities/user.entity'
+import { WorkEntity } from 'src/modules/work/entities/work.entity'
 
 import { ProductDto } from '../models/product.dto'
 import { ToDto } from 'src/common/to-dto.interface'
+import { BookFormat } from 'src/models/enums/book-format.enum'
+import { ProductCondition } from 'src/models/enums/product-condition.enum'
 
 /**
  * The app's main product entity class
@@ -19,6 +24,9 @@ import { ToDto } from 'src/common/to-dto.interface'
 export class ProductEntity extends BaseEntity implements ToDto<ProductDto> {
   //#region Columns
 
+  /**
+   * The cover url, kept in sync with the cover of the product gallery
+   */
   @ApiProperty()
   @Column({
     type: 'text',
@@ -31,7 +39,6 @@ export class ProductEntity extends BaseEntity implements ToDto<ProductDto> {
     type: 'varchar',
     length: 100,
     nullable: false,
-    unique: true,
   })
   public name: string
 
@@ -79,6 +86,17 @@ export class ProductEntity extends BaseEntity implements ToDto<ProductDto> {
   })
   public stockAmount: number
 
+  /**
+   * The stock amount that, when reached, makes the seller be notified
+   */
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+    default: 5,
+  })
+  public lowStockThreshold: number
+
   @ApiPropertyOptional()
   @Column({
     type: 'int',
@@ -87,6 +105,105 @@ export class ProductEntity extends BaseEntity implements ToDto<ProductDto> {
   })
   public ordersAmount?: number
 
+  @ApiPropertyOptional({ description: 'The package weight in grams' })
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public weight?: number
+
+  @ApiPropertyOptional({ description: 'The package height in centimeters' })
+  @Column({
+    type: 'float',
+    nullable: true,
+  })
+  public height?: number
+
+  @ApiPropertyOptional({ description: 'The package width in centimeters' })
+  @Column({
+    type: 'float',
+    nullable: true,
+  })
+  public width?: number
+
+  @ApiPropertyOptional({ description: 'The package length in centimeters' })
+  @Column({
+    type: 'float',
+    nullable: true,
+  })
+  public length?: number
+
+  //#region Book
+
+  /**
+   * The isbn-13 of the book, without hyphens. The isbn-10 values are
+   * converted to their isbn-13 version, and the stationery items do not
+   * have it
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 13,
+    nullable: true,
+  })
+  public isbn?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  public publisher?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public edition?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public publicationYear?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public pageCount?: number
+
+  @ApiPropertyOptional({ description: 'The ISO 639-1 language code' })
+  @Column({
+    type: 'varchar',
+    length: 2,
+    nullable: true,
+  })
+  public language?: string
+
+  @ApiPropertyOptional({ enum: BookFormat })
+  @Column({
+    type: 'varchar',
+    length: 16,
+    nullable: true,
+  })
+  public format?: BookFormat
+
+  //#endregion
+
+  @ApiProperty({ enum: ProductCondition })
+  @Column({
+    type: 'varchar',
+    length: 16,
+    nullable: false,
+    default: ProductCondition.New,
+  })
+  public condition: ProductCondition
+
   @ApiProperty()
   @Column({
     type: 'integer',
@@ -94,6 +211,60 @@ export class ProductEntity extends BaseEntity implements ToDto<ProductDto> {
   })
   public userId: number
 
+  //#region Variants
+
+  /**
+   * The option dimensions of the products that are sold through their
+   * variants, like "color" and "size". Those products can not be bought
+   * and their stock is the sum of their variants stock
+   */
+  @ApiPropertyOptional({ type: 'string', isArray: true })
+  @Column({
+    type: 'simple-json',
+    nullable: true,
+  })
+  public variantOptions?: string[]
+
+  /**
+   * The option values of some variant, like { "color": "blue" }
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'simple-json',
+    nullable: true,
+  })
+  public options?: Record<string, string>
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+  })
+  public sku?: string
+
+  /**
+   * The id of the product that this variant belongs to
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'integer',
+    nullable: true,
+  })
+  public parentId?: number
+
+  //#endregion
+
+  /**
+   * The id of the work that this product is an offer of
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'integer',
+    nullable: true,
+  })
+  public workId?: number
+
   //#region Relations
 
   @ApiPropertyOptional({
@@ -106,6 +277,36 @@ export class ProductEntity extends BaseEntity implements ToDto<ProductDto> {
   )
   public user?: UserEntity
 
+  @ApiPropertyOptional({
+    type: () => WorkEntity,
+  })
+  @ManyToOne(
+    () => WorkEntity,
+    work => work.offers,
+    { onDelete: 'SET NULL' },
+  )
+  public work?: WorkEntity
+
+  @ApiPropertyOptional({
+    type: () => ProductEntity,
+  })
+  @ManyToOne(
+    () => ProductEntity,
+    product => product.variants,
+    { onDelete: 'CASCADE' },
+  )
+  public parent?: ProductEntity
+
+  @ApiPropertyOptional({
+    type: () => ProductEntity,
+    isArray: true,
+  })
+  @OneToMany(
+    () => ProductEntity,
+    product => product.parent,
+  )
+  public variants?: ProductEntity[]
+
   @ApiPropertyOptional({
     type: () => CategoryEntity,
     isArray: true,
@@ -116,6 +317,26 @@ export class ProductEntity extends BaseEntity implements ToDto<ProductDto> {
   )
   public categories?: CategoryEntity[]
 
+  @ApiPropertyOptional({
+    type: () => AuthorEntity,
+    isArray: true,
+  })
+  @ManyToMany(
+    () => AuthorEntity,
+    author => author.products,
+  )
+  public authors?: AuthorEntity[]
+
+  @ApiPropertyOptional({
+    type: () => ProductImageEntity,
+    isArray: true,
+  })
+  @OneToMany(
+    () => ProductImageEntity,
+    image => image.product,
+  )
+  public images?: ProductImageEntity[]
+
   @ApiPropertyOptional({
     type: () => ProductGroupEntity,
     isArray: true,
@@ -145,6 +366,16 @@ export class ProductEntity extends BaseEntity implements ToDto<ProductDto> {
     Object.assign(this, partial)
   }
 
+  /**
+   * Method that calculates the price that the buyers pay for the product
+   * now, with its discount, rounded to cents
+   *
+   * @returns the product price with discount
+   */
+  public getPriceWithDiscount(): number {
+    return Math.round(this.price * (1 - (this.discount ?? 0)) * 100) / 100
+  }
+
   /**
    * Method that converts the entity to your dto
    *
@@ -0,0 +1,105 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { BookFormat } from 'src/models/enums/book-format.enum'
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+import { ProductCondition } from 'src/models/enums/product-condition.enum'
+
+import {
+  IsDefined,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator'
+
+/**
+ * The app's main create product variant dto class
+ *
+ * Class that handles the dto sent by the user to add some variant to a
+ * product. The fields that are not sent are copied from the product
+ */
+export class CreateProductVariantDto {
+  @ApiProperty({
+    description:
+      'The value of each option dimension of the product, like { "color": "blue" }',
+  })
+  @IsDefined({ message: 'It is required to send the options' })
+  @IsObject({ message: 'It is required to send a valid object' })
+  public options: Record<string, string>
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(64)
+  public sku?: string
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  public imageUrl?: string
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber({}, { message: DefaultValidationMessages.IsNumber })
+  @Min(0)
+  public price?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber({}, { message: DefaultValidationMessages.IsNumber })
+  @Max(1)
+  @Min(0)
+  public discount?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber({}, { message: DefaultValidationMessages.IsNumber })
+  @Min(0)
+  public installmentPrice?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public installmentAmount?: number
+
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the stock amount' })
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(0)
+  public stockAmount: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(0)
+  public lowStockThreshold?: number
+
+  @ApiPropertyOptional({ enum: BookFormat })
+  @IsOptional()
+  @IsEnum(BookFormat, { message: 'It is required to send a valid format' })
+  public format?: BookFormat
+
+  @ApiPropertyOptional({ enum: ProductCondition })
+  @IsOptional()
+  @IsEnum(ProductCondition, {
+    message: 'It is required to send a valid condition',
+  })
+  public condition?: ProductCondition
+}
@@ -1,16 +1,27 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
 
+import { IsIsbn } from 'src/decorators/is-isbn/is-isbn.decorator'
+
+import { BookFormat } from 'src/models/enums/book-format.enum'
 import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+import { ProductCondition } from 'src/models/enums/product-condition.enum'
 
 import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ArrayUnique,
   IsArray,
   IsDefined,
+  IsEnum,
   IsNotEmpty,
   IsNumber,
   IsOptional,
   IsString,
+  Matches,
   Max,
+  MaxLength,
   Min,
+  ValidateIf,
 } from 'class-validator'
 
 /**
@@ -19,22 +30,43 @@ import {
  * Class that handles the dto sent by the user to perform the creation
  */
 export class CreateProductDto {
-  @ApiProperty()
+  @ApiPropertyOptional({
+    description:
+      'The product image url, filled from the work or with the book cover when the isbn is in the catalog',
+  })
+  @ValidateIf(
+    (payload: CreateProductDto, value: unknown) =>
+      value !== undefined || (!payload.isbn && !payload.workId),
+  )
   @IsDefined({ message: 'It is required to send the image url' })
   @IsString({ message: DefaultValidationMessages.IsString })
   @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
-  public imageUrl: string
+  public imageUrl?: string
 
-  @ApiProperty()
+  @ApiPropertyOptional({
+    description:
+      'The product name, filled from the work or with the book title when the isbn is in the catalog',
+  })
+  @ValidateIf(
+    (payload: CreateProductDto, value: unknown) =>
+      value !== undefined || (!payload.isbn && !payload.workId),
+  )
   @IsDefined({ message: 'It is required to send the name' })
   @IsString({ message: DefaultValidationMessages.IsString })
   @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
-  public name: string
+  public name?: string
 
-  @ApiProperty()
+  @ApiPropertyOptional({
+    description:
+      'The product description, filled from the work or with the book description when the isbn is in the catalog',
+  })
+  @ValidateIf(
+    (payload: CreateProductDto, value: unknown) =>
+      value !== undefined || (!payload.isbn && !payload.workId),
+  )
   @IsDefined({ message: 'It is required to send the description' })
   @IsString({ message: DefaultValidationMessages.IsString })
-  public description: string
+  public description?: string
 
   @ApiProperty()
   @IsDefined({ message: 'It is required to send the price' })
@@ -64,14 +96,18 @@ export class CreateProductDto {
   @Min(0)
   public discount?: number
 
-  @ApiProperty()
+  @ApiPropertyOptional({
+    description:
+      'Not used by the products sold through variants, whose stock is the sum of their variants stock',
+  })
+  @ValidateIf((payload: CreateProductDto) => !payload.variantOptions)
   @IsDefined({ message: 'It is required to send the full price' })
   @IsNumber(
     { maxDecimalPlaces: 0 },
     { message: DefaultValidationMessages.IsNumber },
   )
   @Min(1)
-  public stockAmount: number
+  public stockAmount?: number
 
   @ApiProperty()
   @IsDefined({ message: 'It is required to send the user id' })
@@ -81,6 +117,152 @@ export class CreateProductDto {
   )
   public userId: number
 
+  @ApiPropertyOptional({
+    description:
+      'The stock amount that makes the seller be notified, 5 by default',
+  })
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(0)
+  public lowStockThreshold?: number
+
+  @ApiPropertyOptional({ description: 'The package weight in grams' })
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public weight?: number
+
+  @ApiPropertyOptional({ description: 'The package height in centimeters' })
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 1 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(0.1)
+  public height?: number
+
+  @ApiPropertyOptional({ description: 'The package width in centimeters' })
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 1 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(0.1)
+  public width?: number
+
+  @ApiPropertyOptional({ description: 'The package length in centimeters' })
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 1 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(0.1)
+  public length?: number
+
+  @ApiPropertyOptional({
+    description:
+      'The isbn-10 or isbn-13 of the book, the fields that are not sent are filled from the catalog',
+  })
+  @IsOptional()
+  @IsIsbn({ message: 'It is required to send a valid isbn value' })
+  public isbn?: string
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(100)
+  public publisher?: string
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public edition?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public publicationYear?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public pageCount?: number
+
+  @ApiPropertyOptional({ description: 'The ISO 639-1 language code' })
+  @IsOptional()
+  @Matches(/^[a-z]{2}$/, {
+    message: 'It is required to send a valid ISO 639-1 language code',
+  })
+  public language?: string
+
+  @ApiPropertyOptional({ enum: BookFormat })
+  @IsOptional()
+  @IsEnum(BookFormat, { message: 'It is required to send a valid format' })
+  public format?: BookFormat
+
+  @ApiPropertyOptional({
+    enum: ProductCondition,
+    description: 'The product condition, new by default',
+  })
+  @IsOptional()
+  @IsEnum(ProductCondition, {
+    message: 'It is required to send a valid condition',
+  })
+  public condition?: ProductCondition
+
+  @ApiPropertyOptional({
+    description:
+      'The id of the work that this product is an offer of. When it is not sent, the work with the same isbn is used or a new one is created',
+  })
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  public workId?: number
+
+  @ApiPropertyOptional({
+    type: 'string',
+    isArray: true,
+    description:
+      'The option dimensions of the products sold through variants, like "color" and "size"',
+  })
+  @IsOptional()
+  @IsArray({ message: 'It is required to send a valid array' })
+  @ArrayNotEmpty()
+  @ArrayMaxSize(3)
+  @ArrayUnique()
+  @IsString({ each: true, message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ each: true, message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(30, { each: true })
+  public variantOptions?: string[]
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(64)
+  public sku?: string
+
   @ApiPropertyOptional({
     type: 'number',
     isArray: true,
@@ -88,4 +270,12 @@ export class CreateProductDto {
   @IsOptional()
   @IsArray({ message: 'It is required to send a valid array' })
   public categoryIds: number[]
+
+  @ApiPropertyOptional({
+    type: 'number',
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray({ message: 'It is required to send a valid array' })
+  public authorIds?: number[]
 }
@@ -4,10 +4,15 @@ import { ProductEntity } from '../entities/product.entity'
 
 import { BaseGetManyDefaultResponseDto } from 'src/common/base-get-many-default-response.dto'
 import { BaseResponseDto } from 'src/common/base-response.dto'
+import { BookFormat } from 'src/models/enums/book-format.enum'
+import { ProductCondition } from 'src/models/enums/product-condition.enum'
+import { AuthorDto } from 'src/modules/author/models/author.dto'
 import { CategoryDto } from 'src/modules/category/models/category.dto'
 import { ProductGroupDto } from 'src/modules/product-group/models/product-group.dto'
+import { ProductImageDto } from 'src/modules/product-image/models/product-image.dto'
 import { RatingDto } from 'src/modules/rating/models/rating.dto'
 import { UserDto } from 'src/modules/user/models/user.dto'
+import { WorkDto } from 'src/modules/work/models/work.dto'
 
 /**
  * The app's main product dto class
@@ -39,17 +44,102 @@ export class ProductDto extends BaseResponseDto {
   @ApiProperty()
   public stockAmount: number
 
+  @ApiProperty()
+  public lowStockThreshold: number
+
+  @ApiProperty({
+    description: 'False when the product is out of stock',
+  })
+  public isAvailable: boolean
+
   @ApiProperty()
   public ordersAmount: number
 
+  @ApiPropertyOptional({ description: 'The package weight in grams' })
+  public weight?: number
+
+  @ApiPropertyOptional({ description: 'The package height in centimeters' })
+  public height?: number
+
+  @ApiPropertyOptional({ description: 'The package width in centimeters' })
+  public width?: number
+
+  @ApiPropertyOptional({ description: 'The package length in centimeters' })
+  public length?: number
+
+  @ApiPropertyOptional()
+  public isbn?: string
+
+  @ApiPropertyOptional()
+  public publisher?: string
+
+  @ApiPropertyOptional()
+  public edition?: number
+
+  @ApiPropertyOptional()
+  public publicationYear?: number
+
+  @ApiPropertyOptional()
+  public pageCount?: number
+
+  @ApiPropertyOptional({ description: 'The ISO 639-1 language code' })
+  public language?: string
+
+  @ApiPropertyOptional({ enum: BookFormat })
+  public format?: BookFormat
+
+  @ApiProperty({ enum: ProductCondition })
+  public condition: ProductCondition
+
   @ApiProperty()
   public userId: number
 
+  @ApiPropertyOptional()
+  public workId?: number
+
+  @ApiPropertyOptional({
+    type: 'string',
+    isArray: true,
+    description: 'The option dimensions of the products sold as variants',
+  })
+  public variantOptions?: string[]
+
+  @ApiPropertyOptional({ description: 'The option values of some variant' })
+  public options?: Record<string, string>
+
+  @ApiPropertyOptional()
+  public sku?: string
+
+  @ApiPropertyOptional()
+  public parentId?: number
+
   @ApiPropertyOptional({
     type: () => UserDto,
   })
   public user?: UserDto
 
+  @ApiPropertyOptional({
+    type: () => WorkDto,
+  })
+  public work?: WorkDto
+
+  @ApiPropertyOptional({
+    type: () => ProductDto,
+  })
+  public parent?: ProductDto
+
+  @ApiPropertyOptional({
+    type: () => ProductDto,
+    isArray: true,
+  })
+  public variants?: ProductDto[]
+
+  @ApiPropertyOptional({
+    type: () => AuthorDto,
+    isArray: true,
+  })
+  public authors?: AuthorDto[]
+
   @ApiPropertyOptional({
     type: () => CategoryDto,
     isArray: true,
@@ -62,6 +152,13 @@ export class ProductDto extends BaseResponseDto {
   })
   public ratings?: RatingDto[]
 
+  @ApiPropertyOptional({
+    type: () => ProductImageDto,
+    isArray: true,
+    description: 'The product gallery in its order',
+  })
+  public images?: ProductImageDto[]
+
   @ApiPropertyOptional({
     type: () => ProductGroupDto,
     isArray: true,
@@ -79,15 +176,41 @@ export class ProductDto extends BaseResponseDto {
     this.installmentAmount = entity.installmentAmount
     this.discount = entity.discount
     this.stockAmount = entity.stockAmount
+    this.lowStockThreshold = entity.lowStockThreshold
+    this.isAvailable = entity.stockAmount > 0
     this.ordersAmount = entity.ordersAmount
+    this.weight = entity.weight
+    this.height = entity.height
+    this.width = entity.width
+    this.length = entity.length
+    this.isbn = entity.isbn
+    this.publisher = entity.publisher
+    this.edition = entity.edition
+    this.publicationYear = entity.publicationYear
+    this.pageCount = entity.pageCount
+    this.language = entity.language
+    this.format = entity.format
+    this.condition = entity.condition
     this.userId = entity.userId
+    this.workId = entity.workId
+    this.variantOptions = entity.variantOptions
+    this.options = entity.options
+    this.sku = entity.sku
+    this.parentId = entity.parentId
 
     // relations
     this.user = entity.user?.toDto()
+    this.work = entity.work?.toDto()
+    this.parent = entity.parent?.toDto()
+    this.variants = entity.variants?.map(variant => variant.toDto())
+    this.authors = entity.authors?.map(author => author.toDto())
     this.categories = entity.categories?.map(productCategory =>
       productCategory.toDto(),
     )
     this.ratings = entity.ratings?.map(rating => rating.toDto())
+    this.images = entity.images
+      ?.sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id)
+      .map(image => image.toDto())
     this.productGroups = entity.productGroups?.map(shoppingCart =>
       shoppingCart.toDto(),
     )
@@ -1,14 +1,21 @@
 import { ApiPropertyOptional } from '@nestjs/swagger'
 
+import { IsIsbn } from 'src/decorators/is-isbn/is-isbn.decorator'
+
+import { BookFormat } from 'src/models/enums/book-format.enum'
 import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+import { ProductCondition } from 'src/models/enums/product-condition.enum'
 
 import {
   IsArray,
+  IsEnum,
   IsNotEmpty,
   IsNumber,
   IsOptional,
   IsString,
+  Matches,
   Max,
+  MaxLength,
   Min,
 } from 'class-validator'
 
@@ -72,8 +79,129 @@ export class UpdateProductDto {
   @Min(1)
   public stockAmount?: number
 
+  @ApiPropertyOptional({
+    description:
+      'The stock amount that makes the seller be notified, 5 by default',
+  })
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(0)
+  public lowStockThreshold?: number
+
+  @ApiPropertyOptional({ description: 'The package weight in grams' })
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public weight?: number
+
+  @ApiPropertyOptional({ description: 'The package height in centimeters' })
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 1 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(0.1)
+  public height?: number
+
+  @ApiPropertyOptional({ description: 'The package width in centimeters' })
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 1 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(0.1)
+  public width?: number
+
+  @ApiPropertyOptional({ description: 'The package length in centimeters' })
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 1 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(0.1)
+  public length?: number
+
+  @ApiPropertyOptional({ description: 'The isbn-10 or isbn-13 of the book' })
+  @IsOptional()
+  @IsIsbn({ message: 'It is required to send a valid isbn value' })
+  public isbn?: string
+
   @ApiPropertyOptional()
   @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(100)
+  public publisher?: string
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public edition?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public publicationYear?: number
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public pageCount?: number
+
+  @ApiPropertyOptional({ description: 'The ISO 639-1 language code' })
+  @IsOptional()
+  @Matches(/^[a-z]{2}$/, {
+    message: 'It is required to send a valid ISO 639-1 language code',
+  })
+  public language?: string
+
+  @ApiPropertyOptional({ enum: BookFormat })
+  @IsOptional()
+  @IsEnum(BookFormat, { message: 'It is required to send a valid format' })
+  public format?: BookFormat
+
+  @ApiPropertyOptional({ enum: ProductCondition })
+  @IsOptional()
+  @IsEnum(ProductCondition, {
+    message: 'It is required to send a valid condition',
+  })
+  public condition?: ProductCondition
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(64)
+  public sku?: string
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsArray({ message: 'It is required to send a valid array' })
+  public categoryIds?: number[]
+
+  @ApiPropertyOptional({
+    type: 'number',
+    isArray: true,
+  })
+  @IsOptional()
   @IsArray({ message: 'It is required to send a valid array' })
-  public categoryIds: number[]
+  public authorIds?: number[]
 }
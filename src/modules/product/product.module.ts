@@ -4,11 +4,15 @@ import { TypeOrmModule } from '@nestjs/typeorm'
 import { ProductEntity } from './entities/product.entity'
 
 import { ProductRelationsService } from './services/product-relations.service'
+import { ProductVariantService } from './services/product-variant.service'
 import { ProductService } from './services/product.service'
 
 import { ProductRelationsController } from './controllers/product-relations.controller'
+import { ProductVariantController } from './controllers/product-variant.controller'
 import { ProductController } from './controllers/product.controller'
 
+import { AuthorModule } from '../author/author.module'
+import { CatalogModule } from '../catalog/catalog.module'
 import { CategoryModule } from '../category/category.module'
 import { RatingModule } from '../rating/rating.module'
 import { UserModule } from '../user/user.module'
@@ -18,10 +22,16 @@ import { UserModule } from '../user/user.module'
     forwardRef(() => UserModule),
     forwardRef(() => CategoryModule),
     forwardRef(() => RatingModule),
+    AuthorModule,
+    CatalogModule,
     TypeOrmModule.forFeature([ProductEntity]),
   ],
-  controllers: [ProductController, ProductRelationsController],
-  providers: [ProductService, ProductRelationsService],
+  controllers: [
+    ProductController,
+    ProductRelationsController,
+    ProductVariantController,
+  ],
+  providers: [ProductService, ProductRelationsService, ProductVariantService],
   exports: [ProductService],
 })
 export class ProductModule {}
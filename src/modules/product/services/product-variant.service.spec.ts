@@ -0,0 +1,191 @@
+import { BadRequestException } from '@nestjs/common'
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import {
+  createConnection,
+  getConnection,
+  getManager,
+  getRepository,
+} from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+
+import { ProductEntity } from '../entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ProductVariantService } from './product-variant.service'
+
+describe('ProductVariantService', () => {
+  let service: ProductVariantService
+  let sequence = 0
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        ProductVariantService,
+        {
+          provide: getRepositoryToken(ProductEntity),
+          useValue: getRepository(ProductEntity),
+        },
+      ],
+    }).compile()
+
+    service = await module.resolve(ProductVariantService)
+  })
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Seller): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `product-variant-${sequence}@test.com`,
+      password: '123456',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates a new product sold through variants
+   *
+   * @param seller stores the product seller
+   * @returns the created product entity
+   */
+  async function createProduct(seller: UserEntity): Promise<ProductEntity> {
+    sequence++
+    return await new ProductEntity({
+      name: `NOTEBOOK-TEST-${sequence}`,
+      description: 'PRODUCT-TEST',
+      imageUrl: 'https://test.com/notebook.png',
+      price: 20,
+      stockAmount: 0,
+      variantOptions: ['color', 'size'],
+      userId: seller.id,
+    }).save()
+  }
+
+  describe('create', () => {
+    // tests if each variant has its own price and stock
+    it('should create the variants and sum their stock', async () => {
+      const seller = await createUser()
+      const product = await createProduct(seller)
+
+      const blue = await service.create(product.id, seller, {
+        options: { color: ' blue ', size: 'A5' },
+        stockAmount: 3,
+      })
+      const red = await service.create(product.id, seller, {
+        options: { color: 'red', size: 'A4' },
+        price: 25,
+        imageUrl: 'https://test.com/red.png',
+        stockAmount: 4,
+      })
+
+      expect(blue).toMatchObject({
+        name: `${product.name} (blue, A5)`,
+        options: { color: 'blue', size: 'A5' },
+        price: 20,
+        imageUrl: product.imageUrl,
+        parentId: product.id,
+        userId: seller.id,
+      })
+      expect(red).toMatchObject({
+        price: 25,
+        imageUrl: 'https://test.com/red.png',
+      })
+      expect(
+        (await ProductEntity.findOne({ id: product.id })).stockAmount,
+      ).toBe(7)
+
+      await ProductEntity.update({ id: red.id }, { stockAmount: 1 })
+      await ProductVariantService.syncStock(getManager(), red.id)
+
+      expect(
+        (await ProductEntity.findOne({ id: product.id })).stockAmount,
+      ).toBe(4)
+    })
+
+    // tests if the options must match the product dimensions
+    it('should validate the variant options', async () => {
+      const seller = await createUser()
+      const product = await createProduct(seller)
+
+      await service.create(product.id, seller, {
+        options: { color: 'blue', size: 'A5' },
+        stockAmount: 1,
+      })
+
+      await expect(
+        service.create(product.id, seller, {
+          options: { color: 'blue', size: 'A5' },
+          stockAmount: 1,
+        }),
+      ).rejects.toThrow(BadRequestException)
+      await expect(
+        service.create(product.id, seller, {
+          options: { color: 'blue' },
+          stockAmount: 1,
+        }),
+      ).rejects.toThrow(BadRequestException)
+      await expect(
+        service.create(product.id, seller, {
+          options: { color: 'blue', size: 'A4', material: 'paper' },
+          stockAmount: 1,
+        }),
+      ).rejects.toThrow(BadRequestException)
+    })
+
+    // tests if only the product seller can add variants
+    it('should throw when the user does not own the product', async () => {
+      const product = await createProduct(await createUser())
+
+      await expect(
+        service.create(product.id, await createUser(), {
+          options: { color: 'blue', size: 'A5' },
+          stockAmount: 1,
+        }),
+      ).rejects.toThrow(ForbiddenException)
+    })
+  })
+
+  describe('assertPurchasable', () => {
+    // tests if the buyers must choose some variant
+    it('should reject the products sold through variants', async () => {
+      const seller = await createUser()
+      const product = await createProduct(seller)
+      const variant = await service.create(product.id, seller, {
+        options: { color: 'blue', size: 'A5' },
+        stockAmount: 1,
+      })
+
+      expect(() => ProductVariantService.assertPurchasable(product)).toThrow(
+        BadRequestException,
+      )
+      expect(() =>
+        ProductVariantService.assertPurchasable(variant),
+      ).not.toThrow()
+    })
+  })
+})
@@ -0,0 +1,233 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { EntityManager, Repository } from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { ProductEntity } from '../entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CreateProductVariantDto } from '../models/create-product-variant.dto'
+
+import { ProductSubscriptionService } from 'src/modules/product-subscription/services/product-subscription.service'
+import { UserService } from 'src/modules/user/services/user.service'
+
+/**
+ * The app's main product variant service class
+ *
+ * Class that deals with the variants of the products, like the colors of
+ * some notebook. Each variant is a product with its own price, stock and
+ * image, so the shopping carts and the orders point at it
+ */
+@Injectable()
+export class ProductVariantService {
+  public constructor(
+    @InjectRepository(ProductEntity)
+    private readonly repository: Repository<ProductEntity>,
+  ) {}
+
+  /**
+   * Method that can add some variant to a product
+   *
+   * @param productId stores the product id
+   * @param requestUser stores the logged user data
+   * @param createProductVariantPayload stores the new variant data
+   * @throws {EntityNotFoundException} if the product was not found
+   * @throws {ForbiddenException} if the request user has no permissions
+   * to execute this action
+   * @throws {BadRequestException} if the product has no option dimensions,
+   * if the options do not match them or if there is already a variant
+   * with the same options
+   * @returns the created variant
+   */
+  public async create(
+    productId: number,
+    requestUser: UserEntity,
+    createProductVariantPayload: CreateProductVariantDto,
+  ): Promise<ProductEntity> {
+    const product = await ProductEntity.findOne(
+      { id: productId },
+      { relations: ['categories', 'authors', 'variants'] },
+    )
+
+    if (!product || !product.isActive) {
+      throw new EntityNotFoundException(productId, ProductEntity)
+    }
+
+    if (!UserService.hasPermissions(product.userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    if (!product.variantOptions?.length) {
+      throw new BadRequestException(
+        'The product has no option dimensions to create variants',
+      )
+    }
+
+    const options = ProductVariantService.normalizeOptions(
+      product.variantOptions,
+      createProductVariantPayload.options,
+    )
+
+    const duplicated = product.variants.some(variant =>
+      product.variantOptions.every(
+        name => variant.options?.[name] === options[name],
+      ),
+    )
+
+    if (duplicated) {
+      throw new BadRequestException(
+        'The product already has a variant with those options',
+      )
+    }
+
+    return await this.repository.manager.transaction(async manager => {
+      const variant = await manager.save(
+        new ProductEntity({
+          imageUrl: product.imageUrl,
+          description: product.description,
+          price: product.price,
+          installmentPrice: product.installmentPrice,
+          installmentAmount: product.installmentAmount,
+          discount: product.discount,
+          lowStockThreshold: product.lowStockThreshold,
+          weight: product.weight,
+          height: product.height,
+          width: product.width,
+          length: product.length,
+          isbn: product.isbn,
+          publisher: product.publisher,
+          edition: product.edition,
+          publicationYear: product.publicationYear,
+          pageCount: product.pageCount,
+          language: product.language,
+          format: product.format,
+          condition: product.condition,
+          userId: product.userId,
+          workId: product.workId,
+          categories: product.categories,
+          authors: product.authors,
+          ...createProductVariantPayload,
+          name: `${product.name} (${product.variantOptions
+            .map(name => options[name])
+            .join(', ')})`.slice(0, 100),
+          options,
+          parentId: product.id,
+        }),
+      )
+
+      await ProductVariantService.syncStock(manager, product.id)
+
+      return variant
+    })
+  }
+
+  /**
+   * Method that gets the active variants of some product
+   *
+   * @param productId stores the product id
+   * @throws {EntityNotFoundException} if the product was not found
+   * @returns the found variants
+   */
+  public async listMany(productId: number): Promise<ProductEntity[]> {
+    const product = await ProductEntity.findOne({ id: productId })
+
+    if (!product || !product.isActive) {
+      throw new EntityNotFoundException(productId, ProductEntity)
+    }
+
+    return await ProductEntity.find({
+      where: { parentId: productId, isActive: true },
+      order: { id: 'ASC' },
+    })
+  }
+
+  /**
+   * Method that updates the stock of some product sold through variants
+   * with the sum of its active variants stock. It must be called after
+   * the stock of some variant changes
+   *
+   * @param manager stores the entity manager of the current transaction
+   * @param productId stores the id of some variant or of its product
+   */
+  public static async syncStock(
+    manager: EntityManager,
+    productId: number,
+  ): Promise<void> {
+    const product = await manager.findOne(ProductEntity, { id: productId })
+
+    const parentId = product?.variantOptions?.length
+      ? product.id
+      : product?.parentId
+
+    if (!parentId) return
+
+    const variants = await manager.find(ProductEntity, {
+      parentId,
+      isActive: true,
+    })
+
+    await manager.update(
+      ProductEntity,
+      { id: parentId },
+      {
+        stockAmount: variants.reduce(
+          (sum, variant) => sum + variant.stockAmount,
+          0,
+        ),
+      },
+    )
+
+    await ProductSubscriptionService.fulfill(manager, parentId)
+  }
+
+  /**
+   * Method that validates if some product can be added to the shopping
+   * carts. The products sold through variants can not, only their variants
+   *
+   * @param product stores the product entity
+   * @throws {BadRequestException} if the product is sold through variants
+   */
+  public static assertPurchasable(product: ProductEntity): void {
+    if (product.variantOptions?.length) {
+      throw new BadRequestException(
+        `It is required to choose one of the variants of the product with identifier ${product.id}`,
+      )
+    }
+  }
+
+  /**
+   * Method that validates the options of some new variant against the
+   * option dimensions of its product
+   *
+   * @param variantOptions stores the product option dimensions
+   * @param options stores the variant options
+   * @throws {BadRequestException} if some dimension was not sent or if
+   * some unknown option was sent
+   * @returns the trimmed options
+   */
+  private static normalizeOptions(
+    variantOptions: string[],
+    options: Record<string, string>,
+  ): Record<string, string> {
+    const unknown = Object.keys(options).find(
+      name => !variantOptions.includes(name),
+    )
+    if (unknown) {
+      throw new BadRequestException(`The option "${unknown}" does not exist`)
+    }
+
+    return variantOptions.reduce((normalized, name) => {
+      const value = options[name]
+
+      if (typeof value !== 'string' || !value.trim()) {
+        throw new BadRequestException(
+          `It is required to send the "${name}" option`,
+        )
+      }
+
+      return { ...normalized, [name]: value.trim().slice(0, 50) }
+    }, {} as Record<string, string>)
+  }
+}
@@ -0,0 +1,227 @@
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { CrudRequest } from '@nestjsx/crud'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { ProductEntity } from '../entities/product.entity'
+import { AuthorEntity } from 'src/modules/author/entities/author.entity'
+import { CategoryEntity } from 'src/modules/category/entities/category.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { BookFormat } from 'src/models/enums/book-format.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ProductService } from './product.service'
+import { AuthorService } from 'src/modules/author/services/author.service'
+import { CatalogService } from 'src/modules/catalog/services/catalog.service'
+import { CategoryService } from 'src/modules/category/services/category.service'
+
+describe('ProductService', () => {
+  let service: ProductService
+  let seller: UserEntity
+  let author: AuthorEntity
+  let book: ProductEntity
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+
+    seller = await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: 'product@test.com',
+      password: '123456',
+      roles: RolesEnum.Seller,
+    }).save()
+
+    author = await new AuthorEntity({ name: 'Machado de Assis' }).save()
+
+    book = await new ProductEntity({
+      name: 'Dom Casmurro',
+      description: 'PRODUCT-TEST',
+      price: 10,
+      stockAmount: 1,
+      userId: seller.id,
+      isbn: '9780306406157',
+      publisher: 'Garnier',
+      edition: 2,
+      publicationYear: 1899,
+      language: 'pt',
+      format: BookFormat.Hardcover,
+      authors: [author],
+    }).save()
+
+    await new ProductEntity({
+      name: 'Notebook',
+      description: 'PRODUCT-TEST',
+      price: 10,
+      stockAmount: 1,
+      userId: seller.id,
+    }).save()
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        ProductService,
+        {
+          provide: getRepositoryToken(ProductEntity),
+          useValue: getRepository(ProductEntity),
+        },
+        { provide: CategoryService, useValue: {} },
+        { provide: AuthorService, useValue: {} },
+        { provide: CatalogService, useValue: {} },
+      ],
+    }).compile()
+
+    service = await module.resolve(ProductService)
+  })
+
+  /**
+   * Function that creates the crud request that the search route receives
+   *
+   * @returns the created crud request
+   */
+  function createCrudRequest(): CrudRequest {
+    return {
+      parsed: {
+        fields: [],
+        paramsFilter: [],
+        authPersist: {},
+        search: { $and: [] },
+        filter: [],
+        or: [],
+        join: [],
+        sort: [],
+        limit: undefined,
+        offset: undefined,
+        page: undefined,
+        cache: undefined,
+        includeDeleted: undefined,
+      },
+      options: {
+        query: {
+          join: {
+            user: {},
+            'user.addresses': {},
+            categories: {},
+            authors: {},
+          },
+        },
+      },
+    }
+  }
+
+  /**
+   * Function that searches the products with some book filters
+   *
+   * @param filters stores the book filters
+   * @returns the names of the found products
+   */
+  async function search(
+    filters: Partial<{
+      isbn: string
+      authorId: number
+      author: string
+      publisher: string
+      edition: number
+      publicationYear: number
+      language: string
+      format: BookFormat
+    }>,
+  ): Promise<string[]> {
+    const products = (await service.search(
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      filters.isbn,
+      filters.authorId,
+      filters.author,
+      filters.publisher,
+      filters.edition,
+      filters.publicationYear,
+      filters.language,
+      filters.format,
+      createCrudRequest(),
+    )) as ProductEntity[]
+
+    return products.map(product => product.name)
+  }
+
+  describe('update', () => {
+    // tests if the partial updates keep the product relations
+    it('should keep the categories and authors when they are not sent', async () => {
+      const category = await new CategoryEntity({ name: 'ROMANCE' }).save()
+      const otherAuthor = await new AuthorEntity({
+        name: 'Aluisio Azevedo',
+      }).save()
+      const product = await new ProductEntity({
+        name: 'O Cortico',
+        description: 'PRODUCT-TEST',
+        price: 10,
+        stockAmount: 1,
+        userId: seller.id,
+        categories: [category],
+        authors: [otherAuthor],
+      }).save()
+
+      await service.update(product.id, seller, { price: 12 })
+
+      expect(
+        await ProductEntity.findOne({
+          where: { id: product.id },
+          relations: ['categories', 'authors'],
+        }),
+      ).toMatchObject({
+        price: 12,
+        categories: [expect.objectContaining({ id: category.id })],
+        authors: [expect.objectContaining({ id: otherAuthor.id })],
+      })
+    })
+  })
+
+  describe('search', () => {
+    // tests if the book is found by the isbn-13 and by its isbn-10 version
+    it('should find the books by the isbn-10 or the isbn-13', async () => {
+      expect(await search({ isbn: '978-0-306-40615-7' })).toEqual([book.name])
+      expect(await search({ isbn: '0-306-40615-2' })).toEqual([book.name])
+      expect(await search({ isbn: '9783161484100' })).toEqual([])
+    })
+
+    // tests if the book is found by its authors
+    it('should find the books by the author id or name', async () => {
+      expect(await search({ authorId: author.id })).toEqual([book.name])
+      expect(await search({ author: 'machado' })).toEqual([book.name])
+      expect(await search({ author: 'alencar' })).toEqual([])
+    })
+
+    // tests if the book is found by its edition data
+    it('should find the books by the publication data', async () => {
+      expect(
+        await search({
+          publisher: 'garn',
+          edition: 2,
+          publicationYear: 1899,
+          language: 'PT',
+          format: BookFormat.Hardcover,
+        }),
+      ).toEqual([book.name])
+      expect(await search({ edition: 1 })).toEqual([])
+      expect(await search({ format: BookFormat.Ebook })).toEqual([])
+    })
+  })
+})
@@ -1,4 +1,4 @@
-import { forwardRef, Injectable } from '@nestjs/common'
+import { BadRequestException, forwardRef, Injectable } from '@nestjs/common'
 import { Inject } from '@nestjs/common'
 import { InjectRepository } from '@nestjs/typeorm'
 import { CrudRequest, GetManyDefaultResponse } from '@nestjsx/crud'
@@ -11,15 +11,26 @@ import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception
 import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
 
 import { ProductEntity } from '../entities/product.entity'
+import { AuthorEntity } from 'src/modules/author/entities/author.entity'
 import { CategoryEntity } from 'src/modules/category/entities/category.entity'
 import { UserEntity } from 'src/modules/user/entities/user.entity'
+import { WorkEntity } from 'src/modules/work/entities/work.entity'
 
 import { CreateProductDto } from '../models/create-product.dto'
 import { UpdateProductDto } from '../models/update-product.dto'
+import { BookFormat } from 'src/models/enums/book-format.enum'
 import { SortBySearchEnum } from 'src/models/enums/sort-by-search.enum'
 
+import { ProductVariantService } from './product-variant.service'
+import { AuthorService } from 'src/modules/author/services/author.service'
+import { CatalogService } from 'src/modules/catalog/services/catalog.service'
 import { CategoryService } from 'src/modules/category/services/category.service'
+import { NotificationService } from 'src/modules/notification/services/notification.service'
+import { ProductSubscriptionService } from 'src/modules/product-subscription/services/product-subscription.service'
 import { UserService } from 'src/modules/user/services/user.service'
+import { WorkService } from 'src/modules/work/services/work.service'
+
+import { toIsbn13 } from 'src/utils/isbn'
 
 /**
  * The app's main product service class
@@ -33,19 +44,28 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
     private readonly repository: Repository<ProductEntity>,
     @Inject(forwardRef(() => CategoryService))
     private readonly categoryService: CategoryService,
+    private readonly authorService: AuthorService,
+    private readonly catalogService: CatalogService,
   ) {
     super(repository)
   }
 
   /**
-   * Method that can save some entity in the database
+   * Method that can save some entity in the database. The product is
+   * saved as an offer of the work with the sent id or the same isbn, and
+   * a new work is created when there is none
    *
    * @param requestUser stores the logged user data
    * @param createProductPayload stores the new product data
-   * @throws {EntityNotFoundException} if the user was not found
+   * @throws {EntityNotFoundException} if the user or the work was not found
    * @throws {ForbiddenException} if the request user has no permissions
    * to execute this action
-   * @returns the created product
+   * @throws {BadRequestException} if the name, the description or the
+   * image url were not sent and could not be filled from the work or the
+   * catalog
+   * @returns the created product. The products sold through variants are
+   * created without stock, since their stock is the sum of their variants
+   * stock
    */
   public async create(
     requestUser: UserEntity,
@@ -63,7 +83,17 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
       throw new ForbiddenException()
     }
 
-    const { categoryIds, ...rest } = createProductPayload
+    let work = await ProductService.findWork(createProductPayload)
+
+    const { categoryIds, authorIds, ...rest } = await this.fillFromCatalog(
+      ProductService.fillFromWork(createProductPayload, work),
+    )
+
+    if (!rest.name || rest.description === undefined || !rest.imageUrl) {
+      throw new BadRequestException(
+        'It is required to send the name, the description and the image url of the products that are not in the catalog',
+      )
+    }
 
     const categories: CategoryEntity[] = []
 
@@ -74,10 +104,33 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
       }
     }
 
+    const authors: AuthorEntity[] = []
+
+    if (authorIds) {
+      for (const id of authorIds) {
+        const author = await this.authorService.listOne(id)
+        authors.push(author)
+      }
+    }
+
+    const isbn = rest.isbn && toIsbn13(rest.isbn)
+
+    if (!work) {
+      work = await WorkService.createFromOffer(this.repository.manager, {
+        ...rest,
+        isbn,
+        authors,
+      })
+    }
+
     return await new ProductEntity({
       ...rest,
+      ...(isbn && { isbn }),
+      ...(rest.variantOptions && { stockAmount: 0 }),
       categories,
+      authors,
       user,
+      work,
     }).save()
   }
 
@@ -120,6 +173,8 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
     maxPrice: number,
     crudRequest?: CrudRequest,
   ): Promise<GetManyDefaultResponse<ProductEntity> | ProductEntity[]> {
+    ProductService.onlyAvailable(crudRequest)
+
     const { parsed, options } = crudRequest
     const builder = await this.createBuilder(parsed, options)
 
@@ -141,6 +196,14 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
    * @param freeOfInterests stores a value indicating if the products
    * are free or interests
    * @param sortBy stores a value indicating how the items must be returned
+   * @param isbn stores the book isbn, with or without hyphens
+   * @param authorId stores the author id
+   * @param author stores the author name
+   * @param publisher stores the book publisher
+   * @param edition stores the book edition
+   * @param publicationYear stores the book publication year
+   * @param language stores the book language code
+   * @param format stores the book format
    * @param crudRequest stores the joins, filters, etc;
    * @returns all the found products that match with the queries
    */
@@ -152,18 +215,93 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
     state?: string,
     freeOfInterests?: boolean,
     sortBy?: SortBySearchEnum,
+    isbn?: string,
+    authorId?: number,
+    author?: string,
+    publisher?: string,
+    edition?: number,
+    publicationYear?: number,
+    language?: string,
+    format?: BookFormat,
     crudRequest?: CrudRequest,
   ): Promise<GetManyDefaultResponse<ProductEntity> | ProductEntity[]> {
+    ProductService.onlyAvailable(crudRequest)
+
     const { parsed, options } = crudRequest
 
     crudRequest.parsed.paramsFilter = []
     crudRequest.parsed.join = [
       ...crudRequest.parsed.join,
       { field: 'categories', select: ['id'] },
+      { field: 'authors', select: ['name'] },
       { field: 'user' },
       { field: 'user.addresses', select: ['state'] },
     ]
 
+    if (isbn !== undefined) {
+      crudRequest.parsed.search.$and.push({
+        isbn: {
+          $eq: toIsbn13(isbn),
+        },
+      })
+    }
+
+    if (authorId !== undefined) {
+      crudRequest.parsed.search.$and.push({
+        'authors.id': {
+          $eq: authorId,
+        },
+      })
+    }
+
+    if (author !== undefined) {
+      crudRequest.parsed.search.$and.push({
+        'authors.name': {
+          $contL: author.toLowerCase(),
+        },
+      })
+    }
+
+    if (publisher !== undefined) {
+      crudRequest.parsed.search.$and.push({
+        publisher: {
+          $contL: publisher.toLowerCase(),
+        },
+      })
+    }
+
+    if (edition !== undefined) {
+      crudRequest.parsed.search.$and.push({
+        edition: {
+          $eq: edition,
+        },
+      })
+    }
+
+    if (publicationYear !== undefined) {
+      crudRequest.parsed.search.$and.push({
+        publicationYear: {
+          $eq: publicationYear,
+        },
+      })
+    }
+
+    if (language !== undefined) {
+      crudRequest.parsed.search.$and.push({
+        language: {
+          $eqL: language.toLowerCase(),
+        },
+      })
+    }
+
+    if (format !== undefined) {
+      crudRequest.parsed.search.$and.push({
+        format: {
+          $eq: format,
+        },
+      })
+    }
+
     if (categoryId !== undefined) {
       crudRequest.parsed.search.$and.push({
         'categories.id': {
@@ -229,6 +367,19 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
     return await this.doGetMany(builder, parsed, options)
   }
 
+  /**
+   * Method that can get the products that are in stock
+   *
+   * @param crudRequest stores the joins, filter, etc
+   * @returns all the found products
+   */
+  public async listMany(
+    crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<ProductEntity> | ProductEntity[]> {
+    ProductService.onlyAvailable(crudRequest)
+    return this.getMany(crudRequest)
+  }
+
   /**
    * Method that can get some offers
    *
@@ -246,6 +397,7 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
         },
       },
     ]
+    ProductService.onlyAvailable(crudRequest)
     return this.getMany(crudRequest)
   }
 
@@ -268,6 +420,7 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
         },
       },
     ]
+    ProductService.onlyAvailable(crudRequest)
     return this.getMany(crudRequest)
   }
 
@@ -286,6 +439,7 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
         order: 'DESC',
       },
     ]
+    ProductService.onlyAvailable(crudRequest)
     return this.getMany(crudRequest)
   }
 
@@ -312,11 +466,13 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
         order: 'DESC',
       },
     ]
+    ProductService.onlyAvailable(crudRequest)
     return this.getMany(crudRequest)
   }
 
   /**
-   * Method that can change the data of some product
+   * Method that can change the data of some product. The categories and
+   * authors are only replaced when they are sent
    *
    * @param productId stores the product id
    * @param requestUser stores the logged user data
@@ -324,6 +480,8 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
    * @throws {EntityNotFoundException} if the product was not found
    * @throws {ForbiddenException} if the request user has no permissions
    * to execute this action
+   * @throws {BadRequestException} if the stock of some product sold through
+   * variants is sent
    */
   public async update(
     productId: number,
@@ -340,16 +498,63 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
       throw new ForbiddenException()
     }
 
-    const { categoryIds, ...rest } = updateProductPayload
+    const { categoryIds, authorIds, ...rest } = updateProductPayload
 
-    const categories: CategoryEntity[] = []
+    if (entity.variantOptions?.length && rest.stockAmount !== undefined) {
+      throw new BadRequestException(
+        'The stock of the products sold through variants is the sum of their variants stock',
+      )
+    }
 
-    for (const id of categoryIds) {
-      const category = await this.categoryService.listOne(id)
-      categories.push(category)
+    // the partial updates keep the current categories and authors
+    let categories: CategoryEntity[]
+
+    if (categoryIds) {
+      categories = []
+
+      for (const id of categoryIds) {
+        const category = await this.categoryService.listOne(id)
+        categories.push(category)
+      }
     }
 
-    await this.repository.save({ ...entity, ...rest, categories })
+    let authors: AuthorEntity[]
+
+    if (authorIds) {
+      authors = []
+
+      for (const id of authorIds) {
+        const author = await this.authorService.listOne(id)
+        authors.push(author)
+      }
+    }
+
+    await this.repository.manager.transaction(async manager => {
+      await manager.save(ProductEntity, {
+        ...entity,
+        ...rest,
+        ...(rest.isbn && { isbn: toIsbn13(rest.isbn) }),
+        ...(categories && { categories }),
+        ...(authors && { authors }),
+      })
+
+      if (rest.stockAmount !== undefined) {
+        await NotificationService.notifyStockChange(
+          manager,
+          productId,
+          entity.stockAmount,
+        )
+        await ProductVariantService.syncStock(manager, productId)
+      }
+
+      if (
+        rest.stockAmount !== undefined ||
+        rest.price !== undefined ||
+        rest.discount !== undefined
+      ) {
+        await ProductSubscriptionService.fulfill(manager, productId)
+      }
+    })
   }
 
   /**
@@ -375,7 +580,13 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
       throw new ForbiddenException()
     }
 
-    await ProductEntity.delete({ id: productId })
+    await this.repository.manager.transaction(async manager => {
+      await manager.delete(ProductEntity, { id: productId })
+
+      if (entity.parentId) {
+        await ProductVariantService.syncStock(manager, entity.parentId)
+      }
+    })
   }
 
   /**
@@ -406,7 +617,14 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
       throw new ForbiddenException()
     }
 
-    await ProductEntity.update({ id: productId }, { isActive: false })
+    await this.repository.manager.transaction(async manager => {
+      await manager.update(
+        ProductEntity,
+        { id: productId },
+        { isActive: false },
+      )
+      await ProductVariantService.syncStock(manager, productId)
+    })
   }
 
   /**
@@ -437,6 +655,156 @@ export class ProductService extends TypeOrmCrudService<ProductEntity> {
       throw new ForbiddenException()
     }
 
-    await ProductEntity.update({ id: productId }, { isActive: true })
+    await this.repository.manager.transaction(async manager => {
+      await manager.update(ProductEntity, { id: productId }, { isActive: true })
+      await ProductVariantService.syncStock(manager, productId)
+    })
+  }
+
+  /**
+   * Method that finds the work that some new product is an offer of, by
+   * its id or by the product isbn
+   *
+   * @param createProductPayload stores the new product data
+   * @throws {EntityNotFoundException} if the sent work id was not found
+   * @returns the found work or undefined if there is none yet
+   */
+  private static async findWork(
+    createProductPayload: CreateProductDto,
+  ): Promise<WorkEntity | undefined> {
+    const { workId, isbn } = createProductPayload
+
+    if (workId !== undefined) {
+      const work = await WorkEntity.findOne(
+        { id: workId },
+        { relations: ['authors'] },
+      )
+
+      if (!work || !work.isActive) {
+        throw new EntityNotFoundException(workId, WorkEntity)
+      }
+
+      return work
+    }
+
+    if (!isbn) return undefined
+
+    return await WorkEntity.findOne(
+      { isbn: toIsbn13(isbn), isActive: true },
+      { relations: ['authors'] },
+    )
+  }
+
+  /**
+   * Method that fills the fields that were not sent with the data of the
+   * work that the product is an offer of
+   *
+   * @param createProductPayload stores the new product data
+   * @param work stores the work entity
+   * @returns the product data with the missing fields filled
+   */
+  private static fillFromWork(
+    createProductPayload: CreateProductDto,
+    work?: WorkEntity,
+  ): CreateProductDto {
+    if (!work) return createProductPayload
+
+    return {
+      ...createProductPayload,
+      name: createProductPayload.name ?? work.name,
+      imageUrl: createProductPayload.imageUrl ?? work.imageUrl,
+      description: createProductPayload.description ?? work.description,
+      isbn: createProductPayload.isbn ?? work.isbn,
+      publisher: createProductPayload.publisher ?? work.publisher,
+      edition: createProductPayload.edition ?? work.edition,
+      publicationYear:
+        createProductPayload.publicationYear ?? work.publicationYear,
+      pageCount: createProductPayload.pageCount ?? work.pageCount,
+      language: createProductPayload.language ?? work.language,
+      format: createProductPayload.format ?? work.format,
+      authorIds:
+        createProductPayload.authorIds ??
+        work.authors?.map(author => author.id),
+    }
+  }
+
+  /**
+   * Method that fills the fields that were not sent with the book data
+   * found in the catalog by its isbn. The authors that are not registered
+   * yet are created
+   *
+   * @param createProductPayload stores the new product data
+   * @returns the product data with the missing fields filled
+   */
+  private async fillFromCatalog(
+    createProductPayload: CreateProductDto,
+  ): Promise<CreateProductDto> {
+    if (!createProductPayload.isbn) return createProductPayload
+
+    const record = await this.catalogService.find(createProductPayload.isbn)
+
+    if (!record) return createProductPayload
+
+    let { authorIds } = createProductPayload
+
+    if (!authorIds && record.authors.length > 0) {
+      authorIds = []
+
+      for (const name of record.authors) {
+        const author = await this.authorService.create({ name })
+        authorIds.push(author.id)
+      }
+    }
+
+    const {
+      title,
+      coverUrl,
+      description,
+      publisher,
+      edition,
+      publicationYear,
+      pageCount,
+      language,
+      format,
+    } = record
+
+    return {
+      ...createProductPayload,
+      name: createProductPayload.name ?? title,
+      imageUrl: createProductPayload.imageUrl ?? coverUrl,
+      description: createProductPayload.description ?? description,
+      publisher: createProductPayload.publisher ?? publisher,
+      edition: createProductPayload.edition ?? edition,
+      publicationYear: createProductPayload.publicationYear ?? publicationYear,
+      pageCount: createProductPayload.pageCount ?? pageCount,
+      language: createProductPayload.language ?? language,
+      format: createProductPayload.format ?? format,
+      authorIds,
+    }
+  }
+
+  /**
+   * Method that hides the products that are out of stock from some
+   * listing. They are listed again as soon as they are restocked. The
+   * variants are hidden too, since they are listed through their products
+   *
+   * @param crudRequest stores the joins, filter, etc
+   */
+  private static onlyAvailable(crudRequest: CrudRequest): void {
+    crudRequest.parsed.search = {
+      $and: [
+        ...crudRequest.parsed.search.$and,
+        {
+          stockAmount: {
+            $gt: 0,
+          },
+        },
+        {
+          parentId: {
+            $isnull: true,
+          },
+        },
+      ],
+    }
   }
 }
@@ -0,0 +1,491 @@
+import { Controller, Get, Query, Res } from '@nestjs/common'
+import {
+  ApiBadRequestResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger'
+
+import { ApiQueryReport } from 'src/decorators/api-query-report/api-query-report.decorator'
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+
+import { ParseNumberOrUndefinedPipe } from 'src/pipes/parse-number-or-undefined/parse-number-or-undefined.pipe'
+
+import { CategorySalesDto } from '../models/category-sales.dto'
+import { LowStockProductDto } from '../models/low-stock-product.dto'
+import { NewUsersPeriodDto } from '../models/new-users-period.dto'
+import { OrderStatusReportDto } from '../models/order-status-report.dto'
+import { SalesPeriodDto } from '../models/sales-period.dto'
+import { TopSellerDto } from '../models/top-seller.dto'
+import { ReportPeriod } from 'src/models/enums/report-period.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { AdminReportService } from '../services/admin-report.service'
+import { SalesReportService } from '../services/sales-report.service'
+
+import { objectsToCsv } from 'src/utils/csv'
+
+import { Response } from 'express'
+
+/**
+ * The app's main admin report controller class
+ *
+ * Class that deals with the marketplace report routes, every route has a
+ * ".csv" version that exports the same data
+ */
+@ApiTags('reports')
+@Controller('reports')
+export class AdminReportController {
+  public constructor(private readonly adminReportService: AdminReportService) {}
+
+  /**
+   * Method that is called when the user access the "reports/gmv" route
+   * with "GET" method
+   *
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param period stores the period used to group the sales
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the gross merchandise value of each period
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryReport()
+  @ApiOperation({ summary: 'Groups the marketplace sales by period' })
+  @ApiOkResponse({
+    description: 'Gets the gross merchandise value of each period',
+    type: SalesPeriodDto,
+    isArray: true,
+  })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('gmv')
+  public async getGmv(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('period') period?: ReportPeriod,
+  ): Promise<SalesPeriodDto[]> {
+    return await this.adminReportService.getGmv(from, to, period)
+  }
+
+  /**
+   * Method that is called when the user access the "reports/gmv.csv"
+   * route with "GET" method
+   *
+   * @param response stores the response that will receive the csv file
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param period stores the period used to group the sales
+   * @throws {BadRequestException} if some filter is invalid
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryReport()
+  @ApiOperation({ summary: 'Exports the marketplace sales by period' })
+  @ApiProduces('text/csv')
+  @ApiOkResponse({ description: 'Gets the gross merchandise value csv file' })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('gmv.csv')
+  public async exportGmv(
+    @Res() response: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('period') period?: ReportPeriod,
+  ): Promise<void> {
+    const timeline = await this.adminReportService.getGmv(from, to, period)
+
+    this.sendCsv(
+      response,
+      'gmv.csv',
+      SalesReportService.timelineToCsv(timeline),
+    )
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "reports/orders-by-status" route with "GET" method
+   *
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the amount of orders of each status
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryReport(false)
+  @ApiOperation({ summary: 'Counts the orders by status' })
+  @ApiOkResponse({
+    description: 'Gets the amount of orders of each status',
+    type: OrderStatusReportDto,
+    isArray: true,
+  })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('orders-by-status')
+  public async getOrdersByStatus(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<OrderStatusReportDto[]> {
+    return await this.adminReportService.getOrdersByStatus(from, to)
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "reports/orders-by-status.csv" route with "GET" method
+   *
+   * @param response stores the response that will receive the csv file
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @throws {BadRequestException} if some filter is invalid
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryReport(false)
+  @ApiOperation({ summary: 'Exports the orders by status' })
+  @ApiProduces('text/csv')
+  @ApiOkResponse({ description: 'Gets the orders by status csv file' })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('orders-by-status.csv')
+  public async exportOrdersByStatus(
+    @Res() response: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<void> {
+    const items = await this.adminReportService.getOrdersByStatus(from, to)
+
+    this.sendCsv(
+      response,
+      'orders-by-status.csv',
+      objectsToCsv(['status', 'orderCount', 'total'], items),
+    )
+  }
+
+  /**
+   * Method that is called when the user access the "reports/new-users"
+   * route with "GET" method
+   *
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param period stores the period used to group the users
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the new users and sellers of each period
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryReport()
+  @ApiOperation({ summary: 'Groups the new users by period' })
+  @ApiOkResponse({
+    description: 'Gets the new users and sellers of each period',
+    type: NewUsersPeriodDto,
+    isArray: true,
+  })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('new-users')
+  public async getNewUsers(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('period') period?: ReportPeriod,
+  ): Promise<NewUsersPeriodDto[]> {
+    return await this.adminReportService.getNewUsers(from, to, period)
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "reports/new-users.csv" route with "GET" method
+   *
+   * @param response stores the response that will receive the csv file
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param period stores the period used to group the users
+   * @throws {BadRequestException} if some filter is invalid
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryReport()
+  @ApiOperation({ summary: 'Exports the new users by period' })
+  @ApiProduces('text/csv')
+  @ApiOkResponse({ description: 'Gets the new users csv file' })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('new-users.csv')
+  public async exportNewUsers(
+    @Res() response: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('period') period?: ReportPeriod,
+  ): Promise<void> {
+    const items = await this.adminReportService.getNewUsers(from, to, period)
+
+    this.sendCsv(
+      response,
+      'new-users.csv',
+      objectsToCsv(['period', 'users', 'sellers'], items),
+    )
+  }
+
+  /**
+   * Method that is called when the user access the "reports/categories"
+   * route with "GET" method
+   *
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param limit stores the amount of categories
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the best selling categories
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryReport(false)
+  @ApiQuery({
+    required: false,
+    name: 'limit',
+    type: 'integer',
+    description: 'The amount of categories, 10 by default',
+  })
+  @ApiOperation({ summary: 'Ranks the best selling categories' })
+  @ApiOkResponse({
+    description: 'Gets the best selling categories',
+    type: CategorySalesDto,
+    isArray: true,
+  })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('categories')
+  public async getTopCategories(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit', ParseNumberOrUndefinedPipe) limit?: number,
+  ): Promise<CategorySalesDto[]> {
+    return await this.adminReportService.getTopCategories(from, to, limit)
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "reports/categories.csv" route with "GET" method
+   *
+   * @param response stores the response that will receive the csv file
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param limit stores the amount of categories
+   * @throws {BadRequestException} if some filter is invalid
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryReport(false)
+  @ApiQuery({
+    required: false,
+    name: 'limit',
+    type: 'integer',
+    description: 'The amount of categories, 10 by default',
+  })
+  @ApiOperation({ summary: 'Exports the best selling categories' })
+  @ApiProduces('text/csv')
+  @ApiOkResponse({ description: 'Gets the best selling categories csv file' })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('categories.csv')
+  public async exportTopCategories(
+    @Res() response: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit', ParseNumberOrUndefinedPipe) limit?: number,
+  ): Promise<void> {
+    const items = await this.adminReportService.getTopCategories(
+      from,
+      to,
+      limit,
+    )
+
+    this.sendCsv(
+      response,
+      'categories.csv',
+      objectsToCsv(
+        ['categoryId', 'categoryName', 'revenue', 'unitsSold', 'orderCount'],
+        items,
+      ),
+    )
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "reports/low-stock-products" route with "GET" method
+   *
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param threshold stores the max stock amount of the listed products
+   * @param limit stores the amount of products
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the low stock products
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryReport(false)
+  @ApiQuery({
+    required: false,
+    name: 'threshold',
+    type: 'integer',
+    description:
+      'The max stock amount of the products, the threshold of each product by default',
+  })
+  @ApiQuery({
+    required: false,
+    name: 'limit',
+    type: 'integer',
+    description: 'The amount of products, 50 by default',
+  })
+  @ApiOperation({ summary: 'Lists the products with low stock' })
+  @ApiOkResponse({
+    description: 'Gets the low stock products and their recent sales',
+    type: LowStockProductDto,
+    isArray: true,
+  })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('low-stock-products')
+  public async getLowStockProducts(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('threshold', ParseNumberOrUndefinedPipe) threshold?: number,
+    @Query('limit', ParseNumberOrUndefinedPipe) limit?: number,
+  ): Promise<LowStockProductDto[]> {
+    return await this.adminReportService.getLowStockProducts(
+      from,
+      to,
+      threshold,
+      limit,
+    )
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "reports/low-stock-products.csv" route with "GET" method
+   *
+   * @param response stores the response that will receive the csv file
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param threshold stores the max stock amount of the listed products
+   * @param limit stores the amount of products
+   * @throws {BadRequestException} if some filter is invalid
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryReport(false)
+  @ApiQuery({
+    required: false,
+    name: 'threshold',
+    type: 'integer',
+    description:
+      'The max stock amount of the products, the threshold of each product by default',
+  })
+  @ApiQuery({
+    required: false,
+    name: 'limit',
+    type: 'integer',
+    description: 'The amount of products, 50 by default',
+  })
+  @ApiOperation({ summary: 'Exports the products with low stock' })
+  @ApiProduces('text/csv')
+  @ApiOkResponse({ description: 'Gets the low stock products csv file' })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('low-stock-products.csv')
+  public async exportLowStockProducts(
+    @Res() response: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('threshold', ParseNumberOrUndefinedPipe) threshold?: number,
+    @Query('limit', ParseNumberOrUndefinedPipe) limit?: number,
+  ): Promise<void> {
+    const items = await this.adminReportService.getLowStockProducts(
+      from,
+      to,
+      threshold,
+      limit,
+    )
+
+    this.sendCsv(
+      response,
+      'low-stock-products.csv',
+      objectsToCsv(
+        ['productId', 'productName', 'sellerId', 'stockAmount', 'unitsSold'],
+        items,
+      ),
+    )
+  }
+
+  /**
+   * Method that is called when the user access the "reports/top-sellers"
+   * route with "GET" method
+   *
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param limit stores the amount of sellers
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the top rated sellers
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryReport(false)
+  @ApiQuery({
+    required: false,
+    name: 'limit',
+    type: 'integer',
+    description: 'The amount of sellers, 10 by default',
+  })
+  @ApiOperation({ summary: 'Ranks the top rated sellers' })
+  @ApiOkResponse({
+    description: 'Gets the top rated sellers',
+    type: TopSellerDto,
+    isArray: true,
+  })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('top-sellers')
+  public async getTopSellers(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit', ParseNumberOrUndefinedPipe) limit?: number,
+  ): Promise<TopSellerDto[]> {
+    return await this.adminReportService.getTopSellers(from, to, limit)
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "reports/top-sellers.csv" route with "GET" method
+   *
+   * @param response stores the response that will receive the csv file
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param limit stores the amount of sellers
+   * @throws {BadRequestException} if some filter is invalid
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryReport(false)
+  @ApiQuery({
+    required: false,
+    name: 'limit',
+    type: 'integer',
+    description: 'The amount of sellers, 10 by default',
+  })
+  @ApiOperation({ summary: 'Exports the top rated sellers' })
+  @ApiProduces('text/csv')
+  @ApiOkResponse({ description: 'Gets the top rated sellers csv file' })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('top-sellers.csv')
+  public async exportTopSellers(
+    @Res() response: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit', ParseNumberOrUndefinedPipe) limit?: number,
+  ): Promise<void> {
+    const items = await this.adminReportService.getTopSellers(from, to, limit)
+
+    this.sendCsv(
+      response,
+      'top-sellers.csv',
+      objectsToCsv(
+        ['sellerId', 'sellerName', 'averageStars', 'ratingCount'],
+        items,
+      ),
+    )
+  }
+
+  /**
+   * Method that sends some csv file as an attachment
+   *
+   * @param response stores the response that will receive the file
+   * @param fileName stores the name of the file
+   * @param content stores the csv file content
+   */
+  private sendCsv(response: Response, fileName: string, content: string): void {
+    response
+      .set({
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      })
+      .send(content)
+  }
+}
@@ -0,0 +1,169 @@
+import { Controller, Get, Query, Res } from '@nestjs/common'
+import {
+  ApiBadRequestResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger'
+
+import { ApiQueryReport } from 'src/decorators/api-query-report/api-query-report.decorator'
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { ParseNumberOrUndefinedPipe } from 'src/pipes/parse-number-or-undefined/parse-number-or-undefined.pipe'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { SalesSummaryDto } from '../models/sales-summary.dto'
+import { ReportPeriod } from 'src/models/enums/report-period.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { SalesReportService } from '../services/sales-report.service'
+
+import { Response } from 'express'
+
+/**
+ * The app's main sales report controller class
+ *
+ * Class that deals with the logged user sales summary routes
+ */
+@ApiTags('reports')
+@Controller('users/me/sales/summary')
+export class SalesReportController {
+  public constructor(private readonly salesReportService: SalesReportService) {}
+
+  /**
+   * Method that is called when the user access the
+   * "users/me/sales/summary" route with "GET" method
+   *
+   * @param requestUser stores the logged user data
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param period stores the period used to group the timeline
+   * @param limit stores the amount of top products
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the sales summary
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiQueryReport()
+  @ApiQuery({
+    required: false,
+    name: 'limit',
+    type: 'integer',
+    description: 'The amount of top products, 5 by default',
+  })
+  @ApiOperation({ summary: 'Summarizes the logged user sales' })
+  @ApiOkResponse({
+    description: 'Gets the revenue, the timeline and the top products',
+    type: SalesSummaryDto,
+  })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get()
+  public async getSummary(
+    @RequestUser() requestUser: UserEntity,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('period') period?: ReportPeriod,
+    @Query('limit', ParseNumberOrUndefinedPipe) limit?: number,
+  ): Promise<SalesSummaryDto> {
+    return await this.salesReportService.getSummary(
+      requestUser.id,
+      requestUser,
+      from,
+      to,
+      period,
+      limit,
+    )
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "users/me/sales/summary/timeline.csv" route with "GET" method
+   *
+   * @param requestUser stores the logged user data
+   * @param response stores the response that will receive the csv file
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param period stores the period used to group the timeline
+   * @throws {BadRequestException} if some filter is invalid
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiQueryReport()
+  @ApiOperation({ summary: 'Exports the logged user sales timeline' })
+  @ApiProduces('text/csv')
+  @ApiOkResponse({ description: 'Gets the sales timeline csv file' })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('timeline.csv')
+  public async exportTimeline(
+    @RequestUser() requestUser: UserEntity,
+    @Res() response: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('period') period?: ReportPeriod,
+  ): Promise<void> {
+    const summary = await this.salesReportService.getSummary(
+      requestUser.id,
+      requestUser,
+      from,
+      to,
+      period,
+    )
+
+    response
+      .set({
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="sales-timeline.csv"',
+      })
+      .send(SalesReportService.timelineToCsv(summary.timeline))
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "users/me/sales/summary/top-products.csv" route with "GET" method
+   *
+   * @param requestUser stores the logged user data
+   * @param response stores the response that will receive the csv file
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param limit stores the amount of top products
+   * @throws {BadRequestException} if some filter is invalid
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiQueryReport(false)
+  @ApiQuery({
+    required: false,
+    name: 'limit',
+    type: 'integer',
+    description: 'The amount of top products, 5 by default',
+  })
+  @ApiOperation({ summary: 'Exports the logged user top products' })
+  @ApiProduces('text/csv')
+  @ApiOkResponse({ description: 'Gets the top products csv file' })
+  @ApiBadRequestResponse({ description: 'Some filter is invalid' })
+  @Get('top-products.csv')
+  public async exportTopProducts(
+    @RequestUser() requestUser: UserEntity,
+    @Res() response: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit', ParseNumberOrUndefinedPipe) limit?: number,
+  ): Promise<void> {
+    const summary = await this.salesReportService.getSummary(
+      requestUser.id,
+      requestUser,
+      from,
+      to,
+      undefined,
+      limit,
+    )
+
+    response
+      .set({
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="top-products.csv"',
+      })
+      .send(SalesReportService.topProductsToCsv(summary))
+  }
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * The app's main category sales dto class
+ *
+ * Class that deals with the sales of the products of some category
+ */
+export class CategorySalesDto {
+  @ApiProperty()
+  public categoryId: number
+
+  @ApiProperty()
+  public categoryName: string
+
+  @ApiProperty()
+  public revenue: number
+
+  @ApiProperty()
+  public unitsSold: number
+
+  @ApiProperty()
+  public orderCount: number
+
+  public constructor(partial: Partial<CategorySalesDto>) {
+    Object.assign(this, partial)
+  }
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * The app's main low stock product dto class
+ *
+ * Class that deals with some product that is running out of stock
+ */
+export class LowStockProductDto {
+  @ApiProperty()
+  public productId: number
+
+  @ApiProperty()
+  public productName: string
+
+  @ApiProperty()
+  public sellerId: number
+
+  @ApiProperty()
+  public stockAmount: number
+
+  @ApiProperty({ description: 'The units sold in the date range' })
+  public unitsSold: number
+
+  public constructor(partial: Partial<LowStockProductDto>) {
+    Object.assign(this, partial)
+  }
+}
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * The app's main new users period dto class
+ *
+ * Class that deals with the users that signed up in some day, week or
+ * month
+ */
+export class NewUsersPeriodDto {
+  @ApiProperty({ description: 'The first day of the period' })
+  public period: string
+
+  @ApiProperty()
+  public users: number
+
+  @ApiProperty({ description: 'The new users that are sellers' })
+  public sellers: number
+
+  public constructor(partial: Partial<NewUsersPeriodDto>) {
+    Object.assign(this, partial)
+  }
+}
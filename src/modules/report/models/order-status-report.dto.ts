@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+
+/**
+ * The app's main order status report dto class
+ *
+ * Class that deals with the amount of orders in some status
+ */
+export class OrderStatusReportDto {
+  @ApiProperty({ enum: OrderStatus })
+  public status: OrderStatus
+
+  @ApiProperty()
+  public orderCount: number
+
+  @ApiProperty({ description: 'The sum of the orders totals' })
+  public total: number
+
+  public constructor(partial: Partial<OrderStatusReportDto>) {
+    Object.assign(this, partial)
+  }
+}
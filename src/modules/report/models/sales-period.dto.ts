@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * The app's main sales period dto class
+ *
+ * Class that deals with the sales of some day, week or month
+ */
+export class SalesPeriodDto {
+  @ApiProperty({ description: 'The first day of the period' })
+  public period: string
+
+  @ApiProperty()
+  public revenue: number
+
+  @ApiProperty()
+  public unitsSold: number
+
+  @ApiProperty()
+  public orderCount: number
+
+  @ApiProperty()
+  public averageOrderValue: number
+
+  public constructor(partial: Partial<SalesPeriodDto>) {
+    Object.assign(this, partial)
+  }
+}
@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { SalesPeriodDto } from './sales-period.dto'
+import { TopProductDto } from './top-product.dto'
+import { ReportPeriod } from 'src/models/enums/report-period.enum'
+
+/**
+ * The app's main sales summary dto class
+ *
+ * Class that deals with the sales of some seller in a date range
+ */
+export class SalesSummaryDto {
+  @ApiProperty()
+  public from: Date
+
+  @ApiProperty()
+  public to: Date
+
+  @ApiProperty({ enum: ReportPeriod })
+  public period: ReportPeriod
+
+  @ApiProperty()
+  public revenue: number
+
+  @ApiProperty()
+  public unitsSold: number
+
+  @ApiProperty()
+  public orderCount: number
+
+  @ApiProperty()
+  public averageOrderValue: number
+
+  @ApiProperty({ type: () => SalesPeriodDto, isArray: true })
+  public timeline: SalesPeriodDto[]
+
+  @ApiProperty({ type: () => TopProductDto, isArray: true })
+  public topProducts: TopProductDto[]
+
+  public constructor(partial: Partial<SalesSummaryDto>) {
+    Object.assign(this, partial)
+  }
+}
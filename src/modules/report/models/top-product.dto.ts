@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * The app's main top product dto class
+ *
+ * Class that deals with the sales of some product
+ */
+export class TopProductDto {
+  @ApiProperty()
+  public productId: number
+
+  @ApiProperty()
+  public productName: string
+
+  @ApiProperty()
+  public revenue: number
+
+  @ApiProperty()
+  public unitsSold: number
+
+  @ApiProperty()
+  public orderCount: number
+
+  public constructor(partial: Partial<TopProductDto>) {
+    Object.assign(this, partial)
+  }
+}
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * The app's main top seller dto class
+ *
+ * Class that deals with the ratings received by the products of some
+ * seller
+ */
+export class TopSellerDto {
+  @ApiProperty()
+  public sellerId: number
+
+  @ApiProperty()
+  public sellerName: string
+
+  @ApiProperty()
+  public averageStars: number
+
+  @ApiProperty()
+  public ratingCount: number
+
+  public constructor(partial: Partial<TopSellerDto>) {
+    Object.assign(this, partial)
+  }
+}
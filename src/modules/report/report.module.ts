@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { ProductGroupEntity } from '../product-group/entities/product-group.entity'
+
+import { AdminReportService } from './services/admin-report.service'
+import { SalesReportService } from './services/sales-report.service'
+
+import { AdminReportController } from './controllers/admin-report.controller'
+import { SalesReportController } from './controllers/sales-report.controller'
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ProductGroupEntity])],
+  controllers: [SalesReportController, AdminReportController],
+  providers: [SalesReportService, AdminReportService],
+  exports: [SalesReportService, AdminReportService],
+})
+export class ReportModule {}
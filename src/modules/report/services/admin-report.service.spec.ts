@@ -0,0 +1,303 @@
+import { BadRequestException } from '@nestjs/common'
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { CategoryEntity } from 'src/modules/category/entities/category.entity'
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { RatingEntity } from 'src/modules/rating/entities/rating.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { AdminReportService } from './admin-report.service'
+import { SalesReportService } from './sales-report.service'
+
+describe('AdminReportService', () => {
+  let service: AdminReportService
+  let sequence = 0
+
+  let seller: UserEntity
+  let otherSeller: UserEntity
+  let book: ProductEntity
+  let comic: ProductEntity
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+
+    seller = await createUser(RolesEnum.Seller)
+    otherSeller = await createUser(RolesEnum.Seller)
+    const buyer = await createUser()
+
+    const fiction = await new CategoryEntity({ name: 'FICTION' }).save()
+    const kids = await new CategoryEntity({ name: 'KIDS' }).save()
+
+    book = await createProduct(seller, 30, 2, [fiction])
+    comic = await createProduct(otherSeller, 10, 20, [fiction, kids])
+
+    await createOrder(buyer, OrderStatus.Delivered, [
+      [book, 2],
+      [comic, 1],
+    ])
+    await createOrder(buyer, OrderStatus.Paid, [[comic, 4]])
+    await createOrder(buyer, OrderStatus.Canceled, [[book, 1]])
+    // the orders created before the date range are ignored
+    await createOrder(
+      buyer,
+      OrderStatus.Delivered,
+      [[book, 3]],
+      new Date('2020-01-01T00:00:00.000Z'),
+    )
+
+    await createRating(buyer, book, 5)
+    await createRating(buyer, book, 4)
+    await createRating(buyer, comic, 3)
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        AdminReportService,
+        SalesReportService,
+        {
+          provide: getRepositoryToken(ProductGroupEntity),
+          useValue: getRepository(ProductGroupEntity),
+        },
+      ],
+    }).compile()
+
+    service = await module.resolve(AdminReportService)
+  })
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Common): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: `${sequence}`,
+      email: `admin-report-${sequence}@test.com`,
+      password: '123456',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates a new product entity
+   *
+   * @param owner stores the seller entity
+   * @param price stores the product price
+   * @param stockAmount stores the product stock amount
+   * @param categories stores the product categories
+   * @returns the created product entity
+   */
+  async function createProduct(
+    owner: UserEntity,
+    price: number,
+    stockAmount: number,
+    categories: CategoryEntity[],
+  ): Promise<ProductEntity> {
+    sequence++
+    return await new ProductEntity({
+      name: `PRODUCT-TEST-${sequence}`,
+      description: 'PRODUCT-TEST',
+      price,
+      stockAmount,
+      userId: owner.id,
+      categories,
+    }).save()
+  }
+
+  /**
+   * Function that creates an order with some products
+   *
+   * @param buyer stores the buyer entity
+   * @param status stores the order status
+   * @param lines stores the product and the amount of each order line
+   * @param createdAt stores the order date
+   */
+  async function createOrder(
+    buyer: UserEntity,
+    status: OrderStatus,
+    lines: [ProductEntity, number][],
+    createdAt?: Date,
+  ): Promise<void> {
+    sequence++
+    const total = lines.reduce(
+      (sum, [product, amount]) => sum + product.price * amount,
+      0,
+    )
+    const order = await new OrderEntity({
+      trackingCode: `ADMIN-${sequence}`,
+      status,
+      total,
+      userId: buyer.id,
+    }).save()
+
+    if (createdAt) {
+      await getRepository(OrderEntity).update({ id: order.id }, { createdAt })
+    }
+
+    for (const [product, amount] of lines) {
+      await new ProductGroupEntity({
+        productId: product.id,
+        orderId: order.id,
+        amount,
+        productName: product.name,
+        unitPrice: product.price,
+        discount: 0,
+      }).save()
+    }
+  }
+
+  /**
+   * Function that creates a new rating entity
+   *
+   * @param user stores the user that rated the product
+   * @param product stores the rated product
+   * @param stars stores the amount of stars
+   */
+  async function createRating(
+    user: UserEntity,
+    product: ProductEntity,
+    stars: number,
+  ): Promise<void> {
+    await new RatingEntity({
+      userId: user.id,
+      productId: product.id,
+      stars,
+    }).save()
+  }
+
+  describe('getGmv', () => {
+    // tests if the sales of all the sellers are summed
+    it('should sum the sales of the whole marketplace', async () => {
+      const [period, ...rest] = await service.getGmv()
+
+      expect(rest).toHaveLength(0)
+      expect(period).toMatchObject({
+        revenue: 110,
+        unitsSold: 7,
+        orderCount: 2,
+        averageOrderValue: 55,
+      })
+    })
+
+    // tests if the period is validated
+    it('should throw a "BadRequestException" when the period is invalid', async () => {
+      await expect(
+        service.getGmv(undefined, undefined, 'year'),
+      ).rejects.toThrow(BadRequestException)
+    })
+  })
+
+  describe('getOrdersByStatus', () => {
+    // tests if the orders of the date range are counted by status
+    it('should count the orders of each status', async () => {
+      const items = await service.getOrdersByStatus()
+
+      expect(items).toHaveLength(3)
+      expect(items).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            status: OrderStatus.Delivered,
+            orderCount: 1,
+            total: 70,
+          }),
+          expect.objectContaining({
+            status: OrderStatus.Canceled,
+            orderCount: 1,
+            total: 30,
+          }),
+        ]),
+      )
+    })
+  })
+
+  describe('getNewUsers', () => {
+    // tests if the sellers are counted apart
+    it('should count the new users and sellers', async () => {
+      const [period] = await service.getNewUsers()
+
+      expect(period).toMatchObject({ users: 3, sellers: 2 })
+    })
+  })
+
+  describe('getTopCategories', () => {
+    // tests if the products are counted in each one of their categories
+    it('should rank the categories by revenue', async () => {
+      const items = await service.getTopCategories()
+
+      expect(items).toEqual([
+        expect.objectContaining({
+          categoryName: 'FICTION',
+          revenue: 110,
+          unitsSold: 7,
+        }),
+        expect.objectContaining({
+          categoryName: 'KIDS',
+          revenue: 50,
+          unitsSold: 5,
+        }),
+      ])
+    })
+  })
+
+  describe('getLowStockProducts', () => {
+    // tests if only the products below the threshold are listed
+    it('should list the products with low stock and their sales', async () => {
+      expect(
+        await service.getLowStockProducts(undefined, undefined, 20),
+      ).toHaveLength(2)
+
+      const items = await service.getLowStockProducts()
+
+      expect(items).toEqual([
+        expect.objectContaining({
+          productId: book.id,
+          sellerId: seller.id,
+          stockAmount: 2,
+          unitsSold: 2,
+        }),
+      ])
+    })
+  })
+
+  describe('getTopSellers', () => {
+    // tests if the sellers are ranked by the average stars
+    it('should rank the sellers by their ratings', async () => {
+      const items = await service.getTopSellers()
+
+      expect(items).toEqual([
+        expect.objectContaining({
+          sellerId: seller.id,
+          averageStars: 4.5,
+          ratingCount: 2,
+        }),
+        expect.objectContaining({
+          sellerId: otherSeller.id,
+          averageStars: 3,
+          ratingCount: 1,
+        }),
+      ])
+    })
+  })
+})
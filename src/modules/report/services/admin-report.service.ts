@@ -0,0 +1,332 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { getConnection } from 'typeorm'
+
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { RatingEntity } from 'src/modules/rating/entities/rating.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CategorySalesDto } from '../models/category-sales.dto'
+import { LowStockProductDto } from '../models/low-stock-product.dto'
+import { NewUsersPeriodDto } from '../models/new-users-period.dto'
+import { OrderStatusReportDto } from '../models/order-status-report.dto'
+import { SalesPeriodDto } from '../models/sales-period.dto'
+import { TopSellerDto } from '../models/top-seller.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { SalesReportService } from './sales-report.service'
+
+import {
+  parseDateRange,
+  parseReportLimit,
+  parseReportPeriod,
+  toDatabaseDate,
+  truncateDate,
+} from 'src/utils/sql'
+
+/**
+ * The app's main admin report service class
+ *
+ * Class that summarizes the data of the whole marketplace
+ */
+@Injectable()
+export class AdminReportService {
+  public constructor(private readonly salesReportService: SalesReportService) {}
+
+  /**
+   * Method that groups the gross merchandise value of the marketplace by
+   * period
+   *
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param period stores the period used to group the sales
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the sales of each period
+   */
+  public async getGmv(
+    from?: string,
+    to?: string,
+    period?: string,
+  ): Promise<SalesPeriodDto[]> {
+    return await this.salesReportService.getTimeline(
+      parseDateRange(from, to),
+      parseReportPeriod(period),
+    )
+  }
+
+  /**
+   * Method that counts the orders created in some date range by status
+   *
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the amount of orders of each status
+   */
+  public async getOrdersByStatus(
+    from?: string,
+    to?: string,
+  ): Promise<OrderStatusReportDto[]> {
+    const range = parseDateRange(from, to)
+    const connection = getConnection()
+
+    const rows = await OrderEntity.createQueryBuilder('reportOrder')
+      .select('reportOrder.status', 'status')
+      .addSelect('COUNT(reportOrder.id)', 'orderCount')
+      .addSelect('SUM(COALESCE(reportOrder.total, 0))', 'total')
+      .where('reportOrder.isActive = :isActive', { isActive: true })
+      .andWhere('reportOrder.createdAt >= :from', {
+        from: toDatabaseDate(connection, OrderEntity, 'createdAt', range.from),
+      })
+      .andWhere('reportOrder.createdAt < :to', {
+        to: toDatabaseDate(connection, OrderEntity, 'createdAt', range.to),
+      })
+      .groupBy('reportOrder.status')
+      .orderBy('COUNT(reportOrder.id)', 'DESC')
+      .addOrderBy('reportOrder.status', 'ASC')
+      .getRawMany()
+
+    return rows.map(
+      raw =>
+        new OrderStatusReportDto({
+          status: raw.status,
+          orderCount: Number(raw.orderCount),
+          total: SalesReportService.round(raw.total),
+        }),
+    )
+  }
+
+  /**
+   * Method that groups the users that signed up in some date range by
+   * period
+   *
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param period stores the period used to group the users
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the new users of each period
+   */
+  public async getNewUsers(
+    from?: string,
+    to?: string,
+    period?: string,
+  ): Promise<NewUsersPeriodDto[]> {
+    const range = parseDateRange(from, to)
+    const connection = getConnection()
+
+    const rows = await UserEntity.createQueryBuilder('reportUser')
+      .select(
+        truncateDate(
+          connection,
+          'reportUser.createdAt',
+          parseReportPeriod(period),
+        ),
+        'period',
+      )
+      .addSelect('COUNT(reportUser.id)', 'users')
+      .addSelect(
+        'SUM(CASE WHEN reportUser.roles LIKE :sellerRole THEN 1 ELSE 0 END)',
+        'sellers',
+      )
+      .where('reportUser.isActive = :isActive', { isActive: true })
+      .andWhere('reportUser.createdAt >= :from', {
+        from: toDatabaseDate(connection, UserEntity, 'createdAt', range.from),
+      })
+      .andWhere('reportUser.createdAt < :to', {
+        to: toDatabaseDate(connection, UserEntity, 'createdAt', range.to),
+      })
+      .setParameter('sellerRole', `%${RolesEnum.Seller}%`)
+      .groupBy('period')
+      .orderBy('period', 'ASC')
+      .getRawMany()
+
+    return rows.map(
+      raw =>
+        new NewUsersPeriodDto({
+          period: raw.period,
+          users: Number(raw.users),
+          sellers: Number(raw.sellers ?? 0),
+        }),
+    )
+  }
+
+  /**
+   * Method that ranks the categories by the revenue of their products in
+   * some date range. The products that have more than one category are
+   * counted in each one of them
+   *
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param limit stores the amount of categories
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the best selling categories
+   */
+  public async getTopCategories(
+    from?: string,
+    to?: string,
+    limit?: number,
+  ): Promise<CategorySalesDto[]> {
+    const reportLimit = parseReportLimit(limit, 10)
+
+    const rows = await this.salesReportService
+      .createSalesQuery(parseDateRange(from, to))
+      .innerJoin('product.categories', 'category')
+      .addSelect('category.id', 'categoryId')
+      .addSelect('category.name', 'categoryName')
+      .groupBy('category.id')
+      .addGroupBy('category.name')
+      .orderBy('revenue', 'DESC')
+      .addOrderBy('category.id', 'ASC')
+      .limit(reportLimit)
+      .getRawMany()
+
+    return rows.map(
+      raw =>
+        new CategorySalesDto({
+          categoryId: Number(raw.categoryId),
+          categoryName: raw.categoryName,
+          revenue: SalesReportService.round(raw.revenue),
+          unitsSold: Number(raw.unitsSold ?? 0),
+          orderCount: Number(raw.orderCount ?? 0),
+        }),
+    )
+  }
+
+  /**
+   * Method that lists the active products with few units in stock, with
+   * the units that were sold of each one in some date range
+   *
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param threshold stores the max stock amount of the listed products,
+   * when it is not sent the low stock threshold of each product is used
+   * @param limit stores the amount of products
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the low stock products, starting from the lowest stock
+   */
+  public async getLowStockProducts(
+    from?: string,
+    to?: string,
+    threshold?: number,
+    limit?: number,
+  ): Promise<LowStockProductDto[]> {
+    if (
+      threshold !== undefined &&
+      (!Number.isInteger(threshold) || threshold < 0)
+    ) {
+      throw new BadRequestException('The threshold must be a positive integer')
+    }
+
+    const reportLimit = parseReportLimit(limit, 50)
+    const range = parseDateRange(from, to)
+    const connection = getConnection()
+
+    const query = ProductEntity.createQueryBuilder('product')
+      .leftJoin('product.productGroups', 'productGroup')
+      .leftJoin(
+        'productGroup.order',
+        'salesOrder',
+        'salesOrder.isActive = :isActive AND salesOrder.status IN (:...statuses) AND salesOrder.createdAt >= :from AND salesOrder.createdAt < :to',
+        {
+          statuses: SalesReportService.soldStatuses,
+          from: toDatabaseDate(
+            connection,
+            OrderEntity,
+            'createdAt',
+            range.from,
+          ),
+          to: toDatabaseDate(connection, OrderEntity, 'createdAt', range.to),
+        },
+      )
+      .select('product.id', 'productId')
+      .addSelect('product.name', 'productName')
+      .addSelect('product.userId', 'sellerId')
+      .addSelect('product.stockAmount', 'stockAmount')
+      .addSelect(
+        'SUM(CASE WHEN salesOrder.id IS NULL THEN 0 ELSE productGroup.amount END)',
+        'unitsSold',
+      )
+      .where('product.isActive = :isActive', { isActive: true })
+
+    if (threshold === undefined) {
+      query.andWhere('product.stockAmount <= product.lowStockThreshold')
+    } else {
+      query.andWhere('product.stockAmount <= :threshold', { threshold })
+    }
+
+    const rows = await query
+      .groupBy('product.id')
+      .addGroupBy('product.name')
+      .addGroupBy('product.userId')
+      .addGroupBy('product.stockAmount')
+      .orderBy('product.stockAmount', 'ASC')
+      .addOrderBy('product.id', 'ASC')
+      .limit(reportLimit)
+      .getRawMany()
+
+    return rows.map(
+      raw =>
+        new LowStockProductDto({
+          productId: Number(raw.productId),
+          productName: raw.productName,
+          sellerId: Number(raw.sellerId),
+          stockAmount: Number(raw.stockAmount),
+          unitsSold: Number(raw.unitsSold ?? 0),
+        }),
+    )
+  }
+
+  /**
+   * Method that ranks the sellers by the stars that their products
+   * received in some date range
+   *
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param limit stores the amount of sellers
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the top rated sellers
+   */
+  public async getTopSellers(
+    from?: string,
+    to?: string,
+    limit?: number,
+  ): Promise<TopSellerDto[]> {
+    const reportLimit = parseReportLimit(limit, 10)
+    const range = parseDateRange(from, to)
+    const connection = getConnection()
+
+    const rows = await RatingEntity.createQueryBuilder('rating')
+      .innerJoin('rating.product', 'product')
+      .innerJoin('product.user', 'seller')
+      .select('seller.id', 'sellerId')
+      .addSelect('seller.name', 'sellerName')
+      .addSelect('seller.lastName', 'sellerLastName')
+      .addSelect('AVG(rating.stars)', 'averageStars')
+      .addSelect('COUNT(rating.id)', 'ratingCount')
+      .where('rating.isActive = :isActive', { isActive: true })
+      .andWhere('rating.stars IS NOT NULL')
+      .andWhere('rating.createdAt >= :from', {
+        from: toDatabaseDate(connection, RatingEntity, 'createdAt', range.from),
+      })
+      .andWhere('rating.createdAt < :to', {
+        to: toDatabaseDate(connection, RatingEntity, 'createdAt', range.to),
+      })
+      .groupBy('seller.id')
+      .addGroupBy('seller.name')
+      .addGroupBy('seller.lastName')
+      .orderBy('AVG(rating.stars)', 'DESC')
+      .addOrderBy('COUNT(rating.id)', 'DESC')
+      .addOrderBy('seller.id', 'ASC')
+      .limit(reportLimit)
+      .getRawMany()
+
+    return rows.map(
+      raw =>
+        new TopSellerDto({
+          sellerId: Number(raw.sellerId),
+          sellerName: `${raw.sellerName} ${raw.sellerLastName}`,
+          averageStars: SalesReportService.round(raw.averageStars),
+          ratingCount: Number(raw.ratingCount),
+        }),
+    )
+  }
+}
@@ -0,0 +1,221 @@
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { ReportPeriod } from 'src/models/enums/report-period.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { SalesReportService } from './sales-report.service'
+
+describe('SalesReportService', () => {
+  let service: SalesReportService
+  let seller: UserEntity
+  let buyer: UserEntity
+  let sequence = 0
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+
+    seller = await createUser(RolesEnum.Seller)
+    buyer = await createUser()
+
+    const book = await createProduct(seller, 'BOOK', 40)
+    const comic = await createProduct(seller, 'COMIC', 10)
+    const other = await createProduct(
+      await createUser(RolesEnum.Seller),
+      'OTHER',
+      99,
+    )
+
+    // monday and wednesday of the same week, then the next monday
+    await createOrder('2021-05-03T10:00:00.000Z', OrderStatus.Delivered, [
+      [book, 2, 0.5],
+      [comic, 1, 0],
+    ])
+    await createOrder('2021-05-05T10:00:00.000Z', OrderStatus.Paid, [
+      [book, 1, 0],
+      [other, 1, 0],
+    ])
+    await createOrder('2021-05-10T10:00:00.000Z', OrderStatus.Shipped, [
+      [comic, 3, 0],
+    ])
+    // the canceled orders are not sales
+    await createOrder('2021-05-04T10:00:00.000Z', OrderStatus.Canceled, [
+      [book, 5, 0],
+    ])
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        SalesReportService,
+        {
+          provide: getRepositoryToken(ProductGroupEntity),
+          useValue: getRepository(ProductGroupEntity),
+        },
+      ],
+    }).compile()
+
+    service = await module.resolve(SalesReportService)
+  })
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Common): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `sales-report-${sequence}@test.com`,
+      password: '123456',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates a new product entity
+   *
+   * @param owner stores the seller entity
+   * @param name stores the product name
+   * @param price stores the product price
+   * @returns the created product entity
+   */
+  async function createProduct(
+    owner: UserEntity,
+    name: string,
+    price: number,
+  ): Promise<ProductEntity> {
+    return await new ProductEntity({
+      name,
+      description: 'PRODUCT-TEST',
+      price,
+      stockAmount: 100,
+      userId: owner.id,
+    }).save()
+  }
+
+  /**
+   * Function that creates an order with some products
+   *
+   * @param createdAt stores the order date
+   * @param status stores the order status
+   * @param lines stores the product, the amount and the discount of each
+   * order line
+   */
+  async function createOrder(
+    createdAt: string,
+    status: OrderStatus,
+    lines: [ProductEntity, number, number][],
+  ): Promise<void> {
+    sequence++
+    const order = await new OrderEntity({
+      trackingCode: `SALES-${sequence}`,
+      status,
+      userId: buyer.id,
+    }).save()
+
+    // the creation date is set by the database, so it is changed later
+    await getRepository(OrderEntity).update(
+      { id: order.id },
+      { createdAt: new Date(createdAt) },
+    )
+
+    for (const [product, amount, discount] of lines) {
+      await new ProductGroupEntity({
+        productId: product.id,
+        orderId: order.id,
+        amount,
+        productName: product.name,
+        unitPrice: product.price,
+        discount,
+      }).save()
+    }
+  }
+
+  describe('getSummary', () => {
+    // tests if only the lines of the seller products are summed
+    it('should summarize the sales grouped by week', async () => {
+      const summary = await service.getSummary(
+        seller.id,
+        seller,
+        '2021-05-01',
+        '2021-05-31',
+        ReportPeriod.Week,
+      )
+
+      expect(summary).toMatchObject({
+        revenue: 120,
+        unitsSold: 7,
+        orderCount: 3,
+        averageOrderValue: 40,
+      })
+      expect(summary.timeline).toEqual([
+        expect.objectContaining({
+          period: '2021-05-03',
+          revenue: 90,
+          unitsSold: 4,
+          orderCount: 2,
+        }),
+        expect.objectContaining({
+          period: '2021-05-10',
+          revenue: 30,
+          unitsSold: 3,
+          orderCount: 1,
+        }),
+      ])
+      expect(
+        summary.topProducts.map(({ productName }) => productName),
+      ).toEqual(['BOOK', 'COMIC'])
+      expect(SalesReportService.timelineToCsv(summary.timeline)).toBe(
+        'period,revenue,unitsSold,orderCount,averageOrderValue\r\n' +
+          '2021-05-03,90,4,2,45\r\n' +
+          '2021-05-10,30,3,1,30',
+      )
+    })
+
+    // tests if the date range filters the orders
+    it('should only consider the orders of the date range', async () => {
+      const summary = await service.getSummary(
+        seller.id,
+        seller,
+        '2021-05-04',
+        '2021-05-05',
+        ReportPeriod.Day,
+      )
+
+      expect(summary.timeline).toEqual([
+        expect.objectContaining({ period: '2021-05-05', revenue: 40 }),
+      ])
+    })
+
+    // tests if the sales of other sellers are protected
+    it('should throw a "ForbiddenException" when the user is not the seller', async () => {
+      await expect(service.getSummary(seller.id, buyer)).rejects.toThrow(
+        ForbiddenException,
+      )
+    })
+  })
+})
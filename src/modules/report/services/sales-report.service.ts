@@ -0,0 +1,266 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository, SelectQueryBuilder } from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { SalesPeriodDto } from '../models/sales-period.dto'
+import { SalesSummaryDto } from '../models/sales-summary.dto'
+import { TopProductDto } from '../models/top-product.dto'
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { ReportPeriod } from 'src/models/enums/report-period.enum'
+
+import { UserService } from 'src/modules/user/services/user.service'
+
+import { toCsv } from 'src/utils/csv'
+import {
+  DateRange,
+  parseDateRange,
+  parseReportLimit,
+  parseReportPeriod,
+  toDatabaseDate,
+  truncateDate,
+} from 'src/utils/sql'
+
+/**
+ * The app's main sales report service class
+ *
+ * Class that summarizes the sales of the sellers
+ */
+@Injectable()
+export class SalesReportService {
+  /**
+   * The order status that count as a sale, the orders that were not paid,
+   * were canceled or were refunded are ignored
+   */
+  public static readonly soldStatuses = [
+    OrderStatus.Paid,
+    OrderStatus.Confirmed,
+    OrderStatus.Preparing,
+    OrderStatus.Shipped,
+    OrderStatus.InTransit,
+    OrderStatus.Delivered,
+    OrderStatus.Returned,
+  ]
+
+  /**
+   * The sql expression that calculates the amount paid for some order
+   * line, based on its price snapshot
+   */
+  public static readonly revenueExpression =
+    'COALESCE(productGroup.unitPrice, product.price) * (1 - COALESCE(productGroup.discount, 0)) * productGroup.amount'
+
+  public constructor(
+    @InjectRepository(ProductGroupEntity)
+    private readonly repository: Repository<ProductGroupEntity>,
+  ) {}
+
+  /**
+   * Method that summarizes the sales of some seller in a date range
+   *
+   * @param sellerId stores the seller id
+   * @param requestUser stores the logged user data
+   * @param from stores the start date of the range
+   * @param to stores the end date of the range
+   * @param period stores the period used to group the timeline
+   * @param limit stores the amount of top products
+   * @throws {ForbiddenException} if the request user has no permission to
+   * access those sources
+   * @throws {BadRequestException} if some filter is invalid
+   * @returns the sales summary
+   */
+  public async getSummary(
+    sellerId: number,
+    requestUser: UserEntity,
+    from?: string,
+    to?: string,
+    period?: string,
+    limit?: number,
+  ): Promise<SalesSummaryDto> {
+    if (!UserService.hasPermissions(sellerId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    const reportPeriod = parseReportPeriod(period)
+    const reportLimit = parseReportLimit(limit)
+    const range = parseDateRange(from, to)
+
+    const totals = await this.createSalesQuery(range, sellerId).getRawOne()
+    const timeline = await this.getTimeline(range, reportPeriod, sellerId)
+
+    const topProducts = await this.createSalesQuery(range, sellerId)
+      .addSelect('product.id', 'productId')
+      .addSelect('product.name', 'productName')
+      .groupBy('product.id')
+      .addGroupBy('product.name')
+      .orderBy('revenue', 'DESC')
+      .addOrderBy('product.id', 'ASC')
+      .limit(reportLimit)
+      .getRawMany()
+
+    return new SalesSummaryDto({
+      from: range.from,
+      to: range.to,
+      period: reportPeriod,
+      ...SalesReportService.toSalesPeriod(totals),
+      timeline,
+      topProducts: topProducts.map(
+        raw =>
+          new TopProductDto({
+            productId: Number(raw.productId),
+            productName: raw.productName,
+            revenue: SalesReportService.round(raw.revenue),
+            unitsSold: Number(raw.unitsSold ?? 0),
+            orderCount: Number(raw.orderCount ?? 0),
+          }),
+      ),
+    })
+  }
+
+  /**
+   * Method that groups the sales of some date range by period. When no
+   * seller is informed, the sales of the whole marketplace are grouped
+   *
+   * @param range stores the date range
+   * @param period stores the period used to group the sales
+   * @param sellerId stores the seller id
+   * @returns the sales of each period
+   */
+  public async getTimeline(
+    range: DateRange,
+    period: ReportPeriod,
+    sellerId?: number,
+  ): Promise<SalesPeriodDto[]> {
+    const timeline = await this.createSalesQuery(range, sellerId)
+      .addSelect(
+        truncateDate(
+          this.repository.manager.connection,
+          'salesOrder.createdAt',
+          period,
+        ),
+        'period',
+      )
+      .groupBy('period')
+      .orderBy('period', 'ASC')
+      .getRawMany()
+
+    return timeline.map(
+      raw =>
+        new SalesPeriodDto({
+          period: raw.period,
+          ...SalesReportService.toSalesPeriod(raw),
+        }),
+    )
+  }
+
+  /**
+   * Method that converts some sales timeline to csv
+   *
+   * @param timeline stores the sales of each period
+   * @returns the csv file content
+   */
+  public static timelineToCsv(timeline: SalesPeriodDto[]): string {
+    return toCsv(
+      ['period', 'revenue', 'unitsSold', 'orderCount', 'averageOrderValue'],
+      timeline.map(item => [
+        item.period,
+        item.revenue,
+        item.unitsSold,
+        item.orderCount,
+        item.averageOrderValue,
+      ]),
+    )
+  }
+
+  /**
+   * Method that converts the top products of some sales summary to csv
+   *
+   * @param summary stores the sales summary
+   * @returns the csv file content
+   */
+  public static topProductsToCsv(summary: SalesSummaryDto): string {
+    return toCsv(
+      ['productId', 'productName', 'revenue', 'unitsSold', 'orderCount'],
+      summary.topProducts.map(item => [
+        item.productId,
+        item.productName,
+        item.revenue,
+        item.unitsSold,
+        item.orderCount,
+      ]),
+    )
+  }
+
+  /**
+   * Method that creates the query that aggregates the order lines that
+   * were sold in some date range. When the seller is informed, only the
+   * lines of its products are considered
+   *
+   * @param range stores the date range
+   * @param sellerId stores the seller id
+   * @returns the query builder
+   */
+  public createSalesQuery(
+    range: DateRange,
+    sellerId?: number,
+  ): SelectQueryBuilder<ProductGroupEntity> {
+    const { connection } = this.repository.manager
+
+    const query = this.repository
+      .createQueryBuilder('productGroup')
+      .innerJoin('productGroup.order', 'salesOrder')
+      .innerJoin('productGroup.product', 'product')
+      .select(`SUM(${SalesReportService.revenueExpression})`, 'revenue')
+      .addSelect('SUM(productGroup.amount)', 'unitsSold')
+      .addSelect('COUNT(DISTINCT salesOrder.id)', 'orderCount')
+      .where('salesOrder.isActive = :isActive', { isActive: true })
+      .andWhere('salesOrder.status IN (:...statuses)', {
+        statuses: SalesReportService.soldStatuses,
+      })
+      .andWhere('salesOrder.createdAt >= :from', {
+        from: toDatabaseDate(connection, OrderEntity, 'createdAt', range.from),
+      })
+      .andWhere('salesOrder.createdAt < :to', {
+        to: toDatabaseDate(connection, OrderEntity, 'createdAt', range.to),
+      })
+
+    return sellerId === undefined
+      ? query
+      : query.andWhere('product.userId = :sellerId', { sellerId })
+  }
+
+  /**
+   * Method that converts the raw aggregates of some query
+   *
+   * @param raw stores the raw query result
+   * @returns the revenue, units sold, order count and average order value
+   */
+  public static toSalesPeriod(
+    raw: Record<string, unknown>,
+  ): Omit<SalesPeriodDto, 'period'> {
+    const revenue = SalesReportService.round(raw?.revenue)
+    const orderCount = Number(raw?.orderCount ?? 0)
+
+    return {
+      revenue,
+      unitsSold: Number(raw?.unitsSold ?? 0),
+      orderCount,
+      averageOrderValue:
+        orderCount > 0 ? SalesReportService.round(revenue / orderCount) : 0,
+    }
+  }
+
+  /**
+   * Method that rounds some money value to cents
+   *
+   * @param value stores the value returned by the database
+   * @returns the rounded value
+   */
+  public static round(value: unknown): number {
+    return Math.round(Number(value ?? 0) * 100) / 100
+  }
+}
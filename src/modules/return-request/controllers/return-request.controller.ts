@@ -0,0 +1,265 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  UseInterceptors,
+} from '@nestjs/common'
+import {
+  ApiBadRequestResponse,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+import {
+  Crud,
+  CrudRequest,
+  CrudRequestInterceptor,
+  GetManyDefaultResponse,
+  ParsedRequest,
+} from '@nestjsx/crud'
+
+import { ApiQueryGetMany } from 'src/decorators/api-query-get-many/api-query-get-many.decorator'
+import { ApiQueryGet } from 'src/decorators/api-query-get/api-query-get.decorator'
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CreateReturnRequestDto } from '../models/create-return-request.dto'
+import { RejectReturnRequestDto } from '../models/reject-return-request.dto'
+import {
+  GetManyReturnRequestDtoResponse,
+  ReturnRequestDto,
+} from '../models/return-request.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ReturnRequestService } from '../services/return-request.service'
+
+import { map } from 'src/utils/crud'
+
+/**
+ * The app's main return request controller class
+ *
+ * Class that deals with the return request routes
+ */
+@Crud({
+  model: {
+    type: ReturnRequestDto,
+  },
+  query: {
+    persist: ['id', 'isActive'],
+    join: {
+      order: {},
+      user: {},
+      seller: {},
+      items: {},
+      'items.productGroup': {},
+    },
+  },
+  routes: {
+    exclude: [
+      'createManyBase',
+      'createOneBase',
+      'updateOneBase',
+      'replaceOneBase',
+      'recoverOneBase',
+      'getOneBase',
+      'getManyBase',
+      'deleteOneBase',
+    ],
+  },
+})
+@UseInterceptors(CrudRequestInterceptor)
+@ApiTags('return-requests')
+@Controller('return-requests')
+export class ReturnRequestController {
+  public constructor(
+    private readonly returnRequestService: ReturnRequestService,
+  ) {}
+
+  /**
+   * Method that is called when the user access the "return-requests" route
+   * with "POST" method
+   *
+   * @param requestUser stores the logged user data
+   * @param createReturnRequestPayload stores the return request data
+   * @throws {EntityNotFoundException} if the order or some of the product
+   * groups were not found
+   * @throws {ForbiddenException} if the logged user is not the order buyer
+   * @returns the created return request data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Asks to return some items of a delivered order' })
+  @ApiCreatedResponse({
+    description: 'Gets the created return request data',
+    type: ReturnRequestDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'The informed items can not be returned',
+  })
+  @ApiNotFoundResponse({ description: 'Order or product group not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Post()
+  public async create(
+    @RequestUser() requestUser: UserEntity,
+    @Body() createReturnRequestPayload: CreateReturnRequestDto,
+  ): Promise<ReturnRequestDto> {
+    const entity = await this.returnRequestService.create(
+      requestUser,
+      createReturnRequestPayload,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "return-requests" route
+   * with "GET" method
+   *
+   * @param crudRequest stores the joins, filters, etc
+   * @returns all the found data
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiQueryGetMany()
+  @ApiOperation({ summary: 'Retrieves all the return requests' })
+  @ApiOkResponse({
+    description: 'Get many base response',
+    type: GetManyReturnRequestDtoResponse,
+  })
+  @Get()
+  public async listMany(
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<ReturnRequestDto> | ReturnRequestDto[]> {
+    const entities = await this.returnRequestService.listMany(crudRequest)
+    return map(entities, entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the "return-requests/:id"
+   * route with "GET" method
+   *
+   * @param returnRequestId stores the return request id
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @throws {EntityNotFoundException} if the return request was not found
+   * @throws {ForbiddenException} if the logged user is not the buyer, the
+   * seller or an admin
+   * @returns the found return request data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiQueryGet()
+  @ApiOperation({ summary: 'Retrieves a single return request' })
+  @ApiOkResponse({
+    description: 'Retrieve a single ReturnRequestDto',
+    type: ReturnRequestDto,
+  })
+  @ApiNotFoundResponse({ description: 'Return request not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Get(':id')
+  public async listOne(
+    @Param('id') returnRequestId: number,
+    @RequestUser() requestUser: UserEntity,
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<ReturnRequestDto> {
+    const entity = await this.returnRequestService.listOne(
+      returnRequestId,
+      requestUser,
+      crudRequest,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "return-requests/:id/approve" route with "POST" method
+   *
+   * @param returnRequestId stores the return request id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the return request was not found
+   * @throws {ForbiddenException} if the logged user is not the seller or an
+   * admin
+   * @throws {ReturnRequestAlreadyReviewedException} if the return request
+   * was already approved or rejected
+   * @returns the approved return request data
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({
+    summary:
+      'Approves a return request, giving back its items to the stock and refunding the order',
+  })
+  @ApiOkResponse({
+    description: 'Gets the approved return request data',
+    type: ReturnRequestDto,
+  })
+  @ApiNotFoundResponse({ description: 'Return request not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @ApiConflictResponse({
+    description: 'The return request was already reviewed',
+  })
+  @Post(':id/approve')
+  @HttpCode(200)
+  public async approve(
+    @Param('id') returnRequestId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<ReturnRequestDto> {
+    const entity = await this.returnRequestService.approve(
+      returnRequestId,
+      requestUser,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "return-requests/:id/reject" route with "POST" method
+   *
+   * @param returnRequestId stores the return request id
+   * @param requestUser stores the logged user data
+   * @param rejectReturnRequestPayload stores the reason of the rejection
+   * @throws {EntityNotFoundException} if the return request was not found
+   * @throws {ForbiddenException} if the logged user is not the seller or an
+   * admin
+   * @throws {ReturnRequestAlreadyReviewedException} if the return request
+   * was already approved or rejected
+   * @returns the rejected return request data
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Rejects a return request' })
+  @ApiOkResponse({
+    description: 'Gets the rejected return request data',
+    type: ReturnRequestDto,
+  })
+  @ApiNotFoundResponse({ description: 'Return request not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @ApiConflictResponse({
+    description: 'The return request was already reviewed',
+  })
+  @Post(':id/reject')
+  @HttpCode(200)
+  public async reject(
+    @Param('id') returnRequestId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() rejectReturnRequestPayload: RejectReturnRequestDto,
+  ): Promise<ReturnRequestDto> {
+    const entity = await this.returnRequestService.reject(
+      returnRequestId,
+      requestUser,
+      rejectReturnRequestPayload,
+    )
+    return entity.toDto()
+  }
+}
@@ -0,0 +1,127 @@
+import { Controller, Get, UseInterceptors } from '@nestjs/common'
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger'
+import {
+  Crud,
+  CrudRequest,
+  CrudRequestInterceptor,
+  GetManyDefaultResponse,
+  ParsedRequest,
+} from '@nestjsx/crud'
+
+import { ApiQueryGetMany } from 'src/decorators/api-query-get-many/api-query-get-many.decorator'
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import {
+  GetManyReturnRequestDtoResponse,
+  ReturnRequestDto,
+} from '../models/return-request.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ReturnRequestService } from '../services/return-request.service'
+
+import { map } from 'src/utils/crud'
+
+/**
+ * The app's main user return request controller class
+ *
+ * Class that deals with the logged user return requests routes
+ */
+@Crud({
+  model: {
+    type: ReturnRequestDto,
+  },
+  query: {
+    persist: ['id', 'isActive'],
+    join: {
+      order: {},
+      user: {},
+      seller: {},
+      items: {},
+      'items.productGroup': {},
+    },
+  },
+  routes: {
+    exclude: [
+      'createManyBase',
+      'createOneBase',
+      'updateOneBase',
+      'replaceOneBase',
+      'recoverOneBase',
+      'getOneBase',
+      'getManyBase',
+      'deleteOneBase',
+    ],
+  },
+})
+@UseInterceptors(CrudRequestInterceptor)
+@ApiTags('return-requests')
+@Controller('users/me')
+export class UserReturnRequestController {
+  public constructor(
+    private readonly returnRequestService: ReturnRequestService,
+  ) {}
+
+  /**
+   * Method that is called when the user access the
+   * "users/me/return-requests" route with "GET" method
+   *
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @returns all the found data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiQueryGetMany()
+  @ApiOperation({
+    summary: 'Retrieves all the return requests made by the logged user',
+  })
+  @ApiOkResponse({
+    description: 'Gets all the logged user return requests',
+    type: GetManyReturnRequestDtoResponse,
+  })
+  @Get('return-requests')
+  public async listMine(
+    @RequestUser() requestUser: UserEntity,
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<ReturnRequestDto> | ReturnRequestDto[]> {
+    const entities = await this.returnRequestService.listManyByBuyerId(
+      requestUser.id,
+      requestUser,
+      crudRequest,
+    )
+    return map(entities, entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "users/me/sales/return-requests" route with "GET" method
+   *
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @returns all the found data
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiQueryGetMany()
+  @ApiOperation({
+    summary:
+      'Retrieves all the return requests that the logged user must review',
+  })
+  @ApiOkResponse({
+    description: 'Gets all the return requests of the logged user sales',
+    type: GetManyReturnRequestDtoResponse,
+  })
+  @Get('sales/return-requests')
+  public async listReceived(
+    @RequestUser() requestUser: UserEntity,
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<ReturnRequestDto> | ReturnRequestDto[]> {
+    const entities = await this.returnRequestService.listManyBySellerId(
+      requestUser.id,
+      requestUser,
+      crudRequest,
+    )
+    return map(entities, entity => entity.toDto())
+  }
+}
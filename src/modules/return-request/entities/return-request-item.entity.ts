@@ -0,0 +1,86 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne } from 'typeorm'
+
+import { ReturnRequestEntity } from './return-request.entity'
+import { BaseEntity } from 'src/common/base.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+
+import { ReturnRequestItemDto } from '../models/return-request-item.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+
+/**
+ * The app's main return request item entity class
+ *
+ * Class that represents how many units of some order line the buyer wants
+ * to return
+ */
+@Entity('return-request-item')
+export class ReturnRequestItemEntity extends BaseEntity
+  implements ToDto<ReturnRequestItemDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public amount: number
+
+  /**
+   * The amount paid for the returned units, based on the order price
+   * snapshot
+   */
+  @ApiProperty()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0,
+  })
+  public refundAmount: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public returnRequestId: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public productGroupId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => ReturnRequestEntity })
+  @ManyToOne(
+    () => ReturnRequestEntity,
+    returnRequest => returnRequest.items,
+    { onDelete: 'CASCADE' },
+  )
+  public returnRequest?: ReturnRequestEntity
+
+  @ApiPropertyOptional({ type: () => ProductGroupEntity })
+  @ManyToOne(() => ProductGroupEntity, { onDelete: 'CASCADE' })
+  public productGroup?: ProductGroupEntity
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<ReturnRequestItemEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): ReturnRequestItemDto {
+    return new ReturnRequestItemDto(this)
+  }
+}
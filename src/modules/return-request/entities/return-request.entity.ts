@@ -0,0 +1,156 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne, OneToMany } from 'typeorm'
+
+import { ReturnRequestItemEntity } from './return-request-item.entity'
+import { BaseEntity } from 'src/common/base.entity'
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { ReturnRequestDto } from '../models/return-request.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+import { ReturnReason } from 'src/models/enums/return-reason.enum'
+import { ReturnRequestStatus } from 'src/models/enums/return-request-status.enum'
+
+/**
+ * The app's main return request entity class
+ *
+ * Class that represents the requests made by the buyers to return some of
+ * the items of a delivered order
+ */
+@Entity('return-request')
+export class ReturnRequestEntity extends BaseEntity
+  implements ToDto<ReturnRequestDto> {
+  //#region Columns
+
+  @ApiProperty({ enum: ReturnRequestStatus })
+  @Column({
+    type: 'varchar',
+    length: 16,
+    nullable: false,
+    default: ReturnRequestStatus.Requested,
+  })
+  public status: ReturnRequestStatus
+
+  @ApiProperty({ enum: ReturnReason })
+  @Column({
+    type: 'varchar',
+    length: 32,
+    nullable: false,
+  })
+  public reason: ReturnReason
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 1024,
+    nullable: true,
+  })
+  public description?: string
+
+  /**
+   * The urls of the photos uploaded through the media module that prove
+   * the reason of the return
+   */
+  @ApiProperty({ type: String, isArray: true })
+  @Column({
+    type: 'simple-json',
+    nullable: false,
+  })
+  public photoUrls: string[]
+
+  /**
+   * The amount that must be given back to the buyer, it is only added to
+   * the order refunded amount when the request is approved
+   */
+  @ApiProperty()
+  @Column({
+    type: 'float',
+    nullable: false,
+    default: 0,
+  })
+  public refundAmount: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  public rejectionReason?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    nullable: true,
+  })
+  public reviewedAt?: Date
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public reviewerId?: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public orderId: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public userId: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public sellerId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => OrderEntity })
+  @ManyToOne(() => OrderEntity, { onDelete: 'CASCADE' })
+  public order?: OrderEntity
+
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  public user?: UserEntity
+
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  public seller?: UserEntity
+
+  @ApiPropertyOptional({
+    type: () => ReturnRequestItemEntity,
+    isArray: true,
+  })
+  @OneToMany(
+    () => ReturnRequestItemEntity,
+    item => item.returnRequest,
+  )
+  public items?: ReturnRequestItemEntity[]
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<ReturnRequestEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): ReturnRequestDto {
+    return new ReturnRequestDto(this)
+  }
+}
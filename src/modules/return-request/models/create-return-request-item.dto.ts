@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsDefined, IsNumber, Min } from 'class-validator'
+
+/**
+ * The app's main create return request item dto class
+ *
+ * Class that handles the dto sent by the user to choose how many units of
+ * some order line will be returned
+ */
+export class CreateReturnRequestItemDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the product group id' })
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  public productGroupId: number
+
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the amount' })
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public amount: number
+}
@@ -0,0 +1,70 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { CreateReturnRequestItemDto } from './create-return-request-item.dto'
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+import { ReturnReason } from 'src/models/enums/return-reason.enum'
+
+import { Type } from 'class-transformer'
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsDefined,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator'
+
+/**
+ * The app's main create return request dto class
+ *
+ * Class that handles the dto sent by the user to ask to return some items
+ * of an order
+ */
+export class CreateReturnRequestDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the order id' })
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  public orderId: number
+
+  @ApiProperty({ enum: ReturnReason })
+  @IsDefined({ message: 'It is required to send the reason' })
+  @IsEnum(ReturnReason, {
+    message: 'It is required to send a valid return reason',
+  })
+  public reason: ReturnReason
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @MaxLength(1024, {
+    message: 'The description must have at most 1024 characters',
+  })
+  public description?: string
+
+  @ApiPropertyOptional({
+    type: String,
+    isArray: true,
+    description: 'The urls returned by the "medias/upload" route',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsUrl({}, { each: true, message: 'It is required to send valid urls' })
+  public photoUrls?: string[]
+
+  @ApiProperty({ type: () => CreateReturnRequestItemDto, isArray: true })
+  @IsDefined({ message: 'It is required to send the items' })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => CreateReturnRequestItemDto)
+  public items: CreateReturnRequestItemDto[]
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsDefined, IsNotEmpty, IsString, MaxLength } from 'class-validator'
+
+/**
+ * The app's main reject return request dto class
+ *
+ * Class that handles the dto sent by the seller to reject a return request
+ */
+export class RejectReturnRequestDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the reason' })
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(255, {
+    message: 'The reason must have at most 255 characters',
+  })
+  public reason: string
+}
@@ -0,0 +1,44 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { ReturnRequestItemEntity } from '../entities/return-request-item.entity'
+
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { ProductGroupDto } from 'src/modules/product-group/models/product-group.dto'
+
+/**
+ * The app's main return request item dto class
+ *
+ * Class that deals with the return request item return data
+ */
+export class ReturnRequestItemDto extends BaseResponseDto {
+  @ApiProperty()
+  public amount: number
+
+  @ApiProperty()
+  public refundAmount: number
+
+  @ApiProperty()
+  public returnRequestId: number
+
+  @ApiProperty()
+  public productGroupId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => ProductGroupDto })
+  public productGroup?: ProductGroupDto
+
+  //#endregion
+
+  public constructor(entity: ReturnRequestItemEntity) {
+    super(entity)
+
+    this.amount = entity.amount
+    this.refundAmount = entity.refundAmount
+    this.returnRequestId = entity.returnRequestId
+    this.productGroupId = entity.productGroupId
+
+    // relations
+    this.productGroup = entity.productGroup?.toDto()
+  }
+}
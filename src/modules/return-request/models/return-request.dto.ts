@@ -0,0 +1,102 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { ReturnRequestEntity } from '../entities/return-request.entity'
+
+import { ReturnRequestItemDto } from './return-request-item.dto'
+import { BaseGetManyDefaultResponseDto } from 'src/common/base-get-many-default-response.dto'
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { ReturnReason } from 'src/models/enums/return-reason.enum'
+import { ReturnRequestStatus } from 'src/models/enums/return-request-status.enum'
+import { OrderDto } from 'src/modules/order/models/order.dto'
+import { UserDto } from 'src/modules/user/models/user.dto'
+
+/**
+ * The app's main return request dto class
+ *
+ * Class that deals with the return request return data
+ */
+export class ReturnRequestDto extends BaseResponseDto {
+  @ApiProperty({ enum: ReturnRequestStatus })
+  public status: ReturnRequestStatus
+
+  @ApiProperty({ enum: ReturnReason })
+  public reason: ReturnReason
+
+  @ApiPropertyOptional()
+  public description?: string
+
+  @ApiProperty({ type: String, isArray: true })
+  public photoUrls: string[]
+
+  @ApiProperty()
+  public refundAmount: number
+
+  @ApiPropertyOptional()
+  public rejectionReason?: string
+
+  @ApiPropertyOptional()
+  public reviewedAt?: Date
+
+  @ApiPropertyOptional()
+  public reviewerId?: number
+
+  @ApiProperty()
+  public orderId: number
+
+  @ApiProperty()
+  public userId: number
+
+  @ApiProperty()
+  public sellerId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => OrderDto })
+  public order?: OrderDto
+
+  @ApiPropertyOptional({ type: () => UserDto })
+  public user?: UserDto
+
+  @ApiPropertyOptional({ type: () => UserDto })
+  public seller?: UserDto
+
+  @ApiPropertyOptional({
+    type: () => ReturnRequestItemDto,
+    isArray: true,
+  })
+  public items?: ReturnRequestItemDto[]
+
+  //#endregion
+
+  public constructor(entity: ReturnRequestEntity) {
+    super(entity)
+
+    this.status = entity.status
+    this.reason = entity.reason
+    this.description = entity.description
+    this.photoUrls = entity.photoUrls ?? []
+    this.refundAmount = entity.refundAmount
+    this.rejectionReason = entity.rejectionReason
+    this.reviewedAt = entity.reviewedAt
+    this.reviewerId = entity.reviewerId
+    this.orderId = entity.orderId
+    this.userId = entity.userId
+    this.sellerId = entity.sellerId
+
+    // relations
+    this.order = entity.order?.toDto()
+    this.user = entity.user?.toDto()
+    this.seller = entity.seller?.toDto()
+    this.items = entity.items?.map(item => item.toDto())
+  }
+}
+
+/**
+ * The app's main get many return request dto response
+ *
+ * Class that deals with the return request return data with pagination
+ */
+export class GetManyReturnRequestDtoResponse extends BaseGetManyDefaultResponseDto {
+  @ApiProperty({ type: ReturnRequestDto, isArray: true })
+  public data: ReturnRequestDto[]
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { ReturnRequestItemEntity } from './entities/return-request-item.entity'
+import { ReturnRequestEntity } from './entities/return-request.entity'
+
+import { ReturnRequestService } from './services/return-request.service'
+
+import { ReturnRequestController } from './controllers/return-request.controller'
+import { UserReturnRequestController } from './controllers/user-return-request.controller'
+
+import { MediaModule } from '../media/media.module'
+
+@Module({
+  imports: [
+    MediaModule,
+    TypeOrmModule.forFeature([ReturnRequestEntity, ReturnRequestItemEntity]),
+  ],
+  controllers: [ReturnRequestController, UserReturnRequestController],
+  providers: [ReturnRequestService],
+  exports: [ReturnRequestService],
+})
+export class ReturnRequestModule {}
@@ -0,0 +1,338 @@
+import { BadRequestException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { ReturnRequestAlreadyReviewedException } from 'src/exceptions/conflict/return-request-already-reviewed.exception'
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+
+import { ReturnRequestEntity } from '../entities/return-request.entity'
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { ReturnReason } from 'src/models/enums/return-reason.enum'
+import { ReturnRequestStatus } from 'src/models/enums/return-request-status.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ReturnRequestService } from './return-request.service'
+import { FirebaseService } from 'src/modules/firebase/services/firebase.service'
+import { MediaService } from 'src/modules/media/services/media.service'
+
+describe('ReturnRequestService', () => {
+  let service: ReturnRequestService
+  let sequence = 0
+
+  const bucket = 'paperbook.appspot.com'
+  const photoUrl = `https://storage.googleapis.com/${bucket}/photo?Signature=1`
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        ReturnRequestService,
+        {
+          provide: getRepositoryToken(ReturnRequestEntity),
+          useValue: getRepository(ReturnRequestEntity),
+        },
+        MediaService,
+        FirebaseService,
+        { provide: ConfigService, useValue: { get: () => bucket } },
+      ],
+    }).compile()
+
+    service = await module.resolve(ReturnRequestService)
+  })
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Common): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `return-request-${sequence}@test.com`,
+      password: '123456',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates an order with three units of one product of the
+   * seller
+   *
+   * @param buyer stores the buyer entity
+   * @param seller stores the seller entity
+   * @param status stores the order status
+   * @returns the created order and its only product group
+   */
+  async function createOrder(
+    buyer: UserEntity,
+    seller: UserEntity,
+    status = OrderStatus.Delivered,
+  ): Promise<[OrderEntity, ProductGroupEntity]> {
+    sequence++
+    const product = await new ProductEntity({
+      name: `PRODUCT-TEST-${sequence}`,
+      description: 'PRODUCT-TEST',
+      price: 50,
+      stockAmount: 7,
+      userId: seller.id,
+    }).save()
+
+    const order = await new OrderEntity({
+      trackingCode: `RETURN-${sequence}`,
+      status,
+      subtotal: 150,
+      discountTotal: 30,
+      couponDiscount: 12,
+      total: 108,
+      userId: buyer.id,
+      sellerId: seller.id,
+    }).save()
+
+    const productGroup = await new ProductGroupEntity({
+      productId: product.id,
+      orderId: order.id,
+      amount: 3,
+      productName: product.name,
+      unitPrice: 50,
+      discount: 0.2,
+    }).save()
+
+    return [order, productGroup]
+  }
+
+  describe('create', () => {
+    // tests if the refund considers the snapshot prices and the coupon
+    it('should calculate the refund of the returned units', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const [order, productGroup] = await createOrder(buyer, seller)
+
+      const entity = await service.create(buyer, {
+        orderId: order.id,
+        reason: ReturnReason.Damaged,
+        photoUrls: [photoUrl],
+        items: [{ productGroupId: productGroup.id, amount: 2 }],
+      })
+
+      // 2 x 40, minus the 10% of the items that the coupon discounted
+      expect(entity).toMatchObject({
+        status: ReturnRequestStatus.Requested,
+        refundAmount: 72,
+        sellerId: seller.id,
+        photoUrls: [photoUrl],
+      })
+    })
+
+    // tests if the photos must be kept in the app storage
+    it('should throw a "BadRequestException" when some photo is not in the storage bucket', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const [order, productGroup] = await createOrder(buyer, seller)
+
+      for (const url of [
+        'https://storage.test/photo.png',
+        `https://storage.googleapis.com/other-${bucket}/photo`,
+        `http://storage.googleapis.com/${bucket}/photo`,
+        `https://storage.googleapis.com/${bucket}/`,
+      ]) {
+        await expect(
+          service.create(buyer, {
+            orderId: order.id,
+            reason: ReturnReason.Damaged,
+            photoUrls: [photoUrl, url],
+            items: [{ productGroupId: productGroup.id, amount: 1 }],
+          }),
+        ).rejects.toThrow(BadRequestException)
+      }
+
+      expect(await ReturnRequestEntity.count({ orderId: order.id })).toBe(0)
+    })
+
+    // tests if the same units can not be returned twice
+    it('should throw a "BadRequestException" when the units were already returned', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const [order, productGroup] = await createOrder(buyer, seller)
+
+      await service.create(buyer, {
+        orderId: order.id,
+        reason: ReturnReason.Defective,
+        items: [{ productGroupId: productGroup.id, amount: 2 }],
+      })
+
+      await expect(
+        service.create(buyer, {
+          orderId: order.id,
+          reason: ReturnReason.Defective,
+          items: [{ productGroupId: productGroup.id, amount: 2 }],
+        }),
+      ).rejects.toThrow(BadRequestException)
+    })
+
+    // tests if only delivered orders can be returned
+    it('should throw a "BadRequestException" when the order was not delivered', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const [order, productGroup] = await createOrder(
+        buyer,
+        seller,
+        OrderStatus.Shipped,
+      )
+
+      await expect(
+        service.create(buyer, {
+          orderId: order.id,
+          reason: ReturnReason.WrongItem,
+          items: [{ productGroupId: productGroup.id, amount: 1 }],
+        }),
+      ).rejects.toThrow(BadRequestException)
+    })
+  })
+
+  describe('approve', () => {
+    // tests if the approval restocks the product and refunds the order
+    it('should restock the product and record the refund in the order', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const [order, productGroup] = await createOrder(buyer, seller)
+
+      const { id } = await service.create(buyer, {
+        orderId: order.id,
+        reason: ReturnReason.NotAsDescribed,
+        items: [{ productGroupId: productGroup.id, amount: 1 }],
+      })
+
+      const entity = await service.approve(id, seller)
+
+      expect(entity.status).toBe(ReturnRequestStatus.Approved)
+      expect(entity.reviewerId).toBe(seller.id)
+      expect(
+        (await ProductEntity.findOne({ id: productGroup.productId }))
+          .stockAmount,
+      ).toBe(8)
+      expect((await OrderEntity.findOne({ id: order.id })).refundedAmount).toBe(
+        36,
+      )
+
+      await expect(
+        service.reject(id, seller, { reason: 'LATE' }),
+      ).rejects.toThrow(ReturnRequestAlreadyReviewedException)
+    })
+
+    // tests if the requests created at the same time can not return more units than bought
+    it('should throw a "BadRequestException" when the approved units exceed the bought ones', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const [order, productGroup] = await createOrder(buyer, seller)
+
+      // each request is created without seeing the other, as if they raced
+      const requests = []
+      for (let index = 0; index < 2; index++) {
+        requests.push(
+          await service.create(buyer, {
+            orderId: order.id,
+            reason: ReturnReason.Defective,
+            items: [{ productGroupId: productGroup.id, amount: 2 }],
+          }),
+        )
+        await ReturnRequestEntity.update(
+          { id: requests[index].id },
+          { status: ReturnRequestStatus.Rejected },
+        )
+      }
+      await ReturnRequestEntity.update(
+        { orderId: order.id },
+        { status: ReturnRequestStatus.Requested },
+      )
+
+      await service.approve(requests[0].id, seller)
+
+      await expect(service.approve(requests[1].id, seller)).rejects.toThrow(
+        BadRequestException,
+      )
+
+      expect(
+        (await ReturnRequestEntity.findOne({ id: requests[1].id })).status,
+      ).toBe(ReturnRequestStatus.Requested)
+      expect((await OrderEntity.findOne({ id: order.id })).refundedAmount).toBe(
+        72,
+      )
+    })
+
+    // tests if only the seller of the order can review the request
+    it('should throw a "ForbiddenException" when the user is not the seller', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const [order, productGroup] = await createOrder(buyer, seller)
+
+      const { id } = await service.create(buyer, {
+        orderId: order.id,
+        reason: ReturnReason.NoLongerNeeded,
+        items: [{ productGroupId: productGroup.id, amount: 1 }],
+      })
+
+      await expect(
+        service.approve(id, await createUser(RolesEnum.Seller)),
+      ).rejects.toThrow(ForbiddenException)
+    })
+  })
+
+  describe('reject', () => {
+    // tests if the rejected units can be asked to be returned again
+    it('should release the units of the rejected request', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const [order, productGroup] = await createOrder(buyer, seller)
+
+      const { id } = await service.create(buyer, {
+        orderId: order.id,
+        reason: ReturnReason.Other,
+        items: [{ productGroupId: productGroup.id, amount: 3 }],
+      })
+
+      const entity = await service.reject(id, seller, {
+        reason: 'The product was used',
+      })
+
+      expect(entity).toMatchObject({
+        status: ReturnRequestStatus.Rejected,
+        rejectionReason: 'The product was used',
+      })
+      expect((await OrderEntity.findOne({ id: order.id })).refundedAmount).toBe(
+        0,
+      )
+
+      await expect(
+        service.create(buyer, {
+          orderId: order.id,
+          reason: ReturnReason.Damaged,
+          items: [{ productGroupId: productGroup.id, amount: 3 }],
+        }),
+      ).resolves.toBeDefined()
+    })
+  })
+})
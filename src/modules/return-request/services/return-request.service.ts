@@ -0,0 +1,601 @@
+import { BadRequestException, Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { CrudRequest, GetManyDefaultResponse } from '@nestjsx/crud'
+import { TypeOrmCrudService } from '@nestjsx/crud-typeorm'
+import { EntityManager, In, Repository } from 'typeorm'
+
+import { ReturnRequestAlreadyReviewedException } from 'src/exceptions/conflict/return-request-already-reviewed.exception'
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { ReturnRequestItemEntity } from '../entities/return-request-item.entity'
+import { ReturnRequestEntity } from '../entities/return-request.entity'
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CreateReturnRequestDto } from '../models/create-return-request.dto'
+import { RejectReturnRequestDto } from '../models/reject-return-request.dto'
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { ReturnRequestStatus } from 'src/models/enums/return-request-status.enum'
+
+import { MediaService } from 'src/modules/media/services/media.service'
+import { NotificationService } from 'src/modules/notification/services/notification.service'
+import { ProductSubscriptionService } from 'src/modules/product-subscription/services/product-subscription.service'
+import { ProductVariantService } from 'src/modules/product/services/product-variant.service'
+import { UserService } from 'src/modules/user/services/user.service'
+
+/**
+ * The app's main return request service class
+ *
+ * Class that deals with the requests to return the items of the orders
+ */
+@Injectable()
+export class ReturnRequestService extends TypeOrmCrudService<
+  ReturnRequestEntity
+> {
+  public constructor(
+    @InjectRepository(ReturnRequestEntity)
+    repository: Repository<ReturnRequestEntity>,
+    private readonly mediaService: MediaService,
+  ) {
+    super(repository)
+  }
+
+  /**
+   * Method that creates a new return request for some items of a delivered
+   * order
+   *
+   * @param requestUser stores the logged user data
+   * @param createReturnRequestPayload stores the return request data
+   * @throws {EntityNotFoundException} if the order or some of the product
+   * groups were not found
+   * @throws {ForbiddenException} if the logged user is not the order buyer
+   * @throws {BadRequestException} if the order was not delivered yet, if
+   * some product group is repeated, if the amount exceeds what can still
+   * be returned or if some photo was not uploaded to the app storage
+   * @returns the created return request entity
+   */
+  public async create(
+    requestUser: UserEntity,
+    createReturnRequestPayload: CreateReturnRequestDto,
+  ): Promise<ReturnRequestEntity> {
+    const { orderId, items, photoUrls, ...rest } = createReturnRequestPayload
+
+    const order = await OrderEntity.findOne({ id: orderId })
+
+    if (!order || !order.isActive) {
+      throw new EntityNotFoundException(orderId, OrderEntity)
+    }
+
+    if (order.userId !== requestUser.id) {
+      throw new ForbiddenException()
+    }
+
+    if (order.status !== OrderStatus.Delivered) {
+      throw new BadRequestException(
+        'Only the items of delivered orders can be returned',
+      )
+    }
+
+    if (photoUrls?.some(url => !this.mediaService.isStorageUrl(url))) {
+      throw new BadRequestException(
+        'The photos must be uploaded through the "medias/upload" route',
+      )
+    }
+
+    const productGroupIds = items.map(item => item.productGroupId)
+
+    if (new Set(productGroupIds).size !== productGroupIds.length) {
+      throw new BadRequestException(
+        'Each product group can only be informed once',
+      )
+    }
+
+    return await this.repo.manager.transaction(async manager => {
+      // locks the order before counting its returned units, so concurrent
+      // requests for the same order wait for this one to end
+      await ReturnRequestService.lockOrder(manager, order.id)
+
+      const productGroups = await manager.find(ProductGroupEntity, {
+        where: { id: In(productGroupIds), orderId: order.id },
+        relations: ['product'],
+      })
+
+      for (const productGroupId of productGroupIds) {
+        if (!productGroups.some(({ id }) => id === productGroupId)) {
+          throw new EntityNotFoundException(productGroupId, ProductGroupEntity)
+        }
+      }
+
+      // the orders created before the split by seller have no seller, so
+      // the seller is found through the returned products
+      const sellerIds = new Set(
+        productGroups.map(({ product }) => order.sellerId ?? product?.userId),
+      )
+
+      if (sellerIds.size !== 1) {
+        throw new BadRequestException(
+          'The items of different sellers must be returned separately',
+        )
+      }
+
+      const returnedAmounts = await ReturnRequestService.getReturnedAmounts(
+        manager.getRepository(ReturnRequestItemEntity),
+        productGroupIds,
+      )
+
+      const returnItems = items.map(({ productGroupId, amount }) => {
+        const productGroup = productGroups.find(
+          ({ id }) => id === productGroupId,
+        )
+        const available =
+          (productGroup.amount ?? 1) - (returnedAmounts[productGroupId] ?? 0)
+
+        if (amount > available) {
+          throw new BadRequestException(
+            `Only ${Math.max(
+              available,
+              0,
+            )} units of the product group ${productGroupId} can be returned`,
+          )
+        }
+
+        return new ReturnRequestItemEntity({
+          productGroupId,
+          amount,
+          refundAmount: ReturnRequestService.calculateRefund(
+            order,
+            productGroup,
+            amount,
+          ),
+        })
+      })
+
+      const round = (value: number) => Math.round(value * 100) / 100
+
+      const entity = await manager.save(
+        new ReturnRequestEntity({
+          ...rest,
+          photoUrls: photoUrls ?? [],
+          refundAmount: round(
+            returnItems.reduce((sum, item) => sum + item.refundAmount, 0),
+          ),
+          status: ReturnRequestStatus.Requested,
+          orderId: order.id,
+          userId: requestUser.id,
+          sellerId: [...sellerIds][0],
+        }),
+      )
+
+      entity.items = await manager.save(
+        returnItems.map(item =>
+          Object.assign(item, { returnRequestId: entity.id }),
+        ),
+      )
+
+      return entity
+    })
+  }
+
+  /**
+   * Method that gets all the return requests, it is only used by the admins
+   *
+   * @param crudRequest stores the joins, filters, etc
+   * @returns the found elements
+   */
+  public async listMany(
+    crudRequest?: CrudRequest,
+  ): Promise<
+    GetManyDefaultResponse<ReturnRequestEntity> | ReturnRequestEntity[]
+  > {
+    return await super.getMany(crudRequest)
+  }
+
+  /**
+   * Method that gets the return requests made by some buyer
+   *
+   * @param userId stores the buyer id
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @throws {ForbiddenException} if the request user has no permission to
+   * access those sources
+   * @returns the found elements
+   */
+  public async listManyByBuyerId(
+    userId: number,
+    requestUser: UserEntity,
+    crudRequest?: CrudRequest,
+  ): Promise<
+    GetManyDefaultResponse<ReturnRequestEntity> | ReturnRequestEntity[]
+  > {
+    return await this.listManyByField(
+      'userId',
+      userId,
+      requestUser,
+      crudRequest,
+    )
+  }
+
+  /**
+   * Method that gets the return requests that some seller must review
+   *
+   * @param sellerId stores the seller id
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @throws {ForbiddenException} if the request user has no permission to
+   * access those sources
+   * @returns the found elements
+   */
+  public async listManyBySellerId(
+    sellerId: number,
+    requestUser: UserEntity,
+    crudRequest?: CrudRequest,
+  ): Promise<
+    GetManyDefaultResponse<ReturnRequestEntity> | ReturnRequestEntity[]
+  > {
+    return await this.listManyByField(
+      'sellerId',
+      sellerId,
+      requestUser,
+      crudRequest,
+    )
+  }
+
+  /**
+   * Method that gets only one return request entity
+   *
+   * @param returnRequestId stores the return request id
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @throws {EntityNotFoundException} if the return request was not found
+   * @throws {ForbiddenException} if the logged user is not the buyer, the
+   * seller or an admin
+   * @returns the found return request entity
+   */
+  public async listOne(
+    returnRequestId: number,
+    requestUser: UserEntity,
+    crudRequest?: CrudRequest,
+  ): Promise<ReturnRequestEntity> {
+    const entity = crudRequest
+      ? await super.getOne(crudRequest).catch(() => undefined)
+      : await ReturnRequestEntity.findOne({
+          where: { id: returnRequestId },
+          relations: ['items'],
+        })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(returnRequestId, ReturnRequestEntity)
+    }
+
+    if (
+      entity.userId !== requestUser.id &&
+      entity.sellerId !== requestUser.id &&
+      !UserService.isAdminUser(requestUser)
+    ) {
+      throw new ForbiddenException()
+    }
+
+    return entity
+  }
+
+  /**
+   * Method that approves some return request, putting the returned units
+   * back in stock and recording the refund in the order
+   *
+   * @param returnRequestId stores the return request id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the return request was not found
+   * @throws {ForbiddenException} if the logged user is not the seller or an
+   * admin
+   * @throws {ReturnRequestAlreadyReviewedException} if the return request
+   * was already approved or rejected
+   * @throws {BadRequestException} if the returned units exceed the bought
+   * ones or if the refunds exceed the order total
+   * @returns the approved return request entity
+   */
+  public async approve(
+    returnRequestId: number,
+    requestUser: UserEntity,
+  ): Promise<ReturnRequestEntity> {
+    const entity = await this.getReviewable(returnRequestId, requestUser)
+
+    await this.repo.manager.transaction(async manager => {
+      // locks the order before counting its returned units and refunds, so
+      // concurrent approvals of the same order wait for this one to end
+      const order = await ReturnRequestService.lockOrder(
+        manager,
+        entity.orderId,
+      )
+
+      await this.markAsReviewed(
+        manager.getRepository(ReturnRequestEntity),
+        entity,
+        requestUser,
+        { status: ReturnRequestStatus.Approved },
+      )
+
+      const items = await manager.find(ReturnRequestItemEntity, {
+        where: { returnRequestId: entity.id },
+        relations: ['productGroup'],
+      })
+
+      // only the approved units were given back, including the ones of this
+      // request
+      const returnedAmounts = await ReturnRequestService.getReturnedAmounts(
+        manager.getRepository(ReturnRequestItemEntity),
+        items.map(({ productGroupId }) => productGroupId),
+        [ReturnRequestStatus.Approved],
+      )
+
+      for (const { productGroup } of items) {
+        if (returnedAmounts[productGroup.id] > (productGroup.amount ?? 1)) {
+          throw new BadRequestException(
+            `Only ${productGroup.amount ?? 1} units of the product group ${
+              productGroup.id
+            } can be returned`,
+          )
+        }
+      }
+
+      const round = (value: number) => Math.round(value * 100) / 100
+
+      if (
+        round((order.refundedAmount ?? 0) + entity.refundAmount) >
+        (order.total ?? 0)
+      ) {
+        throw new BadRequestException(
+          `The refunds of the order ${order.id} can not exceed its total`,
+        )
+      }
+
+      for (const { productGroup, amount } of items) {
+        await manager
+          .createQueryBuilder()
+          .update(ProductEntity)
+          .set({ stockAmount: () => '"stockAmount" + :amount' })
+          .where('id = :productId', { productId: productGroup.productId })
+          .setParameter('amount', amount)
+          .execute()
+
+        const { stockAmount } = await manager.findOne(ProductEntity, {
+          id: productGroup.productId,
+        })
+
+        await NotificationService.notifyStockChange(
+          manager,
+          productGroup.productId,
+          stockAmount - amount,
+        )
+        await ProductSubscriptionService.fulfill(
+          manager,
+          productGroup.productId,
+        )
+        await ProductVariantService.syncStock(manager, productGroup.productId)
+      }
+
+      await manager
+        .createQueryBuilder()
+        .update(OrderEntity)
+        .set({ refundedAmount: () => '"refundedAmount" + :refundAmount' })
+        .where('id = :orderId', { orderId: entity.orderId })
+        .setParameter('refundAmount', entity.refundAmount)
+        .execute()
+    })
+
+    return await this.listOne(entity.id, requestUser)
+  }
+
+  /**
+   * Method that rejects some return request
+   *
+   * @param returnRequestId stores the return request id
+   * @param requestUser stores the logged user data
+   * @param rejectReturnRequestPayload stores the reason of the rejection
+   * @throws {EntityNotFoundException} if the return request was not found
+   * @throws {ForbiddenException} if the logged user is not the seller or an
+   * admin
+   * @throws {ReturnRequestAlreadyReviewedException} if the return request
+   * was already approved or rejected
+   * @returns the rejected return request entity
+   */
+  public async reject(
+    returnRequestId: number,
+    requestUser: UserEntity,
+    rejectReturnRequestPayload: RejectReturnRequestDto,
+  ): Promise<ReturnRequestEntity> {
+    const entity = await this.getReviewable(returnRequestId, requestUser)
+
+    await this.markAsReviewed(this.repo, entity, requestUser, {
+      status: ReturnRequestStatus.Rejected,
+      rejectionReason: rejectReturnRequestPayload.reason,
+    })
+
+    return await this.listOne(entity.id, requestUser)
+  }
+
+  /**
+   * Method that gets the return requests whose some field matches the
+   * informed user
+   *
+   * @param field stores the field that references the user
+   * @param userId stores the user id
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @throws {ForbiddenException} if the request user has no permission to
+   * access those sources
+   * @returns the found elements
+   */
+  private async listManyByField(
+    field: 'userId' | 'sellerId',
+    userId: number,
+    requestUser: UserEntity,
+    crudRequest?: CrudRequest,
+  ): Promise<
+    GetManyDefaultResponse<ReturnRequestEntity> | ReturnRequestEntity[]
+  > {
+    if (!UserService.hasPermissions(userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    crudRequest.parsed.search = {
+      $and: [
+        ...crudRequest.parsed.search.$and,
+        {
+          [field]: {
+            $eq: userId,
+          },
+        },
+      ],
+    }
+
+    return await super.getMany(crudRequest)
+  }
+
+  /**
+   * Method that gets some return request that the logged user can still
+   * review
+   *
+   * @param returnRequestId stores the return request id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the return request was not found
+   * @throws {ForbiddenException} if the logged user is not the seller or an
+   * admin
+   * @throws {ReturnRequestAlreadyReviewedException} if the return request
+   * was already approved or rejected
+   * @returns the found return request entity
+   */
+  private async getReviewable(
+    returnRequestId: number,
+    requestUser: UserEntity,
+  ): Promise<ReturnRequestEntity> {
+    const entity = await ReturnRequestEntity.findOne({ id: returnRequestId })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(returnRequestId, ReturnRequestEntity)
+    }
+
+    if (
+      entity.sellerId !== requestUser.id &&
+      !UserService.isAdminUser(requestUser)
+    ) {
+      throw new ForbiddenException()
+    }
+
+    if (entity.status !== ReturnRequestStatus.Requested) {
+      throw new ReturnRequestAlreadyReviewedException(entity.status)
+    }
+
+    return entity
+  }
+
+  /**
+   * Method that stores the review of some return request, only if no one
+   * reviewed it in the meantime
+   *
+   * @param repository stores the repository used to update the entity
+   * @param entity stores the return request entity
+   * @param requestUser stores the logged user data
+   * @param review stores the review data
+   * @throws {ReturnRequestAlreadyReviewedException} if the return request
+   * was already approved or rejected
+   */
+  private async markAsReviewed(
+    repository: Repository<ReturnRequestEntity>,
+    entity: ReturnRequestEntity,
+    requestUser: UserEntity,
+    review: Pick<ReturnRequestEntity, 'status' | 'rejectionReason'>,
+  ): Promise<void> {
+    const { affected } = await repository.update(
+      { id: entity.id, status: ReturnRequestStatus.Requested },
+      { ...review, reviewedAt: new Date(), reviewerId: requestUser.id },
+    )
+
+    if (affected === 0) {
+      const { status } = await repository.findOne({ id: entity.id })
+      throw new ReturnRequestAlreadyReviewedException(status)
+    }
+  }
+
+  /**
+   * Method that locks the row of some order until the current transaction
+   * ends, and reads it again after the lock is acquired
+   *
+   * @param manager stores the entity manager of the current transaction
+   * @param orderId stores the order id
+   * @returns the locked order entity
+   */
+  private static async lockOrder(
+    manager: EntityManager,
+    orderId: number,
+  ): Promise<OrderEntity> {
+    await manager
+      .createQueryBuilder()
+      .update(OrderEntity)
+      .set({ refundedAmount: () => '"refundedAmount"' })
+      .where('id = :orderId', { orderId })
+      .execute()
+
+    return await manager.findOne(OrderEntity, { id: orderId })
+  }
+
+  /**
+   * Method that sums, for each product group, the units that were already
+   * asked to be returned, by default the ones that were not rejected
+   *
+   * @param repository stores the return request item repository
+   * @param productGroupIds stores the product group ids
+   * @param statuses stores the status of the return requests that are
+   * counted
+   * @returns a map with the returned amount of each product group
+   */
+  private static async getReturnedAmounts(
+    repository: Repository<ReturnRequestItemEntity>,
+    productGroupIds: number[],
+    statuses = [ReturnRequestStatus.Requested, ReturnRequestStatus.Approved],
+  ): Promise<Record<number, number>> {
+    const items = await repository.find({
+      where: { productGroupId: In(productGroupIds) },
+      relations: ['returnRequest'],
+    })
+
+    return items
+      .filter(({ returnRequest }) => statuses.includes(returnRequest.status))
+      .reduce<Record<number, number>>(
+        (amounts, { productGroupId, amount }) => ({
+          ...amounts,
+          [productGroupId]: (amounts[productGroupId] ?? 0) + amount,
+        }),
+        {},
+      )
+  }
+
+  /**
+   * Method that calculates how much the buyer paid for some units of an
+   * order line, sharing the coupon discount proportionally between the
+   * order items
+   *
+   * @param order stores the order entity
+   * @param productGroup stores the order line
+   * @param amount stores the returned units
+   * @returns the refund amount
+   */
+  public static calculateRefund(
+    order: OrderEntity,
+    productGroup: ProductGroupEntity,
+    amount: number,
+  ): number {
+    const round = (value: number) => Math.round(value * 100) / 100
+
+    const unitPrice = productGroup.unitPrice ?? productGroup.product?.price ?? 0
+    const finalUnitPrice = unitPrice * (1 - (productGroup.discount ?? 0))
+
+    const itemsTotal = (order.subtotal ?? 0) - (order.discountTotal ?? 0)
+    const couponShare =
+      itemsTotal > 0 ? Math.min((order.couponDiscount ?? 0) / itemsTotal, 1) : 0
+
+    return round(finalUnitPrice * amount * (1 - couponShare))
+  }
+}
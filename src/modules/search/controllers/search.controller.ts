@@ -13,6 +13,7 @@ import { ApiQueryGetMany } from 'src/decorators/api-query-get-many/api-query-get
 import { ParseBoolOrUndefinedPipe } from 'src/pipes/parse-bool-or-undefined/parse-bool-or-undefined.pipe'
 import { ParseNumberOrUndefinedPipe } from 'src/pipes/parse-number-or-undefined/parse-number-or-undefined.pipe'
 
+import { BookFormat } from 'src/models/enums/book-format.enum'
 import { SortBySearchEnum } from 'src/models/enums/sort-by-search.enum'
 import {
   GetManyProductDtoResponse,
@@ -40,6 +41,11 @@ import { map } from 'src/utils/crud'
       orders: {},
       'user.addresses': {},
       categories: {},
+      authors: {},
+      work: {},
+      parent: {},
+      variants: {},
+      images: {},
       shoppingCarts: {},
       ratings: {},
     },
@@ -75,6 +81,14 @@ export class SearchController {
    * @param freeOfInterests stores a value indicating if the products
    * are free or interests
    * @param sortBy stores a value indicating how the items must be returned
+   * @param isbn stores the book isbn, with or without hyphens
+   * @param authorId stores the author id
+   * @param author stores the author name
+   * @param publisher stores the book publisher
+   * @param edition stores the book edition
+   * @param publicationYear stores the book publication year
+   * @param language stores the book language code
+   * @param format stores the book format
    * @param crudRequest stores the joins, filters, etc;
    * @returns all the found products that match with the queries
    */
@@ -124,6 +138,55 @@ export class SearchController {
     description:
       'Sort the values based on the min price or max price of them with discount',
   })
+  @ApiQuery({
+    required: false,
+    name: 'isbn',
+    type: 'string',
+    description: 'Selects books with the isbn-10 or isbn-13 equals this query',
+  })
+  @ApiQuery({
+    required: false,
+    name: 'authorId',
+    type: 'integer',
+    description: 'Selects books with the author id equals this query',
+  })
+  @ApiQuery({
+    required: false,
+    name: 'author',
+    type: 'string',
+    description: 'Selects books with some author name like this query',
+  })
+  @ApiQuery({
+    required: false,
+    name: 'publisher',
+    type: 'string',
+    description: 'Selects books with the publisher like this query',
+  })
+  @ApiQuery({
+    required: false,
+    name: 'edition',
+    type: 'integer',
+    description: 'Selects books with the edition equals this query',
+  })
+  @ApiQuery({
+    required: false,
+    name: 'publicationYear',
+    type: 'integer',
+    description: 'Selects books published in the year equals this query',
+  })
+  @ApiQuery({
+    required: false,
+    name: 'language',
+    type: 'string',
+    description:
+      'Selects books with the ISO 639-1 language code equals this query',
+  })
+  @ApiQuery({
+    required: false,
+    name: 'format',
+    enum: BookFormat,
+    description: 'Selects books with the format equals this query',
+  })
   @ApiQueryGetMany()
   @ApiOkResponse({
     description: 'Gets all the products that matches with the queries',
@@ -145,6 +208,22 @@ export class SearchController {
     freeOfInterests?: boolean,
     @Query('sortBy')
     sortBy?: SortBySearchEnum,
+    @Query('isbn')
+    isbn?: string,
+    @Query('authorId', ParseNumberOrUndefinedPipe)
+    authorId?: number,
+    @Query('author')
+    author?: string,
+    @Query('publisher')
+    publisher?: string,
+    @Query('edition', ParseNumberOrUndefinedPipe)
+    edition?: number,
+    @Query('publicationYear', ParseNumberOrUndefinedPipe)
+    publicationYear?: number,
+    @Query('language')
+    language?: string,
+    @Query('format')
+    format?: BookFormat,
     @ParsedRequest()
     crudRequest?: CrudRequest,
   ): Promise<GetManyDefaultResponse<ProductDto> | ProductDto[]> {
@@ -156,6 +235,14 @@ export class SearchController {
       state,
       freeOfInterests,
       sortBy,
+      isbn,
+      authorId,
+      author,
+      publisher,
+      edition,
+      publicationYear,
+      language,
+      format,
       crudRequest,
     )
     return map(entities, entity => entity.toDto())
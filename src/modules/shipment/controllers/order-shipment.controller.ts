@@ -0,0 +1,101 @@
+import { Body, Controller, Get, Param, Post } from '@nestjs/common'
+import {
+  ApiBadRequestResponse,
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CreateShipmentDto } from '../models/create-shipment.dto'
+import { OrderTrackingDto } from '../models/order-tracking.dto'
+import { ShipmentDto } from '../models/shipment.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ShipmentService } from '../services/shipment.service'
+
+/**
+ * The app's main order shipment controller class
+ *
+ * Class that deals with the shipments and the tracking of the orders
+ */
+@ApiTags('orders')
+@Controller('orders')
+export class OrderShipmentController {
+  public constructor(private readonly shipmentService: ShipmentService) {}
+
+  /**
+   * Method that is called when the user access the "orders/:id/shipments"
+   * route with "POST" method
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @param createShipmentPayload stores the carrier and the tracking number
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {ForbiddenException} if the logged user is not the seller or an
+   * admin
+   * @returns the created shipment data
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Registers that the order was handed to a carrier' })
+  @ApiCreatedResponse({
+    description: 'Gets the created shipment data',
+    type: ShipmentDto,
+  })
+  @ApiBadRequestResponse({ description: 'The order can not be shipped' })
+  @ApiNotFoundResponse({ description: 'Order not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @ApiConflictResponse({ description: 'The tracking number is already used' })
+  @Post(':id/shipments')
+  public async createShipment(
+    @Param('id') orderId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() createShipmentPayload: CreateShipmentDto,
+  ): Promise<ShipmentDto> {
+    const entity = await this.shipmentService.create(
+      orderId,
+      requestUser,
+      createShipmentPayload,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "orders/:id/tracking"
+   * route with "GET" method
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {ForbiddenException} if the logged user has no permission to access
+   * those sources
+   * @returns the order shipments with their timelines
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Retrieves the tracking of a single order' })
+  @ApiOkResponse({
+    description: 'Gets the order shipments with their tracking events',
+    type: OrderTrackingDto,
+  })
+  @ApiNotFoundResponse({ description: 'Order not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Get(':id/tracking')
+  public async getTracking(
+    @Param('id') orderId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<OrderTrackingDto> {
+    return await this.shipmentService.getTracking(orderId, requestUser)
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  Param,
+  Post,
+} from '@nestjs/common'
+import {
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiHeader,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger'
+
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CarrierWebhookDto } from '../models/carrier-webhook.dto'
+import { CreateTrackingEventDto } from '../models/create-tracking-event.dto'
+import { TrackingEventDto } from '../models/tracking-event.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ShipmentService } from '../services/shipment.service'
+
+/**
+ * The app's main shipment controller class
+ *
+ * Class that deals with the shipment routes
+ */
+@ApiTags('shipments')
+@Controller('shipments')
+export class ShipmentController {
+  public constructor(private readonly shipmentService: ShipmentService) {}
+
+  /**
+   * Method that is called when the user access the "shipments/:id/events"
+   * route with "POST" method
+   *
+   * @param shipmentId stores the shipment id
+   * @param requestUser stores the logged user data
+   * @param createTrackingEventPayload stores the event data
+   * @throws {EntityNotFoundException} if the shipment was not found
+   * @throws {ForbiddenException} if the logged user is not the seller or an
+   * admin
+   * @returns the created tracking event data
+   */
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Adds an event to the shipment timeline' })
+  @ApiCreatedResponse({
+    description: 'Gets the created tracking event data',
+    type: TrackingEventDto,
+  })
+  @ApiNotFoundResponse({ description: 'Shipment not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Post(':id/events')
+  public async addEvent(
+    @Param('id') shipmentId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() createTrackingEventPayload: CreateTrackingEventDto,
+  ): Promise<TrackingEventDto> {
+    const entity = await this.shipmentService.addEvent(
+      shipmentId,
+      requestUser,
+      createTrackingEventPayload,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when some carrier access the
+   * "shipments/webhook" route with "POST" method
+   *
+   * @param signature stores the event signature
+   * @param carrierWebhookPayload stores the event data
+   * @throws {InvalidWebhookSignatureException} if the signature is invalid
+   * @throws {NotFoundException} if the shipment was not found
+   */
+  @ApiOperation({ summary: 'Receives the carriers tracking events' })
+  @ApiHeader({ name: 'x-carrier-signature', required: true })
+  @ApiOkResponse({ description: 'The event was handled' })
+  @ApiUnauthorizedResponse({ description: 'The signature is invalid' })
+  @ApiNotFoundResponse({ description: 'Shipment not found' })
+  @Post('webhook')
+  @HttpCode(200)
+  public async webhook(
+    @Headers('x-carrier-signature') signature: string,
+    @Body() carrierWebhookPayload: CarrierWebhookDto,
+  ): Promise<void> {
+    await this.shipmentService.handleWebhook(carrierWebhookPayload, signature)
+  }
+}
@@ -0,0 +1,97 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, Index, ManyToOne, OneToMany } from 'typeorm'
+
+import { TrackingEventEntity } from './tracking-event.entity'
+import { BaseEntity } from 'src/common/base.entity'
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+
+import { ShipmentDto } from '../models/shipment.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+import { ShipmentStatus } from 'src/models/enums/shipment-status.enum'
+
+/**
+ * The app's main shipment entity class
+ *
+ * Class that represents some package of an order that was handed to a
+ * carrier, with the tracking number given by it
+ */
+@Entity('shipment')
+@Index(['carrier', 'trackingNumber'], { unique: true })
+export class ShipmentEntity extends BaseEntity implements ToDto<ShipmentDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: false,
+  })
+  public carrier: string
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: false,
+  })
+  public trackingNumber: string
+
+  /**
+   * The status of the most recent tracking event
+   */
+  @ApiProperty({ enum: ShipmentStatus })
+  @Column({
+    type: 'varchar',
+    length: 32,
+    nullable: false,
+    default: ShipmentStatus.LabelCreated,
+  })
+  public status: ShipmentStatus
+
+  @ApiPropertyOptional()
+  @Column({
+    nullable: true,
+  })
+  public lastEventAt?: Date
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public orderId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => OrderEntity })
+  @ManyToOne(() => OrderEntity, { onDelete: 'CASCADE' })
+  public order?: OrderEntity
+
+  @ApiPropertyOptional({
+    type: () => TrackingEventEntity,
+    isArray: true,
+  })
+  @OneToMany(
+    () => TrackingEventEntity,
+    event => event.shipment,
+  )
+  public events?: TrackingEventEntity[]
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<ShipmentEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): ShipmentDto {
+    return new ShipmentDto(this)
+  }
+}
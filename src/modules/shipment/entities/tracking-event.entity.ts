@@ -0,0 +1,115 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, Index, ManyToOne } from 'typeorm'
+
+import { ShipmentEntity } from './shipment.entity'
+import { BaseEntity } from 'src/common/base.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { TrackingEventDto } from '../models/tracking-event.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+import { ShipmentStatus } from 'src/models/enums/shipment-status.enum'
+
+/**
+ * The app's main tracking event entity class
+ *
+ * Class that represents some step of the shipment timeline, pushed by the
+ * seller or by the carrier
+ */
+@Entity('tracking-event')
+@Index(['shipmentId', 'externalId'], { unique: true })
+export class TrackingEventEntity extends BaseEntity
+  implements ToDto<TrackingEventDto> {
+  //#region Columns
+
+  @ApiProperty({ enum: ShipmentStatus })
+  @Column({
+    type: 'varchar',
+    length: 32,
+    nullable: false,
+  })
+  public status: ShipmentStatus
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+  })
+  public description?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 128,
+    nullable: true,
+  })
+  public location?: string
+
+  @ApiProperty()
+  @Column({
+    nullable: false,
+  })
+  public occurredAt: Date
+
+  /**
+   * The event id given by the carrier, it avoids storing the same event
+   * twice when the carrier sends it again
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+  })
+  public externalId?: string
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public shipmentId: number
+
+  /**
+   * The user that pushed the event, it is not set when the event was sent
+   * by the carrier
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public userId?: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => ShipmentEntity })
+  @ManyToOne(
+    () => ShipmentEntity,
+    shipment => shipment.events,
+    { onDelete: 'CASCADE' },
+  )
+  public shipment?: ShipmentEntity
+
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'SET NULL' })
+  public user?: UserEntity
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<TrackingEventEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): TrackingEventDto {
+    return new TrackingEventDto(this)
+  }
+}
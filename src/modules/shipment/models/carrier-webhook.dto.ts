@@ -0,0 +1,65 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+import { ShipmentStatus } from 'src/models/enums/shipment-status.enum'
+
+import {
+  IsDateString,
+  IsDefined,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator'
+
+/**
+ * The app's main carrier webhook dto class
+ *
+ * Class that handles the event sent by the carriers when some shipment
+ * moves
+ */
+export class CarrierWebhookDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the event id' })
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(64)
+  public eventId: string
+
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the carrier' })
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  public carrier: string
+
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the tracking number' })
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  public trackingNumber: string
+
+  @ApiProperty({ enum: ShipmentStatus })
+  @IsDefined({ message: 'It is required to send the status' })
+  @IsEnum(ShipmentStatus, {
+    message: 'It is required to send a valid shipment status',
+  })
+  public status: ShipmentStatus
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @MaxLength(255)
+  public description?: string
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @MaxLength(128)
+  public location?: string
+
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the event date' })
+  @IsDateString({}, { message: 'It is required to send a valid date' })
+  public occurredAt: string
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsDefined, IsNotEmpty, IsString, MaxLength } from 'class-validator'
+
+/**
+ * The app's main create shipment dto class
+ *
+ * Class that handles the dto sent by the seller to inform that some order
+ * was handed to a carrier
+ */
+export class CreateShipmentDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the carrier' })
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(64)
+  public carrier: string
+
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the tracking number' })
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(64)
+  public trackingNumber: string
+}
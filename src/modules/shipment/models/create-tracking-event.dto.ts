@@ -0,0 +1,47 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+import { ShipmentStatus } from 'src/models/enums/shipment-status.enum'
+
+import {
+  IsDateString,
+  IsDefined,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator'
+
+/**
+ * The app's main create tracking event dto class
+ *
+ * Class that handles the dto sent by the seller to add some event to the
+ * shipment timeline
+ */
+export class CreateTrackingEventDto {
+  @ApiProperty({ enum: ShipmentStatus })
+  @IsDefined({ message: 'It is required to send the status' })
+  @IsEnum(ShipmentStatus, {
+    message: 'It is required to send a valid shipment status',
+  })
+  public status: ShipmentStatus
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @MaxLength(255)
+  public description?: string
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @MaxLength(128)
+  public location?: string
+
+  @ApiPropertyOptional({
+    description: 'When the event happened, the current date by default',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'It is required to send a valid date' })
+  public occurredAt?: string
+}
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { ShipmentDto } from './shipment.dto'
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+
+/**
+ * The app's main order tracking dto class
+ *
+ * Class that deals with the tracking data of some order, with all its
+ * shipments and their timelines
+ */
+export class OrderTrackingDto {
+  @ApiProperty()
+  public orderId: number
+
+  @ApiProperty()
+  public trackingCode: string
+
+  @ApiProperty()
+  public status: OrderStatus
+
+  @ApiProperty({ type: () => ShipmentDto, isArray: true })
+  public shipments: ShipmentDto[]
+
+  public constructor(partial: Partial<OrderTrackingDto>) {
+    Object.assign(this, partial)
+  }
+}
@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { ShipmentEntity } from '../entities/shipment.entity'
+
+import { TrackingEventDto } from './tracking-event.dto'
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { ShipmentStatus } from 'src/models/enums/shipment-status.enum'
+
+/**
+ * The app's main shipment dto class
+ *
+ * Class that deals with the shipment return data
+ */
+export class ShipmentDto extends BaseResponseDto {
+  @ApiProperty()
+  public carrier: string
+
+  @ApiProperty()
+  public trackingNumber: string
+
+  @ApiProperty({ enum: ShipmentStatus })
+  public status: ShipmentStatus
+
+  @ApiPropertyOptional()
+  public lastEventAt?: Date
+
+  @ApiProperty()
+  public orderId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({
+    type: () => TrackingEventDto,
+    isArray: true,
+  })
+  public events?: TrackingEventDto[]
+
+  //#endregion
+
+  public constructor(entity: ShipmentEntity) {
+    super(entity)
+
+    this.carrier = entity.carrier
+    this.trackingNumber = entity.trackingNumber
+    this.status = entity.status
+    this.lastEventAt = entity.lastEventAt
+    this.orderId = entity.orderId
+
+    // relations
+    this.events = entity.events?.map(event => event.toDto())
+  }
+}
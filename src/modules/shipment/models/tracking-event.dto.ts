@@ -0,0 +1,46 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { TrackingEventEntity } from '../entities/tracking-event.entity'
+
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { ShipmentStatus } from 'src/models/enums/shipment-status.enum'
+
+/**
+ * The app's main tracking event dto class
+ *
+ * Class that deals with the tracking event return data
+ */
+export class TrackingEventDto extends BaseResponseDto {
+  @ApiProperty({ enum: ShipmentStatus })
+  public status: ShipmentStatus
+
+  @ApiPropertyOptional()
+  public description?: string
+
+  @ApiPropertyOptional()
+  public location?: string
+
+  @ApiProperty()
+  public occurredAt: Date
+
+  @ApiPropertyOptional()
+  public externalId?: string
+
+  @ApiProperty()
+  public shipmentId: number
+
+  @ApiPropertyOptional()
+  public userId?: number
+
+  public constructor(entity: TrackingEventEntity) {
+    super(entity)
+
+    this.status = entity.status
+    this.description = entity.description
+    this.location = entity.location
+    this.occurredAt = entity.occurredAt
+    this.externalId = entity.externalId
+    this.shipmentId = entity.shipmentId
+    this.userId = entity.userId
+  }
+}
@@ -0,0 +1,305 @@
+import { ConfigService } from '@nestjs/config'
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+import { InvalidWebhookSignatureException } from 'src/exceptions/unauthorized/invalid-webhook-signature.exception'
+
+import { ShipmentEntity } from '../entities/shipment.entity'
+import { TrackingEventEntity } from '../entities/tracking-event.entity'
+import { OrderStatusHistoryEntity } from 'src/modules/order/entities/order-status-history.entity'
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CarrierWebhookDto } from '../models/carrier-webhook.dto'
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+import { ShipmentStatus } from 'src/models/enums/shipment-status.enum'
+
+import { ShipmentService } from './shipment.service'
+import { OrderService } from 'src/modules/order/services/order.service'
+import { PaymentService } from 'src/modules/payment/services/payment.service'
+
+describe('ShipmentService', () => {
+  let service: ShipmentService
+  let secret: string
+  let sequence = 0
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    secret = 'SECRET'
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ShipmentService,
+        {
+          provide: getRepositoryToken(ShipmentEntity),
+          useValue: getRepository(ShipmentEntity),
+        },
+        OrderService,
+        {
+          provide: getRepositoryToken(OrderEntity),
+          useValue: getRepository(OrderEntity),
+        },
+        { provide: PaymentService, useValue: {} },
+        { provide: ConfigService, useValue: { get: () => secret } },
+      ],
+    }).compile()
+
+    service = await module.resolve(ShipmentService)
+  })
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Common): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `shipment-${sequence}@test.com`,
+      password: '123456',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates an order that is being prepared by the seller
+   *
+   * @param buyer stores the buyer entity
+   * @param seller stores the seller entity
+   * @param status stores the order status
+   * @returns the created order entity
+   */
+  async function createOrder(
+    buyer: UserEntity,
+    seller: UserEntity,
+    status = OrderStatus.Preparing,
+  ): Promise<OrderEntity> {
+    return await new OrderEntity({
+      trackingCode: OrderService.generateTrackingCode(),
+      status,
+      userId: buyer.id,
+      sellerId: seller.id,
+    }).save()
+  }
+
+  /**
+   * Function that creates a carrier event signed with the configured
+   * secret
+   *
+   * @param payload stores the event data
+   * @returns the event and its signature
+   */
+  function sign(payload: CarrierWebhookDto): [CarrierWebhookDto, string] {
+    return [payload, service.sign(payload)]
+  }
+
+  describe('handleWebhook', () => {
+    // tests if the carrier events move the order forward
+    it('should add the event to the timeline and update the order status', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const order = await createOrder(buyer, seller)
+
+      await service.create(order.id, seller, {
+        carrier: 'correios',
+        trackingNumber: `BR${sequence}`,
+      })
+
+      await service.handleWebhook(
+        ...sign({
+          eventId: 'EVENT-1',
+          carrier: 'correios',
+          trackingNumber: `BR${sequence}`,
+          status: ShipmentStatus.InTransit,
+          location: 'Sorocaba - SP',
+          occurredAt: '2021-05-02T10:00:00.000Z',
+        }),
+      )
+
+      // the same event sent again must be ignored
+      await service.handleWebhook(
+        ...sign({
+          eventId: 'EVENT-1',
+          carrier: 'correios',
+          trackingNumber: `BR${sequence}`,
+          status: ShipmentStatus.InTransit,
+          location: 'Sorocaba - SP',
+          occurredAt: '2021-05-02T10:00:00.000Z',
+        }),
+      )
+
+      const tracking = await service.getTracking(order.id, buyer)
+
+      expect(tracking.status).toBe(OrderStatus.InTransit)
+      expect(tracking.shipments).toHaveLength(1)
+      expect(tracking.shipments[0].status).toBe(ShipmentStatus.InTransit)
+      expect(tracking.shipments[0].events).toHaveLength(1)
+    })
+
+    // tests if the orders shipped right after being paid are delivered too
+    it('should deliver the paid order that was handed to the carrier', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const order = await createOrder(buyer, seller, OrderStatus.Paid)
+
+      await service.create(order.id, seller, {
+        carrier: 'correios',
+        trackingNumber: `BR${sequence}`,
+      })
+
+      await order.reload()
+
+      expect(order.status).toBe(OrderStatus.Preparing)
+
+      await service.handleWebhook(
+        ...sign({
+          eventId: `EVENT-${sequence}`,
+          carrier: 'correios',
+          trackingNumber: `BR${sequence}`,
+          status: ShipmentStatus.Delivered,
+          occurredAt: '2021-05-03T10:00:00.000Z',
+        }),
+      )
+
+      await order.reload()
+
+      expect(order.status).toBe(OrderStatus.Delivered)
+      expect(
+        (await OrderStatusHistoryEntity.find({ orderId: order.id })).map(
+          ({ toStatus }) => toStatus,
+        ),
+      ).toEqual([
+        OrderStatus.Confirmed,
+        OrderStatus.Preparing,
+        OrderStatus.Shipped,
+        OrderStatus.InTransit,
+        OrderStatus.Delivered,
+      ])
+    })
+
+    // tests if the events that are not signed are refused
+    it('should throw an "InvalidWebhookSignatureException" when the signature is invalid', async () => {
+      await expect(
+        service.handleWebhook(
+          {
+            eventId: 'EVENT-2',
+            carrier: 'correios',
+            trackingNumber: 'BR-UNKNOWN',
+            status: ShipmentStatus.Delivered,
+            occurredAt: '2021-05-02T10:00:00.000Z',
+          },
+          'INVALID',
+        ),
+      ).rejects.toThrow(InvalidWebhookSignatureException)
+    })
+
+    // tests if the events changed after being signed are refused
+    it('should throw an "InvalidWebhookSignatureException" when the description was changed', async () => {
+      const [payload, signature] = sign({
+        eventId: 'EVENT-3',
+        carrier: 'correios',
+        trackingNumber: 'BR-UNKNOWN',
+        status: ShipmentStatus.InTransit,
+        description: 'Object in transit',
+        location: 'Sorocaba - SP',
+        occurredAt: '2021-05-02T10:00:00.000Z',
+      })
+
+      await expect(
+        service.handleWebhook(
+          { ...payload, description: 'Object lost' },
+          signature,
+        ),
+      ).rejects.toThrow(InvalidWebhookSignatureException)
+    })
+
+    // tests if all the events are refused when no secret is configured
+    it('should throw an "InvalidWebhookSignatureException" when no secret is configured', async () => {
+      const [payload, signature] = sign({
+        eventId: 'EVENT-4',
+        carrier: 'correios',
+        trackingNumber: 'BR-UNKNOWN',
+        status: ShipmentStatus.Delivered,
+        occurredAt: '2021-05-02T10:00:00.000Z',
+      })
+      secret = undefined
+
+      await expect(service.handleWebhook(payload, signature)).rejects.toThrow(
+        InvalidWebhookSignatureException,
+      )
+    })
+  })
+
+  describe('addEvent', () => {
+    // tests if an older event does not replace the current status
+    it('should keep the status of the most recent event', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const order = await createOrder(buyer, seller)
+
+      const shipment = await service.create(order.id, seller, {
+        carrier: 'jadlog',
+        trackingNumber: `JD${sequence}`,
+      })
+
+      await service.addEvent(shipment.id, seller, {
+        status: ShipmentStatus.Delivered,
+        occurredAt: '2021-05-03T10:00:00.000Z',
+      })
+      await service.addEvent(shipment.id, seller, {
+        status: ShipmentStatus.PickedUp,
+        occurredAt: '2021-05-01T10:00:00.000Z',
+      })
+
+      const tracking = await service.getTracking(order.id, buyer)
+
+      expect(tracking.status).toBe(OrderStatus.Delivered)
+      expect(tracking.shipments[0].status).toBe(ShipmentStatus.Delivered)
+      expect(tracking.shipments[0].events.map(({ status }) => status)).toEqual([
+        ShipmentStatus.PickedUp,
+        ShipmentStatus.Delivered,
+      ])
+      expect(await TrackingEventEntity.count({ shipmentId: shipment.id })).toBe(
+        2,
+      )
+    })
+
+    // tests if the buyer can not push events
+    it('should throw a "ForbiddenException" when the user is not the seller', async () => {
+      const buyer = await createUser()
+      const seller = await createUser(RolesEnum.Seller)
+      const order = await createOrder(buyer, seller)
+
+      const shipment = await service.create(order.id, seller, {
+        carrier: 'jadlog',
+        trackingNumber: `JD${sequence}`,
+      })
+
+      await expect(
+        service.addEvent(shipment.id, buyer, {
+          status: ShipmentStatus.Delivered,
+        }),
+      ).rejects.toThrow(ForbiddenException)
+    })
+  })
+})
@@ -0,0 +1,427 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+
+import { InvalidOrderStatusTransitionException } from 'src/exceptions/conflict/invalid-order-status-transition.exception'
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+import { InvalidWebhookSignatureException } from 'src/exceptions/unauthorized/invalid-webhook-signature.exception'
+
+import { ShipmentEntity } from '../entities/shipment.entity'
+import { TrackingEventEntity } from '../entities/tracking-event.entity'
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { CarrierWebhookDto } from '../models/carrier-webhook.dto'
+import { CreateShipmentDto } from '../models/create-shipment.dto'
+import { CreateTrackingEventDto } from '../models/create-tracking-event.dto'
+import { OrderTrackingDto } from '../models/order-tracking.dto'
+import { OrderActor } from 'src/models/enums/order-actor.enum'
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { ShipmentStatus } from 'src/models/enums/shipment-status.enum'
+
+import { OrderService } from 'src/modules/order/services/order.service'
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * The app's main shipment service class
+ *
+ * Class that deals with the shipments of the orders and their tracking
+ * events
+ */
+@Injectable()
+export class ShipmentService {
+  /**
+   * The order status that each shipment status represents, in the order
+   * that they happen
+   */
+  public static readonly orderStatuses: Partial<
+    Record<ShipmentStatus, OrderStatus>
+  > = {
+    [ShipmentStatus.PickedUp]: OrderStatus.Shipped,
+    [ShipmentStatus.InTransit]: OrderStatus.InTransit,
+    [ShipmentStatus.OutForDelivery]: OrderStatus.InTransit,
+    [ShipmentStatus.Delivered]: OrderStatus.Delivered,
+  }
+
+  public constructor(
+    @InjectRepository(ShipmentEntity)
+    private readonly repository: Repository<ShipmentEntity>,
+    private readonly orderService: OrderService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Method that registers that some order was handed to a carrier. The
+   * paid and confirmed orders are moved to the preparing status on behalf
+   * of the seller, since the carrier events can only move the orders
+   * forward from there
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @param createShipmentPayload stores the carrier and the tracking number
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {ForbiddenException} if the logged user is not the seller or an
+   * admin
+   * @throws {BadRequestException} if the order can not be shipped
+   * @throws {ConflictException} if the tracking number is already used
+   * @returns the created shipment entity
+   */
+  public async create(
+    orderId: number,
+    requestUser: UserEntity,
+    createShipmentPayload: CreateShipmentDto,
+  ): Promise<ShipmentEntity> {
+    const order = await this.getOrderAsSeller(orderId, requestUser)
+
+    if (
+      [
+        OrderStatus.Pendent,
+        OrderStatus.Canceled,
+        OrderStatus.Refunded,
+      ].includes(order.status)
+    ) {
+      throw new BadRequestException(
+        'The order can not be shipped in its current status',
+      )
+    }
+
+    const { carrier, trackingNumber } = createShipmentPayload
+
+    const conflict = await this.repository.findOne({ carrier, trackingNumber })
+
+    if (conflict) {
+      throw new ConflictException(
+        `The tracking number "${trackingNumber}" is already used by other shipment`,
+      )
+    }
+
+    const steps: Partial<Record<OrderStatus, OrderStatus[]>> = {
+      [OrderStatus.Paid]: [OrderStatus.Confirmed, OrderStatus.Preparing],
+      [OrderStatus.Confirmed]: [OrderStatus.Preparing],
+    }
+
+    for (const step of steps[order.status] ?? []) {
+      await this.orderService.changeStatus(
+        order.id,
+        requestUser,
+        step,
+        'Handed to the carrier',
+      )
+    }
+
+    return await this.repository.save(
+      new ShipmentEntity({
+        carrier,
+        trackingNumber,
+        status: ShipmentStatus.LabelCreated,
+        orderId: order.id,
+        events: [],
+      }),
+    )
+  }
+
+  /**
+   * Method that adds some event to the timeline of a shipment on behalf
+   * of the seller
+   *
+   * @param shipmentId stores the shipment id
+   * @param requestUser stores the logged user data
+   * @param createTrackingEventPayload stores the event data
+   * @throws {EntityNotFoundException} if the shipment was not found
+   * @throws {ForbiddenException} if the logged user is not the seller or an
+   * admin
+   * @returns the created tracking event entity
+   */
+  public async addEvent(
+    shipmentId: number,
+    requestUser: UserEntity,
+    createTrackingEventPayload: CreateTrackingEventDto,
+  ): Promise<TrackingEventEntity> {
+    const shipment = await this.repository.findOne({ id: shipmentId })
+
+    if (!shipment || !shipment.isActive) {
+      throw new EntityNotFoundException(shipmentId, ShipmentEntity)
+    }
+
+    await this.getOrderAsSeller(shipment.orderId, requestUser)
+
+    const { occurredAt, ...rest } = createTrackingEventPayload
+
+    return await this.recordEvent(
+      shipment,
+      new TrackingEventEntity({
+        ...rest,
+        occurredAt: occurredAt ? new Date(occurredAt) : new Date(),
+        shipmentId: shipment.id,
+        userId: requestUser.id,
+      }),
+    )
+  }
+
+  /**
+   * Method that handles the events sent by the carriers. The events that
+   * were already received are ignored
+   *
+   * @param carrierWebhookPayload stores the event data
+   * @param signature stores the signature sent with the event
+   * @throws {InvalidWebhookSignatureException} if the signature is invalid
+   * or no secret is configured
+   * @throws {NotFoundException} if no shipment has the informed tracking
+   * number
+   * @returns the tracking event entity
+   */
+  public async handleWebhook(
+    carrierWebhookPayload: CarrierWebhookDto,
+    signature: string,
+  ): Promise<TrackingEventEntity> {
+    // without a secret no event can be trusted, so all of them are refused
+    if (!this.configService.get<string>('SHIPMENT_WEBHOOK_SECRET')) {
+      throw new InvalidWebhookSignatureException()
+    }
+
+    const expected = Buffer.from(this.sign(carrierWebhookPayload))
+    const received = Buffer.from(signature ?? '')
+
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      throw new InvalidWebhookSignatureException()
+    }
+
+    const {
+      eventId,
+      carrier,
+      trackingNumber,
+      occurredAt,
+      ...rest
+    } = carrierWebhookPayload
+
+    const shipment = await this.repository.findOne({ carrier, trackingNumber })
+
+    if (!shipment || !shipment.isActive) {
+      throw new NotFoundException(
+        `The shipment with tracking number "${trackingNumber}" was not found`,
+      )
+    }
+
+    const existing = await TrackingEventEntity.findOne({
+      shipmentId: shipment.id,
+      externalId: eventId,
+    })
+
+    if (existing) {
+      return existing
+    }
+
+    return await this.recordEvent(
+      shipment,
+      new TrackingEventEntity({
+        ...rest,
+        occurredAt: new Date(occurredAt),
+        externalId: eventId,
+        shipmentId: shipment.id,
+      }),
+    )
+  }
+
+  /**
+   * Method that gets all the shipments of some order, with their
+   * timelines
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {ForbiddenException} if the logged user is not the buyer, the
+   * seller or an admin
+   * @returns the order tracking data
+   */
+  public async getTracking(
+    orderId: number,
+    requestUser: UserEntity,
+  ): Promise<OrderTrackingDto> {
+    const order = await OrderEntity.findOne({ id: orderId })
+
+    if (!order || !order.isActive) {
+      throw new EntityNotFoundException(orderId, OrderEntity)
+    }
+
+    const actors = await this.orderService.getActors(order, requestUser)
+
+    if (actors.length === 0) {
+      throw new ForbiddenException()
+    }
+
+    const shipments = await this.repository.find({
+      where: { orderId: order.id, isActive: true },
+      relations: ['events'],
+      order: { id: 'ASC' },
+    })
+
+    return new OrderTrackingDto({
+      orderId: order.id,
+      trackingCode: order.trackingCode,
+      status: order.status,
+      shipments: shipments.map(shipment => {
+        shipment.events.sort(
+          (a, b) =>
+            new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime(),
+        )
+        return shipment.toDto()
+      }),
+    })
+  }
+
+  /**
+   * Method that signs some carrier event, it allows to simulate the events
+   * that a real carrier would send. All the fields that are stored in the
+   * timeline are signed, so none of them can be changed in the way
+   *
+   * @param payload stores the event data
+   * @throws {Error} if the webhook secret is not configured
+   * @returns the event signature
+   */
+  public sign(payload: CarrierWebhookDto): string {
+    const secret = this.configService.get<string>('SHIPMENT_WEBHOOK_SECRET')
+
+    if (!secret) {
+      throw new Error(
+        'The "SHIPMENT_WEBHOOK_SECRET" variable is not configured',
+      )
+    }
+
+    return createHmac('sha256', secret)
+      .update(
+        JSON.stringify([
+          payload.eventId,
+          payload.carrier,
+          payload.trackingNumber,
+          payload.status,
+          payload.description ?? null,
+          payload.location ?? null,
+          payload.occurredAt,
+        ]),
+      )
+      .digest('hex')
+  }
+
+  /**
+   * Method that gets some order that the logged user can ship
+   *
+   * @param orderId stores the order id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the order was not found
+   * @throws {ForbiddenException} if the logged user is not the seller or an
+   * admin
+   * @returns the found order entity
+   */
+  private async getOrderAsSeller(
+    orderId: number,
+    requestUser: UserEntity,
+  ): Promise<OrderEntity> {
+    const order = await OrderEntity.findOne({ id: orderId })
+
+    if (!order || !order.isActive) {
+      throw new EntityNotFoundException(orderId, OrderEntity)
+    }
+
+    const actors = await this.orderService.getActors(order, requestUser)
+
+    if (
+      !actors.includes(OrderActor.Seller) &&
+      !actors.includes(OrderActor.Admin)
+    ) {
+      throw new ForbiddenException()
+    }
+
+    return order
+  }
+
+  /**
+   * Method that saves some tracking event and, when it is the most recent
+   * one, updates the shipment status and moves the order forward
+   *
+   * @param shipment stores the shipment entity
+   * @param event stores the tracking event entity
+   * @returns the saved tracking event entity
+   */
+  private async recordEvent(
+    shipment: ShipmentEntity,
+    event: TrackingEventEntity,
+  ): Promise<TrackingEventEntity> {
+    const entity = await event.save()
+
+    // the carriers may send the events out of order, so an older event must
+    // not replace the current status
+    if (
+      shipment.lastEventAt &&
+      new Date(shipment.lastEventAt) > entity.occurredAt
+    ) {
+      return entity
+    }
+
+    await this.repository.update(
+      { id: shipment.id },
+      { status: entity.status, lastEventAt: entity.occurredAt },
+    )
+
+    await this.syncOrderStatus(shipment.orderId)
+
+    return entity
+  }
+
+  /**
+   * Method that moves the order to the status of its least advanced
+   * shipment, passing through the intermediate status when needed
+   *
+   * @param orderId stores the order id
+   */
+  private async syncOrderStatus(orderId: number): Promise<void> {
+    const path = [
+      OrderStatus.Shipped,
+      OrderStatus.InTransit,
+      OrderStatus.Delivered,
+    ]
+
+    const shipments = await this.repository.find({ orderId, isActive: true })
+    const targets = shipments.map(({ status }) =>
+      path.indexOf(ShipmentService.orderStatuses[status]),
+    )
+    const target = Math.min(...targets)
+
+    if (target < 0) {
+      return
+    }
+
+    let { status: current } = await OrderEntity.findOne({ id: orderId })
+
+    for (const step of path.slice(0, target + 1)) {
+      const allowedActors = OrderService.statusTransitions[current]?.[step]
+
+      if (!allowedActors?.includes(OrderActor.System)) {
+        continue
+      }
+
+      try {
+        await this.orderService.changeStatusAsSystem(
+          orderId,
+          step,
+          'Updated by the shipment tracking',
+        )
+        current = step
+      } catch (error) {
+        // someone else changed the order status in the meantime
+        if (error instanceof InvalidOrderStatusTransitionException) return
+        throw error
+      }
+    }
+  }
+}
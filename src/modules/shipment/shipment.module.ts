@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common'
+import { ConfigModule } from '@nestjs/config'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { ShipmentEntity } from './entities/shipment.entity'
+import { TrackingEventEntity } from './entities/tracking-event.entity'
+
+import { ShipmentService } from './services/shipment.service'
+
+import { OrderShipmentController } from './controllers/order-shipment.controller'
+import { ShipmentController } from './controllers/shipment.controller'
+
+import { OrderModule } from '../order/order.module'
+
+@Module({
+  imports: [
+    ConfigModule,
+    OrderModule,
+    TypeOrmModule.forFeature([ShipmentEntity, TrackingEventEntity]),
+  ],
+  controllers: [ShipmentController, OrderShipmentController],
+  providers: [ShipmentService],
+  exports: [ShipmentService],
+})
+export class ShipmentModule {}
@@ -0,0 +1,93 @@
+/**
+ * The token used to inject all the carriers that can quote some shipping
+ */
+export const SHIPPING_CARRIERS = 'SHIPPING_CARRIERS'
+
+/**
+ * Interface that represents some package that will be shipped
+ */
+export interface ShippingPackage {
+  /**
+   * The package weight in grams
+   */
+  weight: number
+
+  /**
+   * The package height in centimeters
+   */
+  height: number
+
+  /**
+   * The package width in centimeters
+   */
+  width: number
+
+  /**
+   * The package length in centimeters
+   */
+  length: number
+
+  /**
+   * The amount of equal packages
+   */
+  amount: number
+}
+
+/**
+ * Interface that represents the data sent to the carriers to quote some
+ * shipping
+ */
+export interface ShippingQuoteRequest {
+  /**
+   * The cep where the packages will be collected
+   */
+  fromCep: string
+
+  /**
+   * The cep where the packages will be delivered
+   */
+  toCep: string
+
+  /**
+   * The packages that will be shipped
+   */
+  packages: ShippingPackage[]
+}
+
+/**
+ * Interface that represents the carrier answer to some quote
+ */
+export interface ShippingQuote {
+  /**
+   * The carrier name
+   */
+  carrier: string
+
+  /**
+   * The shipping price
+   */
+  price: number
+
+  /**
+   * The amount of business days to deliver the packages
+   */
+  deliveryDays: number
+}
+
+/**
+ * Interface that must be implemented by all the carriers adapters
+ */
+export interface ShippingCarrier {
+  /**
+   * The carrier name
+   */
+  readonly name: string
+
+  /**
+   * Method that quotes the shipping of some packages
+   *
+   * @param request stores the packages and the ceps
+   * @returns the shipping quote
+   */
+  quote(request: ShippingQuoteRequest): Promise<ShippingQuote>
+}
@@ -0,0 +1,64 @@
+/**
+ * Map that relates the cep prefixes with the country regions. When more
+ * than one prefix matches some cep, the longest one is used
+ */
+export const cepPrefixRegions: Record<string, string> = {
+  '0': 'southeast',
+  '1': 'southeast',
+  '2': 'southeast',
+  '3': 'southeast',
+  '4': 'northeast',
+  '5': 'northeast',
+  '6': 'north',
+  '60': 'northeast',
+  '61': 'northeast',
+  '62': 'northeast',
+  '63': 'northeast',
+  '64': 'northeast',
+  '65': 'northeast',
+  '7': 'midwest',
+  '76': 'north',
+  '77': 'north',
+  '8': 'south',
+  '9': 'south',
+}
+
+/**
+ * Interface that represents the rate charged in some distance range
+ */
+export interface ShippingRate {
+  /**
+   * The price charged for the first kilogram
+   */
+  basePrice: number
+
+  /**
+   * The price charged for each additional kilogram
+   */
+  pricePerKg: number
+
+  /**
+   * The amount of business days to deliver the packages
+   */
+  deliveryDays: number
+}
+
+/**
+ * Map that stores the rate charged when the packages are shipped inside
+ * the same cep area (local), inside the same region (regional) or between
+ * different regions (national)
+ */
+export const shippingRates: Record<
+  'local' | 'regional' | 'national',
+  ShippingRate
+> = {
+  local: { basePrice: 12.9, pricePerKg: 1.5, deliveryDays: 2 },
+  regional: { basePrice: 18.9, pricePerKg: 2.5, deliveryDays: 4 },
+  national: { basePrice: 27.9, pricePerKg: 4, deliveryDays: 8 },
+}
+
+/**
+ * The divisor used to convert the package volume, in cubic centimeters,
+ * to its volumetric weight, in kilograms
+ */
+export const volumetricDivisor = 6000
@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common'
+
+import {
+  ShippingCarrier,
+  ShippingQuote,
+  ShippingQuoteRequest,
+} from './shipping-carrier.interface'
+import {
+  cepPrefixRegions,
+  shippingRates,
+  volumetricDivisor,
+} from './shipping-rates'
+
+/**
+ * The app's table rate carrier class
+ *
+ * Class that quotes the shipping locally, based on the cep prefixes and
+ * on the rates table
+ */
+@Injectable()
+export class TableRateCarrier implements ShippingCarrier {
+  public readonly name = 'table-rate'
+
+  /**
+   * Method that quotes the shipping of some packages, charging the biggest
+   * value between the real and the volumetric weight
+   *
+   * @param request stores the packages and the ceps
+   * @returns the shipping quote
+   */
+  public async quote(request: ShippingQuoteRequest): Promise<ShippingQuote> {
+    const { fromCep, toCep, packages } = request
+
+    let rate = shippingRates.national
+    if (fromCep.slice(0, 2) === toCep.slice(0, 2)) {
+      rate = shippingRates.local
+    } else if (
+      TableRateCarrier.getRegion(fromCep) === TableRateCarrier.getRegion(toCep)
+    ) {
+      rate = shippingRates.regional
+    }
+
+    const weight = packages.reduce(
+      (sum, { weight, height, width, length, amount }) =>
+        sum +
+        Math.max(weight / 1000, (height * width * length) / volumetricDivisor) *
+          amount,
+      0,
+    )
+    const additionalKgs = Math.max(Math.ceil(weight) - 1, 0)
+
+    return {
+      carrier: this.name,
+      price:
+        Math.round((rate.basePrice + rate.pricePerKg * additionalKgs) * 100) /
+        100,
+      deliveryDays: rate.deliveryDays,
+    }
+  }
+
+  /**
+   * Method that finds the region of some cep
+   *
+   * @param cep stores the cep
+   * @returns the cep region
+   */
+  private static getRegion(cep: string): string {
+    const prefix = Object.keys(cepPrefixRegions)
+      .filter(prefix => cep.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0]
+
+    return cepPrefixRegions[prefix]
+  }
+}
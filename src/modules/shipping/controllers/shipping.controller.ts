@@ -0,0 +1,65 @@
+import { Body, Controller, HttpCode, Post } from '@nestjs/common'
+import {
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { QuoteShippingDto } from '../models/quote-shipping.dto'
+import { ShippingQuoteDto } from '../models/shipping-quote.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { ShippingService } from '../services/shipping.service'
+
+/**
+ * The app's main shipping controller class
+ *
+ * Class that deals with the shipping routes
+ */
+@ApiTags('shipping')
+@Controller('shipping')
+export class ShippingController {
+  public constructor(private readonly shippingService: ShippingService) {}
+
+  /**
+   * Method that is called when the user access the "shipping/quote"
+   * route with "POST" method
+   *
+   * @param requestUser stores the logged user data
+   * @param quoteShippingPayload stores the address where the products will
+   * be delivered
+   * @throws {EntityNotFoundException} if the address was not found
+   * @throws {BadRequestException} if the shopping cart is empty
+   * @throws {BadRequestException} if some seller has no address
+   * @returns the shipping quote of each seller
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Quotes the shipping of the logged user cart' })
+  @ApiOkResponse({
+    description: 'Gets the shipping quote of each seller',
+    type: ShippingQuoteDto,
+  })
+  @ApiNotFoundResponse({ description: 'Address not found' })
+  @ApiBadRequestResponse({
+    description: 'The shopping cart is empty or some seller has no address',
+  })
+  @Post('quote')
+  @HttpCode(200)
+  public async quote(
+    @RequestUser() requestUser: UserEntity,
+    @Body() quoteShippingPayload: QuoteShippingDto,
+  ): Promise<ShippingQuoteDto> {
+    return await this.shippingService.quoteShoppingCart(
+      requestUser.id,
+      requestUser,
+      quoteShippingPayload,
+    )
+  }
+}
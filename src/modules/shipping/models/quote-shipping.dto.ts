@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsDefined, IsNumber } from 'class-validator'
+
+/**
+ * The app's main quote shipping dto class
+ *
+ * Class that handles the dto sent by the user to quote the shipping of
+ * the shopping cart
+ */
+export class QuoteShippingDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the address id' })
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  public addressId: number
+}
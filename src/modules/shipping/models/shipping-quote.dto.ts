@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * The app's main seller shipping quote dto class
+ *
+ * Class that deals with the shipping quote of the products of some seller
+ */
+export class SellerShippingQuoteDto {
+  @ApiProperty()
+  public sellerId: number
+
+  @ApiProperty()
+  public fromCep: string
+
+  @ApiProperty()
+  public carrier: string
+
+  @ApiProperty()
+  public price: number
+
+  @ApiProperty()
+  public deliveryDays: number
+}
+
+/**
+ * The app's main shipping quote dto class
+ *
+ * Class that deals with the shipping quote return data
+ */
+export class ShippingQuoteDto {
+  @ApiProperty()
+  public toCep: string
+
+  @ApiProperty({ type: SellerShippingQuoteDto, isArray: true })
+  public sellers: SellerShippingQuoteDto[]
+
+  @ApiProperty()
+  public total: number
+}
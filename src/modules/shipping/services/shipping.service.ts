@@ -0,0 +1,161 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { AddressEntity } from 'src/modules/address/entities/address.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ShoppingCartEntity } from 'src/modules/shopping-cart/entities/shopping-cart.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { QuoteShippingDto } from '../models/quote-shipping.dto'
+import {
+  SellerShippingQuoteDto,
+  ShippingQuoteDto,
+} from '../models/shipping-quote.dto'
+
+import { UserService } from 'src/modules/user/services/user.service'
+
+import {
+  SHIPPING_CARRIERS,
+  ShippingCarrier,
+} from '../carriers/shipping-carrier.interface'
+
+/**
+ * The app's main shipping service class
+ *
+ * Class that deals with the shipping quotes, asking all the available
+ * carriers and choosing the cheapest one
+ */
+@Injectable()
+export class ShippingService {
+  /**
+   * The package dimensions used when the product does not inform them,
+   * based on an usual book
+   */
+  public static readonly defaultPackage = {
+    weight: 400,
+    height: 3,
+    width: 16,
+    length: 23,
+  }
+
+  public constructor(
+    @Inject(SHIPPING_CARRIERS)
+    private readonly carriers: ShippingCarrier[],
+  ) {}
+
+  /**
+   * Method that quotes the shipping of the user shopping cart
+   *
+   * @param userId stores the user id
+   * @param requestUser stores the logged user data
+   * @param quoteShippingPayload stores the address where the products will
+   * be delivered
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {EntityNotFoundException} if the address was not found
+   * @throws {BadRequestException} if the shopping cart is empty
+   * @throws {BadRequestException} if some seller has no address
+   * @returns the shipping quote of each seller
+   */
+  public async quoteShoppingCart(
+    userId: number,
+    requestUser: UserEntity,
+    quoteShippingPayload: QuoteShippingDto,
+  ): Promise<ShippingQuoteDto> {
+    if (!UserService.hasPermissions(userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    const { addressId } = quoteShippingPayload
+
+    const address = await AddressEntity.findOne({ id: addressId })
+    if (!address || !address.isActive || address.userId !== userId) {
+      throw new EntityNotFoundException(addressId, AddressEntity)
+    }
+
+    const shoppingCart = await ShoppingCartEntity.findOne({ userId })
+    const productGroups = shoppingCart
+      ? await ProductGroupEntity.find({
+          where: { shoppingCartId: shoppingCart.id },
+          relations: ['product'],
+        })
+      : []
+
+    if (productGroups.length === 0) {
+      throw new BadRequestException('The shopping cart is empty')
+    }
+
+    const quotes = await this.quoteProducts(productGroups, address.cep)
+
+    return {
+      toCep: address.cep,
+      sellers: [...quotes.values()],
+      total:
+        Math.round(
+          [...quotes.values()].reduce((sum, { price }) => sum + price, 0) * 100,
+        ) / 100,
+    }
+  }
+
+  /**
+   * Method that quotes the shipping of some products, grouping them by
+   * the seller that will ship them
+   *
+   * @param items stores the products and the amount of each one
+   * @param toCep stores the cep where the products will be delivered
+   * @throws {BadRequestException} if some seller has no address
+   * @returns a map that relates each seller id with its shipping quote
+   */
+  public async quoteProducts(
+    items: Pick<ProductGroupEntity, 'product' | 'amount'>[],
+    toCep: string,
+  ): Promise<Map<number, SellerShippingQuoteDto>> {
+    const sellerItems = new Map<number, typeof items>()
+    for (const item of items) {
+      const { userId } = item.product
+      sellerItems.set(userId, [...(sellerItems.get(userId) ?? []), item])
+    }
+
+    const quotes = new Map<number, SellerShippingQuoteDto>()
+
+    for (const [sellerId, products] of sellerItems) {
+      const sellerAddress = await AddressEntity.findOne({
+        where: { userId: sellerId, isActive: true },
+        order: { id: 'ASC' },
+      })
+
+      if (!sellerAddress) {
+        throw new BadRequestException(
+          `The seller with identifier ${sellerId} has no address to ship from`,
+        )
+      }
+
+      const request = {
+        fromCep: sellerAddress.cep,
+        toCep,
+        packages: products.map(({ product, amount }) => ({
+          weight: product.weight ?? ShippingService.defaultPackage.weight,
+          height: product.height ?? ShippingService.defaultPackage.height,
+          width: product.width ?? ShippingService.defaultPackage.width,
+          length: product.length ?? ShippingService.defaultPackage.length,
+          amount: amount ?? 1,
+        })),
+      }
+
+      const carrierQuotes = await Promise.all(
+        this.carriers.map(carrier => carrier.quote(request)),
+      )
+      const [cheapest] = carrierQuotes.sort((a, b) => a.price - b.price)
+
+      quotes.set(sellerId, {
+        ...cheapest,
+        sellerId,
+        fromCep: sellerAddress.cep,
+      })
+    }
+
+    return quotes
+  }
+}
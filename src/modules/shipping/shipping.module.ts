@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common'
+
+import { ShippingService } from './services/shipping.service'
+
+import { ShippingController } from './controllers/shipping.controller'
+
+import {
+  SHIPPING_CARRIERS,
+  ShippingCarrier,
+} from './carriers/shipping-carrier.interface'
+import { TableRateCarrier } from './carriers/table-rate.carrier'
+
+@Module({
+  controllers: [ShippingController],
+  providers: [
+    ShippingService,
+    TableRateCarrier,
+    {
+      provide: SHIPPING_CARRIERS,
+      inject: [TableRateCarrier],
+      useFactory: (...carriers: ShippingCarrier[]) => carriers,
+    },
+  ],
+  exports: [ShippingService],
+})
+export class ShippingModule {}
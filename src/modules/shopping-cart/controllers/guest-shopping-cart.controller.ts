@@ -0,0 +1,156 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  ParseArrayPipe,
+  Post,
+} from '@nestjs/common'
+import {
+  ApiBody,
+  ApiCreatedResponse,
+  ApiHeader,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+
+import { AddProductGroupDto } from '../models/add-product-group.dto'
+import { GuestShoppingCartTokenDto } from '../models/guest-shopping-cart-token.dto'
+import { RemoveProductGroupDto } from '../models/remove-product-group.dto'
+import { ShoppingCartDto } from '../models/shopping-cart.dto'
+import { ProductGroupDto } from 'src/modules/product-group/models/product-group.dto'
+
+import { GuestShoppingCartService } from '../services/guest-shopping-cart.service'
+
+/**
+ * The header that must store the guest shopping cart token
+ */
+const CART_TOKEN_HEADER = 'x-cart-token'
+
+/**
+ * The app's main guest shopping cart controller class
+ *
+ * Class that deals with the shopping cart routes of the anonymous visitors,
+ * they are not protected and the shopping cart is identified by the token
+ * sent in the "x-cart-token" header
+ */
+@ApiTags('guest-shopping-carts')
+@Controller('guest-shopping-carts')
+export class GuestShoppingCartController {
+  public constructor(
+    private readonly guestShoppingCartService: GuestShoppingCartService,
+  ) {}
+
+  /**
+   * Method that is called when the user access the "/guest-shopping-carts"
+   * route with "POST" method
+   *
+   * @returns the token of the created guest shopping cart
+   */
+  @ApiOperation({ summary: 'Creates a new guest shopping cart' })
+  @ApiCreatedResponse({
+    description: 'Gets the token that identifies the shopping cart',
+    type: GuestShoppingCartTokenDto,
+  })
+  @Post()
+  public async create(): Promise<GuestShoppingCartTokenDto> {
+    const {
+      guestToken,
+      expiresAt,
+    } = await this.guestShoppingCartService.create()
+    return new GuestShoppingCartTokenDto({ token: guestToken, expiresAt })
+  }
+
+  /**
+   * Method that is called when the user access the "/guest-shopping-carts/me"
+   * route with "GET" method
+   *
+   * @param token stores the guest shopping cart token
+   * @throws {NotFoundException} if the guest shopping cart was not found
+   * or has expired
+   * @returns the guest shopping cart entity dto
+   */
+  @ApiOperation({ summary: 'Retrieves the guest shopping cart' })
+  @ApiHeader({ name: CART_TOKEN_HEADER, required: true })
+  @ApiOkResponse({
+    description: 'Gets the guest shopping cart with its products',
+    type: ShoppingCartDto,
+  })
+  @ApiNotFoundResponse({ description: 'Shopping cart not found or expired' })
+  @Get('me')
+  public async get(
+    @Headers(CART_TOKEN_HEADER) token: string,
+  ): Promise<ShoppingCartDto> {
+    const entity = await this.guestShoppingCartService.getByToken(token)
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/guest-shopping-carts/me/add" route with "POST" method
+   *
+   * @param token stores the guest shopping cart token
+   * @param addProductGroupDtos stores the add product group dtos
+   * @throws {NotFoundException} if the guest shopping cart was not found
+   * or has expired
+   * @throws {EntityNotFoundException} if some product was not found
+   * @returns the created product group entity dtos
+   */
+  @ApiOperation({
+    summary: 'Adds product groups in the guest shopping cart',
+  })
+  @ApiHeader({ name: CART_TOKEN_HEADER, required: true })
+  @ApiCreatedResponse({
+    description: 'Gets the created product group entity dtos',
+    type: ProductGroupDto,
+    isArray: true,
+  })
+  @ApiNotFoundResponse({ description: 'Shopping cart not found or expired' })
+  @ApiBody({
+    type: AddProductGroupDto,
+    isArray: true,
+  })
+  @Post('me/add')
+  public async addProduct(
+    @Headers(CART_TOKEN_HEADER) token: string,
+    @Body(new ParseArrayPipe({ items: AddProductGroupDto }))
+    addProductGroupDtos: AddProductGroupDto[],
+  ): Promise<ProductGroupDto[]> {
+    const entities = await this.guestShoppingCartService.addProducts(
+      token,
+      addProductGroupDtos,
+    )
+    return entities.map(entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/guest-shopping-carts/me/remove" route with "POST" method
+   *
+   * @param token stores the guest shopping cart token
+   * @param removeProductGroupDto stores the remove product group dto
+   * @throws {NotFoundException} if the guest shopping cart was not found
+   * or has expired
+   * @throws {NotFoundException} if the product is not in the shopping cart
+   */
+  @ApiOperation({
+    summary: 'Removes some product group from the guest shopping cart',
+  })
+  @ApiHeader({ name: CART_TOKEN_HEADER, required: true })
+  @ApiOkResponse({ description: 'Removes the product group' })
+  @ApiNotFoundResponse({ description: 'Shopping cart not found or expired' })
+  @Post('me/remove')
+  @HttpCode(200)
+  public async removeProduct(
+    @Headers(CART_TOKEN_HEADER) token: string,
+    @Body() removeProductGroupDto: RemoveProductGroupDto,
+  ): Promise<void> {
+    await this.guestShoppingCartService.removeProduct(
+      token,
+      removeProductGroupDto,
+    )
+  }
+}
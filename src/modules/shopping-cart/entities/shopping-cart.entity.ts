@@ -1,10 +1,19 @@
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
-import { Column, Entity, JoinColumn, OneToMany, OneToOne } from 'typeorm'
+import { ApiPropertyOptional } from '@nestjs/swagger'
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  OneToOne
+} from 'typeorm'
 
 import { BaseEntity } from 'src/common/base.entity'
+import { CouponEntity } from 'src/modules/coupon/entities/coupon.entity'
 import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
 import { UserEntity } from 'src/modules/user/entities/user.entity'
 
+import { ShoppingCartSummaryDto } from '../models/shopping-cart-summary.dto'
 import { ShoppingCartDto } from '../models/shopping-cart.dto'
 import { ToDto } from 'src/common/to-dto.interface'
 
@@ -18,12 +27,37 @@ export class ShoppingCartEntity extends BaseEntity
   implements ToDto<ShoppingCartDto> {
   //#region Columns
 
-  @ApiProperty()
+  @ApiPropertyOptional()
   @Column({
     type: 'int',
-    nullable: false
+    nullable: true
   })
-  public userId: number
+  public userId?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true
+  })
+  public couponId?: number
+
+  /**
+   * The opaque token that identifies the shopping cart of an anonymous
+   * visitor, it is not returned in the dto
+   */
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+    unique: true
+  })
+  public guestToken?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    nullable: true
+  })
+  public expiresAt?: Date
 
   //#region Relations
 
@@ -48,10 +82,25 @@ export class ShoppingCartEntity extends BaseEntity
   )
   public productGroups?: ProductGroupEntity[]
 
+  @ApiPropertyOptional({
+    type: () => CouponEntity
+  })
+  @ManyToOne(() => CouponEntity, { onDelete: 'SET NULL' })
+  public coupon?: CouponEntity
+
   //#endregion
 
   //#endregion
 
+  /**
+   * The prices calculated by the server, they are not stored in the
+   * database
+   */
+  @ApiPropertyOptional({
+    type: () => ShoppingCartSummaryDto
+  })
+  public summary?: ShoppingCartSummaryDto
+
   public constructor(partial: Partial<ShoppingCartEntity>) {
     super()
     Object.assign(this, partial)
@@ -1,7 +1,9 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
 
-import { IsDefined, IsNumber, IsOptional } from 'class-validator'
 import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+import { PaymentMethod } from 'src/models/enums/payment-method.enum'
+
+import { IsDefined, IsEnum, IsNumber, IsOptional, Min } from 'class-validator'
 
 /**
  * The app's main finish shopping cart dto class
@@ -9,20 +11,22 @@ import { DefaultValidationMessages } from 'src/models/enums/default-validation-m
  * Class that handles the dto sent by the user to perform the finishing
  */
 export class FinishShoppingCartDto {
-  @ApiProperty()
-  @IsDefined({ message: 'It is required to send the shipping price' })
-  @IsNumber(
-    { maxDecimalPlaces: 2 },
-    { message: DefaultValidationMessages.IsNumber }
-  )
-  public shippingPrice: number
+  @ApiProperty({ enum: PaymentMethod })
+  @IsDefined({ message: 'It is required to send the payment method' })
+  @IsEnum(PaymentMethod, {
+    message: 'It is required to send a valid payment method'
+  })
+  public paymentMethod: PaymentMethod
 
-  @ApiPropertyOptional()
+  @ApiPropertyOptional({
+    description: 'The amount of installments, only allowed for credit cards'
+  })
   @IsOptional()
   @IsNumber(
     { maxDecimalPlaces: 0 },
     { message: DefaultValidationMessages.IsNumber }
   )
+  @Min(1)
   public installmentAmount?: number
 
   @ApiProperty()
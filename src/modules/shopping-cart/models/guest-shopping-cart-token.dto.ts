@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+/**
+ * The app's main guest shopping cart token dto class
+ *
+ * Class that deals with the token that identifies the shopping cart of an
+ * anonymous visitor
+ */
+export class GuestShoppingCartTokenDto {
+  @ApiProperty()
+  public token: string
+
+  @ApiProperty()
+  public expiresAt: Date
+
+  public constructor(partial: Partial<GuestShoppingCartTokenDto>) {
+    Object.assign(this, partial)
+  }
+}
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsDefined, IsNumber, Min } from 'class-validator'
+
+/**
+ * The app's main set product group amount dto class
+ *
+ * Class that handles the dto sent by the user to set the amount of some
+ * shopping cart line, when it is zero the line is removed
+ */
+export class SetProductGroupAmountDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the amount' })
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(0)
+  public amount: number
+}
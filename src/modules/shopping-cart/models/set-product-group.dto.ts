@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsDefined, IsNumber, Min } from 'class-validator'
+
+/**
+ * The app's main set product group dto class
+ *
+ * Class that handles the dto sent by the user to set the exact amount of
+ * some product in the shopping cart
+ */
+export class SetProductGroupDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the product id' })
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public productId: number
+
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the amount' })
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public amount: number
+}
@@ -0,0 +1,118 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { ShoppingCartLineIssue } from 'src/models/enums/shopping-cart-line-issue.enum'
+
+/**
+ * The app's main shopping cart line dto class
+ *
+ * Class that deals with the prices of each product of the shopping cart
+ */
+export class ShoppingCartLineDto {
+  @ApiProperty()
+  public productGroupId: number
+
+  @ApiProperty()
+  public productId: number
+
+  @ApiProperty()
+  public productName: string
+
+  @ApiProperty()
+  public amount: number
+
+  @ApiProperty({ description: 'The product price without the discount' })
+  public unitPrice: number
+
+  @ApiProperty({ description: 'The product discount, from 0 to 1' })
+  public discount: number
+
+  @ApiProperty({ description: 'The product price with the discount' })
+  public finalUnitPrice: number
+
+  @ApiProperty({ description: 'The amount of money saved by the discount' })
+  public savings: number
+
+  @ApiProperty()
+  public total: number
+
+  @ApiPropertyOptional()
+  public installmentPrice?: number
+
+  @ApiProperty()
+  public installmentAmount: number
+
+  @ApiProperty({
+    description: 'The product stock that is not held by other buyers',
+  })
+  public stockAmount: number
+
+  @ApiProperty({
+    enum: ShoppingCartLineIssue,
+    isArray: true,
+    description:
+      'The problems that prevent the line from being bought, when there is some problem the line is not considered in the shopping cart totals',
+  })
+  public issues: ShoppingCartLineIssue[]
+
+  public constructor(partial: ShoppingCartLineDto) {
+    Object.assign(this, partial)
+  }
+}
+
+/**
+ * The app's main installment plan dto class
+ *
+ * Class that deals with each way that the shopping cart can be paid
+ */
+export class InstallmentPlanDto {
+  @ApiProperty()
+  public installmentAmount: number
+
+  @ApiProperty()
+  public installmentValue: number
+
+  @ApiProperty()
+  public total: number
+
+  @ApiProperty()
+  public isInterestFree: boolean
+
+  public constructor(partial: InstallmentPlanDto) {
+    Object.assign(this, partial)
+  }
+}
+
+/**
+ * The app's main shopping cart summary dto class
+ *
+ * Class that deals with the shopping cart prices calculated by the server
+ */
+export class ShoppingCartSummaryDto {
+  @ApiProperty({ type: () => ShoppingCartLineDto, isArray: true })
+  public lines: ShoppingCartLineDto[]
+
+  @ApiProperty({ description: 'The sum of the prices without discount' })
+  public subtotal: number
+
+  @ApiProperty({ description: 'The sum of the product discounts' })
+  public discountTotal: number
+
+  @ApiProperty({
+    description:
+      'The discount of the applied coupon, without the free shipping coupons',
+  })
+  public couponDiscount: number
+
+  @ApiProperty({ description: 'The total without the shipping price' })
+  public total: number
+
+  @ApiProperty({ type: () => InstallmentPlanDto, isArray: true })
+  public installmentPlans: InstallmentPlanDto[]
+
+  @ApiProperty()
+  public hasIssues: boolean
+
+  public constructor(partial: ShoppingCartSummaryDto) {
+    Object.assign(this, partial)
+  }
+}
@@ -2,8 +2,10 @@ import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
 
 import { ShoppingCartEntity } from '../entities/shopping-cart.entity'
 
+import { ShoppingCartSummaryDto } from './shopping-cart-summary.dto'
 import { BaseGetManyDefaultResponseDto } from 'src/common/base-get-many-default-response.dto'
 import { BaseResponseDto } from 'src/common/base-response.dto'
+import { CouponDto } from 'src/modules/coupon/models/coupon.dto'
 import { ProductGroupDto } from 'src/modules/product-group/models/product-group.dto'
 import { UserDto } from 'src/modules/user/models/user.dto'
 
@@ -13,8 +15,17 @@ import { UserDto } from 'src/modules/user/models/user.dto'
  * Class that deals with the shopping cart return data
  */
 export class ShoppingCartDto extends BaseResponseDto {
-  @ApiProperty()
-  public userId: number
+  @ApiPropertyOptional()
+  public userId?: number
+
+  @ApiPropertyOptional()
+  public couponId?: number
+
+  @ApiPropertyOptional()
+  public expiresAt?: Date
+
+  @ApiPropertyOptional({ type: () => ShoppingCartSummaryDto })
+  public summary?: ShoppingCartSummaryDto
 
   //#region Relations
 
@@ -27,18 +38,25 @@ export class ShoppingCartDto extends BaseResponseDto {
   })
   public productGroups?: ProductGroupDto[]
 
+  @ApiPropertyOptional({ type: () => CouponDto })
+  public coupon?: CouponDto
+
   //#endregion
 
   public constructor(entity: ShoppingCartEntity) {
     super(entity)
 
     this.userId = entity.userId
+    this.couponId = entity.couponId
+    this.expiresAt = entity.expiresAt
+    this.summary = entity.summary
 
     // relations
     this.user = entity.user?.toDto()
     this.productGroups = entity.productGroups?.map(productGroup =>
       productGroup.toDto()
     )
+    this.coupon = entity.coupon?.toDto()
   }
 }
 
@@ -0,0 +1,205 @@
+import { NotFoundException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { ShoppingCartEntity } from '../entities/shopping-cart.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { StockReservationEntity } from 'src/modules/stock-reservation/entities/stock-reservation.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { GuestShoppingCartService } from './guest-shopping-cart.service'
+import { StockReservationService } from 'src/modules/stock-reservation/services/stock-reservation.service'
+
+describe('GuestShoppingCartService', () => {
+  let service: GuestShoppingCartService
+  let seller: UserEntity
+  let sequence = 0
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+
+    seller = await createUser(RolesEnum.Seller)
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        GuestShoppingCartService,
+        {
+          provide: getRepositoryToken(ShoppingCartEntity),
+          useValue: getRepository(ShoppingCartEntity),
+        },
+        ConfigService,
+        StockReservationService,
+        {
+          provide: getRepositoryToken(StockReservationEntity),
+          useValue: getRepository(StockReservationEntity),
+        },
+      ],
+    }).compile()
+
+    service = await module.resolve(GuestShoppingCartService)
+  })
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Common): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `guest-${sequence}@test.com`,
+      password: '123456',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates a new product entity sold by the seller
+   *
+   * @param stockAmount stores the product stock
+   * @returns the created product entity
+   */
+  async function createProduct(stockAmount: number): Promise<ProductEntity> {
+    sequence++
+    return await new ProductEntity({
+      name: `PRODUCT-TEST-${sequence}`,
+      description: 'PRODUCT-TEST',
+      price: 10,
+      stockAmount,
+      userId: seller.id,
+    }).save()
+  }
+
+  describe('mergeIntoUserCart', () => {
+    // tests if the guest products are summed with the user products without
+    // exceeding the stock
+    it('should merge the guest shopping cart into the user shopping cart', async () => {
+      const shared = await createProduct(5)
+      const guestOnly = await createProduct(2)
+
+      const user = await createUser()
+      const shoppingCart = await new ShoppingCartEntity({
+        userId: user.id,
+      }).save()
+      await UserEntity.update(
+        { id: user.id },
+        { shoppingCartId: shoppingCart.id },
+      )
+      await new ProductGroupEntity({
+        amount: 3,
+        productId: shared.id,
+        shoppingCartId: shoppingCart.id,
+      }).save()
+
+      const { guestToken, id } = await service.create()
+      await service.addProducts(guestToken, [
+        { productId: shared.id, amount: 4 },
+        { productId: guestOnly.id, amount: 3 },
+      ])
+
+      const merged = await service.mergeIntoUserCart(guestToken, user)
+
+      expect(merged.id).toBe(shoppingCart.id)
+
+      const productGroups = await ProductGroupEntity.find({
+        shoppingCartId: shoppingCart.id,
+      })
+      expect(
+        productGroups
+          .map(({ productId, amount }) => ({ productId, amount }))
+          .sort((a, b) => a.productId - b.productId),
+      ).toEqual([
+        { productId: shared.id, amount: 5 },
+        { productId: guestOnly.id, amount: 2 },
+      ])
+
+      expect(await ShoppingCartEntity.findOne({ id })).toBeUndefined()
+      expect(await ProductGroupEntity.count({ shoppingCartId: id })).toBe(0)
+    })
+
+    // tests if a user without shopping cart receives the guest products
+    it('should create the user shopping cart when the user has none', async () => {
+      const product = await createProduct(10)
+      const user = await createUser()
+
+      const { guestToken } = await service.create()
+      await service.addProducts(guestToken, [{ productId: product.id }])
+
+      const merged = await service.mergeIntoUserCart(guestToken, user)
+      await user.reload()
+
+      expect(user.shoppingCartId).toBe(merged.id)
+      expect(
+        await ProductGroupEntity.findOne({ shoppingCartId: merged.id }),
+      ).toMatchObject({ productId: product.id, amount: 1 })
+    })
+
+    // tests if invalid guest amounts are not copied to the user shopping cart
+    it('should merge at least one unit of each product', async () => {
+      const product = await createProduct(10)
+      const user = await createUser()
+
+      const { guestToken, id } = await service.create()
+      await service.addProducts(guestToken, [{ productId: product.id }])
+      await ProductGroupEntity.update({ shoppingCartId: id }, { amount: 0 })
+
+      const merged = await service.mergeIntoUserCart(guestToken, user)
+
+      expect(
+        await ProductGroupEntity.findOne({ shoppingCartId: merged.id }),
+      ).toMatchObject({ productId: product.id, amount: 1 })
+    })
+
+    // tests if an unknown token does not prevent the login
+    it('should do nothing when the token is unknown', async () => {
+      const user = await createUser()
+
+      expect(
+        await service.mergeIntoUserCart('UNKNOWN-TOKEN', user),
+      ).toBeUndefined()
+    })
+  })
+
+  describe('sweepExpired', () => {
+    // tests if the abandoned guest shopping carts expire
+    it('should remove the expired guest shopping carts', async () => {
+      const product = await createProduct(10)
+
+      const { guestToken, id } = await service.create()
+      await service.addProducts(guestToken, [{ productId: product.id }])
+      await ShoppingCartEntity.update(
+        { id },
+        { expiresAt: new Date(Date.now() - 1000) },
+      )
+
+      await expect(service.getByToken(guestToken)).rejects.toThrow(
+        NotFoundException,
+      )
+
+      expect(await service.sweepExpired()).toBeGreaterThanOrEqual(1)
+      expect(await ShoppingCartEntity.findOne({ id })).toBeUndefined()
+      expect(await ProductGroupEntity.count({ shoppingCartId: id })).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,421 @@
+import {
+  Injectable,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectRepository } from '@nestjs/typeorm'
+import { EntityManager, Repository } from 'typeorm'
+
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { ShoppingCartEntity } from '../entities/shopping-cart.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { AddProductGroupDto } from '../models/add-product-group.dto'
+import { RemoveProductGroupDto } from '../models/remove-product-group.dto'
+
+import { ShoppingCartService } from './shopping-cart.service'
+import { ProductVariantService } from 'src/modules/product/services/product-variant.service'
+import { StockReservationService } from 'src/modules/stock-reservation/services/stock-reservation.service'
+
+import { toDatabaseDate } from 'src/utils/sql'
+
+import { randomBytes } from 'crypto'
+
+/**
+ * The app's main guest shopping cart service class
+ *
+ * Class that deals with the shopping carts of the anonymous visitors, that
+ * are identified by an opaque token instead of an user
+ */
+@Injectable()
+export class GuestShoppingCartService implements OnModuleInit, OnModuleDestroy {
+  /**
+   * The timer that periodically removes the abandoned guest shopping carts
+   */
+  private sweeper: NodeJS.Timeout
+
+  public constructor(
+    @InjectRepository(ShoppingCartEntity)
+    private readonly repository: Repository<ShoppingCartEntity>,
+    private readonly configService: ConfigService,
+    private readonly stockReservationService: StockReservationService,
+  ) {}
+
+  /**
+   * Method that is called after the nest created the component
+   */
+  public onModuleInit(): void {
+    const interval =
+      Number(
+        this.configService.get<string>('GUEST_SHOPPING_CART_SWEEP_SECONDS'),
+      ) || 3600
+
+    this.sweeper = setInterval(() => {
+      this.sweepExpired().catch(() => undefined)
+    }, interval * 1000)
+    this.sweeper.unref()
+  }
+
+  /**
+   * Method that is called before the nest destroys the component
+   */
+  public onModuleDestroy(): void {
+    clearInterval(this.sweeper)
+  }
+
+  /**
+   * Method that creates a new empty guest shopping cart
+   *
+   * @returns the created shopping cart entity, with its token
+   */
+  public async create(): Promise<ShoppingCartEntity> {
+    return await this.repository.save(
+      new ShoppingCartEntity({
+        guestToken: randomBytes(32).toString('hex'),
+        expiresAt: this.getExpirationDate(),
+      }),
+    )
+  }
+
+  /**
+   * Method that gets the guest shopping cart with its products and the
+   * prices calculated by the server
+   *
+   * @param token stores the guest shopping cart token
+   * @throws {NotFoundException} if the guest shopping cart was not found
+   * or has expired
+   * @returns the found shopping cart entity
+   */
+  public async getByToken(token: string): Promise<ShoppingCartEntity> {
+    const shoppingCart = await this.findActive(token)
+
+    const productGroups = await ProductGroupEntity.find({
+      where: { shoppingCartId: shoppingCart.id },
+      relations: ['product', 'product.categories'],
+    })
+    const availableStock = await this.stockReservationService.getAvailableStock(
+      productGroups.map(({ product }) => product),
+    )
+
+    shoppingCart.productGroups = productGroups
+    shoppingCart.summary = ShoppingCartService.summarize(
+      productGroups,
+      0,
+      availableStock,
+    )
+
+    return shoppingCart
+  }
+
+  /**
+   * Method that can add some products in the guest shopping cart
+   *
+   * @param token stores the guest shopping cart token
+   * @param addProductGroupDtos stores the products and their amounts
+   * @throws {NotFoundException} if the guest shopping cart was not found
+   * or has expired
+   * @throws {EntityNotFoundException} if some product was not found
+   * @throws {BadRequestException} if some product is sold through variants
+   * @returns the created or updated product group entities
+   */
+  public async addProducts(
+    token: string,
+    addProductGroupDtos: AddProductGroupDto[],
+  ): Promise<ProductGroupEntity[]> {
+    const shoppingCart = await this.findActive(token)
+
+    const productGroups: ProductGroupEntity[] = []
+
+    for (const { productId, amount = 1 } of addProductGroupDtos) {
+      const product = await ProductEntity.findOne({ id: productId })
+
+      if (!product || !product.isActive) {
+        throw new EntityNotFoundException(productId, ProductEntity)
+      }
+
+      ProductVariantService.assertPurchasable(product)
+
+      let productGroup = await ProductGroupEntity.findOne({
+        productId,
+        shoppingCartId: shoppingCart.id,
+      })
+
+      if (!productGroup) {
+        productGroup = await new ProductGroupEntity({
+          amount,
+          productId,
+          shoppingCartId: shoppingCart.id,
+        }).save()
+      } else {
+        await ProductGroupEntity.update(
+          { id: productGroup.id },
+          { amount: productGroup.amount + amount },
+        )
+        await productGroup.reload()
+      }
+
+      productGroups.push(productGroup)
+    }
+
+    return productGroups
+  }
+
+  /**
+   * Method that can remove some product from the guest shopping cart
+   *
+   * @param token stores the guest shopping cart token
+   * @param removeProductGroupDto stores the product and how many units
+   * will be removed, when the amount is not sent all of them are removed
+   * @throws {NotFoundException} if the guest shopping cart was not found
+   * or has expired
+   * @throws {NotFoundException} if the product is not in the shopping cart
+   */
+  public async removeProduct(
+    token: string,
+    removeProductGroupDto: RemoveProductGroupDto,
+  ): Promise<void> {
+    const shoppingCart = await this.findActive(token)
+    const { productId } = removeProductGroupDto
+
+    const productGroup = await ProductGroupEntity.findOne({
+      productId,
+      shoppingCartId: shoppingCart.id,
+    })
+
+    if (!productGroup || !productGroup.isActive) {
+      throw new NotFoundException(
+        'This shopping cart has no product of this type',
+      )
+    }
+
+    const amount = removeProductGroupDto.amount ?? productGroup.amount
+
+    if (productGroup.amount - amount <= 0) {
+      await ProductGroupEntity.delete({ id: productGroup.id })
+    } else {
+      await ProductGroupEntity.update(
+        { id: productGroup.id },
+        { amount: productGroup.amount - amount },
+      )
+    }
+  }
+
+  /**
+   * Method that moves the products of some guest shopping cart to the user
+   * shopping cart, summing the amounts of the products that are in both of
+   * them without exceeding the available stock. The guest shopping cart is
+   * removed after that
+   *
+   * When the token does not match any active guest shopping cart nothing
+   * is done, so an abandoned cart never prevents the user from logging in
+   *
+   * @param token stores the guest shopping cart token
+   * @param user stores the user that owns the destination shopping cart
+   * @returns the user shopping cart entity, or undefined if there was
+   * nothing to merge
+   */
+  public async mergeIntoUserCart(
+    token: string,
+    user: UserEntity,
+  ): Promise<ShoppingCartEntity | undefined> {
+    return await this.repository.manager.transaction(async manager => {
+      const guestShoppingCart = await manager.findOne(ShoppingCartEntity, {
+        guestToken: token,
+      })
+
+      if (!GuestShoppingCartService.isAvailable(guestShoppingCart)) {
+        return
+      }
+
+      const guestProductGroups = await manager.find(ProductGroupEntity, {
+        where: { shoppingCartId: guestShoppingCart.id },
+        relations: ['product'],
+      })
+
+      // the guest shopping cart is removed first, so a concurrent login with
+      // the same token has nothing left to merge
+      await manager.delete(ProductGroupEntity, {
+        shoppingCartId: guestShoppingCart.id,
+      })
+      await manager.delete(ShoppingCartEntity, { id: guestShoppingCart.id })
+
+      const shoppingCart = await this.findOrCreateUserCart(manager, user.id)
+
+      const availableStock = await this.stockReservationService.getAvailableStock(
+        guestProductGroups.map(({ product }) => product),
+        user.id,
+        manager,
+      )
+
+      for (const { product, amount } of guestProductGroups) {
+        if (!product.isActive) continue
+
+        const available = Math.max(availableStock.get(product.id) ?? 0, 0)
+
+        const productGroup = await manager.findOne(ProductGroupEntity, {
+          productId: product.id,
+          shoppingCartId: shoppingCart.id,
+        })
+
+        // the merged amounts never go below one, even when the guest
+        // shopping cart stores some invalid amount
+        if (productGroup) {
+          const mergedAmount = Math.max(
+            Math.min(productGroup.amount + amount, available),
+            productGroup.amount,
+            1,
+          )
+
+          await manager.update(
+            ProductGroupEntity,
+            { id: productGroup.id },
+            { amount: mergedAmount },
+          )
+        } else if (available > 0) {
+          await manager.save(
+            new ProductGroupEntity({
+              amount: Math.max(Math.min(amount, available), 1),
+              productId: product.id,
+              shoppingCartId: shoppingCart.id,
+            }),
+          )
+        }
+      }
+
+      return shoppingCart
+    })
+  }
+
+  /**
+   * Method that removes all the guest shopping carts that have expired
+   *
+   * @returns the amount of removed shopping carts
+   */
+  public async sweepExpired(): Promise<number> {
+    const { manager } = this.repository
+
+    const expired = await manager
+      .createQueryBuilder(ShoppingCartEntity, 'shoppingCart')
+      .select('shoppingCart.id', 'id')
+      .where('shoppingCart.guestToken IS NOT NULL')
+      .andWhere('shoppingCart.expiresAt <= :now', {
+        now: toDatabaseDate(
+          manager.connection,
+          ShoppingCartEntity,
+          'expiresAt',
+          new Date(),
+        ),
+      })
+      .getRawMany()
+
+    if (expired.length > 0) {
+      const ids = expired.map(({ id }) => Number(id))
+
+      await manager
+        .createQueryBuilder()
+        .delete()
+        .from(ProductGroupEntity)
+        .where('shoppingCartId IN (:...ids)', { ids })
+        .execute()
+      await manager.delete(ShoppingCartEntity, ids)
+    }
+
+    return expired.length
+  }
+
+  /**
+   * Method that finds some active guest shopping cart and extends its
+   * expiration, since the visitor is still using it
+   *
+   * @param token stores the guest shopping cart token
+   * @throws {NotFoundException} if the guest shopping cart was not found
+   * or has expired
+   * @returns the found shopping cart entity
+   */
+  private async findActive(token: string): Promise<ShoppingCartEntity> {
+    const shoppingCart = token
+      ? await this.repository.findOne({ guestToken: token })
+      : undefined
+
+    if (!GuestShoppingCartService.isAvailable(shoppingCart)) {
+      throw new NotFoundException(
+        'This guest shopping cart does not exist or has expired',
+      )
+    }
+
+    shoppingCart.expiresAt = this.getExpirationDate()
+    await this.repository.update(
+      { id: shoppingCart.id },
+      { expiresAt: shoppingCart.expiresAt },
+    )
+
+    return shoppingCart
+  }
+
+  /**
+   * Method that gets the user shopping cart, creating it when the user has
+   * none
+   *
+   * @param manager stores the entity manager of the current transaction
+   * @param userId stores the user id
+   * @returns the user shopping cart entity
+   */
+  private async findOrCreateUserCart(
+    manager: EntityManager,
+    userId: number,
+  ): Promise<ShoppingCartEntity> {
+    const user = await manager.findOne(UserEntity, { id: userId })
+
+    const shoppingCart = user.shoppingCartId
+      ? await manager.findOne(ShoppingCartEntity, { id: user.shoppingCartId })
+      : undefined
+
+    if (shoppingCart) {
+      return shoppingCart
+    }
+
+    const created = await manager.save(new ShoppingCartEntity({ userId }))
+    await manager.update(
+      UserEntity,
+      { id: userId },
+      { shoppingCartId: created.id },
+    )
+
+    return created
+  }
+
+  /**
+   * Method that calculates when a guest shopping cart that is used now
+   * will be considered abandoned
+   *
+   * @returns the expiration date
+   */
+  private getExpirationDate(): Date {
+    const days =
+      Number(this.configService.get<string>('GUEST_SHOPPING_CART_DAYS')) || 7
+
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+  }
+
+  /**
+   * Method that validates if some shopping cart is a guest shopping cart
+   * that can still be used
+   *
+   * @param shoppingCart stores the shopping cart entity
+   * @returns true if the shopping cart can be used
+   */
+  private static isAvailable(shoppingCart?: ShoppingCartEntity): boolean {
+    return (
+      !!shoppingCart &&
+      shoppingCart.isActive &&
+      !!shoppingCart.guestToken &&
+      !shoppingCart.userId &&
+      shoppingCart.expiresAt > new Date()
+    )
+  }
+}
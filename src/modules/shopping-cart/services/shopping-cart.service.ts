@@ -10,11 +10,19 @@ import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception
 import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
 
 import { ShoppingCartEntity } from '../entities/shopping-cart.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
 import { UserEntity } from 'src/modules/user/entities/user.entity'
 
 import { CreateShoppingCartDto } from '../models/create-shopping-cart.dto'
+import {
+  InstallmentPlanDto,
+  ShoppingCartLineDto,
+  ShoppingCartSummaryDto,
+} from '../models/shopping-cart-summary.dto'
 import { UpdateShoppingCartDto } from '../models/update-shopping-cart.dto'
+import { ShoppingCartLineIssue } from 'src/models/enums/shopping-cart-line-issue.enum'
 
+import { OrderService } from 'src/modules/order/services/order.service'
 import { UserService } from 'src/modules/user/services/user.service'
 
 import { some } from 'src/utils/crud'
@@ -226,4 +234,131 @@ export class ShoppingCartService extends TypeOrmCrudService<
 
     await ShoppingCartEntity.update({ id: shoppingCartId }, { isActive: true })
   }
+
+  /**
+   * Method that calculates the shopping cart prices, so every client shows
+   * the same values that will be charged in the checkout. The lines with
+   * some issue are not considered in the totals
+   *
+   * The product installment price is the full price paid when the product
+   * is split, and the products without it can be split free of interests
+   *
+   * @param productGroups stores the shopping cart product groups with
+   * their products
+   * @param couponDiscount stores the discount given by the applied coupon
+   * @param availableStock stores the stock of each product that is not
+   * held by other buyers
+   * @returns the shopping cart summary
+   */
+  public static summarize(
+    productGroups: ProductGroupEntity[],
+    couponDiscount = 0,
+    availableStock = new Map<number, number>(),
+  ): ShoppingCartSummaryDto {
+    const round = (value: number) => Math.round(value * 100) / 100
+
+    const lines = productGroups.map(productGroup => {
+      const { id, amount, product } = productGroup
+      const discount = product.discount ?? 0
+
+      return new ShoppingCartLineDto({
+        productGroupId: id,
+        productId: product.id,
+        productName: product.name,
+        amount,
+        unitPrice: product.price,
+        discount,
+        finalUnitPrice: round(product.price * (1 - discount)),
+        savings: round(product.price * discount * amount),
+        total: round(product.price * (1 - discount) * amount),
+        installmentPrice: product.installmentPrice,
+        installmentAmount: product.installmentAmount ?? 1,
+        stockAmount: availableStock.get(product.id) ?? product.stockAmount,
+        issues: ShoppingCartService.getLineIssues(productGroup, availableStock),
+      })
+    })
+    const availableLines = lines.filter(line => line.issues.length === 0)
+    const availableProductGroups = availableLines.map(
+      ({ unitPrice, discount, amount, installmentPrice }) =>
+        new ProductGroupEntity({
+          unitPrice,
+          discount,
+          amount,
+          installmentPrice,
+        }),
+    )
+
+    // the totals are calculated in the same way that the order totals
+    const { subtotal, discountTotal, total } = OrderService.calculateTotals(
+      availableProductGroups,
+      0,
+      couponDiscount,
+    )
+
+    // the whole shopping cart is paid at once, so it can only be split in
+    // the amount of installments accepted by all of its products
+    const maxInstallmentAmount = availableLines.length
+      ? Math.min(...availableLines.map(line => line.installmentAmount))
+      : 0
+    const installmentPlans: InstallmentPlanDto[] = []
+    for (
+      let installmentAmount = 1;
+      installmentAmount <= maxInstallmentAmount;
+      installmentAmount++
+    ) {
+      const planTotal = round(
+        total +
+          OrderService.calculateInstallmentInterest(
+            availableProductGroups,
+            installmentAmount,
+          ),
+      )
+
+      installmentPlans.push(
+        new InstallmentPlanDto({
+          installmentAmount,
+          installmentValue: round(planTotal / installmentAmount),
+          total: planTotal,
+          isInterestFree: planTotal <= total,
+        }),
+      )
+    }
+
+    return new ShoppingCartSummaryDto({
+      lines,
+      subtotal,
+      discountTotal,
+      couponDiscount,
+      total,
+      installmentPlans,
+      hasIssues: lines.length !== availableLines.length,
+    })
+  }
+
+  /**
+   * Method that finds the problems that prevent some shopping cart line
+   * from being bought
+   *
+   * @param productGroup stores the shopping cart line with its product
+   * @param availableStock stores the stock of each product that is not
+   * held by other buyers
+   * @returns the found issues
+   */
+  public static getLineIssues(
+    productGroup: ProductGroupEntity,
+    availableStock = new Map<number, number>(),
+  ): ShoppingCartLineIssue[] {
+    const { amount, product } = productGroup
+    const issues: ShoppingCartLineIssue[] = []
+
+    if (!product.isActive) {
+      issues.push(ShoppingCartLineIssue.ProductDisabled)
+    }
+
+    if (amount > (availableStock.get(product.id) ?? product.stockAmount)) {
+      issues.push(ShoppingCartLineIssue.InsufficientStock)
+    }
+
+    return issues
+  }
 }
@@ -1,23 +1,29 @@
 import { forwardRef, Module } from '@nestjs/common'
+import { ConfigModule } from '@nestjs/config'
 import { TypeOrmModule } from '@nestjs/typeorm'
 
 import { ShoppingCartEntity } from './entities/shopping-cart.entity'
 
+import { GuestShoppingCartService } from './services/guest-shopping-cart.service'
 import { ShoppingCartService } from './services/shopping-cart.service'
 
+import { GuestShoppingCartController } from './controllers/guest-shopping-cart.controller'
 import { ShoppingCartController } from './controllers/shopping-cart.controller'
 
 import { ProductModule } from '../product/product.module'
+import { StockReservationModule } from '../stock-reservation/stock-reservation.module'
 import { UserModule } from '../user/user.module'
 
 @Module({
   imports: [
     ProductModule,
+    ConfigModule,
+    StockReservationModule,
     forwardRef(() => UserModule),
     TypeOrmModule.forFeature([ShoppingCartEntity])
   ],
-  controllers: [ShoppingCartController],
-  providers: [ShoppingCartService],
-  exports: [ShoppingCartService]
+  controllers: [ShoppingCartController, GuestShoppingCartController],
+  providers: [ShoppingCartService, GuestShoppingCartService],
+  exports: [ShoppingCartService, GuestShoppingCartService]
 })
 export class ShoppingCartModule {}
@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne } from 'typeorm'
+
+import { BaseEntity } from 'src/common/base.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { StockReservationDto } from '../models/stock-reservation.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+
+/**
+ * The app's main stock reservation entity class
+ *
+ * Class that represents the entity that holds some amount of a product
+ * stock while its buyer finishes the checkout
+ */
+@Entity('stock-reservation')
+export class StockReservationEntity extends BaseEntity
+  implements ToDto<StockReservationDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public amount: number
+
+  @ApiProperty()
+  @Column({
+    nullable: false,
+  })
+  public expiresAt: Date
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public productId: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public userId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => ProductEntity })
+  @ManyToOne(() => ProductEntity, { onDelete: 'CASCADE' })
+  public product?: ProductEntity
+
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  public user?: UserEntity
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<StockReservationEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): StockReservationDto {
+    return new StockReservationDto(this)
+  }
+}
@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { StockReservationEntity } from '../entities/stock-reservation.entity'
+
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { ProductDto } from 'src/modules/product/models/product.dto'
+import { UserDto } from 'src/modules/user/models/user.dto'
+
+/**
+ * The app's main stock reservation dto class
+ *
+ * Class that deals with the stock reservation return data
+ */
+export class StockReservationDto extends BaseResponseDto {
+  @ApiProperty()
+  public amount: number
+
+  @ApiProperty()
+  public expiresAt: Date
+
+  @ApiProperty()
+  public productId: number
+
+  @ApiProperty()
+  public userId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => ProductDto })
+  public product?: ProductDto
+
+  @ApiPropertyOptional({ type: () => UserDto })
+  public user?: UserDto
+
+  //#endregion
+
+  public constructor(entity: StockReservationEntity) {
+    super(entity)
+
+    this.amount = entity.amount
+    this.expiresAt = entity.expiresAt
+    this.productId = entity.productId
+    this.userId = entity.userId
+
+    // relations
+    this.product = entity.product?.toDto()
+    this.user = entity.user?.toDto()
+  }
+}
@@ -0,0 +1,318 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { InjectRepository } from '@nestjs/typeorm'
+import { EntityManager, Repository } from 'typeorm'
+
+import {
+  InsufficientStockException,
+  StockShortage,
+} from 'src/exceptions/bad-request/insufficient-stock.exception'
+
+import { StockReservationEntity } from '../entities/stock-reservation.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+
+import { NotificationService } from 'src/modules/notification/services/notification.service'
+
+import { toDatabaseDate } from 'src/utils/sql'
+
+/**
+ * The app's main stock reservation service class
+ *
+ * Class that deals with the stock held while the buyers finish their
+ * checkouts
+ */
+@Injectable()
+export class StockReservationService implements OnModuleInit, OnModuleDestroy {
+  /**
+   * The timer that periodically removes the expired reservations
+   */
+  private sweeper: NodeJS.Timeout
+
+  public constructor(
+    @InjectRepository(StockReservationEntity)
+    private readonly repository: Repository<StockReservationEntity>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Method that is called after the nest created the component
+   */
+  public onModuleInit(): void {
+    const interval =
+      Number(
+        this.configService.get<string>('STOCK_RESERVATION_SWEEP_SECONDS'),
+      ) || 60
+
+    this.sweeper = setInterval(() => {
+      this.sweepExpired().catch(() => undefined)
+    }, interval * 1000)
+    this.sweeper.unref()
+  }
+
+  /**
+   * Method that is called before the nest destroys the component
+   */
+  public onModuleDestroy(): void {
+    clearInterval(this.sweeper)
+  }
+
+  /**
+   * Method that holds the stock of some products for the user, replacing
+   * the user previous reservations
+   *
+   * @param manager stores the entity manager of the current transaction
+   * @param userId stores the buyer id
+   * @param items stores the products that will be reserved and the amount
+   * of each one of them
+   * @throws {InsufficientStockException} if some product has not enough
+   * available stock
+   * @returns the created reservations
+   */
+  public async reserve(
+    manager: EntityManager,
+    userId: number,
+    items: Pick<ProductGroupEntity, 'product' | 'amount'>[],
+  ): Promise<StockReservationEntity[]> {
+    await this.release(manager, userId)
+    await this.lock(
+      manager,
+      items.map(({ product }) => product.id),
+    )
+
+    const products = await manager.findByIds(
+      ProductEntity,
+      items.map(({ product }) => product.id),
+    )
+    const availableStock = await this.getAvailableStock(
+      products,
+      userId,
+      manager,
+    )
+
+    StockReservationService.assertAvailable(
+      items.map(({ product, amount }) => ({
+        product,
+        amount,
+        available: availableStock.get(product.id),
+      })),
+    )
+
+    const minutes =
+      Number(this.configService.get<string>('STOCK_RESERVATION_MINUTES')) || 15
+    const expiresAt = new Date(Date.now() + minutes * 60 * 1000)
+
+    return await manager.save(
+      items.map(
+        ({ product, amount }) =>
+          new StockReservationEntity({
+            amount,
+            expiresAt,
+            productId: product.id,
+            userId,
+          }),
+      ),
+    )
+  }
+
+  /**
+   * Method that locks the rows of some products until the current
+   * transaction ends, so concurrent reservations and checkouts of the same
+   * products wait for it before counting the reserved stock
+   *
+   * The rows are always locked in the same order to avoid deadlocks
+   *
+   * @param manager stores the entity manager of the current transaction
+   * @param productIds stores the ids of the products that will be locked
+   */
+  public async lock(
+    manager: EntityManager,
+    productIds: number[],
+  ): Promise<void> {
+    for (const productId of [...new Set(productIds)].sort((a, b) => a - b)) {
+      await manager
+        .createQueryBuilder()
+        .update(ProductEntity)
+        .set({ stockAmount: () => '"stockAmount"' })
+        .where('id = :productId', { productId })
+        .execute()
+    }
+  }
+
+  /**
+   * Method that removes all the reservations of some user
+   *
+   * @param manager stores the entity manager of the current transaction
+   * @param userId stores the user id
+   */
+  public async release(manager: EntityManager, userId: number): Promise<void> {
+    await manager.delete(StockReservationEntity, { userId })
+  }
+
+  /**
+   * Method that calculates the stock of some products that is not held by
+   * other users
+   *
+   * @param products stores the products that will be checked
+   * @param exceptUserId stores the user whose reservations must be
+   * considered available, usually the buyer
+   * @param manager stores the entity manager used to find the reservations
+   * @returns a map with the available stock of each product
+   */
+  public async getAvailableStock(
+    products: ProductEntity[],
+    exceptUserId?: number,
+    manager: EntityManager = this.repository.manager,
+  ): Promise<Map<number, number>> {
+    const reservedStock = await this.getReservedStock(
+      products.map(product => product.id),
+      exceptUserId,
+      manager,
+    )
+
+    return new Map(
+      products.map(product => [
+        product.id,
+        product.stockAmount - (reservedStock.get(product.id) ?? 0),
+      ]),
+    )
+  }
+
+  /**
+   * Method that sums the active reservations of some products
+   *
+   * @param productIds stores the products ids
+   * @param exceptUserId stores the user whose reservations must be ignored
+   * @param manager stores the entity manager used to find the reservations
+   * @returns a map with the reserved amount of each product
+   */
+  public async getReservedStock(
+    productIds: number[],
+    exceptUserId?: number,
+    manager: EntityManager = this.repository.manager,
+  ): Promise<Map<number, number>> {
+    if (productIds.length === 0) {
+      return new Map()
+    }
+
+    let builder = manager
+      .createQueryBuilder(StockReservationEntity, 'reservation')
+      .select('reservation.productId', 'productId')
+      .addSelect('SUM(reservation.amount)', 'amount')
+      .where('reservation.productId IN (:...productIds)', { productIds })
+      .andWhere('reservation.expiresAt > :now', {
+        now: toDatabaseDate(
+          manager.connection,
+          StockReservationEntity,
+          'expiresAt',
+          new Date(),
+        ),
+      })
+      .groupBy('reservation.productId')
+
+    if (exceptUserId !== undefined && exceptUserId !== null) {
+      builder = builder.andWhere('reservation.userId != :exceptUserId', {
+        exceptUserId,
+      })
+    }
+
+    const rows = await builder.getRawMany()
+
+    return new Map(
+      rows.map(({ productId, amount }) => [Number(productId), Number(amount)]),
+    )
+  }
+
+  /**
+   * Method that removes all the expired reservations, notifying the sellers
+   * whose products can be sold again
+   *
+   * @returns the amount of removed reservations
+   */
+  public async sweepExpired(): Promise<number> {
+    const { manager } = this.repository
+
+    const expired = await manager
+      .createQueryBuilder(StockReservationEntity, 'reservation')
+      .select('reservation.id', 'id')
+      .addSelect('reservation.productId', 'productId')
+      .addSelect('reservation.amount', 'amount')
+      .where('reservation.expiresAt <= :now', {
+        now: toDatabaseDate(
+          manager.connection,
+          StockReservationEntity,
+          'expiresAt',
+          new Date(),
+        ),
+      })
+      .getRawMany()
+
+    if (expired.length > 0) {
+      await manager.transaction(async manager => {
+        await manager.delete(
+          StockReservationEntity,
+          expired.map(({ id }) => Number(id)),
+        )
+
+        const expiredStock = new Map<number, number>()
+        for (const { productId, amount } of expired) {
+          expiredStock.set(
+            Number(productId),
+            (expiredStock.get(Number(productId)) ?? 0) + Number(amount),
+          )
+        }
+
+        const reservedStock = await this.getReservedStock(
+          [...expiredStock.keys()],
+          undefined,
+          manager,
+        )
+
+        // the stock held by the expired reservations can be sold again
+        for (const [productId, amount] of expiredStock) {
+          const product = await manager.findOne(ProductEntity, {
+            id: productId,
+          })
+          if (!product) continue
+
+          const available =
+            product.stockAmount - (reservedStock.get(productId) ?? 0)
+
+          await NotificationService.notifyStockChange(
+            manager,
+            productId,
+            available - amount,
+            available,
+          )
+        }
+      })
+    }
+
+    return expired.length
+  }
+
+  /**
+   * Method that validates if all the products have enough available stock
+   *
+   * @param items stores the products, the amount required and the
+   * available amount of each one of them
+   * @throws {InsufficientStockException} if some product has not enough
+   * available stock
+   */
+  public static assertAvailable(
+    items: { product: ProductEntity; amount: number; available: number }[],
+  ): void {
+    const shortages: StockShortage[] = items
+      .filter(({ amount, available }) => amount > available)
+      .map(({ product, amount, available }) => ({
+        productId: product.id,
+        productName: product.name,
+        requested: amount,
+        available: Math.max(available, 0),
+      }))
+
+    if (shortages.length > 0) {
+      throw new InsufficientStockException(shortages)
+    }
+  }
+}
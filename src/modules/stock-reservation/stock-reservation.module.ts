@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common'
+import { ConfigModule } from '@nestjs/config'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { StockReservationEntity } from './entities/stock-reservation.entity'
+
+import { StockReservationService } from './services/stock-reservation.service'
+
+@Module({
+  imports: [ConfigModule, TypeOrmModule.forFeature([StockReservationEntity])],
+  providers: [StockReservationService],
+  exports: [StockReservationService],
+})
+export class StockReservationModule {}
@@ -1,9 +1,14 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
   Param,
+  ParseArrayPipe,
+  ParseIntPipe,
+  Patch,
   Post,
+  Put,
   UseInterceptors,
   HttpCode,
   Query,
@@ -42,17 +47,22 @@ import {
   AddressDto,
   GetManyAddressDtoResponse,
 } from 'src/modules/address/models/address.dto'
+import { ApplyCouponDto } from 'src/modules/coupon/models/apply-coupon.dto'
 import {
   GetManyOrderDtoResponse,
   OrderDto,
 } from 'src/modules/order/models/order.dto'
+import { PurchaseDto } from 'src/modules/order/models/purchase.dto'
 import {
   GetManyProductDtoResponse,
   ProductDto,
 } from 'src/modules/product/models/product.dto'
 import { AddProductGroupDto } from 'src/modules/shopping-cart/models/add-product-group.dto'
 import { FinishShoppingCartDto } from 'src/modules/shopping-cart/models/finish-shopping-cart.dto'
+import { SetProductGroupAmountDto } from 'src/modules/shopping-cart/models/set-product-group-amount.dto'
+import { SetProductGroupDto } from 'src/modules/shopping-cart/models/set-product-group.dto'
 import { ShoppingCartDto } from 'src/modules/shopping-cart/models/shopping-cart.dto'
+import { StockReservationDto } from 'src/modules/stock-reservation/models/stock-reservation.dto'
 
 import { UserRelationsService } from '../services/user-relations.service'
 
@@ -73,10 +83,18 @@ import { map } from 'src/utils/crud'
     join: {
       user: {},
       categories: {},
+      authors: {},
+      work: {},
+      parent: {},
+      variants: {},
+      images: {},
       shoppingCart: {},
       addresses: {},
       products: {},
       orders: {},
+      purchase: {},
+      seller: {},
+      coupon: {},
       ratings: {},
       product: {},
       productGroups: {},
@@ -223,18 +241,168 @@ export class UserRelationsController {
     )
   }
 
+  /**
+   * Method that is called when the user access the "/users/me/shopping-cart/items"
+   * route with the "PUT" method
+   *
+   * @param requestUser stores the logged user data
+   * @param setProductGroupDtos stores the products and their exact amounts
+   * @returns the updated shopping cart entity dto with its prices
+   */
+  @ApiOperation({
+    summary: 'Replaces all the products of the shopping cart',
+  })
+  @ApiOkResponse({
+    description: 'Gets the updated shopping cart with its prices',
+    type: ShoppingCartDto,
+  })
+  @ApiBody({
+    type: SetProductGroupDto,
+    isArray: true,
+  })
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @Put('me/shopping-cart/items')
+  public async replaceMyShoppingCartItems(
+    @RequestUser() requestUser: UserEntity,
+    @Body(new ParseArrayPipe({ items: SetProductGroupDto }))
+    setProductGroupDtos: SetProductGroupDto[],
+  ): Promise<ShoppingCartDto> {
+    const entity = await this.userRelationsService.replaceShoppingCartItemsByUserId(
+      requestUser.id,
+      requestUser,
+      setProductGroupDtos,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/users/me/shopping-cart/items/:productId" route with the "PATCH" method
+   *
+   * @param requestUser stores the logged user data
+   * @param productId stores the product id
+   * @param setProductGroupAmountDto stores the new amount
+   * @returns the updated shopping cart entity dto with its prices
+   */
+  @ApiOperation({
+    summary: 'Sets the amount of some product in the shopping cart',
+  })
+  @ApiOkResponse({
+    description: 'Gets the updated shopping cart with its prices',
+    type: ShoppingCartDto,
+  })
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @Patch('me/shopping-cart/items/:productId')
+  public async setMyShoppingCartItemAmount(
+    @RequestUser() requestUser: UserEntity,
+    @Param('productId', ParseIntPipe) productId: number,
+    @Body() setProductGroupAmountDto: SetProductGroupAmountDto,
+  ): Promise<ShoppingCartDto> {
+    const entity = await this.userRelationsService.setShoppingCartItemAmountByUserId(
+      requestUser.id,
+      requestUser,
+      productId,
+      setProductGroupAmountDto,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "/users/me/shopping-cart/coupon"
+   * route with the "POST" method
+   *
+   * @param requestUser stores the logged user data
+   * @param applyCouponDto stores the coupon code
+   * @returns the shopping cart entity dto with the applied coupon
+   */
+  @ApiOperation({
+    summary: 'Applies some coupon in the shopping cart',
+  })
+  @ApiOkResponse({
+    description: 'Gets the shopping cart with the applied coupon',
+    type: ShoppingCartDto,
+  })
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @Post('me/shopping-cart/coupon')
+  @HttpCode(200)
+  public async applyCouponInMyShoppingCart(
+    @RequestUser() requestUser: UserEntity,
+    @Body() applyCouponDto: ApplyCouponDto,
+  ): Promise<ShoppingCartDto> {
+    const entity = await this.userRelationsService.applyCouponInShoppingCartByUserId(
+      requestUser.id,
+      requestUser,
+      applyCouponDto,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "/users/me/shopping-cart/coupon"
+   * route with the "DELETE" method
+   *
+   * @param requestUser stores the logged user data
+   */
+  @ApiOperation({
+    summary: 'Removes the coupon from the shopping cart',
+  })
+  @ApiOkResponse({
+    description: 'Removes the coupon from the shopping cart',
+  })
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @Delete('me/shopping-cart/coupon')
+  public async removeCouponFromMyShoppingCart(
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<void> {
+    await this.userRelationsService.removeCouponFromShoppingCartByUserId(
+      requestUser.id,
+      requestUser,
+    )
+  }
+
+  /**
+   * Method that is called when the user access the "/users/me/shopping-cart/checkout"
+   * route with the "POST" method
+   *
+   * @param requestUser stores the logged user data
+   * @returns the created stock reservation entity dtos
+   */
+  @ApiOperation({
+    summary:
+      'Starts the checkout holding the shopping cart products stock for some minutes',
+  })
+  @ApiOkResponse({
+    description: 'Gets the created stock reservations',
+    type: StockReservationDto,
+    isArray: true,
+  })
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @Post('me/shopping-cart/checkout')
+  @HttpCode(200)
+  public async startMyCheckout(
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<StockReservationDto[]> {
+    const entities = await this.userRelationsService.startCheckoutByUserId(
+      requestUser.id,
+      requestUser,
+    )
+    return entities.map(entity => entity.toDto())
+  }
+
   /**
    * Method that is called when the user access the "/users/me/shopping-cart/finish"
    *
    * @param requestUser stores the logged user data
-   * @returns the created order entity dto
+   * @returns the created purchase entity dto
    */
   @ApiOperation({
-    description: 'Creates the order entity based on the shopping cart data',
+    description:
+      'Creates the purchase entity and its orders based on the shopping cart data',
   })
   @ApiOkResponse({
-    description: 'Retrieves a the created order',
-    type: OrderDto,
+    description:
+      'Retrieves the created purchase with one order for each seller',
+    type: PurchaseDto,
   })
   @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
   @Post('me/shopping-cart/finish')
@@ -242,7 +410,7 @@ export class UserRelationsController {
   public async finishMyShoppingCart(
     @RequestUser() requestUser: UserEntity,
     @Body() finishShoppingCartDto: FinishShoppingCartDto,
-  ): Promise<OrderDto> {
+  ): Promise<PurchaseDto> {
     const entity = await this.userRelationsService.finishShoppingCartByUserId(
       requestUser.id,
       requestUser,
@@ -309,6 +477,36 @@ export class UserRelationsController {
     return map(entities, entity => entity.toDto())
   }
 
+  /**
+   * Method that is called when the user access the "/user/me/sales" route
+   * with the "GET" method
+   *
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filter, etc
+   * @returns all the found data
+   */
+  @ApiOperation({
+    summary: 'Retrieves all the orders that the logged user must fulfil',
+  })
+  @ApiQueryGetMany()
+  @ApiOkResponse({
+    description: 'Gets all the logged user sales',
+    type: GetManyOrderDtoResponse,
+  })
+  @ProtectTo(RolesEnum.Seller, RolesEnum.Admin)
+  @Get('me/sales')
+  public async getMySales(
+    @RequestUser() requestUser: UserEntity,
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<OrderDto> | OrderDto[]> {
+    const entities = await this.userRelationsService.getSalesByUserId(
+      requestUser.id,
+      requestUser,
+      crudRequest,
+    )
+    return map(entities, entity => entity.toDto())
+  }
+
   /**
    * Method that is called when the user access the "users/:id/addresses"
    * route with "GET" method
@@ -442,14 +640,16 @@ export class UserRelationsController {
    *
    * @param userId stores the user id
    * @param requestUser stores the logged user data
-   * @returns the created order entity dto
+   * @returns the created purchase entity dto
    */
   @ApiOperation({
-    description: 'Creates the order entity based on the shopping cart data',
+    description:
+      'Creates the purchase entity and its orders based on the shopping cart data',
   })
   @ApiOkResponse({
-    description: 'Retrieves a the created order',
-    type: OrderDto,
+    description:
+      'Retrieves the created purchase with one order for each seller',
+    type: PurchaseDto,
   })
   @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
   @Post(':id/shopping-cart/finish')
@@ -458,7 +658,7 @@ export class UserRelationsController {
     @Param('id') userId: number,
     @RequestUser() requestUser: UserEntity,
     @Body() finishShoppingCartDto: FinishShoppingCartDto,
-  ): Promise<OrderDto> {
+  ): Promise<PurchaseDto> {
     const entity = await this.userRelationsService.finishShoppingCartByUserId(
       userId,
       requestUser,
@@ -0,0 +1,971 @@
+import { BadRequestException } from '@nestjs/common'
+import { ConfigService } from '@nestjs/config'
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { InsufficientStockException } from 'src/exceptions/bad-request/insufficient-stock.exception'
+import { InvalidCouponException } from 'src/exceptions/bad-request/invalid-coupon.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { UserEntity } from '../entities/user.entity'
+import { AddressEntity } from 'src/modules/address/entities/address.entity'
+import { CouponRedemptionEntity } from 'src/modules/coupon/entities/coupon-redemption.entity'
+import { CouponEntity } from 'src/modules/coupon/entities/coupon.entity'
+import { OrderEntity } from 'src/modules/order/entities/order.entity'
+import { PaymentEntity } from 'src/modules/payment/entities/payment.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { ShoppingCartEntity } from 'src/modules/shopping-cart/entities/shopping-cart.entity'
+import { StockReservationEntity } from 'src/modules/stock-reservation/entities/stock-reservation.entity'
+
+import { CouponType } from 'src/models/enums/coupon-type.enum'
+import { PaymentMethod } from 'src/models/enums/payment-method.enum'
+import { PaymentStatus } from 'src/models/enums/payment-status.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+import { ShoppingCartLineIssue } from 'src/models/enums/shopping-cart-line-issue.enum'
+
+import { UserRelationsService } from './user-relations.service'
+import { AddressService } from 'src/modules/address/services/address.service'
+import { CategoryService } from 'src/modules/category/services/category.service'
+import { CouponService } from 'src/modules/coupon/services/coupon.service'
+import { NotificationService } from 'src/modules/notification/services/notification.service'
+import { OrderService } from 'src/modules/order/services/order.service'
+import { PaymentService } from 'src/modules/payment/services/payment.service'
+import { ProductGroupService } from 'src/modules/product-group/services/product-group.service'
+import { ProductService } from 'src/modules/product/services/product.service'
+import { ShippingService } from 'src/modules/shipping/services/shipping.service'
+import { ShoppingCartService } from 'src/modules/shopping-cart/services/shopping-cart.service'
+import { StockReservationService } from 'src/modules/stock-reservation/services/stock-reservation.service'
+
+import { existsSync, unlinkSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { FakePaymentProvider } from 'src/modules/payment/providers/fake-payment.provider'
+import { PAYMENT_PROVIDER } from 'src/modules/payment/providers/payment-provider.interface'
+import { SHIPPING_CARRIERS } from 'src/modules/shipping/carriers/shipping-carrier.interface'
+import { TableRateCarrier } from 'src/modules/shipping/carriers/table-rate.carrier'
+
+describe('UserRelationsService', () => {
+  // the sqlite in memory databases can not be shared between connections,
+  // so a file is used to allow two checkouts to run at the same time
+  const database = join(tmpdir(), `paperbook-checkout-${process.pid}.sqlite`)
+
+  let service: UserRelationsService
+  let concurrentService: UserRelationsService
+  let seller: UserEntity
+  let sequence = 0
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database,
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+      enableWAL: true,
+    })
+    await createConnection({
+      name: 'concurrent',
+      type: 'sqlite',
+      database,
+      entities: ['src/modules/**/*.entity.ts'],
+      logging: false,
+      enableWAL: true,
+    })
+
+    seller = await createUser(RolesEnum.Seller)
+    await createAddress(seller.id)
+  })
+
+  afterAll(async () => {
+    await getConnection('concurrent').close()
+    await getConnection().close()
+
+    for (const file of [database, `${database}-wal`, `${database}-shm`]) {
+      if (existsSync(file)) unlinkSync(file)
+    }
+  })
+
+  beforeEach(async () => {
+    service = await createService()
+    concurrentService = await createService('concurrent')
+  })
+
+  /**
+   * Function that creates a new user relations service bound to some
+   * connection
+   *
+   * @param connectionName stores the connection name
+   * @returns the created service
+   */
+  async function createService(
+    connectionName?: string,
+  ): Promise<UserRelationsService> {
+    const module = await Test.createTestingModule({
+      providers: [
+        UserRelationsService,
+        {
+          provide: getRepositoryToken(UserEntity),
+          useValue: getRepository(UserEntity, connectionName),
+        },
+        { provide: ProductService, useValue: {} },
+        { provide: OrderService, useValue: {} },
+        { provide: ShoppingCartService, useValue: {} },
+        { provide: AddressService, useValue: {} },
+        { provide: ProductGroupService, useValue: {} },
+        PaymentService,
+        ConfigService,
+        {
+          provide: getRepositoryToken(PaymentEntity),
+          useValue: getRepository(PaymentEntity, connectionName),
+        },
+        { provide: PAYMENT_PROVIDER, useClass: FakePaymentProvider },
+        ShippingService,
+        {
+          provide: SHIPPING_CARRIERS,
+          useValue: [new TableRateCarrier()],
+        },
+        CouponService,
+        {
+          provide: getRepositoryToken(CouponEntity),
+          useValue: getRepository(CouponEntity, connectionName),
+        },
+        { provide: CategoryService, useValue: {} },
+        StockReservationService,
+        {
+          provide: getRepositoryToken(StockReservationEntity),
+          useValue: getRepository(StockReservationEntity, connectionName),
+        },
+      ],
+    }).compile()
+
+    return await module.resolve(UserRelationsService)
+  }
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Common): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `user-${sequence}@test.com`,
+      password: '123456',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates a new address entity
+   *
+   * @param userId stores the address owner id
+   * @param cep stores the address cep
+   * @returns the created address entity
+   */
+  async function createAddress(
+    userId: number,
+    cep = '01001000',
+  ): Promise<AddressEntity> {
+    return await new AddressEntity({
+      cep,
+      street: 'STREET',
+      houseNumber: 1,
+      district: 'DISTRICT',
+      city: 'CITY',
+      state: 'SP',
+      userId,
+    }).save()
+  }
+
+  /**
+   * Function that creates a new product entity
+   *
+   * @param stockAmount stores the product stock amount
+   * @returns the created product entity
+   */
+  async function createProduct(stockAmount: number): Promise<ProductEntity> {
+    sequence++
+    return await new ProductEntity({
+      name: `PRODUCT-TEST-${sequence}`,
+      description: 'PRODUCT-TEST',
+      price: 10,
+      stockAmount,
+      userId: seller.id,
+    }).save()
+  }
+
+  /**
+   * Function that creates a buyer with an address and a shopping cart
+   * containing the informed products
+   *
+   * @param products stores the products and the amount of each one
+   * @returns the buyer and the address entities
+   */
+  async function createBuyer(
+    ...products: [ProductEntity, number][]
+  ): Promise<{ buyer: UserEntity; address: AddressEntity }> {
+    const buyer = await createUser()
+
+    const address = await createAddress(buyer.id)
+
+    const shoppingCart = await new ShoppingCartEntity({
+      userId: buyer.id,
+    }).save()
+    await UserEntity.update(
+      { id: buyer.id },
+      { shoppingCartId: shoppingCart.id },
+    )
+
+    for (const [product, amount] of products) {
+      await new ProductGroupEntity({
+        productId: product.id,
+        amount,
+        shoppingCartId: shoppingCart.id,
+      }).save()
+    }
+
+    return { buyer, address }
+  }
+
+  /**
+   * Function that applies a new coupon in the buyer shopping cart
+   *
+   * @param buyer stores the buyer entity
+   * @param coupon stores the coupon data
+   * @returns the created coupon entity
+   */
+  async function applyCoupon(
+    buyer: UserEntity,
+    coupon: Partial<CouponEntity>,
+  ): Promise<CouponEntity> {
+    sequence++
+    const entity = await new CouponEntity({
+      code: `COUPON-${sequence}`,
+      userId: seller.id,
+      ...coupon,
+    }).save()
+
+    await service.applyCouponInShoppingCartByUserId(buyer.id, buyer, {
+      code: entity.code,
+    })
+
+    return entity
+  }
+
+  // test if the service exists
+  it('should be defined', () => {
+    expect(service).toBeDefined()
+  })
+
+  describe('getShoppingCartByUserId', () => {
+    // tests if the "getShoppingCartByUserId" method calculates the shopping cart prices
+    it('should return the shopping cart prices calculated by the server', async () => {
+      const firstProduct = await createProduct(5)
+      const secondProduct = await createProduct(5)
+      const disabledProduct = await createProduct(5)
+      const missingProduct = await createProduct(1)
+      await ProductEntity.update(
+        { id: firstProduct.id },
+        { discount: 0.2, installmentAmount: 3 },
+      )
+      await ProductEntity.update(
+        { id: secondProduct.id },
+        { installmentPrice: 12, installmentAmount: 2 },
+      )
+      await ProductEntity.update(
+        { id: disabledProduct.id },
+        { isActive: false },
+      )
+      const { buyer } = await createBuyer(
+        [firstProduct, 2],
+        [secondProduct, 1],
+        [disabledProduct, 1],
+        [missingProduct, 2],
+      )
+
+      const { summary } = await service.getShoppingCartByUserId(buyer.id, buyer)
+
+      expect(summary.lines).toMatchObject([
+        {
+          productId: firstProduct.id,
+          finalUnitPrice: 8,
+          savings: 4,
+          total: 16,
+        },
+        { productId: secondProduct.id, total: 10, issues: [] },
+        {
+          productId: disabledProduct.id,
+          issues: [ShoppingCartLineIssue.ProductDisabled],
+        },
+        {
+          productId: missingProduct.id,
+          issues: [ShoppingCartLineIssue.InsufficientStock],
+        },
+      ])
+      expect(summary).toMatchObject({
+        subtotal: 30,
+        discountTotal: 4,
+        couponDiscount: 0,
+        total: 26,
+        hasIssues: true,
+      })
+      expect(summary.installmentPlans).toEqual([
+        {
+          installmentAmount: 1,
+          installmentValue: 26,
+          total: 26,
+          isInterestFree: true,
+        },
+        {
+          installmentAmount: 2,
+          installmentValue: 14,
+          total: 28,
+          isInterestFree: false,
+        },
+      ])
+    })
+  })
+
+  describe('addProductInShoppingCartByUserId', () => {
+    // tests if the "addProductInShoppingCartByUserId" method refuses the products that became sold through variants
+    it('should throw BadRequestException when adding more of a product sold through variants', async () => {
+      const product = await createProduct(5)
+      const { buyer } = await createBuyer([product, 1])
+      await ProductEntity.update(
+        { id: product.id },
+        { variantOptions: ['color'] },
+      )
+
+      await expect(
+        service.addProductInShoppingCartByUserId(
+          buyer.id,
+          buyer,
+          [{ productId: product.id, amount: 1 }],
+          false,
+        ),
+      ).rejects.toThrowError(BadRequestException)
+
+      expect(
+        await ProductGroupEntity.findOne({ productId: product.id }),
+      ).toMatchObject({ amount: 1 })
+    })
+  })
+
+  describe('replaceShoppingCartItemsByUserId', () => {
+    // tests if the shopping cart keeps only the informed products
+    it('should replace the shopping cart products with the exact amounts', async () => {
+      const keptProduct = await createProduct(5)
+      const removedProduct = await createProduct(5)
+      const newProduct = await createProduct(5)
+      const { buyer } = await createBuyer([keptProduct, 1], [removedProduct, 2])
+
+      const { summary } = await service.replaceShoppingCartItemsByUserId(
+        buyer.id,
+        buyer,
+        [
+          { productId: keptProduct.id, amount: 3 },
+          { productId: newProduct.id, amount: 2 },
+        ],
+      )
+
+      expect(
+        summary.lines.map(({ productId, amount }) => ({ productId, amount })),
+      ).toEqual([
+        { productId: keptProduct.id, amount: 3 },
+        { productId: newProduct.id, amount: 2 },
+      ])
+      expect(summary.total).toBe(50)
+    })
+
+    // tests if nothing changes when some product has not enough stock
+    it('should keep the shopping cart untouched when some product has not enough stock', async () => {
+      const product = await createProduct(5)
+      const scarceProduct = await createProduct(1)
+      const { buyer } = await createBuyer([product, 1])
+
+      await expect(
+        service.replaceShoppingCartItemsByUserId(buyer.id, buyer, [
+          { productId: product.id, amount: 4 },
+          { productId: scarceProduct.id, amount: 2 },
+        ]),
+      ).rejects.toThrow(InsufficientStockException)
+
+      await buyer.reload()
+      const productGroups = await ProductGroupEntity.find({
+        shoppingCartId: buyer.shoppingCartId,
+      })
+      expect(
+        productGroups.map(({ productId, amount }) => ({ productId, amount })),
+      ).toEqual([{ productId: product.id, amount: 1 }])
+    })
+  })
+
+  describe('setShoppingCartItemAmountByUserId', () => {
+    // tests if the line amount is replaced instead of summed
+    it('should set the amount of the product and remove it when it is zero', async () => {
+      const product = await createProduct(5)
+      const { buyer } = await createBuyer([product, 1])
+
+      const {
+        summary,
+      } = await service.setShoppingCartItemAmountByUserId(
+        buyer.id,
+        buyer,
+        product.id,
+        { amount: 4 },
+      )
+      expect(summary.lines).toMatchObject([
+        { productId: product.id, amount: 4, total: 40 },
+      ])
+
+      await expect(
+        service.setShoppingCartItemAmountByUserId(buyer.id, buyer, product.id, {
+          amount: 6,
+        }),
+      ).rejects.toThrow(InsufficientStockException)
+
+      const emptied = await service.setShoppingCartItemAmountByUserId(
+        buyer.id,
+        buyer,
+        product.id,
+        { amount: 0 },
+      )
+      expect(emptied.summary.lines).toEqual([])
+    })
+  })
+
+  describe('startCheckoutByUserId', () => {
+    // tests if the "startCheckoutByUserId" method holds the stock for the buyer
+    it('should hold the stock until the buyer finishes the checkout', async () => {
+      const product = await createProduct(1)
+      const first = await createBuyer([product, 1])
+      const second = await createBuyer([product, 1])
+
+      const [reservation] = await service.startCheckoutByUserId(
+        first.buyer.id,
+        first.buyer,
+      )
+
+      expect(reservation).toMatchObject({
+        productId: product.id,
+        userId: first.buyer.id,
+        amount: 1,
+      })
+      expect(reservation.expiresAt.getTime()).toBeGreaterThan(Date.now())
+
+      await expect(
+        service.startCheckoutByUserId(second.buyer.id, second.buyer),
+      ).rejects.toThrowError(InsufficientStockException)
+      await expect(
+        service.finishShoppingCartByUserId(second.buyer.id, second.buyer, {
+          addressId: second.address.id,
+          paymentMethod: PaymentMethod.CreditCard,
+        }),
+      ).rejects.toThrowError(InsufficientStockException)
+
+      const { summary } = await service.getShoppingCartByUserId(
+        second.buyer.id,
+        second.buyer,
+      )
+      expect(summary.lines).toMatchObject([
+        {
+          stockAmount: 0,
+          issues: [ShoppingCartLineIssue.InsufficientStock],
+        },
+      ])
+
+      await service.finishShoppingCartByUserId(first.buyer.id, first.buyer, {
+        addressId: first.address.id,
+        paymentMethod: PaymentMethod.CreditCard,
+      })
+
+      await product.reload()
+
+      expect(product.stockAmount).toBe(0)
+      expect(
+        await StockReservationEntity.count({ userId: first.buyer.id }),
+      ).toBe(0)
+    })
+
+    // tests if the expired holds stop counting and are removed by the sweeper
+    it('should release the stock when the hold expires', async () => {
+      const product = await createProduct(1)
+      const first = await createBuyer([product, 1])
+      const second = await createBuyer([product, 1])
+
+      const [reservation] = await service.startCheckoutByUserId(
+        first.buyer.id,
+        first.buyer,
+      )
+      await StockReservationEntity.update(
+        { id: reservation.id },
+        { expiresAt: new Date(Date.now() - 1000) },
+      )
+
+      const [secondReservation] = await service.startCheckoutByUserId(
+        second.buyer.id,
+        second.buyer,
+      )
+      const removed = await new StockReservationService(
+        getRepository(StockReservationEntity),
+        new ConfigService(),
+      ).sweepExpired()
+
+      expect(removed).toBeGreaterThanOrEqual(1)
+      expect(
+        await StockReservationEntity.findOne(reservation.id),
+      ).toBeUndefined()
+      expect(
+        await StockReservationEntity.findOne(secondReservation.id),
+      ).toBeDefined()
+    })
+  })
+
+  describe('finishShoppingCartByUserId', () => {
+    // tests if the "finishShoppingCartByUserId" method is working properly
+    it('should create the order and remove the products from the stock', async () => {
+      const firstProduct = await createProduct(5)
+      const secondProduct = await createProduct(3)
+      const { buyer, address } = await createBuyer(
+        [secondProduct, 3],
+        [firstProduct, 2],
+      )
+
+      const purchase = await service.finishShoppingCartByUserId(
+        buyer.id,
+        buyer,
+        {
+          addressId: address.id,
+          paymentMethod: PaymentMethod.CreditCard,
+        },
+      )
+      const [order] = purchase.orders
+
+      await firstProduct.reload()
+      await secondProduct.reload()
+
+      expect(purchase.orders).toHaveLength(1)
+      expect(order).toMatchObject({
+        sellerId: seller.id,
+        purchaseId: purchase.id,
+        cep: address.cep,
+        street: address.street,
+        city: address.city,
+        state: address.state,
+        subtotal: 50,
+        discountTotal: 0,
+        shippingPrice: 14.4,
+        total: 64.4,
+      })
+      expect(order.payments).toMatchObject([
+        {
+          method: PaymentMethod.CreditCard,
+          status: PaymentStatus.Authorized,
+          amount: 64.4,
+        },
+      ])
+      expect(firstProduct.stockAmount).toBe(3)
+      expect(secondProduct.stockAmount).toBe(0)
+      expect(await ProductGroupEntity.count({ orderId: order.id })).toBe(2)
+      expect(await ShoppingCartEntity.count({ userId: buyer.id })).toBe(0)
+    })
+
+    // tests if the "finishShoppingCartByUserId" method splits the purchase by seller
+    it('should create one order for each seller', async () => {
+      const firstProduct = await createProduct(5)
+      const secondProduct = await createProduct(5)
+      const secondSeller = await createUser(RolesEnum.Seller)
+      await createAddress(secondSeller.id, '80010000')
+      await ProductEntity.update(
+        { id: secondProduct.id },
+        { userId: secondSeller.id },
+      )
+      const { buyer, address } = await createBuyer(
+        [firstProduct, 1],
+        [secondProduct, 2],
+      )
+
+      const purchase = await service.finishShoppingCartByUserId(
+        buyer.id,
+        buyer,
+        {
+          addressId: address.id,
+          paymentMethod: PaymentMethod.Pix,
+        },
+      )
+      const [firstOrder, secondOrder] = purchase.orders
+
+      expect(purchase.orders).toHaveLength(2)
+      expect(firstOrder.trackingCode).not.toBe(secondOrder.trackingCode)
+      expect(firstOrder).toMatchObject({ shippingPrice: 12.9, total: 22.9 })
+      expect(secondOrder).toMatchObject({ shippingPrice: 27.9, total: 47.9 })
+      expect(purchase).toMatchObject({
+        shippingPrice: 40.8,
+        subtotal: 30,
+        total: 70.8,
+      })
+    })
+
+    // tests if the "finishShoppingCartByUserId" method discounts the coupon only from the covered orders
+    it('should discount the coupon from the orders of the covered seller', async () => {
+      const firstProduct = await createProduct(5)
+      const secondProduct = await createProduct(5)
+      const secondSeller = await createUser(RolesEnum.Seller)
+      await createAddress(secondSeller.id, '80010000')
+      await ProductEntity.update(
+        { id: secondProduct.id },
+        { userId: secondSeller.id },
+      )
+      const { buyer, address } = await createBuyer(
+        [firstProduct, 2],
+        [secondProduct, 1],
+      )
+      const coupon = await applyCoupon(buyer, {
+        type: CouponType.Percentage,
+        value: 0.1,
+        sellerId: seller.id,
+        maxUses: 1,
+      })
+
+      const purchase = await service.finishShoppingCartByUserId(
+        buyer.id,
+        buyer,
+        {
+          addressId: address.id,
+          paymentMethod: PaymentMethod.Pix,
+        },
+      )
+      const [firstOrder, secondOrder] = purchase.orders
+
+      await coupon.reload()
+
+      expect(firstOrder).toMatchObject({
+        couponId: coupon.id,
+        couponDiscount: 2,
+        total: 30.9,
+      })
+      expect(secondOrder).toMatchObject({ couponDiscount: 0, total: 37.9 })
+      expect(secondOrder.couponId).toBeNull()
+      expect(purchase).toMatchObject({
+        couponId: coupon.id,
+        couponDiscount: 2,
+        total: 68.8,
+      })
+      expect(coupon.usesAmount).toBe(1)
+      expect(
+        await CouponRedemptionEntity.count({
+          couponId: coupon.id,
+          userId: buyer.id,
+          purchaseId: purchase.id,
+        }),
+      ).toBe(1)
+    })
+
+    // tests if the "finishShoppingCartByUserId" method refuses the addresses of other users
+    it('should throw EntityNotFoundException when the address belongs to another user', async () => {
+      const product = await createProduct(5)
+      const { buyer } = await createBuyer([product, 1])
+      const other = await createAddress((await createUser()).id)
+
+      await expect(
+        service.finishShoppingCartByUserId(buyer.id, buyer, {
+          addressId: other.id,
+          paymentMethod: PaymentMethod.CreditCard,
+        }),
+      ).rejects.toThrowError(EntityNotFoundException)
+
+      await product.reload()
+
+      expect(product.stockAmount).toBe(5)
+      expect(await OrderEntity.count({ userId: buyer.id })).toBe(0)
+    })
+
+    // tests if the "finishShoppingCartByUserId" method charges the installment plan picked by the buyer
+    it('should charge the installment interest when the order is split', async () => {
+      const firstProduct = await createProduct(5)
+      const secondProduct = await createProduct(5)
+      await ProductEntity.update(
+        { id: firstProduct.id },
+        { installmentPrice: 12, installmentAmount: 3 },
+      )
+      await ProductEntity.update(
+        { id: secondProduct.id },
+        { installmentAmount: 2 },
+      )
+      const { buyer, address } = await createBuyer(
+        [firstProduct, 2],
+        [secondProduct, 1],
+      )
+
+      const purchase = await service.finishShoppingCartByUserId(
+        buyer.id,
+        buyer,
+        {
+          addressId: address.id,
+          paymentMethod: PaymentMethod.CreditCard,
+          installmentAmount: 2,
+        },
+      )
+      const [order] = purchase.orders
+
+      expect(order).toMatchObject({
+        subtotal: 30,
+        installmentInterest: 4,
+        shippingPrice: 14.4,
+        total: 48.4,
+      })
+      expect(order.payments).toMatchObject([
+        { amount: 48.4, installmentAmount: 2 },
+      ])
+      expect(purchase).toMatchObject({ installmentInterest: 4, total: 48.4 })
+    })
+
+    // tests if the "finishShoppingCartByUserId" method refuses more installments than the products accept
+    it('should throw BadRequestException when some product does not accept the installments', async () => {
+      const firstProduct = await createProduct(5)
+      const secondProduct = await createProduct(5)
+      await ProductEntity.update(
+        { id: firstProduct.id },
+        { installmentAmount: 3 },
+      )
+      const { buyer, address } = await createBuyer(
+        [firstProduct, 1],
+        [secondProduct, 1],
+      )
+
+      await expect(
+        service.finishShoppingCartByUserId(buyer.id, buyer, {
+          addressId: address.id,
+          paymentMethod: PaymentMethod.CreditCard,
+          installmentAmount: 3,
+        }),
+      ).rejects.toThrowError(BadRequestException)
+
+      await firstProduct.reload()
+
+      expect(firstProduct.stockAmount).toBe(5)
+      expect(await OrderEntity.count({ userId: buyer.id })).toBe(0)
+    })
+
+    // tests if the "finishShoppingCartByUserId" method refuses the products that became sold through variants
+    it('should throw BadRequestException when some product is sold through variants', async () => {
+      const product = await createProduct(5)
+      const { buyer, address } = await createBuyer([product, 1])
+      await ProductEntity.update(
+        { id: product.id },
+        { variantOptions: ['color'] },
+      )
+
+      await expect(
+        service.finishShoppingCartByUserId(buyer.id, buyer, {
+          addressId: address.id,
+          paymentMethod: PaymentMethod.CreditCard,
+        }),
+      ).rejects.toThrowError(BadRequestException)
+
+      await product.reload()
+
+      expect(product.stockAmount).toBe(5)
+      expect(await OrderEntity.count({ userId: buyer.id })).toBe(0)
+    })
+
+    // tests if the "finishShoppingCartByUserId" method refuses coupons that reached their limit
+    it('should not finish the shopping cart when the coupon is sold out', async () => {
+      const product = await createProduct(5)
+      const { buyer, address } = await createBuyer([product, 1])
+      const coupon = await applyCoupon(buyer, {
+        type: CouponType.FreeShipping,
+        maxUses: 1,
+      })
+      await CouponEntity.update({ id: coupon.id }, { usesAmount: 1 })
+
+      await expect(
+        service.finishShoppingCartByUserId(buyer.id, buyer, {
+          addressId: address.id,
+          paymentMethod: PaymentMethod.CreditCard,
+        }),
+      ).rejects.toThrowError(InvalidCouponException)
+
+      await product.reload()
+
+      expect(product.stockAmount).toBe(5)
+      expect(await OrderEntity.count({ userId: buyer.id })).toBe(0)
+    })
+
+    // tests if the "finishShoppingCartByUserId" method rollbacks everything when some step fails
+    it('should keep the shopping cart and the stock untouched when the checkout fails', async () => {
+      const firstProduct = await createProduct(5)
+      const secondProduct = await createProduct(1)
+      const { buyer, address } = await createBuyer(
+        [firstProduct, 2],
+        [secondProduct, 2],
+      )
+
+      await expect(
+        service.finishShoppingCartByUserId(buyer.id, buyer, {
+          addressId: address.id,
+          paymentMethod: PaymentMethod.CreditCard,
+        }),
+      ).rejects.toThrowError(
+        `There is not enough stock of "${secondProduct.name}" (1 missing)`,
+      )
+
+      await firstProduct.reload()
+      await secondProduct.reload()
+
+      const shoppingCart = await ShoppingCartEntity.findOne({
+        userId: buyer.id,
+      })
+
+      expect(firstProduct.stockAmount).toBe(5)
+      expect(secondProduct.stockAmount).toBe(1)
+      expect(shoppingCart).toMatchObject({ isActive: true })
+      expect(
+        await ProductGroupEntity.count({ shoppingCartId: shoppingCart.id }),
+      ).toBe(2)
+      expect(await OrderEntity.count({ userId: buyer.id })).toBe(0)
+    })
+
+    // tests if the "finishShoppingCartByUserId" method releases the payments authorized before a rollback
+    it('should cancel the payment authorizations when the checkout is rolled back', async () => {
+      const firstProduct = await createProduct(5)
+      const secondProduct = await createProduct(5)
+      const secondSeller = await createUser(RolesEnum.Seller)
+      await createAddress(secondSeller.id, '80010000')
+      await ProductEntity.update(
+        { id: secondProduct.id },
+        { userId: secondSeller.id },
+      )
+      const { buyer, address } = await createBuyer(
+        [firstProduct, 1],
+        [secondProduct, 1],
+      )
+      const cancelAuthorization = jest.spyOn(
+        FakePaymentProvider.prototype,
+        'cancelAuthorization',
+      )
+      // the first order is paid, and then the second one fails
+      const notifyStockChange = jest
+        .spyOn(NotificationService, 'notifyStockChange')
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('FAILED'))
+
+      await expect(
+        service.finishShoppingCartByUserId(buyer.id, buyer, {
+          addressId: address.id,
+          paymentMethod: PaymentMethod.CreditCard,
+        }),
+      ).rejects.toThrowError('FAILED')
+
+      expect(cancelAuthorization).toHaveBeenCalledTimes(1)
+      expect(await OrderEntity.count({ userId: buyer.id })).toBe(0)
+
+      cancelAuthorization.mockRestore()
+      notifyStockChange.mockRestore()
+    })
+
+    // tests if two buyers racing for the last copy never both succeed
+    it('should sell the last copy only once when two buyers finish at the same time', async () => {
+      const product = await createProduct(1)
+      const first = await createBuyer([product, 1])
+      const second = await createBuyer([product, 1])
+
+      const results = await Promise.all(
+        [
+          { ...first, service },
+          { ...second, service: concurrentService },
+        ].map(({ buyer, address, service }) =>
+          service
+            .finishShoppingCartByUserId(buyer.id, buyer, {
+              addressId: address.id,
+              paymentMethod: PaymentMethod.CreditCard,
+            })
+            .then(
+              () => true,
+              () => false,
+            ),
+        ),
+      )
+
+      await product.reload()
+
+      expect(results.filter(result => result)).toHaveLength(1)
+      expect(product.stockAmount).toBe(0)
+      expect(product.ordersAmount).toBe(1)
+      expect(
+        await ProductGroupEntity.count({
+          where: { productId: product.id, shoppingCartId: null },
+        }),
+      ).toBe(1)
+      expect(
+        await ShoppingCartEntity.count({
+          where: [{ userId: first.buyer.id }, { userId: second.buyer.id }],
+        }),
+      ).toBe(1)
+    })
+
+    // tests if a hold placed while another buyer finishes never covers a sold copy
+    it('should not hold the last copy when another buyer finishes at the same time', async () => {
+      const product = await createProduct(1)
+      const first = await createBuyer([product, 1])
+      const second = await createBuyer([product, 1])
+
+      const [finished, reserved] = await Promise.all([
+        service
+          .finishShoppingCartByUserId(first.buyer.id, first.buyer, {
+            addressId: first.address.id,
+            paymentMethod: PaymentMethod.CreditCard,
+          })
+          .then(
+            () => true,
+            () => false,
+          ),
+        concurrentService
+          .startCheckoutByUserId(second.buyer.id, second.buyer)
+          .then(
+            () => true,
+            () => false,
+          ),
+      ])
+
+      await product.reload()
+
+      expect([finished, reserved].filter(result => result)).toHaveLength(1)
+      expect(product.stockAmount).toBe(finished ? 0 : 1)
+      expect(
+        await StockReservationEntity.count({ productId: product.id }),
+      ).toBe(reserved ? 1 : 0)
+    })
+  })
+
+  describe('getSalesByUserId', () => {
+    // tests if the sales can be listed without the crud request
+    it('should list only the orders sold by the seller', async () => {
+      const otherSeller = await createUser(RolesEnum.Seller)
+      const buyer = await createUser()
+
+      const [sale] = await Promise.all([
+        new OrderEntity({
+          trackingCode: OrderService.generateTrackingCode(),
+          userId: buyer.id,
+          sellerId: otherSeller.id,
+        }).save(),
+        new OrderEntity({
+          trackingCode: OrderService.generateTrackingCode(),
+          userId: buyer.id,
+          sellerId: seller.id,
+        }).save(),
+      ])
+
+      const sales = await service.getSalesByUserId(otherSeller.id, otherSeller)
+
+      expect(sales).toMatchObject([{ id: sale.id, sellerId: otherSeller.id }])
+    })
+  })
+})
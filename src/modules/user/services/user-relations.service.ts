@@ -9,27 +9,44 @@ import {
 import { InjectRepository } from '@nestjs/typeorm'
 import { CrudRequest, GetManyDefaultResponse } from '@nestjsx/crud'
 import { TypeOrmCrudService } from '@nestjsx/crud-typeorm'
-import { Repository } from 'typeorm'
+import { EntityManager, Repository } from 'typeorm'
 
+import { InvalidCouponException } from 'src/exceptions/bad-request/invalid-coupon.exception'
 import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
 
 import { UserEntity } from '../entities/user.entity'
 import { AddressEntity } from 'src/modules/address/entities/address.entity'
+import { CouponEntity } from 'src/modules/coupon/entities/coupon.entity'
+import { OrderStatusHistoryEntity } from 'src/modules/order/entities/order-status-history.entity'
 import { OrderEntity } from 'src/modules/order/entities/order.entity'
+import { PurchaseEntity } from 'src/modules/order/entities/purchase.entity'
+import { PaymentEntity } from 'src/modules/payment/entities/payment.entity'
 import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
 import { ProductEntity } from 'src/modules/product/entities/product.entity'
 import { ShoppingCartEntity } from 'src/modules/shopping-cart/entities/shopping-cart.entity'
+import { StockReservationEntity } from 'src/modules/stock-reservation/entities/stock-reservation.entity'
 
+import { OrderStatus } from 'src/models/enums/order-status.enum'
+import { ApplyCouponDto } from 'src/modules/coupon/models/apply-coupon.dto'
 import { AddProductGroupDto } from 'src/modules/shopping-cart/models/add-product-group.dto'
 import { FinishShoppingCartDto } from 'src/modules/shopping-cart/models/finish-shopping-cart.dto'
 import { RemoveProductGroupDto } from 'src/modules/shopping-cart/models/remove-product-group.dto'
+import { SetProductGroupAmountDto } from 'src/modules/shopping-cart/models/set-product-group-amount.dto'
+import { SetProductGroupDto } from 'src/modules/shopping-cart/models/set-product-group.dto'
+import { ShoppingCartSummaryDto } from 'src/modules/shopping-cart/models/shopping-cart-summary.dto'
 
 import { UserService } from './user.service'
 import { AddressService } from 'src/modules/address/services/address.service'
+import { CouponService } from 'src/modules/coupon/services/coupon.service'
+import { NotificationService } from 'src/modules/notification/services/notification.service'
 import { OrderService } from 'src/modules/order/services/order.service'
+import { PaymentService } from 'src/modules/payment/services/payment.service'
 import { ProductGroupService } from 'src/modules/product-group/services/product-group.service'
+import { ProductVariantService } from 'src/modules/product/services/product-variant.service'
 import { ProductService } from 'src/modules/product/services/product.service'
+import { ShippingService } from 'src/modules/shipping/services/shipping.service'
 import { ShoppingCartService } from 'src/modules/shopping-cart/services/shopping-cart.service'
+import { StockReservationService } from 'src/modules/stock-reservation/services/stock-reservation.service'
 
 /**
  * The app's main user service class
@@ -50,6 +67,12 @@ export class UserRelationsService extends TypeOrmCrudService<UserEntity> {
     @Inject(forwardRef(() => AddressService))
     private readonly addressService: AddressService,
     private readonly productGroupService: ProductGroupService,
+    @Inject(forwardRef(() => PaymentService))
+    private readonly paymentService: PaymentService,
+    private readonly shippingService: ShippingService,
+    @Inject(forwardRef(() => CouponService))
+    private readonly couponService: CouponService,
+    private readonly stockReservationService: StockReservationService,
   ) {
     super(repository)
   }
@@ -176,6 +199,8 @@ export class UserRelationsService extends TypeOrmCrudService<UserEntity> {
       throw new NotFoundException('This user has no shopping cart')
     }
 
+    shoppingCart.summary = await this.summarizeShoppingCart(shoppingCart)
+
     return shoppingCart
   }
 
@@ -219,6 +244,50 @@ export class UserRelationsService extends TypeOrmCrudService<UserEntity> {
     return await this.orderService.getMany(crudRequest)
   }
 
+  /**
+   * Method that gets all the orders that some seller must fulfil
+   *
+   * @param userId stores the seller id
+   * @param requestUser stores the logged user data
+   * @param crudRequest stores the joins, filters, etc
+   * @throws {EntityNotFoundException} if the user was not found
+   * @throws {ForbiddenException} if the request user has no
+   * permission to execute this action
+   * @returns all the found order entities
+   */
+  public async getSalesByUserId(
+    userId: number,
+    requestUser: UserEntity,
+    crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<OrderEntity> | OrderEntity[]> {
+    const entity = await UserEntity.findOne({ id: userId })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(userId, UserEntity)
+    }
+
+    if (!UserService.hasPermissions(entity.id, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    if (!crudRequest) {
+      return await OrderEntity.find({ sellerId: userId })
+    }
+
+    crudRequest.parsed.search = {
+      $and: [
+        ...crudRequest.parsed.search.$and,
+        {
+          sellerId: {
+            $eq: userId,
+          },
+        },
+      ],
+    }
+
+    return await this.orderService.getMany(crudRequest)
+  }
+
   /**
    * Method that can add some product in the user shopping cart
    *
@@ -228,6 +297,8 @@ export class UserRelationsService extends TypeOrmCrudService<UserEntity> {
    * @throws {EntityNotFoundException} if the user was not found
    * @throws {ForbiddenException} if the request user has no permission
    * to access those sources
+   * @throws {EntityNotFoundException} if some product was not found
+   * @throws {BadRequestException} if some product is sold through variants
    * @returns the created product group entities
    */
   public async addProductInShoppingCartByUserId(
@@ -293,6 +364,15 @@ export class UserRelationsService extends TypeOrmCrudService<UserEntity> {
           productId,
         })
       } else {
+        // the product may have become sold through variants after the line
+        // was added
+        const product = await ProductEntity.findOne({ id: productId })
+        if (!product || !product.isActive) {
+          throw new EntityNotFoundException(productId, ProductEntity)
+        }
+
+        ProductVariantService.assertPurchasable(product)
+
         await this.productGroupService.update(productGroup.id, {
           amount: productGroup.amount + amount,
         })
@@ -358,99 +438,746 @@ export class UserRelationsService extends TypeOrmCrudService<UserEntity> {
   }
 
   /**
-   * Method that creates a new order based on the shopping cart and
-   * deletes the shopping cart
+   * Method that replaces all the products of the user shopping cart with
+   * the informed ones, in a single transaction. The products that are not
+   * informed are removed from the shopping cart
    *
    * @param userId stores the user id
    * @param requestUser stores the logged user data
-   * @throws {EntityNotFoundException} if the user does not have shopping
-   * cart
+   * @param setProductGroupDtos stores the products and the exact amount of
+   * each one of them
+   * @throws {EntityNotFoundException} if the user was not found
    * @throws {ForbiddenException} if the request user has no permission
    * to access those sources
-   * @throws {EntityNotFoundException} if the address was not found
-   * @throws {BadRequestException} if the product amout is biggest
-   * than the available amount
-   * @returns the created order entity
+   * @throws {BadRequestException} if some product was sent more than once
+   * @throws {EntityNotFoundException} if some product was not found
+   * @throws {BadRequestException} if some product is sold through variants
+   * @throws {InsufficientStockException} if some product has not enough
+   * available stock
+   * @returns the updated shopping cart entity with its prices
    */
-  public async finishShoppingCartByUserId(
+  public async replaceShoppingCartItemsByUserId(
     userId: number,
     requestUser: UserEntity,
-    finishShoppingCartDto: FinishShoppingCartDto,
-  ): Promise<OrderEntity> {
+    setProductGroupDtos: SetProductGroupDto[],
+  ): Promise<ShoppingCartEntity> {
+    const user = await UserEntity.findOne({ id: userId })
+
+    if (!user || !user.isActive) {
+      throw new EntityNotFoundException(userId)
+    }
+
     if (!UserService.hasPermissions(userId, requestUser)) {
       throw new ForbiddenException()
     }
 
-    // validate if the shopping cart exists
-    const shoppingCart = await ShoppingCartEntity.findOne({ userId })
-    if (!shoppingCart || !shoppingCart.isActive) {
-      throw new NotFoundException(
-        `The user with identifier ${userId} has no shopping cart`,
+    const productIds = setProductGroupDtos.map(({ productId }) => productId)
+
+    if (new Set(productIds).size !== productIds.length) {
+      throw new BadRequestException(
+        'The same product can not be sent more than once',
       )
     }
 
-    const {
-      addressId,
-      shippingPrice,
-      installmentAmount,
-    } = finishShoppingCartDto
+    await this.repo.manager.transaction(async manager => {
+      const shoppingCart = await this.findOrCreateShoppingCart(manager, user)
 
-    // validate if the address exists
-    const address = await AddressEntity.findOne({ id: addressId })
-    if (!address || !address.isActive) {
-      throw new EntityNotFoundException(addressId, AddressEntity)
-    }
+      const products =
+        productIds.length > 0
+          ? await manager.findByIds(ProductEntity, productIds)
+          : []
+      const items = setProductGroupDtos.map(({ productId, amount }) => {
+        const product = products.find(({ id }) => id === productId)
 
-    const productGroups = await ProductGroupEntity.find({
-      shoppingCartId: shoppingCart.id,
+        if (!product || !product.isActive) {
+          throw new EntityNotFoundException(productId, ProductEntity)
+        }
+
+        ProductVariantService.assertPurchasable(product)
+
+        return { product, amount }
+      })
+
+      const availableStock = await this.stockReservationService.getAvailableStock(
+        products,
+        userId,
+        manager,
+      )
+      StockReservationService.assertAvailable(
+        items.map(({ product, amount }) => ({
+          product,
+          amount,
+          available: availableStock.get(product.id),
+        })),
+      )
+
+      const productGroups = await manager.find(ProductGroupEntity, {
+        shoppingCartId: shoppingCart.id,
+      })
+
+      const removed = productGroups.filter(
+        ({ productId }) => !productIds.includes(productId),
+      )
+      if (removed.length > 0) {
+        await manager.delete(
+          ProductGroupEntity,
+          removed.map(({ id }) => id),
+        )
+      }
+
+      for (const { product, amount } of items) {
+        const productGroup = productGroups.find(
+          ({ productId }) => productId === product.id,
+        )
+
+        if (productGroup) {
+          await manager.update(
+            ProductGroupEntity,
+            { id: productGroup.id },
+            { amount },
+          )
+        } else {
+          await manager.save(
+            new ProductGroupEntity({
+              amount,
+              productId: product.id,
+              shoppingCartId: shoppingCart.id,
+            }),
+          )
+        }
+      }
     })
 
-    const products = await ProductEntity.findByIds(
-      productGroups.map(productGroup => productGroup.productId),
-    )
+    return await this.getShoppingCartByUserId(userId, requestUser)
+  }
+
+  /**
+   * Method that sets the amount of some product in the user shopping cart,
+   * when the amount is zero the product is removed
+   *
+   * @param userId stores the user id
+   * @param requestUser stores the logged user data
+   * @param productId stores the product id
+   * @param setProductGroupAmountDto stores the new amount
+   * @throws {EntityNotFoundException} if the user was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {NotFoundException} if the product is not in the shopping cart
+   * @throws {InsufficientStockException} if the product has not enough
+   * available stock
+   * @returns the updated shopping cart entity with its prices
+   */
+  public async setShoppingCartItemAmountByUserId(
+    userId: number,
+    requestUser: UserEntity,
+    productId: number,
+    setProductGroupAmountDto: SetProductGroupAmountDto,
+  ): Promise<ShoppingCartEntity> {
+    const user = await UserEntity.findOne({ id: userId })
+
+    if (!user || !user.isActive) {
+      throw new EntityNotFoundException(userId)
+    }
+
+    if (!UserService.hasPermissions(userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    const { amount } = setProductGroupAmountDto
+
+    const productGroup =
+      user.shoppingCartId !== undefined && user.shoppingCartId !== null
+        ? await ProductGroupEntity.findOne({
+            where: { productId, shoppingCartId: user.shoppingCartId },
+            relations: ['product'],
+          })
+        : undefined
 
-    if (
-      products.some(
-        (product, index) =>
-          product.stockAmount - productGroups[index].amount < 0,
+    if (!productGroup || !productGroup.isActive) {
+      throw new NotFoundException('User has no any product of this type')
+    }
+
+    if (amount === 0) {
+      await ProductGroupEntity.delete({ id: productGroup.id })
+    } else {
+      const availableStock = await this.stockReservationService.getAvailableStock(
+        [productGroup.product],
+        userId,
       )
-    ) {
-      throw new BadRequestException('The amount required is out of bounds')
+      StockReservationService.assertAvailable([
+        {
+          product: productGroup.product,
+          amount,
+          available: availableStock.get(productGroup.productId),
+        },
+      ])
+
+      await ProductGroupEntity.update({ id: productGroup.id }, { amount })
     }
 
-    // create a new order
-    const order = await new OrderEntity({
-      cep: address.cep,
-      houseNumber: address.houseNumber,
-      shippingPrice,
+    return await this.getShoppingCartByUserId(userId, requestUser)
+  }
+
+  /**
+   * Method that can apply some coupon in the user shopping cart. The
+   * coupon is validated against the current shopping cart products, and
+   * it is validated again when the shopping cart is finished
+   *
+   * @param userId stores the user id
+   * @param requestUser stores the logged user data
+   * @param applyCouponDto stores the coupon code
+   * @throws {EntityNotFoundException} if the user was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {NotFoundException} if the user has no shopping cart
+   * @throws {EntityNotFoundException} if the coupon was not found
+   * @throws {InvalidCouponException} if the coupon can not be used in the
+   * shopping cart
+   * @returns the shopping cart entity with the applied coupon
+   */
+  public async applyCouponInShoppingCartByUserId(
+    userId: number,
+    requestUser: UserEntity,
+    applyCouponDto: ApplyCouponDto,
+  ): Promise<ShoppingCartEntity> {
+    const user = await UserEntity.findOne({ id: userId })
+
+    if (!user || !user.isActive) {
+      throw new EntityNotFoundException(userId, UserEntity)
+    }
+
+    if (!UserService.hasPermissions(userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    const shoppingCart = await ShoppingCartEntity.findOne(
+      { userId },
+      {
+        relations: [
+          'productGroups',
+          'productGroups.product',
+          'productGroups.product.categories',
+        ],
+      },
+    )
+
+    if (!shoppingCart || !shoppingCart.isActive) {
+      throw new NotFoundException('This user has no shopping cart')
+    }
+
+    const coupon = await this.couponService.listOneByCode(applyCouponDto.code)
+
+    await this.couponService.calculateDiscounts(
+      coupon,
       userId,
+      shoppingCart.productGroups,
+    )
+
+    await ShoppingCartEntity.update(
+      { id: shoppingCart.id },
+      { couponId: coupon.id },
+    )
+
+    return Object.assign(shoppingCart, { couponId: coupon.id, coupon })
+  }
+
+  /**
+   * Method that can remove the coupon from the user shopping cart
+   *
+   * @param userId stores the user id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the user was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {NotFoundException} if the user has no shopping cart
+   */
+  public async removeCouponFromShoppingCartByUserId(
+    userId: number,
+    requestUser: UserEntity,
+  ): Promise<void> {
+    const shoppingCart = await this.getShoppingCartByUserId(userId, requestUser)
+
+    await ShoppingCartEntity.update({ id: shoppingCart.id }, { couponId: null })
+  }
+
+  /**
+   * Method that starts the checkout of the user shopping cart, holding the
+   * stock of its products for some minutes, so the buyer can finish the
+   * purchase without losing them to other buyers
+   *
+   * @param userId stores the user id
+   * @param requestUser stores the logged user data
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {NotFoundException} if the user has no shopping cart
+   * @throws {BadRequestException} if the shopping cart is empty
+   * @throws {EntityNotFoundException} if some product was not found
+   * @throws {InsufficientStockException} if some product has not enough
+   * stock that is not held by other buyers
+   * @returns the created stock reservations
+   */
+  public async startCheckoutByUserId(
+    userId: number,
+    requestUser: UserEntity,
+  ): Promise<StockReservationEntity[]> {
+    if (!UserService.hasPermissions(userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    return await this.repo.manager.transaction(async manager => {
+      const shoppingCart = await manager.findOne(ShoppingCartEntity, {
+        userId,
+      })
+      if (!shoppingCart || !shoppingCart.isActive) {
+        throw new NotFoundException(
+          `The user with identifier ${userId} has no shopping cart`,
+        )
+      }
+
+      const productGroups = await manager.find(ProductGroupEntity, {
+        where: { shoppingCartId: shoppingCart.id },
+        relations: ['product'],
+      })
+
+      if (productGroups.length === 0) {
+        throw new BadRequestException('The shopping cart is empty')
+      }
+
+      const disabled = productGroups.find(({ product }) => !product.isActive)
+      if (disabled) {
+        throw new EntityNotFoundException(disabled.productId, ProductEntity)
+      }
+
+      return await this.stockReservationService.reserve(
+        manager,
+        userId,
+        productGroups,
+      )
+    })
+  }
+
+  /**
+   * Method that creates a new purchase based on the shopping cart and
+   * deletes the shopping cart. The purchase is split in one order for each
+   * seller, so each one of them has its own status, tracking code and
+   * shipping price
+   *
+   * All the steps run inside a single transaction, so if any of them fails
+   * the shopping cart and the products stock are kept untouched
+   *
+   * @param userId stores the user id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the user does not have shopping
+   * cart
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {EntityNotFoundException} if the address was not found or
+   * belongs to another user
+   * @throws {EntityNotFoundException} if some product was not found
+   * @throws {BadRequestException} if the shopping cart is empty
+   * @throws {BadRequestException} if some product is sold through variants
+   * @throws {InsufficientStockException} if some product has not enough
+   * stock that is not held by other buyers
+   * @throws {BadRequestException} if some seller has no address to ship
+   * from
+   * @throws {BadRequestException} if some product does not accept the
+   * amount of installments
+   * @throws {BadRequestException} if the payment method does not accept
+   * installments
+   * @throws {InvalidCouponException} if the shopping cart coupon can not
+   * be used anymore
+   * @returns the created purchase entity with its orders
+   */
+  public async finishShoppingCartByUserId(
+    userId: number,
+    requestUser: UserEntity,
+    finishShoppingCartDto: FinishShoppingCartDto,
+  ): Promise<PurchaseEntity> {
+    if (!UserService.hasPermissions(userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    const {
+      addressId,
       installmentAmount,
-      trackingCode: OrderService.generateTrackingCode(),
-    }).save()
+      paymentMethod,
+    } = finishShoppingCartDto
 
-    // duplicate all the product group entities and relate them with the order entity
-    for (const productGroup of productGroups) {
-      const { amount, productId } = productGroup
+    // the payments authorized in the provider, that must be released if
+    // the transaction does not commit
+    const payments: PaymentEntity[] = []
 
-      await new ProductGroupEntity({
-        amount,
-        productId,
-        orderId: order.id,
-      }).save()
+    try {
+      return await this.repo.manager.transaction(async manager => {
+        // validate if the shopping cart exists
+        const shoppingCart = await manager.findOne(ShoppingCartEntity, {
+          userId,
+        })
+        if (!shoppingCart || !shoppingCart.isActive) {
+          throw new NotFoundException(
+            `The user with identifier ${userId} has no shopping cart`,
+          )
+        }
+
+        // locks the shopping cart, so a concurrent checkout of the same cart
+        // waits for this one and then finds it deleted
+        await manager.update(
+          ShoppingCartEntity,
+          { id: shoppingCart.id },
+          { isActive: false },
+        )
+        if (
+          !(await manager.findOne(ShoppingCartEntity, { id: shoppingCart.id }))
+        ) {
+          throw new NotFoundException(
+            `The user with identifier ${userId} has no shopping cart`,
+          )
+        }
+
+        // validate if the address exists and belongs to the buyer, since it
+        // is copied to the orders and printed in their invoices
+        const address = await manager.findOne(AddressEntity, { id: addressId })
+        if (!address || !address.isActive || address.userId !== userId) {
+          throw new EntityNotFoundException(addressId, AddressEntity)
+        }
+
+        const productGroups = await manager.find(ProductGroupEntity, {
+          shoppingCartId: shoppingCart.id,
+        })
+
+        if (productGroups.length === 0) {
+          throw new BadRequestException('The shopping cart is empty')
+        }
+
+        // locks the products rows before reading their stock, so a concurrent
+        // checkout or reservation of the same products waits for this one to
+        // end instead of counting stock that this checkout is about to sell.
+        // The buyer own holds are consumed by this checkout
+        await this.stockReservationService.lock(
+          manager,
+          productGroups.map(productGroup => productGroup.productId),
+        )
+        await this.stockReservationService.release(manager, userId)
+
+        const products = await manager.findByIds(
+          ProductEntity,
+          productGroups.map(productGroup => productGroup.productId),
+          { relations: ['categories'] },
+        )
+
+        // duplicate the product group entities storing the current product
+        // prices, so later changes in the product do not change the order, and
+        // groups them by the seller that must fulfil them
+        const sellerProductGroups = new Map<number, ProductGroupEntity[]>()
+        for (const { productId, amount } of productGroups) {
+          const product = products.find(product => product.id === productId)
+          if (!product || !product.isActive) {
+            throw new EntityNotFoundException(productId, ProductEntity)
+          }
+
+          // the product may have become sold through variants after it was
+          // added to the shopping cart
+          ProductVariantService.assertPurchasable(product)
+
+          sellerProductGroups.set(product.userId, [
+            ...(sellerProductGroups.get(product.userId) ?? []),
+            new ProductGroupEntity({
+              amount,
+              productId,
+              productName: product.name,
+              unitPrice: product.price,
+              discount: product.discount ?? 0,
+              installmentPrice: product.installmentPrice,
+              installmentAmount: product.installmentAmount,
+            }),
+          ])
+        }
+
+        // the whole shopping cart is paid at once, so it can only be split in
+        // the amount of installments accepted by all of its products
+        const maxInstallmentAmount = Math.min(
+          ...products.map(product => product.installmentAmount ?? 1),
+        )
+        if ((installmentAmount ?? 1) > maxInstallmentAmount) {
+          throw new BadRequestException(
+            `The shopping cart can be split in at most ${maxInstallmentAmount} installments`,
+          )
+        }
+
+        // the shipping price of each seller is quoted from its address to the
+        // buyer address, never trusting the value sent by the client
+        const items = productGroups.map(({ productId, amount }) => ({
+          product: products.find(product => product.id === productId),
+          amount,
+        }))
+        const shippingQuotes = await this.shippingService.quoteProducts(
+          items,
+          address.cep,
+        )
+
+        // the stock held by other buyers can not be sold, and all the products
+        // without enough stock are reported at once
+        const reservedStock = await this.stockReservationService.getReservedStock(
+          products.map(product => product.id),
+          userId,
+          manager,
+        )
+        StockReservationService.assertAvailable(
+          items.map(({ product, amount }) => ({
+            product,
+            amount,
+            available:
+              product.stockAmount - (reservedStock.get(product.id) ?? 0),
+          })),
+        )
+
+        // the coupon is validated again, since it may have expired or reached
+        // its usage limits after being applied in the shopping cart
+        const coupon =
+          shoppingCart.couponId &&
+          (await manager.findOne(CouponEntity, { id: shoppingCart.couponId }))
+        const couponDiscounts = coupon
+          ? await this.couponService.calculateDiscounts(
+              coupon,
+              userId,
+              items,
+              new Map(
+                [...shippingQuotes].map(([sellerId, { price }]) => [
+                  sellerId,
+                  price,
+                ]),
+              ),
+              manager,
+            )
+          : new Map<number, number>()
+
+        const trackingCodes = await OrderService.generateUniqueTrackingCodes(
+          sellerProductGroups.size,
+          manager,
+        )
+
+        // create one order for each seller
+        const orders = [...sellerProductGroups].map(
+          ([sellerId, orderProductGroups], index) =>
+            new OrderEntity({
+              cep: address.cep,
+              houseNumber: address.houseNumber,
+              street: address.street,
+              complement: address.complement,
+              district: address.district,
+              city: address.city,
+              state: address.state,
+              shippingPrice: shippingQuotes.get(sellerId).price,
+              userId,
+              sellerId,
+              installmentAmount,
+              couponId: couponDiscounts.has(sellerId) ? coupon.id : undefined,
+              status: OrderStatus.Pendent,
+              trackingCode: trackingCodes[index],
+              ...OrderService.calculateTotals(
+                orderProductGroups,
+                shippingQuotes.get(sellerId).price,
+                couponDiscounts.get(sellerId),
+                installmentAmount,
+              ),
+              productGroups: orderProductGroups,
+            }),
+        )
+
+        // create the purchase that groups all the orders
+        const purchase = await manager.save(
+          new PurchaseEntity({
+            cep: address.cep,
+            houseNumber: address.houseNumber,
+            installmentAmount,
+            userId,
+            couponId: coupon ? coupon.id : undefined,
+            ...OrderService.sumTotals(orders),
+          }),
+        )
+
+        if (coupon) {
+          await this.couponService.redeem(
+            manager,
+            coupon,
+            userId,
+            purchase.id,
+            purchase.couponDiscount,
+          )
+        }
+
+        for (const order of orders) {
+          const { productGroups: orderProductGroups } = order
+          delete order.productGroups
+
+          await OrderService.saveWithUniqueTrackingCode(
+            manager,
+            Object.assign(order, { purchaseId: purchase.id }),
+          )
+
+          await manager.save(
+            new OrderStatusHistoryEntity({
+              orderId: order.id,
+              toStatus: order.status,
+              userId: requestUser.id,
+            }),
+          )
+
+          for (const productGroup of orderProductGroups) {
+            const { amount, productId } = productGroup
+
+            // removes from the stock the selled products, whose rows are
+            // already locked by this transaction
+            await manager
+              .createQueryBuilder()
+              .update(ProductEntity)
+              .set({
+                stockAmount: () => '"stockAmount" - :amount',
+                ordersAmount: () => '"ordersAmount" + 1',
+              })
+              .where('id = :productId', { productId })
+              .setParameter('amount', amount)
+              .execute()
+
+            const { stockAmount } = await manager.findOne(ProductEntity, {
+              id: productId,
+            })
+
+            StockReservationService.assertAvailable([
+              {
+                product: products.find(product => product.id === productId),
+                amount,
+                available:
+                  stockAmount + amount - (reservedStock.get(productId) ?? 0),
+              },
+            ])
+
+            await NotificationService.notifyStockChange(
+              manager,
+              productId,
+              stockAmount + amount,
+            )
+            await ProductVariantService.syncStock(manager, productId)
+
+            // relate the duplicated product group entity with the order entity
+            await manager.save(
+              Object.assign(productGroup, { orderId: order.id }),
+            )
+          }
+
+          order.productGroups = orderProductGroups
+
+          // the order only moves forward after its payment is captured
+          const payment = await this.paymentService.authorize(
+            manager,
+            order,
+            paymentMethod,
+            installmentAmount,
+          )
+          payments.push(payment)
+          order.payments = [payment]
+        }
+
+        await manager.update(
+          UserEntity,
+          { id: userId },
+          { shoppingCartId: null },
+        )
+        await manager.delete(ShoppingCartEntity, { id: shoppingCart.id })
+
+        purchase.orders = orders
+        return purchase
+      })
+    } catch (error) {
+      await this.paymentService.cancelAuthorizations(payments)
+      throw error
     }
+  }
 
-    // removes from the stock the selled products
-    let index = 0
-    for (const product of products) {
-      product.stockAmount -= productGroups[index].amount
-      product.ordersAmount++
-      await product.save()
-      index++
+  /**
+   * Method that gets the user shopping cart, creating it when the user has
+   * none
+   *
+   * @param manager stores the entity manager of the current transaction
+   * @param user stores the shopping cart owner
+   * @returns the user shopping cart entity
+   */
+  private async findOrCreateShoppingCart(
+    manager: EntityManager,
+    user: UserEntity,
+  ): Promise<ShoppingCartEntity> {
+    const shoppingCart = user.shoppingCartId
+      ? await manager.findOne(ShoppingCartEntity, { id: user.shoppingCartId })
+      : undefined
+
+    if (shoppingCart) {
+      return shoppingCart
     }
 
-    await UserEntity.update({ id: userId }, { shoppingCartId: undefined })
-    await ShoppingCartEntity.delete({ id: shoppingCart.id })
+    const created = await manager.save(
+      new ShoppingCartEntity({ userId: user.id }),
+    )
+    await manager.update(
+      UserEntity,
+      { id: user.id },
+      { shoppingCartId: created.id },
+    )
 
-    return order
+    return created
+  }
+
+  /**
+   * Method that calculates the shopping cart prices with the discount of
+   * its coupon. When the coupon can not be used anymore its discount is
+   * not considered, and the checkout will tell why
+   *
+   * @param shoppingCart stores the shopping cart entity
+   * @returns the shopping cart summary
+   */
+  private async summarizeShoppingCart(
+    shoppingCart: ShoppingCartEntity,
+  ): Promise<ShoppingCartSummaryDto> {
+    const productGroups = await ProductGroupEntity.find({
+      where: { shoppingCartId: shoppingCart.id },
+      relations: ['product', 'product.categories'],
+    })
+
+    const availableStock = await this.stockReservationService.getAvailableStock(
+      productGroups.map(({ product }) => product),
+      shoppingCart.userId,
+    )
+
+    let couponDiscount = 0
+
+    const coupon =
+      shoppingCart.couponId &&
+      (await CouponEntity.findOne({ id: shoppingCart.couponId }))
+    if (coupon) {
+      try {
+        const discounts = await this.couponService.calculateDiscounts(
+          coupon,
+          shoppingCart.userId,
+          productGroups.filter(
+            productGroup =>
+              ShoppingCartService.getLineIssues(productGroup, availableStock)
+                .length === 0,
+          ),
+        )
+
+        couponDiscount =
+          Math.round(
+            [...discounts.values()].reduce((sum, value) => sum + value, 0) *
+              100,
+          ) / 100
+      } catch (error) {
+        if (!(error instanceof InvalidCouponException)) throw error
+      }
+    }
+
+    return ShoppingCartService.summarize(
+      productGroups,
+      couponDiscount,
+      availableStock,
+    )
   }
 }
@@ -10,24 +10,32 @@ import { UserRelationsController } from './controllers/user-relations.controller
 import { UserController } from './controllers/user.controller'
 
 import { AddressModule } from '../address/address.module'
+import { CouponModule } from '../coupon/coupon.module'
 import { OrderModule } from '../order/order.module'
 import { PasswordModule } from '../password/password.module'
+import { PaymentModule } from '../payment/payment.module'
 import { ProductGroupModule } from '../product-group/product-group.module'
 import { ProductModule } from '../product/product.module'
+import { ShippingModule } from '../shipping/shipping.module'
 import { ShoppingCartModule } from '../shopping-cart/shopping-cart.module'
+import { StockReservationModule } from '../stock-reservation/stock-reservation.module'
 
 @Module({
   imports: [
     PasswordModule,
+    ShippingModule,
+    StockReservationModule,
     ProductGroupModule,
     forwardRef(() => ProductModule),
     forwardRef(() => AddressModule),
     forwardRef(() => OrderModule),
     forwardRef(() => ShoppingCartModule),
+    forwardRef(() => PaymentModule),
+    forwardRef(() => CouponModule),
     TypeOrmModule.forFeature([UserEntity])
   ],
   controllers: [UserController, UserRelationsController],
   providers: [UserService, UserRelationsService],
-  exports: [UserService]
+  exports: [UserService, UserRelationsService]
 })
 export class UserModule {}
@@ -0,0 +1,46 @@
+import { Controller, Get, Param } from '@nestjs/common'
+import {
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+
+import { WishlistDto } from '../models/wishlist.dto'
+
+import { WishlistService } from '../services/wishlist.service'
+
+/**
+ * The app's main shared wishlist controller class
+ *
+ * Class that deals with the public share links of the wishlists, they are
+ * not protected
+ */
+@ApiTags('wishlists')
+@Controller('shared-wishlists')
+export class SharedWishlistController {
+  public constructor(private readonly wishlistService: WishlistService) {}
+
+  /**
+   * Method that is called when the user access the "/shared-wishlists/:token"
+   * route with "GET" method
+   *
+   * @param shareToken stores the token of the share link
+   * @throws {NotFoundException} if the wishlist was not found or is not
+   * shared anymore
+   * @returns the shared wishlist data
+   */
+  @ApiOperation({ summary: 'Retrieves a shared wishlist' })
+  @ApiOkResponse({
+    description: 'Gets the wishlist with its items',
+    type: WishlistDto,
+  })
+  @ApiNotFoundResponse({ description: 'Wishlist not found or not shared' })
+  @Get(':token')
+  public async listOne(
+    @Param('token') shareToken: string,
+  ): Promise<WishlistDto> {
+    const entity = await this.wishlistService.listOneByShareToken(shareToken)
+    return entity.toDto()
+  }
+}
@@ -0,0 +1,416 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common'
+import {
+  ApiConflictResponse,
+  ApiCreatedResponse,
+  ApiForbiddenResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+import { RequestUser } from 'src/decorators/request-user/request-user.decorator'
+
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { AddWishlistItemDto } from '../models/add-wishlist-item.dto'
+import { CreateWishlistDto } from '../models/create-wishlist.dto'
+import { MoveWishlistItemDto } from '../models/move-wishlist-item.dto'
+import { UpdateWishlistDto } from '../models/update-wishlist.dto'
+import { WishlistItemDto } from '../models/wishlist-item.dto'
+import { WishlistDto } from '../models/wishlist.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+import { ProductGroupDto } from 'src/modules/product-group/models/product-group.dto'
+
+import { WishlistService } from '../services/wishlist.service'
+
+/**
+ * The app's main wishlist controller class
+ *
+ * Class that deals with the logged user wishlists routes
+ */
+@ApiTags('wishlists')
+@Controller('users/me/wishlists')
+export class WishlistController {
+  public constructor(private readonly wishlistService: WishlistService) {}
+
+  /**
+   * Method that is called when the user access the "/users/me/wishlists"
+   * route with "POST" method
+   *
+   * @param requestUser stores the logged user data
+   * @param createWishlistPayload stores the new wishlist data
+   * @returns the created wishlist data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Creates a new wishlist' })
+  @ApiCreatedResponse({
+    description: 'Gets the created wishlist data',
+    type: WishlistDto,
+  })
+  @Post()
+  public async create(
+    @RequestUser() requestUser: UserEntity,
+    @Body() createWishlistPayload: CreateWishlistDto,
+  ): Promise<WishlistDto> {
+    const entity = await this.wishlistService.create(
+      requestUser,
+      createWishlistPayload,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "/users/me/wishlists"
+   * route with "GET" method
+   *
+   * @param requestUser stores the logged user data
+   * @returns the logged user wishlists with their items
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Retrieves the logged user wishlists' })
+  @ApiOkResponse({
+    description: 'Gets the wishlists with their items',
+    type: WishlistDto,
+    isArray: true,
+  })
+  @Get()
+  public async listMany(
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<WishlistDto[]> {
+    const entities = await this.wishlistService.listMany(requestUser)
+    return entities.map(entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/users/me/wishlists/price-drops" route with "GET" method
+   *
+   * @param requestUser stores the logged user data
+   * @returns the saved items whose price dropped
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({
+    summary: 'Retrieves the saved items that are cheaper than when saved',
+  })
+  @ApiOkResponse({
+    description: 'Gets the items whose price dropped',
+    type: WishlistItemDto,
+    isArray: true,
+  })
+  @Get('price-drops')
+  public async listPriceDrops(
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<WishlistItemDto[]> {
+    const entities = await this.wishlistService.listPriceDrops(requestUser)
+    return entities.map(entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the "/users/me/wishlists/:id"
+   * route with "GET" method
+   *
+   * @param wishlistId stores the target wishlist id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @returns the found wishlist data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Retrieves a single wishlist' })
+  @ApiOkResponse({
+    description: 'Gets the wishlist with its items',
+    type: WishlistDto,
+  })
+  @ApiNotFoundResponse({ description: 'Wishlist not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Get(':id')
+  public async listOne(
+    @Param('id') wishlistId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<WishlistDto> {
+    const entity = await this.wishlistService.listOne(wishlistId, requestUser)
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "/users/me/wishlists/:id"
+   * route with "PATCH" method
+   *
+   * @param wishlistId stores the target wishlist id
+   * @param requestUser stores the logged user data
+   * @param updateWishlistPayload stores the new wishlist data
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Updates a single wishlist' })
+  @ApiOkResponse({ description: 'Updates the wishlist' })
+  @ApiNotFoundResponse({ description: 'Wishlist not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Patch(':id')
+  public async update(
+    @Param('id') wishlistId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() updateWishlistPayload: UpdateWishlistDto,
+  ): Promise<void> {
+    await this.wishlistService.update(
+      wishlistId,
+      requestUser,
+      updateWishlistPayload,
+    )
+  }
+
+  /**
+   * Method that is called when the user access the "/users/me/wishlists/:id"
+   * route with "DELETE" method
+   *
+   * @param wishlistId stores the target wishlist id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Deletes a single wishlist' })
+  @ApiOkResponse({ description: 'Deletes the wishlist and its items' })
+  @ApiNotFoundResponse({ description: 'Wishlist not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Delete(':id')
+  public async delete(
+    @Param('id') wishlistId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<void> {
+    await this.wishlistService.delete(wishlistId, requestUser)
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/users/me/wishlists/:id/share" route with "POST" method
+   *
+   * @param wishlistId stores the target wishlist id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @returns the wishlist data with its share token
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Creates the public share link of a wishlist' })
+  @ApiOkResponse({
+    description: 'Gets the wishlist with its share token',
+    type: WishlistDto,
+  })
+  @ApiNotFoundResponse({ description: 'Wishlist not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Post(':id/share')
+  @HttpCode(200)
+  public async share(
+    @Param('id') wishlistId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<WishlistDto> {
+    const entity = await this.wishlistService.share(wishlistId, requestUser)
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/users/me/wishlists/:id/share" route with "DELETE" method
+   *
+   * @param wishlistId stores the target wishlist id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Revokes the public share link of a wishlist' })
+  @ApiOkResponse({ description: 'Revokes the share link' })
+  @ApiNotFoundResponse({ description: 'Wishlist not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Delete(':id/share')
+  public async unshare(
+    @Param('id') wishlistId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<void> {
+    await this.wishlistService.unshare(wishlistId, requestUser)
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/users/me/wishlists/:id/items" route with "POST" method
+   *
+   * @param wishlistId stores the target wishlist id
+   * @param requestUser stores the logged user data
+   * @param addWishlistItemPayload stores the product that will be saved
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {EntityNotFoundException} if the product was not found
+   * @throws {ConflictException} if the product is already in the wishlist
+   * @returns the created wishlist item data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Saves some product in a wishlist' })
+  @ApiCreatedResponse({
+    description: 'Gets the created wishlist item data',
+    type: WishlistItemDto,
+  })
+  @ApiNotFoundResponse({ description: 'Wishlist or product not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @ApiConflictResponse({
+    description: 'The product is already in the wishlist',
+  })
+  @Post(':id/items')
+  public async addItem(
+    @Param('id') wishlistId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() addWishlistItemPayload: AddWishlistItemDto,
+  ): Promise<WishlistItemDto> {
+    const entity = await this.wishlistService.addItem(
+      wishlistId,
+      requestUser,
+      addWishlistItemPayload,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/users/me/wishlists/:id/items/from-shopping-cart" route with "POST"
+   * method
+   *
+   * @param wishlistId stores the target wishlist id
+   * @param requestUser stores the logged user data
+   * @param addWishlistItemPayload stores the product that will be moved
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {NotFoundException} if the product is not in the shopping cart
+   * @returns the wishlist item data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({
+    summary: 'Moves some product from the shopping cart to a wishlist',
+  })
+  @ApiOkResponse({
+    description: 'Gets the wishlist item data',
+    type: WishlistItemDto,
+  })
+  @ApiNotFoundResponse({
+    description: 'Wishlist not found or product not in the shopping cart',
+  })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Post(':id/items/from-shopping-cart')
+  @HttpCode(200)
+  public async moveItemFromShoppingCart(
+    @Param('id') wishlistId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() addWishlistItemPayload: AddWishlistItemDto,
+  ): Promise<WishlistItemDto> {
+    const entity = await this.wishlistService.moveItemFromShoppingCart(
+      wishlistId,
+      requestUser,
+      addWishlistItemPayload,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/users/me/wishlists/:id/items/:itemId/to-shopping-cart" route with
+   * "POST" method
+   *
+   * @param wishlistId stores the target wishlist id
+   * @param itemId stores the target wishlist item id
+   * @param requestUser stores the logged user data
+   * @param moveWishlistItemPayload stores how many units will be added
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {EntityNotFoundException} if the item was not found
+   * @returns the shopping cart product group data
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({
+    summary: 'Moves some wishlist item to the shopping cart',
+  })
+  @ApiOkResponse({
+    description: 'Gets the shopping cart product group data',
+    type: ProductGroupDto,
+  })
+  @ApiNotFoundResponse({ description: 'Wishlist or item not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Post(':id/items/:itemId/to-shopping-cart')
+  @HttpCode(200)
+  public async moveItemToShoppingCart(
+    @Param('id') wishlistId: number,
+    @Param('itemId') itemId: number,
+    @RequestUser() requestUser: UserEntity,
+    @Body() moveWishlistItemPayload: MoveWishlistItemDto,
+  ): Promise<ProductGroupDto> {
+    const entity = await this.wishlistService.moveItemToShoppingCart(
+      wishlistId,
+      itemId,
+      requestUser,
+      moveWishlistItemPayload,
+    )
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the
+   * "/users/me/wishlists/:id/items/:itemId" route with "DELETE" method
+   *
+   * @param wishlistId stores the target wishlist id
+   * @param itemId stores the target wishlist item id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {EntityNotFoundException} if the item was not found
+   */
+  @ProtectTo(RolesEnum.Common, RolesEnum.Seller, RolesEnum.Admin)
+  @ApiOperation({ summary: 'Removes some item from a wishlist' })
+  @ApiOkResponse({ description: 'Removes the wishlist item' })
+  @ApiNotFoundResponse({ description: 'Wishlist or item not found' })
+  @ApiForbiddenResponse({
+    description: 'The user has no permission to access those sources',
+  })
+  @Delete(':id/items/:itemId')
+  public async removeItem(
+    @Param('id') wishlistId: number,
+    @Param('itemId') itemId: number,
+    @RequestUser() requestUser: UserEntity,
+  ): Promise<void> {
+    await this.wishlistService.removeItem(wishlistId, itemId, requestUser)
+  }
+}
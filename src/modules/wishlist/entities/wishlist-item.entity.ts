@@ -0,0 +1,87 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne } from 'typeorm'
+
+import { WishlistEntity } from './wishlist.entity'
+import { BaseEntity } from 'src/common/base.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+
+import { WishlistItemDto } from '../models/wishlist-item.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+
+/**
+ * The app's main wishlist item entity class
+ *
+ * Class that represents some product saved in a wishlist, with the price
+ * that it had when it was saved
+ */
+@Entity('wishlist-item')
+export class WishlistItemEntity extends BaseEntity
+  implements ToDto<WishlistItemDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'float',
+    nullable: false,
+  })
+  public savedPrice: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public wishlistId: number
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public productId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => WishlistEntity })
+  @ManyToOne(
+    () => WishlistEntity,
+    wishlist => wishlist.items,
+    { onDelete: 'CASCADE' },
+  )
+  public wishlist?: WishlistEntity
+
+  @ApiPropertyOptional({ type: () => ProductEntity })
+  @ManyToOne(() => ProductEntity, { onDelete: 'CASCADE' })
+  public product?: ProductEntity
+
+  //#endregion
+
+  //#endregion
+
+  /**
+   * The price that the product has now, it is not stored in the database
+   */
+  @ApiPropertyOptional()
+  public currentPrice?: number
+
+  /**
+   * How much the price dropped since the product was saved, it is not
+   * stored in the database
+   */
+  @ApiPropertyOptional()
+  public priceDrop?: number
+
+  public constructor(partial: Partial<WishlistItemEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): WishlistItemDto {
+    return new WishlistItemDto(this)
+  }
+}
@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, ManyToOne, OneToMany } from 'typeorm'
+
+import { WishlistItemEntity } from './wishlist-item.entity'
+import { BaseEntity } from 'src/common/base.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { WishlistDto } from '../models/wishlist.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+
+/**
+ * The app's main wishlist entity class
+ *
+ * Class that represents the named lists where the users save the products
+ * they want to buy later
+ */
+@Entity('wishlist')
+export class WishlistEntity extends BaseEntity implements ToDto<WishlistDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: false,
+  })
+  public name: string
+
+  /**
+   * The opaque token used by the public share link, the wishlist is only
+   * visible to its owner while it is not set
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+    unique: true,
+  })
+  public shareToken?: string
+
+  @ApiProperty()
+  @Column({
+    type: 'int',
+    nullable: false,
+  })
+  public userId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => UserEntity })
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  public user?: UserEntity
+
+  @ApiPropertyOptional({
+    type: () => WishlistItemEntity,
+    isArray: true,
+  })
+  @OneToMany(
+    () => WishlistItemEntity,
+    item => item.wishlist,
+  )
+  public items?: WishlistItemEntity[]
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<WishlistEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): WishlistDto {
+    return new WishlistDto(this)
+  }
+}
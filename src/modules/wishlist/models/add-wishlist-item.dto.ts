@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsDefined, IsNumber, Min } from 'class-validator'
+
+/**
+ * The app's main add wishlist item dto class
+ *
+ * Class that handles the dto sent by the user to save some product in a
+ * wishlist
+ */
+export class AddWishlistItemDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the product id' })
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public productId: number
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsDefined, IsNotEmpty, IsString, MaxLength } from 'class-validator'
+
+/**
+ * The app's main create wishlist dto class
+ *
+ * Class that handles the dto sent by the user to create a new wishlist
+ */
+export class CreateWishlistDto {
+  @ApiProperty()
+  @IsDefined({ message: 'It is required to send the name' })
+  @IsString({ message: DefaultValidationMessages.IsString })
+  @IsNotEmpty({ message: DefaultValidationMessages.IsNotEmpty })
+  @MaxLength(64)
+  public name: string
+}
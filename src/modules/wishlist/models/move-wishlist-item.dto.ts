@@ -0,0 +1,22 @@
+import { ApiPropertyOptional } from '@nestjs/swagger'
+
+import { DefaultValidationMessages } from 'src/models/enums/default-validation-messages.enum'
+
+import { IsNumber, IsOptional, Min } from 'class-validator'
+
+/**
+ * The app's main move wishlist item dto class
+ *
+ * Class that handles the dto sent by the user to move some wishlist item to
+ * the shopping cart
+ */
+export class MoveWishlistItemDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 0 },
+    { message: DefaultValidationMessages.IsNumber },
+  )
+  @Min(1)
+  public amount?: number
+}
@@ -0,0 +1,58 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { WishlistItemEntity } from '../entities/wishlist-item.entity'
+
+import { WishlistDto } from './wishlist.dto'
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { ProductDto } from 'src/modules/product/models/product.dto'
+
+/**
+ * The app's main wishlist item dto class
+ *
+ * Class that deals with the wishlist item return data
+ */
+export class WishlistItemDto extends BaseResponseDto {
+  @ApiProperty()
+  public savedPrice: number
+
+  @ApiPropertyOptional()
+  public currentPrice?: number
+
+  @ApiPropertyOptional()
+  public priceDrop?: number
+
+  @ApiPropertyOptional()
+  public hasPriceDropped?: boolean
+
+  @ApiProperty()
+  public wishlistId: number
+
+  @ApiProperty()
+  public productId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => WishlistDto })
+  public wishlist?: WishlistDto
+
+  @ApiPropertyOptional({ type: () => ProductDto })
+  public product?: ProductDto
+
+  //#endregion
+
+  public constructor(entity: WishlistItemEntity) {
+    super(entity)
+
+    this.savedPrice = entity.savedPrice
+    this.currentPrice = entity.currentPrice
+    this.priceDrop = entity.priceDrop
+    this.hasPriceDropped =
+      entity.priceDrop === undefined ? undefined : entity.priceDrop > 0
+    this.wishlistId = entity.wishlistId
+    this.productId = entity.productId
+
+    // relations
+    this.wishlist = entity.wishlist?.toDto()
+    this.product = entity.product?.toDto()
+  }
+}
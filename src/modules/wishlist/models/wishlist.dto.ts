@@ -0,0 +1,48 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { WishlistEntity } from '../entities/wishlist.entity'
+
+import { WishlistItemDto } from './wishlist-item.dto'
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { UserDto } from 'src/modules/user/models/user.dto'
+
+/**
+ * The app's main wishlist dto class
+ *
+ * Class that deals with the wishlist return data
+ */
+export class WishlistDto extends BaseResponseDto {
+  @ApiProperty()
+  public name: string
+
+  @ApiPropertyOptional()
+  public shareToken?: string
+
+  @ApiProperty()
+  public userId: number
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => UserDto })
+  public user?: UserDto
+
+  @ApiPropertyOptional({
+    type: () => WishlistItemDto,
+    isArray: true,
+  })
+  public items?: WishlistItemDto[]
+
+  //#endregion
+
+  public constructor(entity: WishlistEntity) {
+    super(entity)
+
+    this.name = entity.name
+    this.shareToken = entity.shareToken
+    this.userId = entity.userId
+
+    // relations
+    this.user = entity.user?.toDto()
+    this.items = entity.items?.map(item => item.toDto())
+  }
+}
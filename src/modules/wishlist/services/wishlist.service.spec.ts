@@ -0,0 +1,182 @@
+import { NotFoundException } from '@nestjs/common'
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+
+import { WishlistItemEntity } from '../entities/wishlist-item.entity'
+import { WishlistEntity } from '../entities/wishlist.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { WishlistService } from './wishlist.service'
+import { UserRelationsService } from 'src/modules/user/services/user-relations.service'
+
+describe('WishlistService', () => {
+  let service: WishlistService
+  let seller: UserEntity
+  let sequence = 0
+
+  const userRelationsService = {
+    addProductInShoppingCartByUserId: jest.fn(),
+    removeProductFromShoppingCartByUserId: jest.fn(),
+  }
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+
+    seller = await createUser(RolesEnum.Seller)
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        WishlistService,
+        {
+          provide: getRepositoryToken(WishlistEntity),
+          useValue: getRepository(WishlistEntity),
+        },
+        { provide: UserRelationsService, useValue: userRelationsService },
+      ],
+    }).compile()
+
+    service = await module.resolve(WishlistService)
+  })
+
+  /**
+   * Function that creates a new user entity
+   *
+   * @param roles stores the user roles
+   * @returns the created user entity
+   */
+  async function createUser(roles = RolesEnum.Common): Promise<UserEntity> {
+    sequence++
+    return await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `wishlist-${sequence}@test.com`,
+      password: '123456',
+      roles,
+    }).save()
+  }
+
+  /**
+   * Function that creates a new product entity sold by the seller
+   *
+   * @param price stores the product price
+   * @returns the created product entity
+   */
+  async function createProduct(price: number): Promise<ProductEntity> {
+    sequence++
+    return await new ProductEntity({
+      name: `PRODUCT-TEST-${sequence}`,
+      description: 'PRODUCT-TEST',
+      price,
+      stockAmount: 10,
+      userId: seller.id,
+    }).save()
+  }
+
+  describe('addItem', () => {
+    // tests if the item keeps the price it had when it was saved
+    it('should report the products whose price dropped', async () => {
+      const user = await createUser()
+      const cheaper = await createProduct(50)
+      const pricier = await createProduct(20)
+
+      const wishlist = await service.create(user, { name: 'BIRTHDAY' })
+      await service.addItem(wishlist.id, user, { productId: cheaper.id })
+      await service.addItem(wishlist.id, user, { productId: pricier.id })
+
+      await ProductEntity.update({ id: cheaper.id }, { discount: 0.2 })
+      await ProductEntity.update({ id: pricier.id }, { price: 25 })
+
+      const drops = await service.listPriceDrops(user)
+
+      expect(drops).toHaveLength(1)
+      expect(drops[0].toDto()).toMatchObject({
+        productId: cheaper.id,
+        savedPrice: 50,
+        currentPrice: 40,
+        priceDrop: 10,
+        hasPriceDropped: true,
+      })
+    })
+
+    // tests if the wishlists of other users are protected
+    it('should throw a "ForbiddenException" when the wishlist is not owned by the user', async () => {
+      const owner = await createUser()
+      const wishlist = await service.create(owner, { name: 'PRIVATE' })
+
+      await expect(
+        service.listOne(wishlist.id, await createUser()),
+      ).rejects.toThrow(ForbiddenException)
+    })
+  })
+
+  describe('moveItemToShoppingCart', () => {
+    // tests if the item leaves the wishlist when it goes to the cart
+    it('should add the product in the shopping cart and remove the item', async () => {
+      const user = await createUser()
+      const product = await createProduct(30)
+
+      const wishlist = await service.create(user, { name: 'LATER' })
+      const item = await service.addItem(wishlist.id, user, {
+        productId: product.id,
+      })
+
+      userRelationsService.addProductInShoppingCartByUserId.mockResolvedValueOnce(
+        [{ productId: product.id, amount: 2 }],
+      )
+
+      await service.moveItemToShoppingCart(wishlist.id, item.id, user, {
+        amount: 2,
+      })
+
+      expect(
+        userRelationsService.addProductInShoppingCartByUserId,
+      ).toHaveBeenCalledWith(
+        user.id,
+        user,
+        [{ productId: product.id, amount: 2 }],
+        false,
+      )
+      expect(await WishlistItemEntity.findOne({ id: item.id })).toBeUndefined()
+    })
+  })
+
+  describe('share', () => {
+    // tests if the share link stops working when it is revoked
+    it('should find the wishlist by its share token until it is revoked', async () => {
+      const user = await createUser()
+      const wishlist = await service.create(user, { name: 'SHARED' })
+
+      const { shareToken } = await service.share(wishlist.id, user)
+
+      expect(shareToken).toBeDefined()
+      expect((await service.listOneByShareToken(shareToken)).id).toBe(
+        wishlist.id,
+      )
+
+      await service.unshare(wishlist.id, user)
+
+      await expect(service.listOneByShareToken(shareToken)).rejects.toThrow(
+        NotFoundException,
+      )
+    })
+  })
+})
@@ -0,0 +1,456 @@
+import {
+  ConflictException,
+  forwardRef,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+
+import { ForbiddenException } from 'src/exceptions/forbidden/forbidden.exception'
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { WishlistItemEntity } from '../entities/wishlist-item.entity'
+import { WishlistEntity } from '../entities/wishlist.entity'
+import { ProductGroupEntity } from 'src/modules/product-group/entities/product-group.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { AddWishlistItemDto } from '../models/add-wishlist-item.dto'
+import { CreateWishlistDto } from '../models/create-wishlist.dto'
+import { MoveWishlistItemDto } from '../models/move-wishlist-item.dto'
+import { UpdateWishlistDto } from '../models/update-wishlist.dto'
+
+import { UserRelationsService } from 'src/modules/user/services/user-relations.service'
+import { UserService } from 'src/modules/user/services/user.service'
+
+import { randomBytes } from 'crypto'
+
+/**
+ * The app's main wishlist service class
+ *
+ * Class that deals with the wishlists data
+ */
+@Injectable()
+export class WishlistService {
+  public constructor(
+    @InjectRepository(WishlistEntity)
+    private readonly repository: Repository<WishlistEntity>,
+    @Inject(forwardRef(() => UserRelationsService))
+    private readonly userRelationsService: UserRelationsService,
+  ) {}
+
+  /**
+   * Method that can create a new wishlist for the logged user
+   *
+   * @param requestUser stores the logged user data
+   * @param createWishlistDto stores the new wishlist data
+   * @returns the created wishlist entity
+   */
+  public async create(
+    requestUser: UserEntity,
+    createWishlistDto: CreateWishlistDto,
+  ): Promise<WishlistEntity> {
+    return await this.repository.save(
+      new WishlistEntity({
+        name: createWishlistDto.name.trim(),
+        userId: requestUser.id,
+      }),
+    )
+  }
+
+  /**
+   * Method that gets all the wishlists of the logged user with their items
+   *
+   * @param requestUser stores the logged user data
+   * @returns the found wishlist entities
+   */
+  public async listMany(requestUser: UserEntity): Promise<WishlistEntity[]> {
+    const entities = await this.repository.find({
+      where: { userId: requestUser.id },
+      relations: ['items', 'items.product'],
+      order: { id: 'ASC' },
+    })
+
+    entities.forEach(({ items }) => WishlistService.calculatePriceDrops(items))
+
+    return entities
+  }
+
+  /**
+   * Method that can get only one wishlist with its items
+   *
+   * @param wishlistId stores the wishlist id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @returns the found wishlist entity
+   */
+  public async listOne(
+    wishlistId: number,
+    requestUser: UserEntity,
+  ): Promise<WishlistEntity> {
+    const entity = await this.repository.findOne({
+      where: { id: wishlistId },
+      relations: ['items', 'items.product'],
+    })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(wishlistId, WishlistEntity)
+    }
+
+    if (!UserService.hasPermissions(entity.userId, requestUser)) {
+      throw new ForbiddenException()
+    }
+
+    WishlistService.calculatePriceDrops(entity.items)
+
+    return entity
+  }
+
+  /**
+   * Method that gets some shared wishlist, it can be accessed by anyone
+   * that knows the share token
+   *
+   * @param shareToken stores the token of the share link
+   * @throws {NotFoundException} if the wishlist was not found or is not
+   * shared anymore
+   * @returns the found wishlist entity
+   */
+  public async listOneByShareToken(
+    shareToken: string,
+  ): Promise<WishlistEntity> {
+    const entity = await this.repository.findOne({
+      where: { shareToken },
+      relations: ['items', 'items.product'],
+    })
+
+    if (!entity || !entity.isActive) {
+      throw new NotFoundException(
+        'This wishlist does not exist or is not shared',
+      )
+    }
+
+    WishlistService.calculatePriceDrops(entity.items)
+
+    return entity
+  }
+
+  /**
+   * Method that gets the items of the logged user wishlists whose products
+   * are cheaper now than when they were saved
+   *
+   * @param requestUser stores the logged user data
+   * @returns the found wishlist item entities
+   */
+  public async listPriceDrops(
+    requestUser: UserEntity,
+  ): Promise<WishlistItemEntity[]> {
+    const wishlists = await this.listMany(requestUser)
+
+    return wishlists
+      .reduce<WishlistItemEntity[]>(
+        (items, wishlist) => [...items, ...wishlist.items],
+        [],
+      )
+      .filter(item => item.priceDrop > 0)
+  }
+
+  /**
+   * Method that can update some wishlist
+   *
+   * @param wishlistId stores the wishlist id
+   * @param requestUser stores the logged user data
+   * @param updateWishlistDto stores the new wishlist data
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   */
+  public async update(
+    wishlistId: number,
+    requestUser: UserEntity,
+    updateWishlistDto: UpdateWishlistDto,
+  ): Promise<void> {
+    await this.listOne(wishlistId, requestUser)
+
+    const { name } = updateWishlistDto
+
+    if (name !== undefined) {
+      await this.repository.update({ id: wishlistId }, { name: name.trim() })
+    }
+  }
+
+  /**
+   * Method that can delete some wishlist and its items
+   *
+   * @param wishlistId stores the wishlist id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   */
+  public async delete(
+    wishlistId: number,
+    requestUser: UserEntity,
+  ): Promise<void> {
+    await this.listOne(wishlistId, requestUser)
+
+    await WishlistItemEntity.delete({ wishlistId })
+    await this.repository.delete({ id: wishlistId })
+  }
+
+  /**
+   * Method that creates the public share link of some wishlist, when the
+   * wishlist is already shared the same link is kept
+   *
+   * @param wishlistId stores the wishlist id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @returns the shared wishlist entity
+   */
+  public async share(
+    wishlistId: number,
+    requestUser: UserEntity,
+  ): Promise<WishlistEntity> {
+    const entity = await this.listOne(wishlistId, requestUser)
+
+    if (!entity.shareToken) {
+      entity.shareToken = randomBytes(24).toString('hex')
+      await this.repository.update(
+        { id: wishlistId },
+        { shareToken: entity.shareToken },
+      )
+    }
+
+    return entity
+  }
+
+  /**
+   * Method that revokes the public share link of some wishlist
+   *
+   * @param wishlistId stores the wishlist id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   */
+  public async unshare(
+    wishlistId: number,
+    requestUser: UserEntity,
+  ): Promise<void> {
+    await this.listOne(wishlistId, requestUser)
+
+    await this.repository.update({ id: wishlistId }, { shareToken: null })
+  }
+
+  /**
+   * Method that saves some product in the wishlist with its current price
+   *
+   * @param wishlistId stores the wishlist id
+   * @param requestUser stores the logged user data
+   * @param addWishlistItemDto stores the product that will be saved
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {EntityNotFoundException} if the product was not found
+   * @throws {ConflictException} if the product is already in the wishlist
+   * @returns the created wishlist item entity
+   */
+  public async addItem(
+    wishlistId: number,
+    requestUser: UserEntity,
+    addWishlistItemDto: AddWishlistItemDto,
+  ): Promise<WishlistItemEntity> {
+    const wishlist = await this.listOne(wishlistId, requestUser)
+    const { productId } = addWishlistItemDto
+
+    if (wishlist.items.some(item => item.productId === productId)) {
+      throw new ConflictException('This product is already in the wishlist')
+    }
+
+    return await this.saveItem(wishlist, productId)
+  }
+
+  /**
+   * Method that removes some item from the wishlist
+   *
+   * @param wishlistId stores the wishlist id
+   * @param itemId stores the wishlist item id
+   * @param requestUser stores the logged user data
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {EntityNotFoundException} if the item was not found
+   */
+  public async removeItem(
+    wishlistId: number,
+    itemId: number,
+    requestUser: UserEntity,
+  ): Promise<void> {
+    const wishlist = await this.listOne(wishlistId, requestUser)
+    const item = WishlistService.findItem(wishlist, itemId)
+
+    await WishlistItemEntity.delete({ id: item.id })
+  }
+
+  /**
+   * Method that moves some wishlist item to the wishlist owner shopping
+   * cart, removing it from the wishlist
+   *
+   * @param wishlistId stores the wishlist id
+   * @param itemId stores the wishlist item id
+   * @param requestUser stores the logged user data
+   * @param moveWishlistItemDto stores how many units will be added in the
+   * shopping cart
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {EntityNotFoundException} if the item was not found
+   * @throws {EntityNotFoundException} if the product is not available
+   * anymore
+   * @returns the product group entity of the shopping cart
+   */
+  public async moveItemToShoppingCart(
+    wishlistId: number,
+    itemId: number,
+    requestUser: UserEntity,
+    moveWishlistItemDto: MoveWishlistItemDto,
+  ): Promise<ProductGroupEntity> {
+    const wishlist = await this.listOne(wishlistId, requestUser)
+    const item = WishlistService.findItem(wishlist, itemId)
+
+    const [
+      productGroup,
+    ] = await this.userRelationsService.addProductInShoppingCartByUserId(
+      wishlist.userId,
+      requestUser,
+      [{ productId: item.productId, amount: moveWishlistItemDto.amount ?? 1 }],
+      false,
+    )
+
+    await WishlistItemEntity.delete({ id: item.id })
+
+    return productGroup
+  }
+
+  /**
+   * Method that moves some product from the wishlist owner shopping cart to
+   * the wishlist, saving it with its current price
+   *
+   * @param wishlistId stores the wishlist id
+   * @param requestUser stores the logged user data
+   * @param addWishlistItemDto stores the product that will be moved
+   * @throws {EntityNotFoundException} if the wishlist was not found
+   * @throws {ForbiddenException} if the request user has no permission
+   * to access those sources
+   * @throws {NotFoundException} if the product is not in the shopping cart
+   * @returns the wishlist item entity
+   */
+  public async moveItemFromShoppingCart(
+    wishlistId: number,
+    requestUser: UserEntity,
+    addWishlistItemDto: AddWishlistItemDto,
+  ): Promise<WishlistItemEntity> {
+    const wishlist = await this.listOne(wishlistId, requestUser)
+    const { productId } = addWishlistItemDto
+
+    const user = await UserEntity.findOne({ id: wishlist.userId })
+    const productGroup = user.shoppingCartId
+      ? await ProductGroupEntity.findOne({
+          productId,
+          shoppingCartId: user.shoppingCartId,
+        })
+      : undefined
+
+    if (!productGroup) {
+      throw new NotFoundException(
+        'The shopping cart has no product of this type',
+      )
+    }
+
+    const item =
+      wishlist.items.find(item => item.productId === productId) ??
+      (await this.saveItem(wishlist, productId))
+
+    await this.userRelationsService.removeProductFromShoppingCartByUserId(
+      wishlist.userId,
+      requestUser,
+      { productId, amount: productGroup.amount },
+    )
+
+    return item
+  }
+
+  /**
+   * Method that saves some product in the wishlist with its current price
+   *
+   * @param wishlist stores the wishlist entity
+   * @param productId stores the product id
+   * @throws {EntityNotFoundException} if the product was not found
+   * @returns the created wishlist item entity
+   */
+  private async saveItem(
+    wishlist: WishlistEntity,
+    productId: number,
+  ): Promise<WishlistItemEntity> {
+    const product = await ProductEntity.findOne({ id: productId })
+
+    if (!product || !product.isActive) {
+      throw new EntityNotFoundException(productId, ProductEntity)
+    }
+
+    const item = await new WishlistItemEntity({
+      savedPrice: product.getPriceWithDiscount(),
+      wishlistId: wishlist.id,
+      productId,
+    }).save()
+
+    item.product = product
+    WishlistService.calculatePriceDrops([item])
+
+    return item
+  }
+
+  /**
+   * Method that finds some item in the wishlist
+   *
+   * @param wishlist stores the wishlist entity with its items
+   * @param itemId stores the wishlist item id
+   * @throws {EntityNotFoundException} if the item was not found
+   * @returns the found wishlist item entity
+   */
+  private static findItem(
+    wishlist: WishlistEntity,
+    itemId: number,
+  ): WishlistItemEntity {
+    const item = wishlist.items.find(({ id }) => id === Number(itemId))
+
+    if (!item) {
+      throw new EntityNotFoundException(itemId, WishlistItemEntity)
+    }
+
+    return item
+  }
+
+  /**
+   * Method that compares the current price of the items products with the
+   * price they had when they were saved
+   *
+   * @param items stores the wishlist items with their products
+   */
+  private static calculatePriceDrops(items: WishlistItemEntity[] = []): void {
+    for (const item of items) {
+      if (!item.product) continue
+
+      item.currentPrice = item.product.getPriceWithDiscount()
+      item.priceDrop = Math.max(
+        Math.round((item.savedPrice - item.currentPrice) * 100) / 100,
+        0,
+      )
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { forwardRef, Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { WishlistItemEntity } from './entities/wishlist-item.entity'
+import { WishlistEntity } from './entities/wishlist.entity'
+
+import { WishlistService } from './services/wishlist.service'
+
+import { SharedWishlistController } from './controllers/shared-wishlist.controller'
+import { WishlistController } from './controllers/wishlist.controller'
+
+import { UserModule } from '../user/user.module'
+
+@Module({
+  imports: [
+    forwardRef(() => UserModule),
+    TypeOrmModule.forFeature([WishlistEntity, WishlistItemEntity]),
+  ],
+  controllers: [WishlistController, SharedWishlistController],
+  providers: [WishlistService],
+  exports: [WishlistService],
+})
+export class WishlistModule {}
@@ -0,0 +1,160 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  UseInterceptors,
+} from '@nestjs/common'
+import {
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger'
+import {
+  Crud,
+  CrudRequest,
+  CrudRequestInterceptor,
+  GetManyDefaultResponse,
+  ParsedRequest,
+} from '@nestjsx/crud'
+
+import { ApiQueryGetMany } from 'src/decorators/api-query-get-many/api-query-get-many.decorator'
+import { ApiQueryGet } from 'src/decorators/api-query-get/api-query-get.decorator'
+import { ProtectTo } from 'src/decorators/protect-to/protect-to.decorator'
+
+import { UpdateWorkDto } from '../models/update-work.dto'
+import { GetManyWorkDtoResponse, WorkDto } from '../models/work.dto'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+import { ProductDto } from 'src/modules/product/models/product.dto'
+
+import { WorkService } from '../services/work.service'
+
+import { map } from 'src/utils/crud'
+
+/**
+ * The app's main work controller class
+ *
+ * Class that deals with the work routes
+ */
+@Crud({
+  model: {
+    type: WorkDto,
+  },
+  query: {
+    persist: ['id', 'isActive'],
+    filter: [{ field: 'isActive', operator: '$eq', value: true }],
+    join: {
+      authors: {},
+    },
+  },
+  routes: {
+    exclude: [
+      'createManyBase',
+      'createOneBase',
+      'updateOneBase',
+      'replaceOneBase',
+      'recoverOneBase',
+      'getOneBase',
+      'getManyBase',
+      'deleteOneBase',
+    ],
+  },
+})
+@UseInterceptors(CrudRequestInterceptor)
+@ApiTags('works')
+@Controller('works')
+export class WorkController {
+  public constructor(private readonly workService: WorkService) {}
+
+  /**
+   * Method that is called when the user access the "/works" route
+   * with "GET" method
+   *
+   * @param crudRequest stores the joins, filters, etc
+   * @returns the found work entity dtos
+   */
+  @ApiQueryGetMany()
+  @ApiOperation({ summary: 'Retrieves multiple WorkDto' })
+  @ApiOkResponse({
+    description: 'Get many base response',
+    type: GetManyWorkDtoResponse,
+  })
+  @Get()
+  public async listMany(
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<WorkDto> | WorkDto[]> {
+    const entities = await this.workService.listMany(crudRequest)
+    return map(entities, entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the "/works/:id"
+   * route with "GET" method
+   *
+   * @param workId stores the target work id
+   * @param crudRequest stores the joins, filters, etc
+   * @returns the found work entity dto with its offers
+   */
+  @ApiQueryGet()
+  @ApiOperation({
+    summary: 'Retrieve a single WorkDto with its offers sorted by price',
+  })
+  @ApiOkResponse({
+    description: 'Retrieve a single WorkDto',
+    type: WorkDto,
+  })
+  @ApiNotFoundResponse({ description: 'Work not found' })
+  @Get(':id')
+  public async listOne(
+    @Param('id') workId: number,
+    @ParsedRequest() crudRequest?: CrudRequest,
+  ): Promise<WorkDto> {
+    const entity = await this.workService.listOne(workId, crudRequest)
+    return entity.toDto()
+  }
+
+  /**
+   * Method that is called when the user access the "/works/:id/offers"
+   * route with "GET" method
+   *
+   * @param workId stores the target work id
+   * @throws {EntityNotFoundException} if the work was not found
+   * @returns the offers that are in stock, the cheapest ones first
+   */
+  @ApiOperation({
+    summary: 'Retrieves the offers of some work sorted by price',
+  })
+  @ApiOkResponse({
+    description: 'Gets the offers that are in stock',
+    type: ProductDto,
+    isArray: true,
+  })
+  @ApiNotFoundResponse({ description: 'Work not found' })
+  @Get(':id/offers')
+  public async listOffers(@Param('id') workId: number): Promise<ProductDto[]> {
+    const entities = await this.workService.listOffers(workId)
+    return entities.map(entity => entity.toDto())
+  }
+
+  /**
+   * Method that is called when the user access the "/works/:id"
+   * route with "PATCH"
+   *
+   * @param workId stores the target work id
+   * @param updateWorkPayload stores the new work data
+   * @throws {EntityNotFoundException} if the work was not found
+   */
+  @ProtectTo(RolesEnum.Admin)
+  @ApiOperation({ summary: 'Updates a single work' })
+  @ApiOkResponse({ description: 'Updates work' })
+  @ApiNotFoundResponse({ description: 'Work not found' })
+  @Patch(':id')
+  public async update(
+    @Param('id') workId: number,
+    @Body() updateWorkPayload: UpdateWorkDto,
+  ): Promise<void> {
+    await this.workService.update(workId, updateWorkPayload)
+  }
+}
@@ -0,0 +1,133 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+import { Column, Entity, JoinTable, ManyToMany, OneToMany } from 'typeorm'
+
+import { BaseEntity } from 'src/common/base.entity'
+import { AuthorEntity } from 'src/modules/author/entities/author.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+
+import { WorkDto } from '../models/work.dto'
+import { ToDto } from 'src/common/to-dto.interface'
+import { BookFormat } from 'src/models/enums/book-format.enum'
+
+/**
+ * The app's main work entity class
+ *
+ * Class that represents the canonical catalogue item, like some book,
+ * that is sold by the sellers through their own offers
+ */
+@Entity('work')
+export class WorkEntity extends BaseEntity implements ToDto<WorkDto> {
+  //#region Columns
+
+  @ApiProperty()
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: false,
+  })
+  public name: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'text',
+    nullable: true,
+  })
+  public description?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'text',
+    nullable: true,
+  })
+  public imageUrl?: string
+
+  /**
+   * The isbn-13 of the book, the offers of the same isbn always share the
+   * same work
+   */
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 13,
+    nullable: true,
+    unique: true,
+  })
+  public isbn?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  public publisher?: string
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public edition?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public publicationYear?: number
+
+  @ApiPropertyOptional()
+  @Column({
+    type: 'int',
+    nullable: true,
+  })
+  public pageCount?: number
+
+  @ApiPropertyOptional({ description: 'The ISO 639-1 language code' })
+  @Column({
+    type: 'varchar',
+    length: 2,
+    nullable: true,
+  })
+  public language?: string
+
+  @ApiPropertyOptional({ enum: BookFormat })
+  @Column({
+    type: 'varchar',
+    length: 16,
+    nullable: true,
+  })
+  public format?: BookFormat
+
+  //#region Relations
+
+  @ApiPropertyOptional({ type: () => AuthorEntity, isArray: true })
+  @JoinTable()
+  @ManyToMany(() => AuthorEntity)
+  public authors?: AuthorEntity[]
+
+  @ApiPropertyOptional({ type: () => ProductEntity, isArray: true })
+  @OneToMany(
+    () => ProductEntity,
+    product => product.work,
+  )
+  public offers?: ProductEntity[]
+
+  //#endregion
+
+  //#endregion
+
+  public constructor(partial: Partial<WorkEntity>) {
+    super()
+    Object.assign(this, partial)
+  }
+
+  /**
+   * Method that converts the entity to your dto
+   *
+   * @returns the dto data
+   */
+  public toDto(): WorkDto {
+    return new WorkDto(this)
+  }
+}
@@ -0,0 +1,85 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger'
+
+import { WorkEntity } from '../entities/work.entity'
+
+import { BaseGetManyDefaultResponseDto } from 'src/common/base-get-many-default-response.dto'
+import { BaseResponseDto } from 'src/common/base-response.dto'
+import { BookFormat } from 'src/models/enums/book-format.enum'
+import { AuthorDto } from 'src/modules/author/models/author.dto'
+import { ProductDto } from 'src/modules/product/models/product.dto'
+
+/**
+ * The app's main work dto class
+ *
+ * Class that deals with the work return data
+ */
+export class WorkDto extends BaseResponseDto {
+  @ApiProperty()
+  public name: string
+
+  @ApiPropertyOptional()
+  public description?: string
+
+  @ApiPropertyOptional()
+  public imageUrl?: string
+
+  @ApiPropertyOptional()
+  public isbn?: string
+
+  @ApiPropertyOptional()
+  public publisher?: string
+
+  @ApiPropertyOptional()
+  public edition?: number
+
+  @ApiPropertyOptional()
+  public publicationYear?: number
+
+  @ApiPropertyOptional()
+  public pageCount?: number
+
+  @ApiPropertyOptional({ description: 'The ISO 639-1 language code' })
+  public language?: string
+
+  @ApiPropertyOptional({ enum: BookFormat })
+  public format?: BookFormat
+
+  @ApiPropertyOptional({ type: () => AuthorDto, isArray: true })
+  public authors?: AuthorDto[]
+
+  @ApiPropertyOptional({
+    type: () => ProductDto,
+    isArray: true,
+    description: 'The offers of the sellers, the cheapest ones first',
+  })
+  public offers?: ProductDto[]
+
+  public constructor(entity: WorkEntity) {
+    super(entity)
+
+    this.name = entity.name
+    this.description = entity.description
+    this.imageUrl = entity.imageUrl
+    this.isbn = entity.isbn
+    this.publisher = entity.publisher
+    this.edition = entity.edition
+    this.publicationYear = entity.publicationYear
+    this.pageCount = entity.pageCount
+    this.language = entity.language
+    this.format = entity.format
+
+    // relations
+    this.authors = entity.authors?.map(author => author.toDto())
+    this.offers = entity.offers?.map(offer => offer.toDto())
+  }
+}
+
+/**
+ * The app's main get many work dto response
+ *
+ * Class that deals with the work return data with pagination
+ */
+export class GetManyWorkDtoResponse extends BaseGetManyDefaultResponseDto {
+  @ApiProperty({ type: WorkDto, isArray: true })
+  public data: WorkDto[]
+}
@@ -0,0 +1,185 @@
+import { Test } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { createConnection, getConnection, getRepository } from 'typeorm'
+
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { WorkEntity } from '../entities/work.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+import { UserEntity } from 'src/modules/user/entities/user.entity'
+
+import { ProductCondition } from 'src/models/enums/product-condition.enum'
+import { RolesEnum } from 'src/models/enums/roles.enum'
+
+import { WorkService } from './work.service'
+
+describe('WorkService', () => {
+  let service: WorkService
+  let sequence = 0
+
+  beforeAll(async () => {
+    await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      entities: ['src/modules/**/*.entity.ts'],
+      synchronize: true,
+      logging: false,
+    })
+  })
+
+  afterAll(async () => {
+    await getConnection().close()
+  })
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        WorkService,
+        {
+          provide: getRepositoryToken(WorkEntity),
+          useValue: getRepository(WorkEntity),
+        },
+      ],
+    }).compile()
+
+    service = await module.resolve(WorkService)
+  })
+
+  /**
+   * Function that creates a new offer of some work, sold by a new seller
+   *
+   * @param work stores the work entity
+   * @param offer stores the offer price, discount, condition and stock
+   * @returns the created product entity
+   */
+  async function createOffer(
+    work: WorkEntity,
+    offer: Partial<ProductEntity>,
+  ): Promise<ProductEntity> {
+    sequence++
+    const seller = await new UserEntity({
+      name: 'USER',
+      lastName: 'TEST',
+      email: `work-${sequence}@test.com`,
+      password: '123456',
+      roles: RolesEnum.Seller,
+    }).save()
+
+    return await new ProductEntity({
+      name: work.name,
+      description: work.description,
+      stockAmount: 1,
+      ...offer,
+      userId: seller.id,
+      workId: work.id,
+    }).save()
+  }
+
+  describe('listOffers', () => {
+    // tests if the same book can be sold by many sellers
+    it('should list the offers in stock sorted by price', async () => {
+      const work = await new WorkEntity({
+        name: 'Dom Casmurro',
+        description: 'WORK-TEST',
+        isbn: '9780306406157',
+      }).save()
+
+      const expensive = await createOffer(work, { price: 50 })
+      const used = await createOffer(work, {
+        price: 40,
+        discount: 0.5,
+        condition: ProductCondition.Used,
+      })
+      const likeNew = await createOffer(work, {
+        price: 30,
+        condition: ProductCondition.LikeNew,
+      })
+      await createOffer(work, { price: 10, stockAmount: 0 })
+
+      const offers = await service.listOffers(work.id)
+
+      expect(offers.map(offer => offer.id)).toEqual([
+        used.id,
+        likeNew.id,
+        expensive.id,
+      ])
+      expect(offers[0].user).toBeDefined()
+    })
+
+    // tests if the work must exist
+    it('should throw when the work does not exist', async () => {
+      await expect(service.listOffers(0)).rejects.toThrow(
+        EntityNotFoundException,
+      )
+    })
+  })
+
+  describe('listOne', () => {
+    // tests if the work page brings its offers
+    it('should get the work with its offers', async () => {
+      const work = await new WorkEntity({
+        name: 'Memórias Póstumas',
+        description: 'WORK-TEST',
+      }).save()
+
+      const offer = await createOffer(work, { price: 20 })
+
+      expect((await service.listOne(work.id)).toDto()).toMatchObject({
+        name: 'Memórias Póstumas',
+        offers: [expect.objectContaining({ id: offer.id })],
+      })
+    })
+  })
+
+  describe('update', () => {
+    // tests if the work changes reach the offers that were not customized
+    it('should update the offers that show the previous work data', async () => {
+      const work = await new WorkEntity({
+        name: 'Quincas Borba',
+        description: 'WORK-TEST',
+      }).save()
+
+      const copied = await createOffer(work, { price: 20 })
+      const customized = await createOffer(work, {
+        price: 20,
+        description: 'Signed by the translator',
+      })
+
+      await service.update(work.id, {
+        name: 'Quincas Borba (Annotated)',
+        description: 'The annotated edition',
+      })
+
+      await copied.reload()
+      await customized.reload()
+
+      expect(copied).toMatchObject({
+        name: 'Quincas Borba (Annotated)',
+        description: 'The annotated edition',
+      })
+      expect(customized).toMatchObject({
+        name: 'Quincas Borba (Annotated)',
+        description: 'Signed by the translator',
+      })
+    })
+  })
+
+  describe('createFromOffer', () => {
+    // tests if two first offers of the same book share the same work
+    it('should return the existing work when the isbn is already used', async () => {
+      const work = await new WorkEntity({
+        name: 'Helena',
+        isbn: '9788535914849',
+      }).save()
+
+      const found = await WorkService.createFromOffer(getConnection().manager, {
+        name: 'Helena',
+        isbn: '978-85-359-1484-9',
+      })
+
+      expect(found.id).toBe(work.id)
+      expect(await WorkEntity.count({ isbn: '9788535914849' })).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,178 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { CrudRequest, GetManyDefaultResponse } from '@nestjsx/crud'
+import { TypeOrmCrudService } from '@nestjsx/crud-typeorm'
+import { EntityManager, IsNull, MoreThan, Repository } from 'typeorm'
+
+import { EntityNotFoundException } from 'src/exceptions/not-found/entity-not-found.exception'
+
+import { WorkEntity } from '../entities/work.entity'
+import { ProductEntity } from 'src/modules/product/entities/product.entity'
+
+import { UpdateWorkDto } from '../models/update-work.dto'
+
+import { toIsbn13 } from 'src/utils/isbn'
+import { isUniqueViolation } from 'src/utils/sql'
+
+/**
+ * The app's main work service class
+ *
+ * Class that deals with the canonical catalogue items and their offers
+ */
+@Injectable()
+export class WorkService extends TypeOrmCrudService<WorkEntity> {
+  public constructor(
+    @InjectRepository(WorkEntity)
+    repository: Repository<WorkEntity>,
+  ) {
+    super(repository)
+  }
+
+  /**
+   * Method that can get some work entities
+   *
+   * @param crudRequest stores the joins, filters, etc
+   * @returns the found work entities
+   */
+  public async listMany(
+    crudRequest?: CrudRequest,
+  ): Promise<GetManyDefaultResponse<WorkEntity> | WorkEntity[]> {
+    return await super.getMany(crudRequest)
+  }
+
+  /**
+   * Method that can get one work entity with its available offers, the
+   * cheapest ones first
+   *
+   * @param workId stores the work id
+   * @param crudRequest stores the joins, filters, etc
+   * @throws {EntityNotFoundException} if the work entity was not found
+   * @returns the found work entity
+   */
+  public async listOne(
+    workId: number,
+    crudRequest?: CrudRequest,
+  ): Promise<WorkEntity> {
+    const entity: WorkEntity = crudRequest
+      ? await super.getOne(crudRequest).catch(() => undefined)
+      : await WorkEntity.findOne({ id: workId })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(workId, WorkEntity)
+    }
+
+    entity.offers = await this.listOffers(workId)
+
+    return entity
+  }
+
+  /**
+   * Method that gets the offers of some work that are in stock, sorted by
+   * their price with discount
+   *
+   * @param workId stores the work id
+   * @throws {EntityNotFoundException} if the work entity was not found
+   * @returns the found offers
+   */
+  public async listOffers(workId: number): Promise<ProductEntity[]> {
+    const work = await WorkEntity.findOne({ id: workId })
+
+    if (!work || !work.isActive) {
+      throw new EntityNotFoundException(workId, WorkEntity)
+    }
+
+    const offers = await ProductEntity.find({
+      where: {
+        workId,
+        isActive: true,
+        stockAmount: MoreThan(0),
+        parentId: IsNull(),
+      },
+      relations: ['user', 'variants'],
+    })
+
+    return offers.sort(
+      (a, b) =>
+        a.getPriceWithDiscount() - b.getPriceWithDiscount() || a.id - b.id,
+    )
+  }
+
+  /**
+   * Method that can update some work. The offers that still show the
+   * previous work data are updated too, while the data customized by the
+   * sellers in their offers is kept
+   *
+   * @param workId stores the work id
+   * @param updateWorkPayload stores the new work data
+   * @throws {EntityNotFoundException} if the work entity was not found
+   */
+  public async update(
+    workId: number,
+    updateWorkPayload: UpdateWorkDto,
+  ): Promise<void> {
+    const entity = await WorkEntity.findOne({ id: workId })
+
+    if (!entity || !entity.isActive) {
+      throw new EntityNotFoundException(workId, WorkEntity)
+    }
+
+    await this.repo.manager.transaction(async manager => {
+      await manager.update(WorkEntity, { id: workId }, updateWorkPayload)
+
+      for (const field of Object.keys(updateWorkPayload)) {
+        const value = updateWorkPayload[field as keyof UpdateWorkDto]
+        const previous = entity[field as keyof UpdateWorkDto]
+
+        if (value === undefined || value === previous) continue
+
+        await manager.update(
+          ProductEntity,
+          { workId, [field]: previous ?? IsNull() },
+          { [field]: value },
+        )
+      }
+    })
+  }
+
+  /**
+   * Method that creates the work of some offer with the offer book data.
+   * When a concurrent request created the work with the same isbn in the
+   * meantime, that work is returned instead
+   *
+   * @param manager stores the entity manager used to save the work
+   * @param offer stores the offer data
+   * @returns the created or found work entity
+   */
+  public static async createFromOffer(
+    manager: EntityManager,
+    offer: Partial<ProductEntity>,
+  ): Promise<WorkEntity> {
+    const isbn = offer.isbn && toIsbn13(offer.isbn)
+
+    try {
+      return await manager.save(
+        new WorkEntity({
+          name: offer.name,
+          description: offer.description,
+          imageUrl: offer.imageUrl,
+          isbn,
+          publisher: offer.publisher,
+          edition: offer.edition,
+          publicationYear: offer.publicationYear,
+          pageCount: offer.pageCount,
+          language: offer.language,
+          format: offer.format,
+          authors: offer.authors,
+        }),
+      )
+    } catch (error) {
+      if (!isbn || !isUniqueViolation(error, 'isbn')) throw error
+
+      return await manager.findOne(
+        WorkEntity,
+        { isbn },
+        { relations: ['authors'] },
+      )
+    }
+  }
+}
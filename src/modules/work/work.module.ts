@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+
+import { WorkEntity } from './entities/work.entity'
+
+import { WorkService } from './services/work.service'
+
+import { WorkController } from './controllers/work.controller'
+
+@Module({
+  imports: [TypeOrmModule.forFeature([WorkEntity])],
+  controllers: [WorkController],
+  providers: [WorkService],
+  exports: [WorkService],
+})
+export class WorkModule {}
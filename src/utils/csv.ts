@@ -0,0 +1,113 @@
+/**
+ * Renders some rows as a csv document, quoting the values when needed
+ *
+ * The texts that start with "=", "+", "-" or "@" are prefixed with "'", so
+ * the spreadsheet applications do not run them as formulas
+ *
+ * @param header stores the name of the columns
+ * @param rows stores the values of each row, in the same order of the
+ * header
+ * @returns the csv file content
+ */
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows]
+    .map(row => row.map(value => escape(value)).join(','))
+    .join('\r\n')
+}
+
+/**
+ * Converts some value to a csv field
+ *
+ * @param value stores the value that will be converted
+ * @returns the csv field
+ */
+function escape(value: unknown): string {
+  if (value === undefined || value === null) return ''
+
+  let text = value instanceof Date ? value.toISOString() : String(value)
+
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Renders some objects as a csv document, using the informed properties
+ * as the columns
+ *
+ * @param columns stores the properties that will be written
+ * @param items stores the objects of each row
+ * @returns the csv file content
+ */
+export function objectsToCsv<T>(
+  columns: (keyof T & string)[],
+  items: T[],
+): string {
+  return toCsv(
+    columns,
+    items.map(item => columns.map(column => item[column])),
+  )
+}
+
+/**
+ * Reads some csv document, using its first row as the header
+ *
+ * @param content stores the csv file content
+ * @returns an object for each row, indexed by the header columns
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const rows: string[][] = []
+
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content.charAt(i)
+
+    if (quoted) {
+      if (char === '"' && content.charAt(i + 1) === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content.charAt(i + 1) === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  const [header = [], ...body] = rows.filter(
+    values => values.length > 1 || values[0] !== '',
+  )
+
+  return body.map(values =>
+    header.reduce(
+      (record, column, index) => ({
+        ...record,
+        [column.trim()]: values[index] ?? '',
+      }),
+      {},
+    ),
+  )
+}
@@ -0,0 +1,78 @@
+import { IsIsbn } from 'src/decorators/is-isbn/is-isbn.decorator'
+
+import { isValidIsbn, normalizeIsbn, toIsbn13 } from 'src/utils/isbn'
+
+import { validate } from 'class-validator'
+
+describe('isbn', () => {
+  describe('normalizeIsbn', () => {
+    // tests if the separators are removed from the isbn
+    it('should remove the hyphens and the spaces', () => {
+      expect(normalizeIsbn('0-8044-2957-x')).toBe('080442957X')
+      expect(normalizeIsbn('978 3 16 148410 0')).toBe('9783161484100')
+    })
+  })
+
+  describe('isValidIsbn', () => {
+    // tests if the isbn-10 check digit is validated
+    it('should validate the isbn-10 check digit', () => {
+      expect(isValidIsbn('0-306-40615-2')).toBe(true)
+      expect(isValidIsbn('080442957X')).toBe(true)
+      expect(isValidIsbn('0-306-40615-3')).toBe(false)
+    })
+
+    // tests if the isbn-13 check digit is validated
+    it('should validate the isbn-13 check digit', () => {
+      expect(isValidIsbn('978-3-16-148410-0')).toBe(true)
+      expect(isValidIsbn('978-3-16-148410-1')).toBe(false)
+    })
+
+    // tests if the values that are not isbns are refused
+    it('should refuse the values with other lengths or characters', () => {
+      expect(isValidIsbn('')).toBe(false)
+      expect(isValidIsbn('030640615')).toBe(false)
+      expect(isValidIsbn('978316148410X')).toBe(false)
+      expect(isValidIsbn('ABCDEFGHIJ')).toBe(false)
+    })
+  })
+
+  describe('toIsbn13', () => {
+    // tests if the isbn-10 is converted with a new check digit
+    it('should convert the isbn-10 to the isbn-13', () => {
+      expect(toIsbn13('0-306-40615-2')).toBe('9780306406157')
+      expect(toIsbn13('080442957X')).toBe('9780804429573')
+    })
+
+    // tests if the isbn-13 is only normalized
+    it('should keep the isbn-13 digits', () => {
+      expect(toIsbn13('978-3-16-148410-0')).toBe('9783161484100')
+    })
+  })
+
+  describe('IsIsbn', () => {
+    class BookDto {
+      @IsIsbn()
+      public isbn: unknown
+
+      public constructor(isbn: unknown) {
+        this.isbn = isbn
+      }
+    }
+
+    // tests if the decorator accepts the valid isbns
+    it('should accept the valid isbn-10 and isbn-13 values', async () => {
+      expect(await validate(new BookDto('0-306-40615-2'))).toHaveLength(0)
+      expect(await validate(new BookDto('9783161484100'))).toHaveLength(0)
+    })
+
+    // tests if the decorator refuses the invalid isbns
+    it('should refuse the invalid values', async () => {
+      const [error] = await validate(new BookDto('9783161484101'))
+
+      expect(error.constraints).toEqual({
+        IsIsbnValidatorConstraint: 'The isbn is not valid!',
+      })
+      expect(await validate(new BookDto(9783161484100))).toHaveLength(1)
+    })
+  })
+})
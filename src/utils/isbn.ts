@@ -0,0 +1,61 @@
+/**
+ * Removes the hyphens and spaces of some isbn, keeping only its digits and
+ * the "X" check digit of the isbn-10 values
+ *
+ * @param value stores the isbn value
+ * @returns the normalized isbn
+ */
+export function normalizeIsbn(value: string): string {
+  return value.replace(/[\s-]+/g, '').toUpperCase()
+}
+
+/**
+ * Verifies if some isbn-10 or isbn-13 has a valid check digit
+ *
+ * @param value stores the isbn value, with or without hyphens
+ * @returns true if the isbn is valid, otherwise false
+ */
+export function isValidIsbn(value: string): boolean {
+  const isbn = normalizeIsbn(value)
+
+  if (/^\d{9}[\dX]$/.test(isbn)) {
+    let sum = 0
+    for (let i = 0; i < 10; i++) {
+      const digit = isbn.charAt(i) === 'X' ? 10 : parseInt(isbn.charAt(i))
+      sum += digit * (10 - i)
+    }
+    return sum % 11 === 0
+  }
+
+  if (/^\d{13}$/.test(isbn)) {
+    let sum = 0
+    for (let i = 0; i < 13; i++) {
+      sum += parseInt(isbn.charAt(i)) * (i % 2 === 0 ? 1 : 3)
+    }
+    return sum % 10 === 0
+  }
+
+  return false
+}
+
+/**
+ * Converts some valid isbn-10 to its isbn-13 version, the isbn-13 values
+ * are only normalized
+ *
+ * @param value stores the isbn value, with or without hyphens
+ * @returns the isbn-13 value
+ */
+export function toIsbn13(value: string): string {
+  const isbn = normalizeIsbn(value)
+
+  if (isbn.length === 13) return isbn
+
+  const digits = `978${isbn.slice(0, 9)}`
+
+  let sum = 0
+  for (let i = 0; i < 12; i++) {
+    sum += parseInt(digits.charAt(i)) * (i % 2 === 0 ? 1 : 3)
+  }
+
+  return `${digits}${(10 - (sum % 10)) % 10}`
+}
@@ -0,0 +1,159 @@
+/**
+ * Interface that represents the data read from some ONIX product. Only the
+ * reference tags of the ONIX 3.0 messages are supported
+ */
+export interface OnixProduct {
+  isbn?: string
+
+  title?: string
+
+  authors: string[]
+
+  publisher?: string
+
+  coverUrl?: string
+
+  description?: string
+
+  edition?: number
+
+  publicationYear?: number
+
+  pageCount?: number
+
+  /**
+   * The ISO 639-2/B language code, like "por" or "eng"
+   */
+  languageCode?: string
+
+  /**
+   * The ONIX product form code, like "BB" for hardbacks
+   */
+  productForm?: string
+}
+
+/**
+ * Reads the products of some ONIX 3.0 message
+ *
+ * @param content stores the xml file content
+ * @returns the data of each product
+ */
+export function parseOnix(content: string): OnixProduct[] {
+  return elements(content, 'Product').map(product => {
+    const identifiers = elements(product, 'ProductIdentifier')
+    const isbn =
+      identifiers.find(
+        identifier => text(identifier, 'ProductIDType') === '15',
+      ) ??
+      identifiers.find(identifier => text(identifier, 'ProductIDType') === '02')
+
+    const title = elements(product, 'TitleElement')[0]
+    const titleText =
+      text(title, 'TitleText') ??
+      [text(title, 'TitlePrefix'), text(title, 'TitleWithoutPrefix')]
+        .filter(value => value)
+        .join(' ')
+
+    const authors = elements(product, 'Contributor')
+      .filter(contributor => text(contributor, 'ContributorRole') === 'A01')
+      .map(
+        contributor =>
+          text(contributor, 'PersonName') ??
+          [text(contributor, 'NamesBeforeKey'), text(contributor, 'KeyNames')]
+            .filter(value => value)
+            .join(' '),
+      )
+      .filter(name => name)
+
+    const description = elements(product, 'TextContent').find(
+      textContent => text(textContent, 'TextType') === '03',
+    )
+    const cover = elements(product, 'SupportingResource').find(
+      resource => text(resource, 'ResourceContentType') === '01',
+    )
+    const pages = elements(product, 'Extent').find(extent =>
+      ['00', '11'].includes(text(extent, 'ExtentType')),
+    )
+    const publishingDate = elements(product, 'PublishingDate').find(
+      date => text(date, 'PublishingDateRole') === '01',
+    )
+    const language = elements(product, 'Language').find(
+      value => text(value, 'LanguageRole') === '01',
+    )
+
+    return {
+      isbn: isbn && text(isbn, 'IDValue'),
+      title: titleText || undefined,
+      authors,
+      publisher: text(product, 'PublisherName'),
+      coverUrl: cover && text(cover, 'ResourceLink'),
+      description: description && text(description, 'Text'),
+      edition: toNumber(text(product, 'EditionNumber')),
+      publicationYear: toNumber(
+        publishingDate && text(publishingDate, 'Date')?.slice(0, 4),
+      ),
+      pageCount: toNumber(pages && text(pages, 'ExtentValue')),
+      languageCode: language && text(language, 'LanguageCode'),
+      productForm: text(product, 'ProductForm'),
+    }
+  })
+}
+
+/**
+ * Gets the content of all the elements with some tag
+ *
+ * @param xml stores the xml where the elements are searched
+ * @param tag stores the element tag
+ * @returns the inner xml of each element
+ */
+function elements(xml: string | undefined, tag: string): string[] {
+  if (!xml) return []
+
+  const regex = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g')
+  const values: string[] = []
+
+  let match: RegExpExecArray
+  while ((match = regex.exec(xml))) {
+    values.push(match[1])
+  }
+
+  return values
+}
+
+/**
+ * Gets the text of the first element with some tag
+ *
+ * @param xml stores the xml where the element is searched
+ * @param tag stores the element tag
+ * @returns the decoded text or undefined if the element does not exist
+ */
+function text(xml: string | undefined, tag: string): string | undefined {
+  const [value] = elements(xml, tag)
+
+  if (value === undefined) return undefined
+
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([\da-f]+);/gi, (_, code) =>
+      String.fromCharCode(parseInt(code, 16)),
+    )
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+/**
+ * Converts some text to an integer
+ *
+ * @param value stores the text value
+ * @returns the integer or undefined if the text is not a number
+ */
+function toNumber(value?: string): number | undefined {
+  const number = parseInt(value, 10)
+  return isNaN(number) ? undefined : number
+}
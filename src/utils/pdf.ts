@@ -0,0 +1,132 @@
+/**
+ * Interface that represents some text written in a pdf page
+ */
+export interface PdfText {
+  /**
+   * The horizontal position, in points, from the left border
+   */
+  x: number
+
+  /**
+   * The vertical position, in points, from the bottom border
+   */
+  y: number
+
+  text: string
+
+  size?: number
+
+  bold?: boolean
+}
+
+/**
+ * The width and the height of an A4 page, in points
+ */
+export const PDF_PAGE_SIZE = [595, 842]
+
+/**
+ * Renders a pdf document using the standard Helvetica fonts, so no font
+ * needs to be embedded. Only the characters of the latin alphabet are
+ * supported, the other ones are replaced by "?"
+ *
+ * @param pages stores the texts of each page of the document
+ * @returns the pdf file content
+ */
+export function renderPdf(pages: PdfText[][]): Buffer {
+  const [width, height] = PDF_PAGE_SIZE
+
+  // the objects 1 to 4 are the catalog, the page tree and the fonts, then
+  // each page has one object for itself and one for its content
+  const pageIds = pages.map((_, index) => 5 + index * 2)
+
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>', 'latin1'),
+    Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds
+        .map(id => `${id} 0 R`)
+        .join(' ')}] /Count ${pages.length} >>`,
+      'latin1',
+    ),
+    Buffer.from(
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      'latin1',
+    ),
+    Buffer.from(
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      'latin1',
+    ),
+  ]
+
+  pages.forEach((texts, index) => {
+    const content = Buffer.from(
+      texts
+        .map(
+          ({ x, y, text, size = 10, bold = false }) =>
+            `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${y} Td (${escape(
+              text,
+            )}) Tj ET`,
+        )
+        .join('\n'),
+      'latin1',
+    )
+
+    objects.push(
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[
+          index
+        ] + 1} 0 R >>`,
+        'latin1',
+      ),
+      Buffer.concat([
+        Buffer.from(`<< /Length ${content.length} >>\nstream\n`, 'latin1'),
+        content,
+        Buffer.from('\nendstream', 'latin1'),
+      ]),
+    )
+  })
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n', 'latin1')]
+  const offsets: number[] = []
+  let length = chunks[0].length
+
+  objects.forEach((object, index) => {
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+      object,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ])
+
+    offsets.push(length)
+    chunks.push(chunk)
+    length += chunk.length
+  })
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+  ].join('\n')
+
+  chunks.push(Buffer.from(xref, 'latin1'))
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Escapes the characters that have special meaning inside pdf strings
+ *
+ * @param text stores the text that will be escaped
+ * @returns the escaped text
+ */
+function escape(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/[\\()]/g, char => `\\${char}`)
+}
@@ -0,0 +1,162 @@
+import { BadRequestException } from '@nestjs/common'
+import { Connection, EntityTarget, QueryFailedError } from 'typeorm'
+
+import { ReportPeriod } from 'src/models/enums/report-period.enum'
+
+/**
+ * Interface that represents the interval used to filter some report
+ */
+export interface DateRange {
+  /**
+   * The first instant of the interval, inclusive
+   */
+  from: Date
+
+  /**
+   * The last instant of the interval, exclusive
+   */
+  to: Date
+}
+
+/**
+ * Parses the dates sent to filter some report. When the end date has no
+ * time, the whole day is included, and when the dates are not sent the
+ * last 30 days are used
+ *
+ * @param from stores the start date sent by the user
+ * @param to stores the end date sent by the user
+ * @throws {BadRequestException} if some date is invalid or if the start
+ * date is after the end date
+ * @returns the parsed interval
+ */
+export function parseDateRange(from?: string, to?: string): DateRange {
+  const end = to ? new Date(to) : new Date()
+
+  if (to && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    end.setUTCDate(end.getUTCDate() + 1)
+  }
+
+  const start = from
+    ? new Date(from)
+    : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000)
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new BadRequestException('It is required to send valid dates')
+  }
+
+  if (start >= end) {
+    throw new BadRequestException('The start date must be before the end date')
+  }
+
+  return { from: start, to: end }
+}
+
+/**
+ * Validates the period used to group some report timeline
+ *
+ * @param period stores the period sent by the user
+ * @throws {BadRequestException} if the period is invalid
+ * @returns the period, or "day" when it was not sent
+ */
+export function parseReportPeriod(period?: string): ReportPeriod {
+  if (period === undefined) return ReportPeriod.Day
+
+  if (!Object.values(ReportPeriod).includes(period as ReportPeriod)) {
+    throw new BadRequestException('It is required to send a valid period')
+  }
+
+  return period as ReportPeriod
+}
+
+/**
+ * Validates the amount of rows returned by some ranking report
+ *
+ * @param limit stores the limit sent by the user
+ * @param defaultLimit stores the limit used when it was not sent
+ * @throws {BadRequestException} if the limit is not between 1 and 100
+ * @returns the limit
+ */
+export function parseReportLimit(limit?: number, defaultLimit = 5): number {
+  if (limit === undefined) return defaultLimit
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+    throw new BadRequestException('The limit must be between 1 and 100')
+  }
+
+  return limit
+}
+
+/**
+ * Creates the sql expression that truncates some date column to the
+ * beginning of its day, week (starting on monday) or month, formatted as
+ * "YYYY-MM-DD"
+ *
+ * @param connection stores the connection that will run the query
+ * @param column stores the column, as "alias.property"
+ * @param period stores the period used to truncate the date
+ * @returns the sql expression
+ */
+export function truncateDate(
+  connection: Connection,
+  column: string,
+  period: ReportPeriod,
+): string {
+  if (connection.options.type === 'postgres') {
+    return `to_char(date_trunc('${period}', ${column}), 'YYYY-MM-DD')`
+  }
+
+  switch (period) {
+    case ReportPeriod.Week:
+      return `date(${column}, 'weekday 0', '-6 days')`
+    case ReportPeriod.Month:
+      return `strftime('%Y-%m-01', ${column})`
+    default:
+      return `date(${column})`
+  }
+}
+
+/**
+ * Converts some date to the format that the database stores in some
+ * column, so it can be compared in the query builders
+ *
+ * @param connection stores the connection that will run the query
+ * @param target stores the entity that has the column
+ * @param propertyName stores the column property name
+ * @param date stores the date that will be converted
+ * @returns the converted date
+ */
+export function toDatabaseDate(
+  connection: Connection,
+  target: EntityTarget<unknown>,
+  propertyName: string,
+  date: Date,
+): unknown {
+  return connection.driver.preparePersistentValue(
+    date,
+    connection.getMetadata(target).findColumnWithPropertyName(propertyName),
+  )
+}
+
+/**
+ * Checks if some query failed because the value sent to some unique
+ * column is already used by another row
+ *
+ * @param error stores the error thrown by the query
+ * @param column stores the unique column property name
+ * @returns true if the error is an unique violation of the column
+ */
+export function isUniqueViolation(error: unknown, column: string): boolean {
+  if (!(error instanceof QueryFailedError)) return false
+
+  const { code, detail, message } = error as QueryFailedError & {
+    code?: string
+    detail?: string
+  }
+
+  // postgres reports the column in the detail, while sqlite reports it in
+  // the message, as "UNIQUE constraint failed: table.column"
+  return code === '23505'
+    ? !!detail?.includes(`"${column}"`)
+    : message.includes('UNIQUE constraint failed') &&
+        message.includes(`.${column}`)
+}